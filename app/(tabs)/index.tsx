@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   StyleSheet,
   View,
@@ -9,11 +9,117 @@ import {
   ActivityIndicator,
   Alert,
   Animated,
-  Modal,
   Linking,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+import { RunAnywhere, sdkAvailable } from '@/lib/runanywhere';
+import { createSDKStreamer, type StreamHandle, type TokenStreamer } from '@/lib/llm-stream';
+import {
+  ChatTemplates,
+  cleanAssistantReply,
+  createMessage,
+  detectChatTemplate,
+  formatChatPrompt,
+  type ChatMessage,
+} from '@/lib/chat-templates';
+import {
+  createConversation,
+  loadConversation,
+  saveConversation,
+  type Conversation,
+} from '@/lib/conversation-store';
+import {
+  activePath,
+  appendMessage,
+  branchLeaves,
+  emptyTree,
+  pathTo,
+  removeLeaf,
+  selectSibling,
+  siblingPosition,
+  toMessages,
+  updateNode,
+  type ConversationTree,
+} from '@/lib/conversation-tree';
+import { toGenerateOptions } from '@/lib/generation-params';
+import {
+  DEFAULT_CONTEXT_LENGTH,
+  buildSummaryRequest,
+  estimateTokens,
+  fitToContext,
+  measureUsage,
+  SUMMARY_MAX_TOKENS,
+  type ContextStrategy,
+  type RollingSummary,
+} from '@/lib/context-budget';
+import { useGenerationSettings } from '@/hooks/use-generation-settings';
+import { usePersonas } from '@/hooks/use-personas';
+import { useModelStates } from '@/hooks/use-model-states';
+import { useDownloads } from '@/hooks/use-downloads';
+import { createToolRegistry, runToolLoop, type ToolStep } from '@/lib/tools';
+import { BUILT_IN_TOOLS } from '@/lib/builtin-tools';
+import { saveTranscript } from '@/lib/transcript-store';
+import { saveBenchmarkClip } from '@/lib/benchmark';
+import {
+  audioMetric,
+  createGenerationTimer,
+  formatMetric,
+  loadMetric,
+  recordMetric,
+  startTimer,
+  type AudioMetric,
+  type LoadMetric,
+  type MetricRecord,
+  type TokenCounting,
+} from '@/lib/metrics';
+import { ChatBubble } from '@/components/chat-bubble';
+import { GenerationSettingsPanel } from '@/components/generation-settings-panel';
+import { PersonaPicker } from '@/components/persona-picker';
+import { PromptTemplateSheet } from '@/components/prompt-template-sheet';
+import { ContextMeter } from '@/components/context-meter';
+import { StructuredOutputPanel } from '@/components/structured-output-panel';
+import { DocumentQAPanel } from '@/components/document-qa-panel';
+import { ArenaPanel } from '@/components/arena-panel';
+import { VoiceAssistantPanel } from '@/components/voice-assistant-panel';
+import { VoiceModelPicker, type VoiceModels } from '@/components/voice-model-picker';
+import { TranslatePanel } from '@/components/translate-panel';
+import { CustomModelSheet } from '@/components/custom-model-sheet';
+import { ModelDetailsSheet } from '@/components/model-details-sheet';
+import { DownloadQueue } from '@/components/download-queue';
+import { cancelCapture, captureAvailable, captureModuleName, startCapture, stopCapture } from '@/lib/audio-capture';
+import {
+  DEFAULT_VOICE_SETTINGS,
+  loadVoiceSettings,
+  playbackAvailable,
+  playSynthesizedAudio,
+  saveVoiceSettings,
+  speakWithSystemVoice,
+  stopPlayback,
+  synthesisOptions,
+  systemSpeechAvailable,
+  SYSTEM_TTS_ID,
+  VOICE_PITCHES,
+  VOICE_RATES,
+  type VoiceSettings,
+} from '@/lib/audio-playback';
+import {
+  neuralVoiceEngine,
+  readAloud,
+  speakableText,
+  splitSentences,
+  systemVoiceEngine,
+  type ReadAloudHandle,
+} from '@/lib/read-aloud';
+import { modelStore } from '@/lib/app-models';
+import { modelStateOf, ModelStatuses, type ModelCategory } from '@/lib/model-store';
+import { deleteCustomModel, isCustomModelId, listCustomModels, type CustomModel } from '@/lib/custom-models';
+import { downloadManager } from '@/lib/app-downloads';
+import { DownloadStatuses } from '@/lib/download-manager';
+import { onSafetyDecision, SafeRunAnywhere, SafetyActions, SafetyStages, type SafetyAuditEntry } from '@/lib/safety-filter';
 
 // =============================================================================
 // RunAnywhere - On-Device AI for React Native
@@ -32,138 +138,32 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 // npm: https://www.npmjs.com/package/runanywhere-react-native
 // =============================================================================
 
-// Lazy load audio modules (requires rebuild with expo-speech/expo-av)
-let Speech: any = null;
-let Audio: any = null;
-let FileSystem: any = null;
-let LiveAudioStream: any = null;
-let audioModulesAvailable = false;
-
-try {
-  Speech = require('expo-speech');
-  Audio = require('expo-av').Audio;
-  FileSystem = require('expo-file-system/legacy');
-  audioModulesAvailable = true;
-} catch (e) {
-  console.log('[RunAnywhere Demo] expo-av modules not available');
-}
+const tokenStreamer: TokenStreamer = createSDKStreamer(SafeRunAnywhere);
+const toolRegistry = createToolRegistry(BUILT_IN_TOOLS);
 
-// Load LiveAudioStream for Android STT (raw PCM recording like sample app)
-try {
-  LiveAudioStream = require('react-native-live-audio-stream').default;
-  console.log('[RunAnywhere Demo] LiveAudioStream loaded');
-} catch (e) {
-  console.log('[RunAnywhere Demo] LiveAudioStream not available');
-}
-
-/**
- * Convert base64 PCM float32 audio to WAV file
- * The audio data from TTS is base64-encoded float32 PCM samples
- * (Same approach as the sample React Native app)
- */
-const createWavFile = async (audioBase64: string, audioSampleRate: number): Promise<string | null> => {
-  if (!FileSystem) return null;
-  
-  try {
-    // Decode base64 to get raw bytes
-    const binaryString = atob(audioBase64);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
+// Maximum tool calls per reply before the model must answer
+const MAX_TOOL_STEPS = 4;
 
-    // Convert float32 samples to int16
-    const floatView = new Float32Array(bytes.buffer);
-    const numSamples = floatView.length;
-    const int16Samples = new Int16Array(numSamples);
-
-    for (let i = 0; i < numSamples; i++) {
-      // Clamp and convert to int16 range
-      const sample = Math.max(-1, Math.min(1, floatView[i]!));
-      int16Samples[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-    }
-
-    // Create WAV header
-    const wavDataSize = int16Samples.length * 2;
-    const wavBuffer = new ArrayBuffer(44 + wavDataSize);
-    const wavView = new DataView(wavBuffer);
-
-    // RIFF header
-    wavView.setUint8(0, 0x52); // R
-    wavView.setUint8(1, 0x49); // I
-    wavView.setUint8(2, 0x46); // F
-    wavView.setUint8(3, 0x46); // F
-    wavView.setUint32(4, 36 + wavDataSize, true); // File size - 8
-    wavView.setUint8(8, 0x57); // W
-    wavView.setUint8(9, 0x41); // A
-    wavView.setUint8(10, 0x56); // V
-    wavView.setUint8(11, 0x45); // E
-
-    // fmt chunk
-    wavView.setUint8(12, 0x66); // f
-    wavView.setUint8(13, 0x6d); // m
-    wavView.setUint8(14, 0x74); // t
-    wavView.setUint8(15, 0x20); // (space)
-    wavView.setUint32(16, 16, true); // fmt chunk size
-    wavView.setUint16(20, 1, true); // Audio format (PCM = 1)
-    wavView.setUint16(22, 1, true); // Number of channels (mono = 1)
-    wavView.setUint32(24, audioSampleRate, true); // Sample rate
-    wavView.setUint32(28, audioSampleRate * 2, true); // Byte rate
-    wavView.setUint16(32, 2, true); // Block align
-    wavView.setUint16(34, 16, true); // Bits per sample
-
-    // data chunk
-    wavView.setUint8(36, 0x64); // d
-    wavView.setUint8(37, 0x61); // a
-    wavView.setUint8(38, 0x74); // t
-    wavView.setUint8(39, 0x61); // a
-    wavView.setUint32(40, wavDataSize, true); // Data size
-
-    // Copy audio data
-    const wavBytes = new Uint8Array(wavBuffer);
-    const int16Bytes = new Uint8Array(int16Samples.buffer);
-    for (let i = 0; i < int16Bytes.length; i++) {
-      wavBytes[44 + i] = int16Bytes[i]!;
-    }
+// Types
+type TabType = 'llm' | 'stt' | 'tts' | 'voice';
+// Tabs with their own model list; the SDK keeps one loaded model for each
+type ModelTab = Exclude<TabType, 'voice'>;
+type FrameworkType = 'LlamaCpp' | 'ONNX' | 'SystemTTS';
+type LLMMode = 'chat' | 'json' | 'docs' | 'arena';
 
-    // Convert to base64 and write to file
-    let wavBase64 = '';
-    const chunkSize = 8192;
-    for (let i = 0; i < wavBytes.length; i += chunkSize) {
-      const chunk = wavBytes.subarray(i, Math.min(i + chunkSize, wavBytes.length));
-      for (let j = 0; j < chunk.length; j++) {
-        wavBase64 += String.fromCharCode(chunk[j]!);
-      }
-    }
-    wavBase64 = btoa(wavBase64);
-
-    const filePath = `${FileSystem.cacheDirectory}tts_${Date.now()}.wav`;
-    await FileSystem.writeAsStringAsync(filePath, wavBase64, {
-      encoding: 'base64',
-    });
-
-    console.log('[TTS] WAV file created:', filePath, 'samples:', numSamples);
-    return filePath;
-  } catch (e) {
-    console.log('[TTS] WAV creation error:', e);
-    return null;
-  }
+const LLMModes: Record<LLMMode, string> = {
+  chat: '💬 Chat',
+  json: '{ } JSON',
+  docs: '📄 Docs',
+  arena: '⚔️ Arena',
 };
 
-// Import RunAnywhere SDK
-let RunAnywhere: any = null;
-let sdkAvailable = false;
-try {
-  const sdk = require('runanywhere-react-native');
-  RunAnywhere = sdk.RunAnywhere;
-  sdkAvailable = true;
-} catch (e) {
-  console.log('[RunAnywhere Demo] SDK not available (expected in Expo Go)');
-}
+type VoiceMode = 'assistant' | 'translate';
 
-// Types
-type TabType = 'llm' | 'stt' | 'tts';
-type FrameworkType = 'LlamaCpp' | 'ONNX' | 'SystemTTS';
+const VoiceModes: Record<VoiceMode, string> = {
+  assistant: '🗣️ Assistant',
+  translate: '🌐 Translate',
+};
 
 interface ModelInfo {
   id: string;
@@ -174,8 +174,27 @@ interface ModelInfo {
   localPath?: string;
   downloadSize?: number;
   downloadURL?: string;
+  contextLength?: number;
 }
 
+const MODEL_TABS: ModelTab[] = ['llm', 'stt', 'tts'];
+const TAB_CATEGORIES: Record<ModelTab, ModelCategory> = {
+  llm: 'language',
+  stt: 'speech-recognition',
+  tts: 'speech-synthesis',
+};
+const NO_SELECTION: Record<ModelTab, string | null> = { llm: null, stt: null, tts: null };
+
+// Put dictated text in place of the selection, with a space on either side where words would touch
+const insertAtCursor = (value: string, selection: { start: number; end: number }, text: string) => {
+  const start = Math.min(selection.start, value.length);
+  const end = Math.min(Math.max(selection.end, start), value.length);
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  const inserted = `${before && !/\s$/.test(before) ? ' ' : ''}${text}${after && !/^\s/.test(after) ? ' ' : ''}`;
+  return { value: before + inserted + after, cursor: before.length + inserted.length };
+};
+
 // Framework colors
 const FrameworkColors: Record<FrameworkType, string> = {
   LlamaCpp: '#FF6B35',
@@ -188,42 +207,87 @@ const FrameworkColors: Record<FrameworkType, string> = {
 // =============================================================================
 
 export default function RunAnywhereDemo() {
+  const router = useRouter();
+  const { conversationId, openedAt } = useLocalSearchParams<{ conversationId?: string; openedAt?: string }>();
+
   // Tab state
   const [activeTab, setActiveTab] = useState<TabType>('llm');
   
   // SDK state
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [safetyNotice, setSafetyNotice] = useState<SafetyAuditEntry | null>(null);
   
   // Models state
   const [models, setModels] = useState<ModelInfo[]>([]);
-  const [selectedModel, setSelectedModel] = useState<ModelInfo | null>(null);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState(0);
-  const [isModelLoaded, setIsModelLoaded] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Record<ModelTab, string | null>>(NO_SELECTION);
+  const modelStates = useModelStates();
+  const downloads = useDownloads();
   const [isLoading, setIsLoading] = useState(false);
+  const [lastMetrics, setLastMetrics] = useState<{ load?: LoadMetric; stt?: AudioMetric; tts?: AudioMetric }>({});
+  const modelTab = activeTab === 'voice' ? null : activeTab;
+  const selectedModel = (modelTab && models.find(m => m.id === selectedIds[modelTab])) || null;
+  const selectedState = selectedModel ? modelStateOf(modelStates, selectedModel.id) : null;
+  const isModelLoaded = selectedState?.status === 'loaded';
+  // The model the SDK holds for each tab, whichever screen loaded it
+  const loadedModels = useMemo(() => {
+    const loaded: Record<ModelTab, ModelInfo | null> = { llm: null, stt: null, tts: null };
+    for (const tab of MODEL_TABS) {
+      loaded[tab] =
+        models.find(m => m.category === TAB_CATEGORIES[tab] && modelStateOf(modelStates, m.id).status === 'loaded') ??
+        null;
+    }
+    return loaded;
+  }, [models, modelStates]);
   
   // LLM state
   const [prompt, setPrompt] = useState('');
   const [response, setResponse] = useState('');
+  const [chatTree, setChatTree] = useState<ConversationTree>(emptyTree);
+  const chatTreeRef = useRef<ConversationTree>(chatTree);
+  const chatPath = useMemo(() => activePath(chatTree), [chatTree]);
+  const chatMessages = useMemo(() => toMessages(chatPath), [chatPath]);
+  const chatBranches = useMemo(() => branchLeaves(chatTree), [chatTree]);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [llmMode, setLlmMode] = useState<LLMMode>('chat');
+  const [voiceMode, setVoiceMode] = useState<VoiceMode>('assistant');
+  const [isVoiceBusy, setIsVoiceBusy] = useState(false);
+  const [streamingEnabled, setStreamingEnabled] = useState(true);
+  const [toolsEnabled, setToolsEnabled] = useState(false);
+  const streamRef = useRef<StreamHandle | null>(null);
+  const personas = usePersonas();
+  const [showPersonaPicker, setShowPersonaPicker] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [contextStrategy, setContextStrategy] = useState<ContextStrategy>('pin-system');
+  const [trimmedCount, setTrimmedCount] = useState(0);
+  const summaryRef = useRef<RollingSummary | null>(null);
+  const generationSettings = useGenerationSettings(
+    selectedModel?.category === 'language' ? selectedModel.id : null
+  );
   
   // TTS state
   const [ttsText, setTtsText] = useState('Hello! I am RunAnywhere, your on-device AI assistant.');
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
   const speakingAnim = useRef(new Animated.Value(1)).current;
   
+  // Read-aloud state (a chat reply being spoken, sentence by sentence)
+  const [reading, setReading] = useState<{ messageId: string; sentences: string[]; index: number } | null>(null);
+  const readAloudRef = useRef<ReadAloudHandle | null>(null);
+  
   // STT state
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState('');
+  const [dictation, setDictation] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+  const promptSelectionRef = useRef({ start: 0, end: 0 });
   const recordingAnim = useRef(new Animated.Value(1)).current;
-  const recordingRef = useRef<any>(null);
-  const soundRef = useRef<any>(null);
+  const lastRecordingRef = useRef<{ uri: string; audioSeconds: number } | null>(null);
   
-  // Custom model URL
+  // Custom model import
   const [showAddModel, setShowAddModel] = useState(false);
-  const [customModelURL, setCustomModelURL] = useState('');
-  const [customModelName, setCustomModelName] = useState('');
+  const [detailsModel, setDetailsModel] = useState<ModelInfo | null>(null);
 
   // ==========================================================================
   // Animations
@@ -263,15 +327,19 @@ export default function RunAnywhereDemo() {
     initializeSDK();
   }, []);
 
-  // Keep selectedModel in sync with models list (for localPath updates)
   useEffect(() => {
-    if (selectedModel && models.length > 0) {
-      const updatedModel = models.find(m => m.id === selectedModel.id);
-      if (updatedModel && updatedModel.localPath !== selectedModel.localPath) {
-        setSelectedModel(updatedModel);
-      }
-    }
-  }, [models]);
+    loadVoiceSettings()
+      .then(setVoiceSettings)
+      .catch(e => console.log('Failed to load voice settings:', e));
+  }, []);
+
+  useEffect(
+    () =>
+      onSafetyDecision(entry => {
+        if (entry.action === 'warn' || entry.action === 'redact') setSafetyNotice(entry);
+      }),
+    []
+  );
 
   const initializeSDK = async () => {
     if (!sdkAvailable) {
@@ -282,13 +350,13 @@ export default function RunAnywhereDemo() {
     try {
       await RunAnywhere.initialize({});
       setIsInitialized(true);
-      await loadModels();
+      resumeDownloads(await loadModels());
     } catch (e: any) {
       setError(`Initialization failed: ${e.message}`);
     }
   };
 
-  const loadModels = async () => {
+  const loadModels = async (): Promise<ModelInfo[]> => {
     try {
       const allModels = await RunAnywhere.getAvailableModels();
       const formattedModels: ModelInfo[] = allModels.map((m: any) => ({
@@ -300,10 +368,26 @@ export default function RunAnywhereDemo() {
         localPath: m.localPath,
         downloadSize: m.downloadSize,
         downloadURL: m.downloadURL,
+        contextLength: m.contextLength,
       }));
+      // Imported models sit next to the SDK catalog; the store knows how to download them
+      const customModels: ModelInfo[] = (await listCustomModels()).map(m => ({
+        id: m.id,
+        name: m.name,
+        category: m.category,
+        framework: m.framework,
+        isDownloaded: m.isDownloaded,
+        localPath: m.localPath,
+        downloadSize: m.downloadSize,
+        downloadURL: m.downloadURL,
+      }));
+      formattedModels.push(...customModels);
       setModels(formattedModels);
+      modelStore.sync(formattedModels);
+      return formattedModels;
     } catch (e: any) {
       console.log('Failed to load models:', e);
+      return [];
     }
   };
 
@@ -313,94 +397,78 @@ export default function RunAnywhereDemo() {
     return 'ONNX';
   };
 
-  const getModelsForTab = (): ModelInfo[] => {
-    switch (activeTab) {
-      case 'llm':
-        return models.filter(m => m.category === 'language');
-      case 'stt':
-        return models.filter(m => m.category === 'speech-recognition');
-      case 'tts':
-        return models.filter(m => m.category === 'speech-synthesis');
-      default:
-        return [];
-    }
-  };
+  const getModelsForTab = (): ModelInfo[] =>
+    modelTab ? models.filter(m => m.category === TAB_CATEGORIES[modelTab]) : [];
 
   // ==========================================================================
   // Model Management
   // ==========================================================================
 
   const handleSelectModel = (model: ModelInfo) => {
-    // Find the full model info from the loaded models (includes localPath)
-    const fullModel = models.find(m => m.id === model.id) || model;
-    setSelectedModel(fullModel);
-    setIsModelLoaded(false);
+    if (modelTab) setSelectedIds(prev => ({ ...prev, [modelTab]: model.id }));
     setResponse('');
+    setLastMetrics({});
   };
 
-  const handleDownloadModel = async () => {
-    if (!selectedModel) return;
-    
-    setIsDownloading(true);
-    setDownloadProgress(0);
+  // Runs are kept for the metrics history; a failed write only loses that entry
+  const trackMetric = (record: MetricRecord) => {
+    recordMetric(record).catch(e => console.log('Failed to save metrics:', e));
+  };
+
+  const startDownload = async (model: ModelInfo) => {
     setError(null);
 
     try {
-      // downloadModel returns the local path
-      const downloadedPath = await RunAnywhere.downloadModel(selectedModel.id, (progress: number) => {
-        // Handle NaN/undefined progress values
-        const pct = typeof progress === 'number' && !isNaN(progress) ? Math.round(progress * 100) : 0;
-        setDownloadProgress(pct);
-      });
-      
-      await loadModels();
-      // Update selectedModel with the downloaded path
-      setSelectedModel(prev => prev ? { 
-        ...prev, 
-        isDownloaded: true, 
-        localPath: downloadedPath 
-      } : null);
+      // Queued through the download manager; the store tracks progress and the local path
+      if (await modelStore.download(model)) await loadModels();
     } catch (e: any) {
       setError(`Download failed: ${e.message}`);
-    } finally {
-      setIsDownloading(false);
+    }
+  };
+
+  const handleDownloadModel = () => {
+    if (selectedModel) startDownload(selectedModel);
+  };
+
+  const handleRetryDownload = (modelId: string) => {
+    const model = models.find(m => m.id === modelId);
+    if (model) startDownload(model);
+  };
+
+  // Pick up downloads that were running or paused when the app was closed
+  const resumeDownloads = async (available: ModelInfo[]) => {
+    for (const id of await downloadManager.pendingIds()) {
+      const model = available.find(m => m.id === id);
+      if (model && !model.isDownloaded) startDownload(model);
     }
   };
 
   const handleLoadModel = async () => {
     if (!selectedModel) return;
-    
-    setIsLoading(true);
     setError(null);
 
     try {
-      const modelPath = selectedModel.localPath || await RunAnywhere.getModelPath(selectedModel.id);
-      
-      if (!modelPath) {
-        setError('Model path not found. Please re-download.');
-        return;
-      }
-
-      switch (activeTab) {
-        case 'llm':
-          await RunAnywhere.loadTextModel(modelPath);
-          break;
-        case 'stt':
-          await RunAnywhere.loadSTTModel(modelPath);
-          break;
-        case 'tts':
-          if (selectedModel.id !== 'system-tts') {
-            await RunAnywhere.loadTTSModel(modelPath);
-          }
-          break;
-      }
-      
-      setIsModelLoaded(true);
+      const elapsed = startTimer();
+      if (!(await modelStore.load(selectedModel))) return;
       setResponse(`✅ ${selectedModel.name} loaded successfully!`);
+      if (selectedModel.id !== SYSTEM_TTS_ID) {
+        const metric = loadMetric(selectedModel, elapsed());
+        setLastMetrics({ load: metric });
+        trackMetric(metric);
+      }
     } catch (e: any) {
       setError(`Load failed: ${e.message}`);
-    } finally {
-      setIsLoading(false);
+    }
+  };
+
+  const handleUnloadModel = async () => {
+    if (!selectedModel) return;
+    try {
+      await modelStore.unload(selectedModel);
+      setResponse('');
+      setLastMetrics({});
+    } catch (e: any) {
+      setError(`Unload failed: ${e.message}`);
     }
   };
 
@@ -408,155 +476,238 @@ export default function RunAnywhereDemo() {
   // LLM Actions
   // ==========================================================================
 
+  // The ref always holds the latest tree so async generation code never works on a stale copy
+  const updateTree = useCallback((change: (tree: ConversationTree) => ConversationTree) => {
+    const next = change(chatTreeRef.current);
+    chatTreeRef.current = next;
+    setChatTree(next);
+    return next;
+  }, []);
+
+  const openConversation = useCallback(
+    async (id: string) => {
+      const saved = await loadConversation(id);
+      if (!saved) {
+        setError('Conversation not found');
+        return;
+      }
+      setActiveTab('llm');
+      setConversation(saved);
+      updateTree(() => saved.tree);
+      summaryRef.current = null;
+      setTrimmedCount(0);
+    },
+    [updateTree]
+  );
+
+  // Reopen a conversation picked in the conversation library; `openedAt` reopens the same id again
+  useEffect(() => {
+    if (conversationId) {
+      openConversation(conversationId);
+    }
+  }, [conversationId, openedAt, openConversation]);
+
+  const handleNewChat = () => {
+    if (reading) stopReading();
+    setConversation(null);
+    updateTree(() => emptyTree());
+    summaryRef.current = null;
+    setTrimmedCount(0);
+  };
+
+  const persistConversation = async (tree: ConversationTree) => {
+    try {
+      const saved = await saveConversation({ ...(conversation ?? createConversation()), tree });
+      setConversation(saved);
+    } catch (e: any) {
+      console.log('Failed to save conversation:', e);
+    }
+  };
+
+  const updateChatMessage = (id: string, patch: Partial<ChatMessage>) => {
+    updateTree(tree => updateNode(tree, id, patch));
+  };
+
   const handleGenerate = async () => {
-    if (!prompt.trim()) return;
-    
+    if (!prompt.trim() || !selectedModel) return;
+    const parentId = chatPath[chatPath.length - 1]?.id ?? null;
+    const message = createMessage('user', prompt.trim());
+    updateTree(tree => appendMessage(tree, parentId, message));
+    setPrompt('');
+    await generateReply(message.id);
+  };
+
+  // Another answer to the same prompt; the earlier ones stay as versions
+  const handleRegenerate = async (assistantId: string) => {
+    const parentId = chatTreeRef.current.nodes[assistantId]?.parentId;
+    if (!parentId) return;
+    summaryRef.current = null;
+    await generateReply(parentId);
+  };
+
+  // An edited prompt becomes a sibling of the original, starting a new branch
+  const handleEditMessage = async (userId: string, content: string) => {
+    const original = chatTreeRef.current.nodes[userId];
+    if (!original) return;
+    const message = createMessage('user', content);
+    updateTree(tree => appendMessage(tree, original.parentId, message));
+    summaryRef.current = null;
+    await generateReply(message.id);
+  };
+
+  const handleSelectVersion = (id: string, offset: -1 | 1) => {
+    const tree = updateTree(current => selectSibling(current, id, offset));
+    summaryRef.current = null;
+    setTrimmedCount(0);
+    persistConversation(tree);
+  };
+
+  /** Answer the user message `parentId`, using the branch leading to it as history */
+  const generateReply = async (parentId: string) => {
+    if (!selectedModel) return;
+
+    const templateId = detectChatTemplate(selectedModel);
+    const history = toMessages(pathTo(chatTreeRef.current, parentId));
+    const reply = { ...createMessage('assistant', '', selectedModel.id), params: generationSettings.params };
+
+    updateTree(tree => appendMessage(tree, parentId, reply));
+    setStreamingMessageId(reply.id);
     setIsGenerating(true);
     setError(null);
-    setResponse('');
+
+    const options = toGenerateOptions(generationSettings.params, ChatTemplates[templateId].stopSequences);
+
+    // Older turns that no longer fit are folded into a summary written by the same model
+    const contextLength = selectedModel.contextLength || DEFAULT_CONTEXT_LENGTH;
+    const summarizeTurns = async (turns: ChatMessage[], previous: string | null) => {
+      const request = buildSummaryRequest(turns, previous, { contextLength, reserveTokens: SUMMARY_MAX_TOKENS });
+      const result = await SafeRunAnywhere.generate(formatChatPrompt(request, templateId), {
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.3,
+        stopSequences: ChatTemplates[templateId].stopSequences,
+      });
+      return cleanAssistantReply(result.text || '', templateId);
+    };
 
     try {
-      const result = await RunAnywhere.generate(prompt, {
-        maxTokens: 256,
-        temperature: 0.7,
+      // The active persona is sent as the system turn but not stored in the chat
+      const systemMessage = createMessage('system', personas.activePersona.systemPrompt);
+      const fitted = await fitToContext([systemMessage, ...history], {
+        contextLength,
+        reserveTokens: options.maxTokens,
+        strategy: contextStrategy,
+        summarize: summarizeTurns,
+        summary: summaryRef.current,
       });
-      setResponse(result.text || JSON.stringify(result));
+      summaryRef.current = fitted.summary;
+      setTrimmedCount(fitted.droppedCount);
+      const chatPrompt = formatChatPrompt(fitted.messages, templateId);
+      const timer = createGenerationTimer(selectedModel);
+
+      let text: string;
+      let tokenCount: number | undefined;
+      let counting: TokenCounting = {};
+      let toolSteps: ToolStep[] | undefined;
+      if (toolsEnabled) {
+        // Tool calls are shown inline as they run; the final answer is not streamed
+        const steps: ToolStep[] = [];
+        const result = await runToolLoop({
+          messages: fitted.messages,
+          registry: toolRegistry,
+          generate: generateChatReply,
+          maxSteps: MAX_TOOL_STEPS,
+          onStep: step => {
+            steps.push(step);
+            updateChatMessage(reply.id, { toolSteps: [...steps] });
+          },
+        });
+        text = result.text;
+        tokenCount = estimateTokens(text);
+        counting = { streamed: false, estimated: true };
+        toolSteps = result.steps.length > 0 ? result.steps : undefined;
+      } else if (streamingEnabled) {
+        // Append tokens as they arrive; Stop keeps whatever was received
+        let raw = '';
+        const handle = tokenStreamer.stream(chatPrompt, options, token => {
+          timer.token();
+          raw += token;
+          updateChatMessage(reply.id, { content: cleanAssistantReply(raw, templateId) });
+        });
+        streamRef.current = handle;
+        const result = await handle.result;
+        text = result.text;
+        tokenCount = result.tokenCount;
+        counting = result;
+      } else {
+        const result = await SafeRunAnywhere.generate(chatPrompt, options);
+        text = result.text || JSON.stringify(result);
+        tokenCount = result.tokensUsed ?? estimateTokens(text);
+        counting = { streamed: false, estimated: result.tokensUsed == null };
+      }
+      const metrics = timer.finish(tokenCount, counting);
+      trackMetric(metrics);
+      const content = cleanAssistantReply(text, templateId);
+      const tree = updateTree(current => updateNode(current, reply.id, { content, toolSteps, metrics }));
+      await persistConversation(tree);
     } catch (e: any) {
       setError(`Generation failed: ${e.message}`);
+      // Drop the placeholder bubble if nothing was generated
+      updateTree(tree => (tree.nodes[reply.id]?.content === '' ? removeLeaf(tree, reply.id) : tree));
     } finally {
+      streamRef.current = null;
+      setStreamingMessageId(null);
       setIsGenerating(false);
     }
   };
 
+  // Single non-streaming chat request, for replies that are used whole: tool calls, JSON mode and document Q&A
+  const generateChatReply = async (messages: ChatMessage[]): Promise<string> => {
+    const templateId = detectChatTemplate(selectedModel!);
+    const options = toGenerateOptions(generationSettings.params, ChatTemplates[templateId].stopSequences);
+    const result = await SafeRunAnywhere.generate(formatChatPrompt(messages, templateId), options);
+    return cleanAssistantReply(result.text || '', templateId);
+  };
+
+  const handleStopGeneration = () => {
+    streamRef.current?.cancel();
+  };
+
   // ==========================================================================
   // STT Actions
   // ==========================================================================
 
-  // Audio chunks for Android raw PCM recording
-  const audioChunksRef = useRef<string[]>([]);
-  
   const handleStartRecording = async () => {
-    // Android: Use LiveAudioStream for raw PCM (like sample app)
-    if (Platform.OS === 'android') {
-      if (!LiveAudioStream) {
-        Alert.alert('Rebuild Required', 'Audio recording requires react-native-live-audio-stream.\n\nRun: eas build --platform android --profile development');
-        return;
-      }
-      
-      try {
-        // Initialize LiveAudioStream (same config as sample app)
-        LiveAudioStream.init({
-          sampleRate: 16000,
-          channels: 1,
-          bitsPerSample: 16,
-          audioSource: 6, // VOICE_RECOGNITION
-          bufferSize: 4096,
-        });
-        
-        // Reset chunks
-        audioChunksRef.current = [];
-        
-        // Listen for audio data
-        LiveAudioStream.on('data', (data: string) => {
-          audioChunksRef.current.push(data);
-        });
-        
-        // Start recording
-        LiveAudioStream.start();
-        setIsRecording(true);
-        setTranscript('');
-        setError(null); // Clear any previous error
-        console.log('[STT] Android: Started raw PCM recording');
-      } catch (e: any) {
-        setError(`Recording failed: ${e.message}`);
-      }
-      return;
-    }
-    
-    // iOS: Use expo-av
-    if (!audioModulesAvailable) {
-      Alert.alert('Rebuild Required', 'Audio recording requires expo-av.\n\nRun: eas build --platform ios --profile development');
+    if (!captureAvailable) {
+      Alert.alert('Rebuild Required', `Audio recording requires ${captureModuleName}.\n\nRun: eas build --platform ${Platform.OS} --profile development`);
       return;
     }
 
     try {
-      const { status } = await Audio.requestPermissionsAsync();
-      if (status !== 'granted') {
-        setError('Microphone permission denied');
-        return;
-      }
-
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
-
-      // iOS WAV format for Whisper STT compatibility
-      const wavRecordingOptions = {
-        isMeteringEnabled: true,
-        android: {
-          extension: '.m4a',
-          outputFormat: Audio.AndroidOutputFormat.MPEG_4,
-          audioEncoder: Audio.AndroidAudioEncoder.AAC,
-          sampleRate: 16000,
-          numberOfChannels: 1,
-          bitRate: 128000,
-        },
-        ios: {
-          extension: '.wav',
-          audioQuality: Audio.IOSAudioQuality.HIGH,
-          sampleRate: 16000,
-          numberOfChannels: 1,
-          bitRate: 256000,
-          linearPCMBitDepth: 16,
-          linearPCMIsBigEndian: false,
-          linearPCMIsFloat: false,
-        },
-        web: {},
-      };
-
-      const { recording } = await Audio.Recording.createAsync(wavRecordingOptions);
-      
-      recordingRef.current = recording;
+      await startCapture();
       setIsRecording(true);
       setTranscript('');
       setError(null); // Clear any previous error
-      console.log('[STT] iOS: Started expo-av recording');
     } catch (e: any) {
       setError(`Recording failed: ${e.message}`);
     }
   };
 
-  // Helper: Create WAV header for STT PCM data
-  const createSTTWavHeader = (dataLength: number): ArrayBuffer => {
-    const buffer = new ArrayBuffer(44);
-    const view = new DataView(buffer);
-    const sampleRate = 16000;
-    const numChannels = 1;
-    const bitsPerSample = 16;
-    const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
-    const blockAlign = numChannels * (bitsPerSample / 8);
-    
-    // RIFF header
-    view.setUint8(0, 0x52); view.setUint8(1, 0x49); view.setUint8(2, 0x46); view.setUint8(3, 0x46);
-    view.setUint32(4, 36 + dataLength, true);
-    view.setUint8(8, 0x57); view.setUint8(9, 0x41); view.setUint8(10, 0x56); view.setUint8(11, 0x45);
-    
-    // fmt chunk
-    view.setUint8(12, 0x66); view.setUint8(13, 0x6d); view.setUint8(14, 0x74); view.setUint8(15, 0x20);
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitsPerSample, true);
-    
-    // data chunk
-    view.setUint8(36, 0x64); view.setUint8(37, 0x61); view.setUint8(38, 0x74); view.setUint8(39, 0x61);
-    view.setUint32(40, dataLength, true);
-    
-    return buffer;
+  // Stop recording and transcribe with the loaded STT model (shared by the STT tab and dictation)
+  const transcribeCapture = async () => {
+    const recording = await stopCapture();
+
+    // Transcribe with RunAnywhere SDK (the path has no file:// prefix)
+    console.log('[STT] Transcribing:', recording.path);
+    const elapsed = startTimer();
+    const result = await SafeRunAnywhere.transcribeFile(recording.path);
+    console.log('[STT] Transcription result:', result);
+    if (loadedModels.stt) {
+      const metric = audioMetric('stt', loadedModels.stt, elapsed(), recording.audioSeconds);
+      setLastMetrics(prev => ({ ...prev, stt: metric }));
+      trackMetric(metric);
+    }
+    const text = result.text || result;
+    return { ...recording, text: typeof text === 'string' ? text : '' };
   };
 
   const handleStopRecording = async () => {
@@ -564,101 +715,13 @@ export default function RunAnywhereDemo() {
     setIsRecording(false);
 
     try {
-      let audioUri: string;
-      
-      // Android: Process raw PCM chunks into WAV
-      if (Platform.OS === 'android' && LiveAudioStream) {
-        LiveAudioStream.stop();
-        
-        const chunks = audioChunksRef.current;
-        console.log('[STT] Android: Processing', chunks.length, 'audio chunks');
-        
-        if (chunks.length === 0) {
-          setError('No audio recorded');
-          setIsLoading(false);
-          return;
-        }
-        
-        // Combine all chunks into PCM data
-        let totalLength = 0;
-        const decodedChunks: Uint8Array[] = [];
-        
-        for (const chunk of chunks) {
-          const decoded = Uint8Array.from(atob(chunk), c => c.charCodeAt(0));
-          decodedChunks.push(decoded);
-          totalLength += decoded.length;
-        }
-        
-        const pcmData = new Uint8Array(totalLength);
-        let offset = 0;
-        for (const chunk of decodedChunks) {
-          pcmData.set(chunk, offset);
-          offset += chunk.length;
-        }
-        
-        console.log('[STT] Android: Total PCM data:', totalLength, 'bytes');
-        
-        // Create WAV header + data
-        const wavHeader = createSTTWavHeader(totalLength);
-        const headerBytes = new Uint8Array(wavHeader);
-        const wavData = new Uint8Array(headerBytes.length + pcmData.length);
-        wavData.set(headerBytes, 0);
-        wavData.set(pcmData, headerBytes.length);
-        
-        // Convert to base64 and write to file
-        let wavBase64 = '';
-        const chunkSize = 8192;
-        for (let i = 0; i < wavData.length; i += chunkSize) {
-          const chunk = wavData.subarray(i, Math.min(i + chunkSize, wavData.length));
-          for (let j = 0; j < chunk.length; j++) {
-            wavBase64 += String.fromCharCode(chunk[j]!);
-          }
-        }
-        wavBase64 = btoa(wavBase64);
-        
-        const timestamp = Date.now();
-        const fileName = `stt_recording_${timestamp}.wav`;
-        const cacheDir = FileSystem.cacheDirectory || '';
-        
-        // Write file using FileSystem (expects file:// URI)
-        const writeUri = `${cacheDir}${fileName}`;
-        await FileSystem.writeAsStringAsync(writeUri, wavBase64, { encoding: 'base64' });
-        
-        // SDK needs path WITHOUT file:// prefix
-        audioUri = writeUri.startsWith('file://') ? writeUri.substring(7) : writeUri;
-        
-        console.log('[STT] Android: WAV file written:', audioUri, 'size:', wavData.length);
-        audioChunksRef.current = [];
-      } else {
-        // iOS: Use expo-av recording
-        if (!recordingRef.current) {
-          setError('No recording in progress');
-          setIsLoading(false);
-          return;
-        }
-        
-        await recordingRef.current.stopAndUnloadAsync();
-        const uri = recordingRef.current.getURI();
-        recordingRef.current = null;
-        
-        if (!uri) {
-          setError('No audio recorded');
-          setIsLoading(false);
-          return;
-        }
-        
-        // SDK needs path WITHOUT file:// prefix
-        audioUri = uri.startsWith('file://') ? uri.substring(7) : uri;
-        console.log('[STT] iOS: Recording saved:', audioUri);
-      }
-
-      // Transcribe with RunAnywhere SDK (ensure no file:// prefix)
-      const cleanPath = audioUri.startsWith('file://') ? audioUri.substring(7) : audioUri;
-      console.log('[STT] Transcribing:', cleanPath);
-      const result = await RunAnywhere.transcribeFile(cleanPath);
-      console.log('[STT] Transcription result:', result);
-      setTranscript(result.text || result);
+      const { uri, audioSeconds, text } = await transcribeCapture();
+      lastRecordingRef.current = { uri, audioSeconds };
+      setTranscript(text);
       setError(null); // Clear any previous error on success
+      if (text.trim()) {
+        saveTranscript(text, selectedModel?.id).catch(e => console.log('Failed to save transcript:', e));
+      }
       
     } catch (e: any) {
       console.error('[STT] Error:', e);
@@ -668,6 +731,55 @@ export default function RunAnywhereDemo() {
     }
   };
 
+  const handleSaveBenchmarkClip = async () => {
+    const recording = lastRecordingRef.current;
+    if (!recording) return;
+    try {
+      await saveBenchmarkClip(recording.uri, recording.audioSeconds, transcript);
+      lastRecordingRef.current = null;
+      Alert.alert('Saved', 'The recording was added to the STT benchmark clips.');
+    } catch (e: any) {
+      setError(`Could not save clip: ${e.message}`);
+    }
+  };
+
+  // Mic button in the prompt box: records, then inserts the transcript at the cursor
+  const handleDictation = async () => {
+    if (dictation === 'recording') {
+      setDictation('transcribing');
+      try {
+        const { text } = await transcribeCapture();
+        if (text.trim()) {
+          const inserted = insertAtCursor(prompt, promptSelectionRef.current, text.trim());
+          promptSelectionRef.current = { start: inserted.cursor, end: inserted.cursor };
+          setPrompt(inserted.value);
+        }
+      } catch (e: any) {
+        setError(`Dictation failed: ${e.message}`);
+      } finally {
+        setDictation('idle');
+      }
+      return;
+    }
+
+    if (!captureAvailable) {
+      Alert.alert('Rebuild Required', `Audio recording requires ${captureModuleName}.\n\nRun: eas build --platform ${Platform.OS} --profile development`);
+      return;
+    }
+    if (!loadedModels.stt) {
+      Alert.alert('Dictation', 'Load a speech recognition model in the STT tab first. It stays loaded alongside the LLM.');
+      return;
+    }
+
+    try {
+      await startCapture();
+      setDictation('recording');
+      setError(null);
+    } catch (e: any) {
+      setError(`Recording failed: ${e.message}`);
+    }
+  };
+
   // ==========================================================================
   // TTS Actions
   // ==========================================================================
@@ -678,26 +790,23 @@ export default function RunAnywhereDemo() {
       return;
     }
 
-    if (selectedModel?.id === 'system-tts') {
+    if (selectedModel?.id === SYSTEM_TTS_ID) {
       // Use System TTS
-      if (!audioModulesAvailable) {
+      if (!systemSpeechAvailable) {
         Alert.alert('Rebuild Required', 'System TTS requires expo-speech. Rebuild with:\n\neas build --platform android --profile development');
         return;
       }
       
       if (isSpeaking) {
-        Speech.stop();
+        stopPlayback();
         setIsSpeaking(false);
         return;
       }
 
       setIsSpeaking(true);
-      Speech.speak(ttsText, {
-        rate: 1.0,
-        pitch: 1.0,
-        onDone: () => setIsSpeaking(false),
-        onError: () => setIsSpeaking(false),
-      });
+      speakWithSystemVoice(ttsText)
+        .catch(e => setError(`System TTS failed: ${e.message}`))
+        .finally(() => setIsSpeaking(false));
     } else {
       // Use Neural TTS - check if model is actually loaded
       if (!isModelLoaded) {
@@ -711,10 +820,9 @@ export default function RunAnywhereDemo() {
       
       try {
         // voice: '' or omitted → uses model's default voice
-        const result = await RunAnywhere.synthesize(ttsText, { 
-          rate: 1.0, 
-          pitch: 1.0 
-        });
+        const elapsed = startTimer();
+        const result = await SafeRunAnywhere.synthesize(ttsText, synthesisOptions());
+        const synthesisMs = elapsed();
         
         console.log('[TTS] Synthesis result:', {
           sampleRate: result?.sampleRate,
@@ -724,45 +832,29 @@ export default function RunAnywhereDemo() {
         });
         
         // result.audio is base64 encoded PCM data
-        if (result?.audio && result.audio.length > 0 && audioModulesAvailable) {
+        if (result?.audio && result.audio.length > 0 && playbackAvailable) {
           const sampleRate = result.sampleRate || 22050;
           const duration = result.duration || (result.numSamples / sampleRate) || 0;
+          if (selectedModel) {
+            const metric = audioMetric('tts', selectedModel, synthesisMs, duration);
+            setLastMetrics(prev => ({ ...prev, tts: metric }));
+            trackMetric(metric);
+          }
           
-          setResponse(`🔊 Audio generated!\n\nDuration: ${duration.toFixed(2)}s\n\n⏳ Creating audio file...`);
-          
-          // Create proper WAV file from raw PCM data
-          const wavPath = await createWavFile(result.audio, sampleRate);
+          setResponse(`🔊 Audio generated!\n\nDuration: ${duration.toFixed(2)}s\n\n🎵 Playing audio...`);
+          setIsLoading(false);
           
-          if (wavPath) {
-            setResponse(`🔊 Audio generated!\n\nDuration: ${duration.toFixed(2)}s\n\n🎵 Playing audio...`);
-            
-            try {
-              // Unload previous sound
-              if (soundRef.current) {
-                await soundRef.current.unloadAsync();
-              }
-              
-              const { sound } = await Audio.Sound.createAsync({ uri: wavPath });
-              soundRef.current = sound;
-              await sound.playAsync();
-              
-              sound.setOnPlaybackStatusUpdate((status: any) => {
-                if (status.didJustFinish) {
-                  setIsSpeaking(false);
-                  setResponse(`✅ Playback complete!\n\nDuration: ${duration.toFixed(2)}s`);
-                }
-              });
-            } catch (playError: any) {
-              console.log('[TTS] Playback error:', playError.message);
-              setResponse(`🔊 Audio generated!\n\nDuration: ${duration.toFixed(2)}s\n\n⚠️ Playback failed: ${playError.message}`);
-              setIsSpeaking(false);
-            }
-          } else {
-            setResponse(`🔊 Audio generated!\n\nDuration: ${duration.toFixed(2)}s\n\n⚠️ Could not create audio file`);
+          try {
+            await playSynthesizedAudio(result);
+            setResponse(`✅ Playback complete!\n\nDuration: ${duration.toFixed(2)}s`);
+          } catch (playError: any) {
+            console.log('[TTS] Playback error:', playError.message);
+            setResponse(`🔊 Audio generated!\n\nDuration: ${duration.toFixed(2)}s\n\n⚠️ Playback failed: ${playError.message}`);
+          } finally {
             setIsSpeaking(false);
           }
         } else {
-          setResponse(`🔊 Audio generated!\n\nSample Rate: ${result?.sampleRate || 'N/A'}Hz\nSamples: ${result?.numSamples || 0}\n\n${!audioModulesAvailable ? '💡 Rebuild with expo-av for playback' : '⚠️ No audio data returned'}`);
+          setResponse(`🔊 Audio generated!\n\nSample Rate: ${result?.sampleRate || 'N/A'}Hz\nSamples: ${result?.numSamples || 0}\n\n${!playbackAvailable ? '💡 Rebuild with expo-av for playback' : '⚠️ No audio data returned'}`);
           setIsSpeaking(false);
         }
       } catch (e: any) {
@@ -775,37 +867,104 @@ export default function RunAnywhereDemo() {
   };
 
   // ==========================================================================
-  // Custom Model
+  // Read Aloud
   // ==========================================================================
 
-  const handleAddCustomModel = () => {
-    if (!customModelURL.trim()) {
-      Alert.alert('Error', 'Please enter a Hugging Face model URL');
+  const stopReading = () => {
+    readAloudRef.current?.cancel();
+    readAloudRef.current = null;
+    setReading(null);
+  };
+
+  // Reads a reply with the loaded neural TTS model, or the system voice when there is none
+  const handleReadAloud = (message: ChatMessage) => {
+    const wasReading = reading?.messageId === message.id;
+    stopReading();
+    if (wasReading) return;
+
+    const tts = loadedModels.tts;
+    const useNeural = !!tts && tts.id !== SYSTEM_TTS_ID;
+    if (useNeural ? !playbackAvailable : !systemSpeechAvailable) {
+      Alert.alert('Rebuild Required', `Reading aloud requires ${useNeural ? 'expo-av' : 'expo-speech'}.\n\nRun: eas build --platform ${Platform.OS} --profile development`);
       return;
     }
 
-    Alert.alert(
-      'Coming Soon',
-      'Custom model import will be available in the next release.\n\nFor now, you can request models at:\nhttps://github.com/RunanywhereAI/sdks/issues',
-      [{ text: 'OK' }]
+    const sentences = splitSentences(speakableText(message.content));
+    if (sentences.length === 0) return;
+    setReading({ messageId: message.id, sentences, index: -1 });
+    const handle = readAloud(sentences, useNeural ? neuralVoiceEngine(SafeRunAnywhere) : systemVoiceEngine, index =>
+      setReading(prev => (prev?.messageId === message.id ? { ...prev, index } : prev))
     );
+    readAloudRef.current = handle;
+    handle.done
+      .catch(e => setError(`Read aloud failed: ${e.message}`))
+      .finally(() => {
+        if (readAloudRef.current !== handle) return;
+        readAloudRef.current = null;
+        setReading(null);
+      });
+  };
+
+  // ==========================================================================
+  // Custom Model
+  // ==========================================================================
+
+  // Show the new model in its tab and start downloading it right away
+  const handleCustomModelAdded = async (model: CustomModel) => {
     setShowAddModel(false);
+    await loadModels();
+    const tab = MODEL_TABS.find(t => TAB_CATEGORIES[t] === model.category)!;
+    switchTab(tab);
+    setSelectedIds(prev => ({ ...prev, [tab]: model.id }));
+    await startDownload(model);
+  };
+
+  const handleRemoveCustomModel = (model: ModelInfo) => {
+    const state = modelStateOf(modelStates, model.id);
+    if (state.status === 'downloading' || state.status === 'loading' || state.status === 'loaded') {
+      Alert.alert('Model In Use', 'Unload the model or wait for its download to finish before removing it.');
+      return;
+    }
+    Alert.alert('Remove Model', `Remove ${model.name} and delete its files?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteCustomModel(model.id);
+            if (modelTab && selectedIds[modelTab] === model.id) {
+              setSelectedIds(prev => ({ ...prev, [modelTab]: null }));
+            }
+            await loadModels();
+          } catch (e: any) {
+            Alert.alert('Error', e.message);
+          }
+        },
+      },
+    ]);
   };
 
   // ==========================================================================
   // Render
   // ==========================================================================
 
+  const switchTab = (tab: TabType) => {
+    setActiveTab(tab);
+    if (reading) stopReading();
+    if (dictation === 'recording') {
+      cancelCapture();
+      setDictation('idle');
+    }
+    setResponse('');
+    setLastMetrics({});
+    setError(null);
+  };
+
   const renderTab = (tab: TabType, label: string, icon: string) => (
     <TouchableOpacity
       style={[styles.tab, activeTab === tab && styles.tabActive]}
-      onPress={() => {
-        setActiveTab(tab);
-        setSelectedModel(null);
-        setIsModelLoaded(false);
-        setResponse('');
-        setError(null);
-      }}
+      onPress={() => switchTab(tab)}
     >
       <Text style={styles.tabIcon}>{icon}</Text>
       <Text style={[styles.tabLabel, activeTab === tab && styles.tabLabelActive]}>{label}</Text>
@@ -820,6 +979,7 @@ export default function RunAnywhereDemo() {
         selectedModel?.id === model.id && styles.modelCardSelected,
       ]}
       onPress={() => handleSelectModel(model)}
+      onLongPress={isCustomModelId(model.id) ? () => handleRemoveCustomModel(model) : undefined}
     >
       <View style={styles.modelCardHeader}>
         <Text style={styles.modelName} numberOfLines={1}>{model.name}</Text>
@@ -827,57 +987,225 @@ export default function RunAnywhereDemo() {
           <Text style={styles.frameworkText}>{model.framework}</Text>
         </View>
       </View>
-      <View style={styles.modelCardFooter}>
-        {model.isDownloaded ? (
-          <Text style={styles.downloadedBadge}>✓ Downloaded</Text>
-        ) : (
+      <View style={styles.modelCardFooter}>{renderModelStatus(model)}</View>
+    </TouchableOpacity>
+  );
+
+  const renderModelStatus = (model: ModelInfo) => {
+    const state = modelStateOf(modelStates, model.id);
+    switch (state.status) {
+      case 'remote':
+        return (
           <Text style={styles.sizeText}>
             {model.downloadSize ? `${(model.downloadSize / 1_000_000).toFixed(0)} MB` : 'Remote'}
           </Text>
+        );
+      case 'downloading': {
+        const job = downloads.find(d => d.modelId === model.id);
+        return job && job.status !== 'downloading' ? (
+          <Text style={styles.sizeText}>⏳ {DownloadStatuses[job.status]}</Text>
+        ) : (
+          <Text style={styles.sizeText}>📥 {Math.round(state.progress * 100)}%</Text>
+        );
+      }
+      case 'downloaded':
+        return <Text style={styles.downloadedBadge}>✓ Downloaded</Text>;
+      case 'loaded':
+        return <Text style={styles.downloadedBadge}>● Loaded</Text>;
+      case 'failed':
+        return <Text style={styles.failedBadge}>⚠️ {ModelStatuses.failed}</Text>;
+      default:
+        return <Text style={styles.sizeText}>⏳ {ModelStatuses[state.status]}…</Text>;
+    }
+  };
+
+  const renderLLMContent = () => (
+    <View style={styles.contentSection}>
+      {isModelLoaded && (
+        <View style={styles.modeBar}>
+          {(Object.keys(LLMModes) as LLMMode[]).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.modeChip, llmMode === mode && styles.modeChipActive]}
+              onPress={() => setLlmMode(mode)}
+              disabled={isGenerating}
+            >
+              <Text style={[styles.modeChipText, llmMode === mode && styles.modeChipTextActive]}>
+                {LLMModes[mode]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {llmMode === 'json' && isModelLoaded ? (
+        <StructuredOutputPanel
+          generate={generateChatReply}
+          disabled={isGenerating}
+          onBusyChange={setIsGenerating}
+        />
+      ) : llmMode === 'docs' && isModelLoaded ? (
+        <DocumentQAPanel
+          generate={generateChatReply}
+          disabled={isGenerating}
+          onBusyChange={setIsGenerating}
+        />
+      ) : llmMode === 'arena' && isModelLoaded ? (
+        <ArenaPanel
+          models={models.filter(m => m.category === 'language' && m.isDownloaded)}
+          currentModel={selectedModel}
+          disabled={isGenerating}
+          onBusyChange={setIsGenerating}
+        />
+      ) : (
+        renderChatContent()
+      )}
+    </View>
+  );
+
+  const renderChatContent = () => (
+    <>
+      <View style={styles.chatToolbar}>
+        <TouchableOpacity onPress={() => router.push('/conversations')} disabled={isGenerating}>
+          <Text style={styles.addModelLink}>📚 Conversations</Text>
+        </TouchableOpacity>
+        {chatMessages.length > 0 && (
+          <TouchableOpacity onPress={handleNewChat} disabled={isGenerating}>
+            <Text style={styles.addModelLink}>+ New chat</Text>
+          </TouchableOpacity>
         )}
       </View>
-    </TouchableOpacity>
-  );
 
-  const renderLLMContent = () => (
-    <View style={styles.contentSection}>
+      {chatMessages.length > 0 && (
+        <View style={styles.chatBox}>
+          <View style={styles.chatHeader}>
+            <Text style={styles.chatTitle} numberOfLines={1}>
+              {conversation?.title || 'New conversation'}
+            </Text>
+            <Text style={styles.chatTemplateLabel}>
+              {selectedModel ? `${ChatTemplates[detectChatTemplate(selectedModel)].label} template` : ''}
+            </Text>
+          </View>
+          {chatBranches.length > 1 && (
+            <Text style={styles.branchLabel}>
+              🌿 Branch {chatBranches.findIndex(leaf => leaf.id === chatPath[chatPath.length - 1]?.id) + 1} of{' '}
+              {chatBranches.length} · swipe a message to switch versions
+            </Text>
+          )}
+          {chatMessages.map(message => (
+            <ChatBubble
+              key={message.id}
+              message={message}
+              isStreaming={message.id === streamingMessageId}
+              version={siblingPosition(chatTree, message.id)}
+              onSelectVersion={offset => handleSelectVersion(message.id, offset)}
+              onRegenerate={
+                message.role === 'assistant' && isModelLoaded ? () => handleRegenerate(message.id) : undefined
+              }
+              onEdit={
+                message.role === 'user' && isModelLoaded ? content => handleEditMessage(message.id, content) : undefined
+              }
+              onReadAloud={message.role === 'assistant' ? () => handleReadAloud(message) : undefined}
+              reading={reading?.messageId === message.id ? reading : null}
+              actionsDisabled={isGenerating}
+            />
+          ))}
+        </View>
+      )}
+
       {isModelLoaded && (
         <>
-          <TextInput
-            style={styles.input}
-            value={prompt}
-            onChangeText={setPrompt}
-            placeholder="Ask me anything..."
-            placeholderTextColor="#666"
-            multiline
+          <GenerationSettingsPanel settings={generationSettings} disabled={isGenerating} />
+          <ContextMeter
+            usage={measureUsage(
+              [{ content: personas.activePersona.systemPrompt }, ...chatMessages, { content: prompt }],
+              {
+                contextLength: selectedModel?.contextLength || DEFAULT_CONTEXT_LENGTH,
+                reserveTokens: generationSettings.params.maxTokens,
+              }
+            )}
+            contextLength={selectedModel?.contextLength || DEFAULT_CONTEXT_LENGTH}
+            strategy={contextStrategy}
+            onStrategyChange={setContextStrategy}
+            trimmedCount={trimmedCount}
+            disabled={isGenerating}
           />
           <TouchableOpacity
-            style={[styles.actionButton, isGenerating && styles.actionButtonDisabled]}
-            onPress={handleGenerate}
+            style={styles.templatesLink}
+            onPress={() => setShowTemplates(true)}
             disabled={isGenerating}
           >
-            {isGenerating ? (
-              <ActivityIndicator color="#fff" />
-            ) : (
-              <Text style={styles.actionButtonText}>⚡ Generate</Text>
-            )}
+            <Text style={styles.addModelLink}>📝 Prompt templates</Text>
           </TouchableOpacity>
+          <View style={styles.promptBox}>
+            <TextInput
+              style={[styles.input, styles.promptInput]}
+              value={prompt}
+              onChangeText={setPrompt}
+              onSelectionChange={e => {
+                promptSelectionRef.current = e.nativeEvent.selection;
+              }}
+              placeholder={chatMessages.length > 0 ? 'Reply...' : 'Ask me anything...'}
+              placeholderTextColor="#666"
+              multiline
+              editable={dictation === 'idle'}
+            />
+            <TouchableOpacity
+              style={[styles.dictationButton, dictation === 'recording' && styles.dictationButtonActive]}
+              onPress={handleDictation}
+              disabled={dictation === 'transcribing' || isGenerating}
+            >
+              {dictation === 'transcribing' ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.dictationIcon}>{dictation === 'recording' ? '⏹️' : '🎙️'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          <View style={styles.streamToggle}>
+            <Text style={styles.streamToggleLabel}>🛠️ Tools (calculator, date, units, transcripts)</Text>
+            <Switch
+              value={toolsEnabled}
+              onValueChange={setToolsEnabled}
+              disabled={isGenerating}
+            />
+          </View>
+          <View style={styles.streamToggle}>
+            <Text style={styles.streamToggleLabel}>Stream tokens</Text>
+            <Switch
+              value={streamingEnabled && !toolsEnabled}
+              onValueChange={setStreamingEnabled}
+              disabled={isGenerating || toolsEnabled}
+            />
+          </View>
+          {isGenerating && streamingEnabled && !toolsEnabled ? (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.stopButton]}
+              onPress={handleStopGeneration}
+            >
+              <Text style={styles.actionButtonText}>⏹️ Stop</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[styles.actionButton, isGenerating && styles.actionButtonDisabled]}
+              onPress={handleGenerate}
+              disabled={isGenerating}
+            >
+              {isGenerating ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.actionButtonText}>⚡ Send</Text>
+              )}
+            </TouchableOpacity>
+          )}
         </>
       )}
-      
-      {response !== '' && (
-        <View style={styles.responseBox}>
-          <Text style={styles.responseText}>{response}</Text>
-        </View>
-      )}
-    </View>
+    </>
   );
 
   const renderSTTContent = () => {
     // Check if recording is available
-    const androidReady = Platform.OS === 'android' && LiveAudioStream && FileSystem;
-    const iosReady = Platform.OS === 'ios' && audioModulesAvailable;
-    const recordingAvailable = androidReady || iosReady;
+    const recordingAvailable = captureAvailable;
     
     return (
       <View style={styles.contentSection}>
@@ -916,21 +1244,61 @@ export default function RunAnywhereDemo() {
           <View style={styles.transcriptBox}>
             <Text style={styles.transcriptLabel}>📝 Transcript</Text>
             <Text style={styles.transcriptText}>{transcript}</Text>
+            {lastMetrics.stt && <Text style={styles.metricText}>⏱️ {formatMetric(lastMetrics.stt)}</Text>}
+            {lastRecordingRef.current && (
+              <TouchableOpacity onPress={handleSaveBenchmarkClip}>
+                <Text style={styles.metricsLink}>⭐ Save as benchmark clip</Text>
+              </TouchableOpacity>
+            )}
           </View>
         )}
       </View>
     );
   };
 
+  const updateVoiceSettings = (patch: Partial<VoiceSettings>) => {
+    const next = { ...voiceSettings, ...patch };
+    setVoiceSettings(next);
+    saveVoiceSettings(next).catch(e => console.log('Failed to save voice settings:', e));
+  };
+
+  // Rate and pitch apply to every voice in the app: this tab, read-aloud, translation and the assistant
+  const renderVoiceSettings = () => (
+    <>
+      {([
+        ['rate', 'Rate', VOICE_RATES],
+        ['pitch', 'Pitch', VOICE_PITCHES],
+      ] as const).map(([key, label, values]) => (
+        <View key={key}>
+          <Text style={styles.voiceSettingLabel}>{label}</Text>
+          <View style={styles.modeBar}>
+            {values.map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.modeChip, voiceSettings[key] === value && styles.modeChipActive]}
+                onPress={() => updateVoiceSettings({ [key]: value })}
+                disabled={isSpeaking}
+              >
+                <Text style={[styles.modeChipText, voiceSettings[key] === value && styles.modeChipTextActive]}>
+                  {value}×
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+    </>
+  );
+
   const renderTTSContent = () => {
-    const isSystemTTS = selectedModel?.id === 'system-tts';
-    const canUseSystemTTS = isSystemTTS && audioModulesAvailable;
+    const isSystemTTS = selectedModel?.id === SYSTEM_TTS_ID;
+    const canUseSystemTTS = isSystemTTS && systemSpeechAvailable;
     const canUseNeuralTTS = isModelLoaded && !isSystemTTS;
     
     return (
       <View style={styles.contentSection}>
         {/* System TTS selected but expo-speech not available */}
-        {isSystemTTS && !audioModulesAvailable && (
+        {isSystemTTS && !systemSpeechAvailable && (
           <View style={styles.rebuildRequired}>
             <Text style={styles.rebuildIcon}>🔧</Text>
             <Text style={styles.rebuildTitle}>Rebuild Required for System TTS</Text>
@@ -952,6 +1320,8 @@ export default function RunAnywhereDemo() {
               placeholderTextColor="#666"
               multiline
             />
+
+            {renderVoiceSettings()}
             
             <View style={styles.speakingSection}>
               <Animated.View style={{ transform: [{ scale: speakingAnim }] }}>
@@ -989,6 +1359,8 @@ export default function RunAnywhereDemo() {
               placeholderTextColor="#666"
               multiline
             />
+
+            {renderVoiceSettings()}
             
             <View style={styles.speakingSection}>
               <Animated.View style={{ transform: [{ scale: speakingAnim }] }}>
@@ -1012,12 +1384,49 @@ export default function RunAnywhereDemo() {
         {response !== '' && (
           <View style={styles.responseBox}>
             <Text style={styles.responseText}>{response}</Text>
+            {lastMetrics.tts && <Text style={styles.metricText}>⏱️ {formatMetric(lastMetrics.tts)}</Text>}
           </View>
         )}
       </View>
     );
   };
 
+  const renderVoiceContent = () => {
+    const { llm, stt, tts } = loadedModels;
+    const voiceModels: VoiceModels | null = llm && stt && tts ? { llm, stt, tts } : null;
+
+    return (
+      <View style={styles.contentSection}>
+        <VoiceModelPicker models={models} loaded={loadedModels} disabled={isVoiceBusy} />
+
+        {voiceModels && (
+          <>
+            <View style={[styles.modeBar, styles.voiceModeBar]}>
+              {(Object.keys(VoiceModes) as VoiceMode[]).map(mode => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.modeChip, voiceMode === mode && styles.modeChipActive]}
+                  onPress={() => setVoiceMode(mode)}
+                  disabled={isVoiceBusy}
+                >
+                  <Text style={[styles.modeChipText, voiceMode === mode && styles.modeChipTextActive]}>
+                    {VoiceModes[mode]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {voiceMode === 'translate' ? (
+              <TranslatePanel models={voiceModels} onBusyChange={setIsVoiceBusy} />
+            ) : (
+              <VoiceAssistantPanel models={voiceModels} onBusyChange={setIsVoiceBusy} />
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -1028,6 +1437,17 @@ export default function RunAnywhereDemo() {
           <View style={styles.modeBadge}>
             <Text style={styles.modeBadgeText}>🔧 DEV MODE</Text>
           </View>
+          <View style={styles.headerLinks}>
+            <TouchableOpacity onPress={() => router.push('/metrics')}>
+              <Text style={styles.metricsLink}>📊 Performance history</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/benchmark')}>
+              <Text style={styles.metricsLink}>🏁 Benchmark</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/safety')}>
+              <Text style={styles.metricsLink}>🛡️ Safety</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Error Display */}
@@ -1037,21 +1457,40 @@ export default function RunAnywhereDemo() {
           </View>
         )}
 
+        {/* Safety filter warnings and redactions; blocks show up as errors */}
+        {safetyNotice && (
+          <TouchableOpacity style={styles.safetyBox} onPress={() => setSafetyNotice(null)}>
+            <Text style={styles.safetyText}>
+              🛡️ {SafetyStages[safetyNotice.stage]}: {SafetyActions[safetyNotice.action].toLowerCase()} ·{' '}
+              {safetyNotice.rules.map(r => r.label).join(', ')}
+            </Text>
+            <Text style={styles.safetyHint}>Tap to dismiss</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Tabs */}
         <View style={styles.tabBar}>
           {renderTab('llm', 'LLM', '💬')}
           {renderTab('stt', 'STT', '🎤')}
           {renderTab('tts', 'TTS', '🔊')}
+          {renderTab('voice', 'Voice', '🗣️')}
         </View>
 
-        {/* Model Selection */}
-        {isInitialized && (
+        {/* Model Selection (the voice assistant picks one model per step itself) */}
+        {isInitialized && activeTab !== 'voice' && (
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Select Model</Text>
-              <TouchableOpacity onPress={() => setShowAddModel(true)}>
-                <Text style={styles.addModelLink}>+ Add Custom</Text>
-              </TouchableOpacity>
+              <View style={styles.sectionLinks}>
+                {selectedModel?.category === 'language' && selectedState?.isDownloaded && (
+                  <TouchableOpacity onPress={() => setDetailsModel(selectedModel)}>
+                    <Text style={styles.addModelLink}>ℹ️ Details</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => setShowAddModel(true)}>
+                  <Text style={styles.addModelLink}>+ Add Custom</Text>
+                </TouchableOpacity>
+              </View>
             </View>
             
             <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.modelList}>
@@ -1059,39 +1498,61 @@ export default function RunAnywhereDemo() {
             </ScrollView>
 
             {/* Download/Load Buttons */}
-            {selectedModel && (
+            {selectedModel && selectedState && (
               <View style={styles.modelActions}>
-                {!selectedModel.isDownloaded && selectedModel.id !== 'system-tts' ? (
+                {selectedState.status === 'remote' ||
+                selectedState.status === 'downloading' ||
+                (selectedState.status === 'failed' && !selectedState.isDownloaded) ? (
                   <TouchableOpacity
-                    style={[styles.downloadButton, isDownloading && styles.downloadButtonDisabled]}
+                    style={[styles.downloadButton, selectedState.status === 'downloading' && styles.downloadButtonDisabled]}
                     onPress={handleDownloadModel}
-                    disabled={isDownloading}
+                    disabled={selectedState.status === 'downloading'}
                   >
-                    {isDownloading ? (
-                      <Text style={styles.downloadButtonText}>📥 {downloadProgress > 0 ? `${downloadProgress}%` : 'Starting...'}</Text>
+                    {selectedState.status === 'downloading' ? (
+                      <Text style={styles.downloadButtonText}>📥 {selectedState.progress > 0 ? `${Math.round(selectedState.progress * 100)}%` : 'Starting...'}</Text>
                     ) : (
                       <Text style={styles.downloadButtonText}>📥 Download {selectedModel.name}</Text>
                     )}
                   </TouchableOpacity>
-                ) : !isModelLoaded ? (
+                ) : selectedState.status !== 'loaded' ? (
                   <TouchableOpacity
-                    style={[styles.loadButton, isLoading && styles.loadButtonDisabled]}
+                    style={[styles.loadButton, selectedState.status !== 'downloaded' && selectedState.status !== 'failed' && styles.loadButtonDisabled]}
                     onPress={handleLoadModel}
-                    disabled={isLoading}
+                    disabled={selectedState.status !== 'downloaded' && selectedState.status !== 'failed'}
                   >
-                    {isLoading ? (
+                    {selectedState.status === 'loading' || selectedState.status === 'unloading' ? (
                       <ActivityIndicator color="#fff" />
                     ) : (
                       <Text style={styles.loadButtonText}>🚀 Load {selectedModel.name}</Text>
                     )}
                   </TouchableOpacity>
                 ) : (
-                  <View style={styles.loadedIndicator}>
-                    <Text style={styles.loadedText}>✅ {selectedModel.name} Ready</Text>
+                  <View style={styles.loadedRow}>
+                    <View style={[styles.loadedIndicator, styles.loadedIndicatorFlex]}>
+                      <Text style={styles.loadedText} numberOfLines={1}>✅ {selectedModel.name} Ready</Text>
+                      {lastMetrics.load && <Text style={styles.metricText}>⏱️ {formatMetric(lastMetrics.load)}</Text>}
+                    </View>
+                    {activeTab === 'llm' && (
+                      <TouchableOpacity style={styles.personaChip} onPress={() => setShowPersonaPicker(true)}>
+                        <Text style={styles.personaChipIcon}>{personas.activePersona.icon}</Text>
+                        <Text style={styles.personaChipText} numberOfLines={1}>{personas.activePersona.name}</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.unloadButton} onPress={handleUnloadModel} disabled={isGenerating}>
+                      <Text style={styles.unloadButtonText}>⏏️</Text>
+                    </TouchableOpacity>
                   </View>
                 )}
               </View>
             )}
+
+            <DownloadQueue
+              jobs={downloads}
+              onPause={id => downloadManager.pause(id)}
+              onResume={id => downloadManager.resume(id)}
+              onCancel={id => downloadManager.cancel(id)}
+              onRetry={handleRetryDownload}
+            />
           </View>
         )}
 
@@ -1101,6 +1562,7 @@ export default function RunAnywhereDemo() {
             {activeTab === 'llm' && renderLLMContent()}
             {activeTab === 'stt' && renderSTTContent()}
             {activeTab === 'tts' && renderTTSContent()}
+            {activeTab === 'voice' && renderVoiceContent()}
           </>
         )}
 
@@ -1149,45 +1611,25 @@ export default function RunAnywhereDemo() {
         </View>
       </ScrollView>
 
-      {/* Add Custom Model Modal */}
-      <Modal visible={showAddModel} transparent animationType="slide">
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Add Custom Model</Text>
-            <Text style={styles.modalSubtitle}>Import from Hugging Face</Text>
-            
-            <TextInput
-              style={styles.modalInput}
-              value={customModelName}
-              onChangeText={setCustomModelName}
-              placeholder="Model name (e.g., My Custom LLM)"
-              placeholderTextColor="#666"
-            />
-            
-            <TextInput
-              style={styles.modalInput}
-              value={customModelURL}
-              onChangeText={setCustomModelURL}
-              placeholder="https://huggingface.co/..."
-              placeholderTextColor="#666"
-              autoCapitalize="none"
-            />
-            
-            <Text style={styles.modalHint}>
-              💡 Supports GGUF (LLM) and ONNX (STT/TTS) formats
-            </Text>
-            
-            <View style={styles.modalActions}>
-              <TouchableOpacity style={styles.modalCancelButton} onPress={() => setShowAddModel(false)}>
-                <Text style={styles.modalCancelText}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity style={styles.modalAddButton} onPress={handleAddCustomModel}>
-                <Text style={styles.modalAddText}>Add Model</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        </View>
-      </Modal>
+      <PersonaPicker
+        visible={showPersonaPicker}
+        personas={personas}
+        onClose={() => setShowPersonaPicker(false)}
+      />
+
+      <PromptTemplateSheet
+        visible={showTemplates}
+        onClose={() => setShowTemplates(false)}
+        onUse={setPrompt}
+      />
+
+      <CustomModelSheet
+        visible={showAddModel}
+        onClose={() => setShowAddModel(false)}
+        onAdded={handleCustomModelAdded}
+      />
+
+      <ModelDetailsSheet model={detailsModel} onClose={() => setDetailsModel(null)} />
     </SafeAreaView>
   );
 }
@@ -1246,6 +1688,23 @@ const styles = StyleSheet.create({
     color: '#F44336',
     fontSize: 14,
   },
+  safetyBox: {
+    backgroundColor: '#2a2210',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF9800',
+  },
+  safetyText: {
+    color: '#FFB74D',
+    fontSize: 13,
+  },
+  safetyHint: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 4,
+  },
   
   // Tabs
   tabBar: {
@@ -1294,6 +1753,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  sectionLinks: {
+    flexDirection: 'row',
+    gap: 16,
+  },
   addModelLink: {
     color: '#007AFF',
     fontSize: 14,
@@ -1346,6 +1809,10 @@ const styles = StyleSheet.create({
     color: '#888',
     fontSize: 12,
   },
+  failedBadge: {
+    color: '#F44336',
+    fontSize: 12,
+  },
   
   // Model Actions
   modelActions: {
@@ -1385,6 +1852,56 @@ const styles = StyleSheet.create({
     padding: 16,
     alignItems: 'center',
   },
+  metricText: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 6,
+  },
+  headerLinks: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  metricsLink: {
+    color: '#007AFF',
+    fontSize: 13,
+    marginTop: 10,
+  },
+  loadedRow: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    gap: 8,
+  },
+  loadedIndicatorFlex: {
+    flex: 1,
+  },
+  personaChip: {
+    backgroundColor: '#1a1a2a',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    maxWidth: 110,
+    borderWidth: 1,
+    borderColor: '#4A90D9',
+  },
+  unloadButton: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unloadButtonText: {
+    fontSize: 18,
+  },
+  personaChipIcon: {
+    fontSize: 18,
+  },
+  personaChipText: {
+    color: '#4A90D9',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   loadedText: {
     color: '#4CAF50',
     fontSize: 16,
@@ -1405,6 +1922,29 @@ const styles = StyleSheet.create({
     textAlignVertical: 'top',
     marginBottom: 12,
   },
+  promptBox: {
+    position: 'relative',
+  },
+  promptInput: {
+    paddingRight: 56,
+  },
+  dictationButton: {
+    position: 'absolute',
+    right: 10,
+    bottom: 22,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#2a2a2a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dictationButtonActive: {
+    backgroundColor: '#F44336',
+  },
+  dictationIcon: {
+    fontSize: 16,
+  },
   actionButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
@@ -1422,6 +1962,20 @@ const styles = StyleSheet.create({
   stopButton: {
     backgroundColor: '#F44336',
   },
+  templatesLink: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
+  streamToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  streamToggleLabel: {
+    color: '#888',
+    fontSize: 14,
+  },
   
   // Response Box
   responseBox: {
@@ -1438,6 +1992,70 @@ const styles = StyleSheet.create({
     lineHeight: 22,
   },
   
+  // LLM modes
+  modeBar: {
+    flexDirection: 'row',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  voiceModeBar: {
+    marginTop: 16,
+  },
+  modeChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  modeChipActive: {
+    backgroundColor: '#2a2a2a',
+  },
+  modeChipText: {
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  modeChipTextActive: {
+    color: '#fff',
+  },
+  
+  // Chat
+  chatBox: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  chatToolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  chatTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  chatHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  branchLabel: {
+    color: '#888',
+    fontSize: 11,
+    marginBottom: 8,
+  },
+  chatTemplateLabel: {
+    color: '#666',
+    fontSize: 12,
+  },
+  
   // Rebuild Required
   rebuildRequired: {
     backgroundColor: '#2a2a1a',
@@ -1556,6 +2174,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 8,
   },
+  voiceSettingLabel: {
+    color: '#888',
+    fontSize: 13,
+    marginBottom: 6,
+  },
   ttsHint: {
     color: '#666',
     fontSize: 12,
@@ -1635,68 +2258,5 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginVertical: 4,
   },
-  
-  // Modal
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.8)',
-    justifyContent: 'center',
-    padding: 20,
-  },
-  modalContent: {
-    backgroundColor: '#1a1a1a',
-    borderRadius: 20,
-    padding: 24,
-  },
-  modalTitle: {
-    color: '#fff',
-    fontSize: 20,
-    fontWeight: '600',
-    marginBottom: 4,
-  },
-  modalSubtitle: {
-    color: '#888',
-    fontSize: 14,
-    marginBottom: 20,
-  },
-  modalInput: {
-    backgroundColor: '#0a0a0a',
-    borderRadius: 12,
-    padding: 16,
-    color: '#fff',
-    fontSize: 16,
-    marginBottom: 12,
-    borderWidth: 1,
-    borderColor: '#333',
-  },
-  modalHint: {
-    color: '#666',
-    fontSize: 12,
-    marginBottom: 20,
-  },
-  modalActions: {
-    flexDirection: 'row',
-    justifyContent: 'flex-end',
-  },
-  modalCancelButton: {
-    paddingVertical: 12,
-    paddingHorizontal: 20,
-    marginRight: 12,
-  },
-  modalCancelText: {
-    color: '#888',
-    fontSize: 16,
-  },
-  modalAddButton: {
-    backgroundColor: '#007AFF',
-    borderRadius: 12,
-    paddingVertical: 12,
-    paddingHorizontal: 20,
-  },
-  modalAddText: {
-    color: '#fff',
-    fontSize: 16,
-    fontWeight: '600',
-  },
 });
 
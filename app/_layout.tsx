@@ -17,6 +17,38 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen
+          name="conversations"
+          options={{
+            title: 'Conversations',
+            headerStyle: { backgroundColor: '#0a0a0a' },
+            headerTintColor: '#fff',
+          }}
+        />
+        <Stack.Screen
+          name="metrics"
+          options={{
+            title: 'Performance History',
+            headerStyle: { backgroundColor: '#0a0a0a' },
+            headerTintColor: '#fff',
+          }}
+        />
+        <Stack.Screen
+          name="benchmark"
+          options={{
+            title: 'Benchmark',
+            headerStyle: { backgroundColor: '#0a0a0a' },
+            headerTintColor: '#fff',
+          }}
+        />
+        <Stack.Screen
+          name="safety"
+          options={{
+            title: 'Safety Filters',
+            headerStyle: { backgroundColor: '#0a0a0a' },
+            headerTintColor: '#fff',
+          }}
+        />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
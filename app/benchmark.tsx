@@ -0,0 +1,418 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert, Share, ActivityIndicator } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import { modelStore } from '@/lib/app-models';
+import { RunAnywhere, sdkAvailable } from '@/lib/runanywhere';
+import {
+  BENCHMARK_PROMPTS,
+  BENCHMARK_SENTENCES,
+  BenchmarkCategories,
+  benchmarkableModels,
+  deleteBenchmarkClip,
+  listBenchmarkClips,
+  reportToCSV,
+  reportToJSON,
+  runBenchmark,
+  type BenchmarkCategory,
+  type BenchmarkClip,
+  type BenchmarkModel,
+  type BenchmarkProgress,
+  type BenchmarkReport,
+  type BenchmarkRow,
+} from '@/lib/benchmark';
+import { formatDuration } from '@/lib/metrics';
+
+// =============================================================================
+// Benchmark - run every downloaded model of a category on fixed inputs
+// =============================================================================
+
+type Column = {
+  header: string;
+  value: (row: BenchmarkRow) => number | null | undefined;
+  format: (value: number) => string;
+  higherIsBetter: boolean;
+};
+
+const COMMON_COLUMNS: Column[] = [
+  { header: 'Load', value: r => r.loadMs, format: formatDuration, higherIsBetter: false },
+  { header: 'Latency', value: r => r.avgLatencyMs, format: formatDuration, higherIsBetter: false },
+];
+
+const COLUMNS: Record<BenchmarkCategory, Column[]> = {
+  language: [
+    ...COMMON_COLUMNS,
+    { header: 'TTFT', value: r => r.avgTimeToFirstTokenMs, format: formatDuration, higherIsBetter: false },
+    { header: 'tok/s', value: r => r.tokensPerSecond, format: v => v.toFixed(1), higherIsBetter: true },
+  ],
+  'speech-recognition': [
+    ...COMMON_COLUMNS,
+    { header: 'RTF', value: r => r.realTimeFactor, format: v => `${v.toFixed(2)}×`, higherIsBetter: false },
+  ],
+  'speech-synthesis': [
+    ...COMMON_COLUMNS,
+    { header: 'RTF', value: r => r.realTimeFactor, format: v => `${v.toFixed(2)}×`, higherIsBetter: false },
+  ],
+};
+
+export default function BenchmarkScreen() {
+  const [category, setCategory] = useState<BenchmarkCategory>('language');
+  const [models, setModels] = useState<BenchmarkModel[]>([]);
+  const [clips, setClips] = useState<BenchmarkClip[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [rows, setRows] = useState<BenchmarkRow[]>([]);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const stopRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      if (sdkAvailable) {
+        const available = await RunAnywhere.getAvailableModels();
+        modelStore.sync(available);
+        setModels(available);
+      }
+      setClips(await listBenchmarkClips());
+    } catch (e: any) {
+      Alert.alert('Error', `Could not load models: ${e.message}`);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const candidates = benchmarkableModels(models, category);
+  const inputCount =
+    category === 'language' ? BENCHMARK_PROMPTS.length : category === 'speech-synthesis' ? BENCHMARK_SENTENCES.length : clips.length;
+
+  const handleRun = async () => {
+    if (candidates.length === 0 || inputCount === 0) return;
+    stopRef.current = false;
+    setIsRunning(true);
+    setRows([]);
+    setReport(null);
+
+    try {
+      const result = await runBenchmark({
+        sdk: RunAnywhere,
+        store: modelStore,
+        category,
+        models: candidates,
+        clips,
+        onProgress: setProgress,
+        onRow: row => setRows(prev => [...prev, row]),
+        shouldStop: () => stopRef.current,
+      });
+      setReport(result);
+    } catch (e: any) {
+      Alert.alert('Benchmark failed', e.message);
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!report) return;
+    const message = format === 'csv' ? reportToCSV(report) : reportToJSON(report);
+    Share.share({ message, title: `benchmark-${report.category}.${format}` }).catch((e: any) =>
+      Alert.alert('Export failed', e.message)
+    );
+  };
+
+  const handleDeleteClip = (clip: BenchmarkClip) => {
+    Alert.alert('Delete Clip', 'Remove this clip from the benchmark set?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteBenchmarkClip(clip);
+          setClips(await listBenchmarkClips());
+        },
+      },
+    ]);
+  };
+
+  const columns = COLUMNS[category];
+
+  // Best value per column, highlighted in the table
+  const best = columns.map(column => {
+    const values = rows.map(column.value).filter((v): v is number => typeof v === 'number');
+    if (values.length < 2) return null;
+    return column.higherIsBetter ? Math.max(...values) : Math.min(...values);
+  });
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.chipBar}>
+        {(Object.keys(BenchmarkCategories) as BenchmarkCategory[]).map(c => (
+          <TouchableOpacity
+            key={c}
+            style={[styles.chip, category === c && styles.chipActive]}
+            onPress={() => {
+              setCategory(c);
+              setRows([]);
+              setReport(null);
+            }}
+            disabled={isRunning}
+          >
+            <Text style={[styles.chipText, category === c && styles.chipTextActive]}>{BenchmarkCategories[c]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>
+          {candidates.length} downloaded model{candidates.length === 1 ? '' : 's'} · {inputCount} input{inputCount === 1 ? '' : 's'} each
+        </Text>
+        {candidates.map(model => (
+          <Text key={model.id} style={styles.meta} numberOfLines={1}>• {model.name}</Text>
+        ))}
+        {category === 'speech-recognition' && (
+          <>
+            <Text style={[styles.cardTitle, styles.sectionGap]}>Audio clips</Text>
+            {clips.length === 0 ? (
+              <Text style={styles.meta}>
+                No clips yet. Record something on the STT tab and tap &quot;Save as benchmark clip&quot;.
+              </Text>
+            ) : (
+              clips.map(clip => (
+                <View key={clip.id} style={styles.clipRow}>
+                  <Text style={[styles.meta, styles.clipText]} numberOfLines={1}>
+                    {clip.audioSeconds.toFixed(1)}s · {clip.transcript || '(no transcript)'}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleDeleteClip(clip)} disabled={isRunning}>
+                    <Text style={styles.deleteLink}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </>
+        )}
+        <Text style={[styles.meta, styles.sectionGap]}>
+          Each model is loaded, run and unloaded in turn. Reload your model on the main screen afterwards.
+        </Text>
+      </View>
+
+      {isRunning ? (
+        <View style={styles.progressRow}>
+          <ActivityIndicator color="#007AFF" />
+          <Text style={styles.progressText} numberOfLines={2}>
+            {progress
+              ? `${progress.modelIndex + 1}/${progress.modelCount} ${progress.modelName} — ${progress.step}`
+              : 'Starting...'}
+          </Text>
+          <TouchableOpacity onPress={() => (stopRef.current = true)}>
+            <Text style={styles.deleteLink}>Stop</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={[styles.runButton, (candidates.length === 0 || inputCount === 0) && styles.runButtonDisabled]}
+          onPress={handleRun}
+          disabled={candidates.length === 0 || inputCount === 0}
+        >
+          <Text style={styles.runButtonText}>🏁 Run Benchmark</Text>
+        </TouchableOpacity>
+      )}
+
+      {rows.length > 0 && (
+        <ScrollView horizontal style={styles.sectionGap}>
+          <View style={styles.table}>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              <Text style={[styles.cell, styles.modelCell, styles.headerText]}>Model</Text>
+              {columns.map(column => (
+                <Text key={column.header} style={[styles.cell, styles.headerText]}>{column.header}</Text>
+              ))}
+              <Text style={[styles.cell, styles.headerText]}>OK / fail</Text>
+            </View>
+            {rows.map(row => (
+              <View key={row.modelId} style={styles.tableRow}>
+                <Text style={[styles.cell, styles.modelCell]} numberOfLines={2}>{row.modelName}</Text>
+                {row.error ? (
+                  <Text style={[styles.cell, styles.errorCell]} numberOfLines={2}>{row.error}</Text>
+                ) : (
+                  columns.map((column, c) => {
+                    const value = column.value(row);
+                    return (
+                      <Text key={column.header} style={[styles.cell, value === best[c] && styles.bestCell]}>
+                        {typeof value === 'number' ? column.format(value) : '—'}
+                      </Text>
+                    );
+                  })
+                )}
+                <Text style={styles.cell}>{row.runs} / {row.failures}</Text>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+
+      {report && (
+        <View style={styles.exportRow}>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('csv')}>
+            <Text style={styles.exportText}>⬆️ Export CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('json')}>
+            <Text style={styles.exportText}>⬆️ Export JSON</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  content: {
+    padding: 20,
+  },
+  chipBar: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  sectionGap: {
+    marginTop: 12,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 12,
+    lineHeight: 18,
+  },
+  clipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  clipText: {
+    flex: 1,
+  },
+  deleteLink: {
+    color: '#F44336',
+    fontSize: 14,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+  },
+  progressText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+  },
+  runButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  runButtonDisabled: {
+    opacity: 0.5,
+  },
+  runButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  tableHeader: {
+    backgroundColor: '#1a1a1a',
+    borderTopWidth: 0,
+  },
+  cell: {
+    width: 80,
+    color: '#ddd',
+    fontSize: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  modelCell: {
+    width: 140,
+    fontWeight: '600',
+  },
+  headerText: {
+    color: '#888',
+    fontWeight: '600',
+  },
+  bestCell: {
+    color: '#4CAF50',
+    fontWeight: '700',
+  },
+  errorCell: {
+    width: 240,
+    color: '#F44336',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  exportText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
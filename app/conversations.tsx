@@ -0,0 +1,335 @@
+import React, { useCallback, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  Share,
+} from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+import {
+  deleteConversation,
+  listConversations,
+  modelsUsed,
+  renameConversation,
+  type Conversation,
+} from '@/lib/conversation-store';
+import {
+  exportConversation,
+  exportFileName,
+  ExportFormats,
+  importConversation,
+  type ExportFormat,
+} from '@/lib/conversation-export';
+
+// =============================================================================
+// Conversation Library - list, rename, delete, export, import and reopen saved chats
+// =============================================================================
+
+export default function ConversationsScreen() {
+  const router = useRouter();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setConversations(await listConversations());
+    } catch (e: any) {
+      Alert.alert('Error', `Could not load conversations: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const handleOpen = (conversation: Conversation) => {
+    router.navigate({
+      pathname: '/',
+      params: { conversationId: conversation.id, openedAt: String(Date.now()) },
+    });
+  };
+
+  const handleStartRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameText(conversation.title);
+  };
+
+  const handleSaveRename = async () => {
+    if (!renamingId) return;
+    try {
+      await renameConversation(renamingId, renameText);
+      setRenamingId(null);
+      await refresh();
+    } catch (e: any) {
+      Alert.alert('Error', `Rename failed: ${e.message}`);
+    }
+  };
+
+  const shareExport = (conversation: Conversation, format: ExportFormat) => {
+    Share.share({
+      message: exportConversation(conversation, format),
+      title: exportFileName(conversation, format),
+    }).catch((e: any) => Alert.alert('Error', `Export failed: ${e.message}`));
+  };
+
+  const handleExport = (conversation: Conversation) => {
+    Alert.alert('Export Conversation', 'Markdown and plain text include the active branch; JSON keeps everything and can be imported again.', [
+      ...(Object.keys(ExportFormats) as ExportFormat[]).map(format => ({
+        text: ExportFormats[format].label,
+        onPress: () => shareExport(conversation, format),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleStartImport = async () => {
+    setIsImporting(true);
+    // Offer whatever was copied last, which is usually the export itself
+    const copied = await Clipboard.getStringAsync().catch(() => '');
+    setImportText(copied.trim().startsWith('{') ? copied : '');
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await importConversation(importText);
+      setIsImporting(false);
+      setImportText('');
+      await refresh();
+      Alert.alert('Imported', `"${imported.title}" was added to your conversations.`);
+    } catch (e: any) {
+      Alert.alert('Import Failed', e.message);
+    }
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    Alert.alert('Delete Conversation', `Delete "${conversation.title}"? This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteConversation(conversation.id);
+            await refresh();
+          } catch (e: any) {
+            Alert.alert('Error', `Delete failed: ${e.message}`);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const models = modelsUsed(item);
+
+    return (
+      <View style={styles.card}>
+        {renamingId === item.id ? (
+          <View style={styles.renameRow}>
+            <TextInput
+              style={styles.renameInput}
+              value={renameText}
+              onChangeText={setRenameText}
+              autoFocus
+              onSubmitEditing={handleSaveRename}
+            />
+            <TouchableOpacity onPress={handleSaveRename}>
+              <Text style={styles.actionLink}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setRenamingId(null)}>
+              <Text style={styles.cancelLink}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity onPress={() => handleOpen(item)}>
+            <Text style={styles.title} numberOfLines={1}>{item.title}</Text>
+            <Text style={styles.meta}>
+              {item.messages.length} messages · {new Date(item.updatedAt).toLocaleString()}
+            </Text>
+            {models.length > 0 && (
+              <Text style={styles.models} numberOfLines={1}>🧠 {models.join(', ')}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {renamingId !== item.id && (
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => handleOpen(item)}>
+              <Text style={styles.actionLink}>Open</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleStartRename(item)}>
+              <Text style={styles.actionLink}>Rename</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleExport(item)}>
+              <Text style={styles.actionLink}>Export</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleDelete(item)}>
+              <Text style={styles.deleteLink}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={conversations}
+        keyExtractor={item => item.id}
+        renderItem={renderConversation}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          isImporting ? (
+            <View style={styles.card}>
+              <Text style={styles.title}>Import conversation</Text>
+              <Text style={styles.meta}>Paste a JSON export. A conversation that is already saved is replaced.</Text>
+              <TextInput
+                style={[styles.renameInput, styles.importInput]}
+                value={importText}
+                onChangeText={setImportText}
+                placeholder='{"kind": "runanywhere-conversation", ...}'
+                placeholderTextColor="#666"
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={handleImport} disabled={!importText.trim()}>
+                  <Text style={[styles.actionLink, !importText.trim() && styles.disabledLink]}>Import</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setIsImporting(false)}>
+                  <Text style={styles.cancelLink}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.importLink} onPress={handleStartImport}>
+              <Text style={styles.actionLink}>⬇️ Import from JSON</Text>
+            </TouchableOpacity>
+          )
+        }
+        ListEmptyComponent={
+          isLoading ? null : (
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>💬</Text>
+              <Text style={styles.emptyText}>No saved conversations yet.{'\n'}Chats are saved after each reply.</Text>
+            </View>
+          )
+        }
+      />
+    </View>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  listContent: {
+    padding: 20,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 12,
+  },
+  models: {
+    color: '#FF6B35',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 12,
+  },
+  actionLink: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  cancelLink: {
+    color: '#888',
+    fontSize: 14,
+  },
+  disabledLink: {
+    opacity: 0.4,
+  },
+  importLink: {
+    alignSelf: 'flex-end',
+    marginBottom: 12,
+  },
+  importInput: {
+    flex: 0,
+    minHeight: 120,
+    maxHeight: 240,
+    marginTop: 10,
+    fontFamily: 'monospace',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  deleteLink: {
+    color: '#F44336',
+    fontSize: 14,
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  renameInput: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    padding: 10,
+    color: '#fff',
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
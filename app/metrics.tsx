@@ -0,0 +1,207 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import {
+  clearMetrics,
+  formatDuration,
+  formatMetric,
+  listMetrics,
+  MetricKinds,
+  summarizeMetrics,
+  type MetricKind,
+  type MetricRecord,
+  type MetricSummary,
+} from '@/lib/metrics';
+
+// =============================================================================
+// Performance History - per-model averages and recent runs
+// =============================================================================
+
+const RECENT_LIMIT = 30;
+
+const formatSummary = (summary: MetricSummary): string => {
+  switch (summary.kind) {
+    case 'load':
+      return `avg ${formatDuration(summary.average)} · best ${formatDuration(summary.best)}`;
+    case 'generation':
+      return [
+        `avg ${summary.average} tok/s`,
+        `best ${summary.best}`,
+        summary.averageTimeToFirstTokenMs !== undefined ? `TTFT ${formatDuration(summary.averageTimeToFirstTokenMs)}` : null,
+      ]
+        .filter(Boolean)
+        .join(' · ');
+    case 'stt':
+    case 'tts':
+      return `avg RTF ${summary.average}× · best ${summary.best}×`;
+  }
+};
+
+export default function MetricsScreen() {
+  const [records, setRecords] = useState<MetricRecord[]>([]);
+  const [kind, setKind] = useState<MetricKind>('generation');
+
+  useFocusEffect(
+    useCallback(() => {
+      listMetrics().then(setRecords);
+    }, [])
+  );
+
+  const summaries = useMemo(() => summarizeMetrics(records).filter(s => s.kind === kind), [records, kind]);
+  const recent = useMemo(() => records.filter(r => r.kind === kind).slice(0, RECENT_LIMIT), [records, kind]);
+
+  const handleClear = () => {
+    Alert.alert('Clear History', 'Delete all recorded metrics?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          await clearMetrics();
+          setRecords([]);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.kindBar}>
+        {(Object.keys(MetricKinds) as MetricKind[]).map(k => (
+          <TouchableOpacity
+            key={k}
+            style={[styles.kindChip, kind === k && styles.kindChipActive]}
+            onPress={() => setKind(k)}
+          >
+            <Text style={[styles.kindChipText, kind === k && styles.kindChipTextActive]}>{MetricKinds[k]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>By model</Text>
+      {summaries.length === 0 ? (
+        <Text style={styles.emptyText}>No runs recorded yet.</Text>
+      ) : (
+        summaries.map(summary => (
+          <View key={summary.modelId} style={styles.card}>
+            <Text style={styles.title} numberOfLines={1}>{summary.modelName}</Text>
+            <Text style={styles.value}>{formatSummary(summary)}</Text>
+            <Text style={styles.meta}>{summary.runs} run{summary.runs === 1 ? '' : 's'}</Text>
+          </View>
+        ))
+      )}
+
+      {recent.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Recent runs</Text>
+          {recent.map(record => (
+            <View key={record.id} style={styles.row}>
+              <Text style={styles.rowModel} numberOfLines={1}>{record.modelName}</Text>
+              <Text style={styles.rowValue}>{formatMetric(record)}</Text>
+              <Text style={styles.meta}>{new Date(record.timestamp).toLocaleString()}</Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      {records.length > 0 && (
+        <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+          <Text style={styles.clearText}>Clear history</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  content: {
+    padding: 20,
+  },
+  kindBar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  kindChip: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  kindChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  kindChipText: {
+    color: '#888',
+    fontSize: 13,
+  },
+  kindChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  value: {
+    color: '#4CAF50',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 12,
+  },
+  row: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+    paddingVertical: 10,
+  },
+  rowModel: {
+    color: '#ccc',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rowValue: {
+    color: '#fff',
+    fontSize: 13,
+    marginVertical: 2,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  clearText: {
+    color: '#F44336',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,412 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Alert, Switch, TextInput } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import {
+  clearAuditLog,
+  DEFAULT_SAFETY_SETTINGS,
+  filterText,
+  listAuditLog,
+  loadSafetySettings,
+  SafetyActions,
+  SafetyStages,
+  saveSafetySettings,
+  validateRule,
+  type SafetyAction,
+  type SafetyAuditEntry,
+  type SafetyRule,
+  type SafetySettings,
+  type SafetyStage,
+} from '@/lib/safety-filter';
+
+// =============================================================================
+// Safety Filters - rule configuration, a test box and the audit log
+// =============================================================================
+
+const AUDIT_LIMIT = 50;
+
+const ACTION_COLORS: Record<SafetyAction, string> = {
+  allow: '#4CAF50',
+  warn: '#FF9800',
+  redact: '#007AFF',
+  block: '#F44336',
+};
+
+const newRule = (kind: 'blocklist' | 'regex'): SafetyRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  label: kind === 'regex' ? 'Custom pattern' : 'Custom blocklist',
+  kind,
+  action: 'warn',
+  enabled: true,
+  stages: ['prompt', 'response'],
+  ...(kind === 'regex' ? { pattern: '' } : { terms: [] }),
+});
+
+export default function SafetyScreen() {
+  const [settings, setSettings] = useState<SafetySettings>(DEFAULT_SAFETY_SETTINGS);
+  const [audit, setAudit] = useState<SafetyAuditEntry[]>([]);
+  const [sample, setSample] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSafetySettings().then(setSettings);
+      listAuditLog().then(setAudit);
+    }, [])
+  );
+
+  const preview = useMemo(() => (sample.trim() ? filterText(sample, 'prompt', settings) : null), [sample, settings]);
+
+  const persist = (next: SafetySettings) => {
+    setSettings(next);
+    saveSafetySettings(next).catch(e => Alert.alert('Save Failed', e.message));
+  };
+
+  const updateRule = (id: string, patch: Partial<SafetyRule>) => {
+    const rules = settings.rules.map(r => (r.id === id ? { ...r, ...patch } : r));
+    const problem = validateRule(rules.find(r => r.id === id)!);
+    if (problem) {
+      // Keep the edit on screen but don't save a rule that can't run
+      setSettings({ ...settings, rules });
+      return;
+    }
+    persist({ ...settings, rules });
+  };
+
+  const toggleStage = (rule: SafetyRule, stage: SafetyStage) => {
+    const stages = rule.stages.includes(stage) ? rule.stages.filter(s => s !== stage) : [...rule.stages, stage];
+    updateRule(rule.id, { stages });
+  };
+
+  const handleDeleteRule = (rule: SafetyRule) => {
+    Alert.alert('Delete Rule', `Delete "${rule.label}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => persist({ ...settings, rules: settings.rules.filter(r => r.id !== rule.id) }),
+      },
+    ]);
+  };
+
+  const handleClearAudit = () => {
+    Alert.alert('Clear Audit Log', 'Delete all logged filter decisions?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          await clearAuditLog();
+          setAudit([]);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.masterRow}>
+        <View style={styles.masterText}>
+          <Text style={styles.title}>Safety filters</Text>
+          <Text style={styles.meta}>
+            Checks prompts, replies, transcripts and speech on the device. While any rule checks replies, chat
+            replies arrive complete instead of streamed.
+          </Text>
+        </View>
+        <Switch value={settings.enabled} onValueChange={enabled => persist({ ...settings, enabled })} />
+      </View>
+
+      <Text style={styles.sectionTitle}>Rules</Text>
+      {settings.rules.map(rule => {
+        const problem = validateRule(rule);
+        return (
+          <View key={rule.id} style={[styles.card, !settings.enabled && styles.cardDisabled]}>
+            <View style={styles.ruleHeader}>
+              {rule.builtin ? (
+                <Text style={styles.ruleLabel}>{rule.label}</Text>
+              ) : (
+                <TextInput
+                  style={[styles.ruleLabel, styles.labelInput]}
+                  value={rule.label}
+                  onChangeText={label => updateRule(rule.id, { label })}
+                  placeholder="Rule name"
+                  placeholderTextColor="#666"
+                />
+              )}
+              <Switch value={rule.enabled} onValueChange={enabled => updateRule(rule.id, { enabled })} />
+            </View>
+
+            {rule.kind === 'blocklist' && (
+              <TextInput
+                style={styles.input}
+                defaultValue={(rule.terms ?? []).join(', ')}
+                onEndEditing={e =>
+                  updateRule(rule.id, { terms: e.nativeEvent.text.split(',').map(t => t.trim()).filter(Boolean) })
+                }
+                placeholder="Words or phrases, separated by commas"
+                placeholderTextColor="#666"
+                autoCapitalize="none"
+              />
+            )}
+            {rule.kind === 'regex' && (
+              <TextInput
+                style={[styles.input, styles.mono]}
+                value={rule.pattern}
+                onChangeText={pattern => updateRule(rule.id, { pattern })}
+                placeholder="Regular expression, e.g. \bproject\s+falcon\b"
+                placeholderTextColor="#666"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            )}
+
+            <View style={styles.chipRow}>
+              {(Object.keys(SafetyActions) as SafetyAction[]).map(action => (
+                <TouchableOpacity
+                  key={action}
+                  style={[styles.chip, rule.action === action && { backgroundColor: ACTION_COLORS[action] }]}
+                  onPress={() => updateRule(rule.id, { action })}
+                >
+                  <Text style={[styles.chipText, rule.action === action && styles.chipTextActive]}>
+                    {SafetyActions[action]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.chipRow}>
+              {(Object.keys(SafetyStages) as SafetyStage[]).map(stage => (
+                <TouchableOpacity
+                  key={stage}
+                  style={[styles.chip, styles.stageChip, rule.stages.includes(stage) && styles.stageChipActive]}
+                  onPress={() => toggleStage(rule, stage)}
+                >
+                  <Text style={[styles.chipText, rule.stages.includes(stage) && styles.chipTextActive]}>
+                    {SafetyStages[stage]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {problem && <Text style={styles.problem}>{problem} — not saved</Text>}
+            {!rule.builtin && (
+              <TouchableOpacity onPress={() => handleDeleteRule(rule)}>
+                <Text style={styles.deleteText}>Delete rule</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+      <View style={styles.addRow}>
+        <TouchableOpacity onPress={() => persist({ ...settings, rules: [...settings.rules, newRule('blocklist')] })}>
+          <Text style={styles.link}>+ Blocklist</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setSettings({ ...settings, rules: [...settings.rules, newRule('regex')] })}>
+          <Text style={styles.link}>+ Regex rule</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>Try it</Text>
+      <TextInput
+        style={[styles.input, styles.sampleInput]}
+        value={sample}
+        onChangeText={setSample}
+        placeholder="Type a prompt to see what the filters do"
+        placeholderTextColor="#666"
+        multiline
+      />
+      {preview && (
+        <View style={styles.card}>
+          <Text style={[styles.decision, { color: ACTION_COLORS[preview.action] }]}>
+            {SafetyActions[preview.action]}
+            {preview.matches.length > 0 && ` · ${[...new Set(preview.matches.map(m => m.label))].join(', ')}`}
+          </Text>
+          {preview.action !== 'block' && <Text style={styles.previewText}>{preview.text}</Text>}
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>Audit log</Text>
+      {audit.length === 0 ? (
+        <Text style={styles.emptyText}>No decisions logged yet.</Text>
+      ) : (
+        audit.slice(0, AUDIT_LIMIT).map(entry => (
+          <View key={entry.id} style={styles.row}>
+            <Text style={styles.rowHeader}>
+              <Text style={{ color: ACTION_COLORS[entry.action] }}>{SafetyActions[entry.action]}</Text>
+              {` · ${SafetyStages[entry.stage]}`}
+              {entry.rules.length > 0 && ` · ${entry.rules.map(r => `${r.label} ×${r.count}`).join(', ')}`}
+            </Text>
+            <Text style={styles.rowExcerpt} numberOfLines={2}>{entry.excerpt}</Text>
+            <Text style={styles.meta}>{new Date(entry.timestamp).toLocaleString()}</Text>
+          </View>
+        ))
+      )}
+      {audit.length > 0 && (
+        <TouchableOpacity style={styles.clearButton} onPress={handleClearAudit}>
+          <Text style={styles.clearText}>Clear audit log</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  content: {
+    padding: 20,
+  },
+  masterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  masterText: {
+    flex: 1,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardDisabled: {
+    opacity: 0.5,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  ruleLabel: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  labelInput: {
+    padding: 0,
+    marginRight: 12,
+  },
+  input: {
+    backgroundColor: '#0d0d0d',
+    borderRadius: 8,
+    color: '#fff',
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 10,
+  },
+  mono: {
+    fontFamily: 'monospace',
+  },
+  sampleInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  chip: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  stageChip: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  stageChipActive: {
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  problem: {
+    color: '#FF9800',
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  deleteText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 20,
+    marginBottom: 4,
+  },
+  link: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  decision: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  previewText: {
+    color: '#ccc',
+    fontSize: 14,
+  },
+  meta: {
+    color: '#888',
+    fontSize: 12,
+  },
+  row: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+    paddingVertical: 10,
+  },
+  rowHeader: {
+    color: '#ccc',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rowExcerpt: {
+    color: '#fff',
+    fontSize: 13,
+    marginVertical: 2,
+  },
+  emptyText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  clearButton: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  clearText: {
+    color: '#F44336',
+    fontSize: 14,
+  },
+});
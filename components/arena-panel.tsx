@@ -0,0 +1,418 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { MarkdownView } from '@/components/markdown-view';
+import {
+  buildLeaderboard,
+  clearVotes,
+  listVotes,
+  recordVote,
+  runArenaMatch,
+  type ArenaAnswer,
+  type ArenaModel,
+  type ArenaProgress,
+  type ArenaVerdict,
+  type LeaderboardEntry,
+} from '@/lib/arena';
+import { modelStore } from '@/lib/app-models';
+import { formatMetric } from '@/lib/metrics';
+import { SafeRunAnywhere } from '@/lib/safety-filter';
+
+type ArenaPanelProps = {
+  /** Downloaded language models to pick from */
+  models: ArenaModel[];
+  /** Model loaded on the main screen; reloaded after each match */
+  currentModel: ArenaModel | null;
+  disabled?: boolean;
+  onBusyChange?: (busy: boolean) => void;
+};
+
+const STAGE_LABELS: Record<ArenaProgress['stage'], string> = {
+  loading: 'Loading',
+  generating: 'Generating with',
+  unloading: 'Unloading',
+  restoring: 'Reloading',
+};
+
+const SIDES = ['A', 'B'] as const;
+
+export function ArenaPanel({ models, currentModel, disabled = false, onBusyChange }: ArenaPanelProps) {
+  const [picks, setPicks] = useState<[string | null, string | null]>([null, null]);
+  const [prompt, setPrompt] = useState('');
+  const [blind, setBlind] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<ArenaProgress | null>(null);
+  const [answers, setAnswers] = useState<(ArenaAnswer | null)[]>([null, null]);
+  const [matchPrompt, setMatchPrompt] = useState('');
+  const [voted, setVoted] = useState<ArenaVerdict | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+
+  useEffect(() => {
+    listVotes().then(votes => setLeaderboard(buildLeaderboard(votes)));
+  }, []);
+
+  const modelName = (id: string) => models.find(m => m.id === id)?.name ?? id;
+  const selected = picks.map(id => models.find(m => m.id === id) ?? null);
+  const canRun = !!selected[0] && !!selected[1] && selected[0] !== selected[1] && !!prompt.trim();
+
+  const handlePick = (side: 0 | 1, id: string) => {
+    setPicks(prev => (side === 0 ? [id, prev[1]] : [prev[0], id]));
+  };
+
+  const handleRun = async () => {
+    if (!canRun) return;
+    const text = prompt.trim();
+    setIsRunning(true);
+    onBusyChange?.(true);
+    setAnswers([null, null]);
+    setVoted(null);
+    setMatchPrompt(text);
+
+    // Hidden names are shown in random order so position does not give the model away
+    const pair: [ArenaModel, ArenaModel] =
+      blind && Math.random() < 0.5 ? [selected[1]!, selected[0]!] : [selected[0]!, selected[1]!];
+
+    try {
+      await runArenaMatch({
+        sdk: SafeRunAnywhere,
+        store: modelStore,
+        prompt: text,
+        models: pair,
+        restore: currentModel,
+        onProgress: setProgress,
+        onAnswer: (side, answer) => setAnswers(prev => (side === 0 ? [answer, prev[1]!] : [prev[0]!, answer])),
+      });
+    } catch (e: any) {
+      Alert.alert('Arena', `Could not reload ${currentModel?.name}: ${e.message}`);
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+      onBusyChange?.(false);
+    }
+  };
+
+  const handleVote = async (verdict: ArenaVerdict) => {
+    const [a, b] = answers;
+    if (!a || !b || voted) return;
+    const votes = await recordVote(matchPrompt, a.model.id, b.model.id, verdict);
+    setVoted(verdict);
+    setLeaderboard(buildLeaderboard(votes));
+  };
+
+  const handleClearVotes = () => {
+    Alert.alert('Reset Leaderboard', 'Delete all arena votes?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reset',
+        style: 'destructive',
+        onPress: async () => {
+          await clearVotes();
+          setLeaderboard([]);
+        },
+      },
+    ]);
+  };
+
+  const busy = isRunning || disabled;
+  const revealNames = !blind || voted !== null;
+
+  if (models.length < 2) {
+    return <Text style={styles.hint}>Download at least two language models to compare them.</Text>;
+  }
+
+  return (
+    <View>
+      {SIDES.map((label, side) => (
+        <View key={label} style={styles.pickRow}>
+          <Text style={styles.sideLabel}>{label}</Text>
+          <View style={styles.pickChips}>
+            {models.map(model => {
+              const active = picks[side] === model.id;
+              const taken = picks[side === 0 ? 1 : 0] === model.id;
+              return (
+                <TouchableOpacity
+                  key={model.id}
+                  style={[styles.chip, active && styles.chipActive, taken && styles.chipTaken]}
+                  onPress={() => handlePick(side as 0 | 1, model.id)}
+                  disabled={busy || taken}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+                    {model.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <TextInput
+        style={styles.input}
+        value={prompt}
+        onChangeText={setPrompt}
+        placeholder="One prompt for both models..."
+        placeholderTextColor="#666"
+        multiline
+        editable={!busy}
+      />
+
+      <View style={styles.toggleRow}>
+        <Text style={styles.toggleLabel}>Hide model names until I vote</Text>
+        <Switch value={blind} onValueChange={setBlind} disabled={busy} />
+      </View>
+
+      <TouchableOpacity
+        style={[styles.button, (!canRun || busy) && styles.buttonDisabled]}
+        onPress={handleRun}
+        disabled={!canRun || busy}
+      >
+        {isRunning ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>⚔️ Compare</Text>}
+      </TouchableOpacity>
+
+      {progress && (
+        <Text style={styles.progressText}>
+          {progress.side !== null ? `${SIDES[progress.side]} · ` : ''}
+          {STAGE_LABELS[progress.stage]} {progress.side === null || revealNames ? progress.modelName : `model ${SIDES[progress.side]}`}
+          …
+        </Text>
+      )}
+
+      {(answers[0] || answers[1] || isRunning) && (
+        <View style={styles.answers}>
+          {answers.map((answer, side) => (
+            <View key={side} style={[styles.answerColumn, voted === SIDES[side].toLowerCase() && styles.answerWinner]}>
+              <Text style={styles.answerTitle} numberOfLines={1}>
+                {SIDES[side]}{answer && revealNames ? ` · ${answer.model.name}` : ''}
+              </Text>
+              {!answer ? (
+                <ActivityIndicator color="#888" size="small" />
+              ) : answer.error ? (
+                <Text style={styles.errorText}>⚠️ {answer.error}</Text>
+              ) : (
+                <>
+                  <MarkdownView content={answer.text} />
+                  {answer.metrics && revealNames && <Text style={styles.metaText}>⏱️ {formatMetric(answer.metrics)}</Text>}
+                </>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {answers[0] && answers[1] && !isRunning && (
+        <View style={styles.voteRow}>
+          {(['a', 'tie', 'b'] as ArenaVerdict[]).map(verdict => (
+            <TouchableOpacity
+              key={verdict}
+              style={[styles.voteButton, voted === verdict && styles.voteButtonActive]}
+              onPress={() => handleVote(verdict)}
+              disabled={voted !== null}
+            >
+              <Text style={styles.voteText}>{verdict === 'tie' ? '🤝 Tie' : `👍 ${verdict.toUpperCase()} is better`}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.leaderboardHeader}>
+        <Text style={styles.sectionTitle}>🏆 Leaderboard</Text>
+        {leaderboard.length > 0 && (
+          <TouchableOpacity onPress={handleClearVotes} disabled={busy}>
+            <Text style={styles.resetLink}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {leaderboard.length === 0 ? (
+        <Text style={styles.hint}>No votes yet.</Text>
+      ) : (
+        leaderboard.map((entry, index) => (
+          <View key={entry.modelId} style={styles.leaderRow}>
+            <Text style={styles.leaderRank}>{index + 1}</Text>
+            <Text style={styles.leaderName} numberOfLines={1}>{modelName(entry.modelId)}</Text>
+            <Text style={styles.leaderRate}>{Math.round(entry.winRate * 100)}%</Text>
+            <Text style={styles.metaText}>{entry.wins}W {entry.ties}T {entry.losses}L</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    color: '#666',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  pickRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  sideLabel: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+    width: 24,
+    paddingTop: 6,
+  },
+  pickChips: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 160,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipTaken: {
+    opacity: 0.3,
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    color: '#fff',
+    fontSize: 15,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  toggleLabel: {
+    color: '#888',
+    fontSize: 13,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  progressText: {
+    color: '#FF9800',
+    fontSize: 13,
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  answers: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  answerColumn: {
+    flex: 1,
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  answerWinner: {
+    borderColor: '#4CAF50',
+  },
+  answerTitle: {
+    color: '#4CAF50',
+    fontSize: 13,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+  },
+  metaText: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 6,
+  },
+  voteRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  voteButton: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  voteButtonActive: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#1a3a1a',
+  },
+  voteText: {
+    color: '#fff',
+    fontSize: 12,
+  },
+  leaderboardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resetLink: {
+    color: '#F44336',
+    fontSize: 13,
+  },
+  leaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+    gap: 10,
+  },
+  leaderRank: {
+    color: '#888',
+    fontSize: 14,
+    width: 18,
+  },
+  leaderName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  leaderRate: {
+    color: '#4CAF50',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, PanResponder, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { MarkdownView } from '@/components/markdown-view';
+import type { ChatMessage } from '@/lib/chat-templates';
+import { formatMetric } from '@/lib/metrics';
+
+type ChatBubbleProps = {
+  message: ChatMessage;
+  isStreaming?: boolean;
+  /** Position among the message's versions (1-based); arrows show when count > 1 */
+  version?: { index: number; count: number };
+  onSelectVersion?: (offset: -1 | 1) => void;
+  /** Assistant turns only */
+  onRegenerate?: () => void;
+  /** User turns only; sends the edited prompt as a new branch */
+  onEdit?: (content: string) => void;
+  /** Assistant turns only; starts or stops reading the reply aloud */
+  onReadAloud?: () => void;
+  /** Set while the reply is read aloud; `index` is the sentence being spoken (-1 before the first) */
+  reading?: { sentences: string[]; index: number } | null;
+  /** Hides the actions while a reply is being generated */
+  actionsDisabled?: boolean;
+};
+
+/** Horizontal swipe distance that switches versions */
+const SWIPE_THRESHOLD = 50;
+
+export function ChatBubble({
+  message,
+  isStreaming = false,
+  version,
+  onSelectVersion,
+  onRegenerate,
+  onEdit,
+  onReadAloud,
+  reading,
+  actionsDisabled = false,
+}: ChatBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const hasVersions = !!version && version.count > 1;
+
+  const swipe = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponder: (_, g) => Math.abs(g.dx) > 20 && Math.abs(g.dx) > Math.abs(g.dy) * 2,
+        onPanResponderRelease: (_, g) => {
+          if (g.dx <= -SWIPE_THRESHOLD) onSelectVersion?.(1);
+          else if (g.dx >= SWIPE_THRESHOLD) onSelectVersion?.(-1);
+        },
+      }),
+    [onSelectVersion]
+  );
+
+  if (message.role === 'system') {
+    return (
+      <View style={styles.systemRow}>
+        <Text style={styles.systemText}>⚙️ {message.content}</Text>
+      </View>
+    );
+  }
+
+  const isUser = message.role === 'user';
+
+  const handleSaveEdit = () => {
+    const content = draft.trim();
+    setIsEditing(false);
+    if (content && content !== message.content) onEdit?.(content);
+  };
+
+  if (isEditing) {
+    return (
+      <View style={[styles.row, styles.rowUser]}>
+        <View style={[styles.bubble, styles.bubbleEditing]}>
+          <TextInput style={styles.editInput} value={draft} onChangeText={setDraft} multiline autoFocus />
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => setIsEditing(false)}>
+              <Text style={styles.actionText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSaveEdit}>
+              <Text style={[styles.actionText, styles.actionPrimary]}>Send as new branch</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  const showActions = !isStreaming && !actionsDisabled && (hasVersions || onRegenerate || onEdit || onReadAloud);
+
+  return (
+    <View style={[styles.row, isUser ? styles.rowUser : styles.rowAssistant]}>
+      <View
+        style={[styles.bubble, isUser ? styles.bubbleUser : styles.bubbleAssistant]}
+        {...(hasVersions && !actionsDisabled ? swipe.panHandlers : {})}
+      >
+        {message.toolSteps?.map((step, index) => (
+          <View key={index} style={[styles.toolStep, step.isError && styles.toolStepError]}>
+            <Text style={styles.toolCall}>
+              🛠️ {step.name}({Object.entries(step.arguments).map(([k, v]) => `${k}: ${JSON.stringify(v)}`).join(', ')})
+            </Text>
+            <Text style={styles.toolResult} numberOfLines={6}>→ {step.result}</Text>
+          </View>
+        ))}
+        {message.content === '' && isStreaming ? (
+          <ActivityIndicator color="#888" size="small" />
+        ) : reading ? (
+          // Plain sentences while reading, so the one being spoken can be highlighted
+          <Text style={styles.text}>
+            {reading.sentences.map((sentence, index) => (
+              <Text key={index} style={index === reading.index && styles.spokenSentence}>
+                {sentence}{' '}
+              </Text>
+            ))}
+          </Text>
+        ) : !isUser ? (
+          <>
+            <MarkdownView content={message.content} />
+            {isStreaming && <Text style={styles.cursor}>▍</Text>}
+            {message.metrics && !isStreaming && <Text style={styles.metrics}>⏱️ {formatMetric(message.metrics)}</Text>}
+          </>
+        ) : (
+          <Text style={styles.text}>
+            {message.content}
+            {isStreaming && <Text style={styles.cursor}> ▍</Text>}
+          </Text>
+        )}
+        {showActions && (
+          <View style={styles.actions}>
+            {hasVersions && (
+              <View style={styles.versions}>
+                <TouchableOpacity onPress={() => onSelectVersion?.(-1)} disabled={version!.index <= 1}>
+                  <Text style={[styles.actionText, version!.index <= 1 && styles.actionDisabled]}>‹</Text>
+                </TouchableOpacity>
+                <Text style={styles.versionText}>{version!.index}/{version!.count}</Text>
+                <TouchableOpacity onPress={() => onSelectVersion?.(1)} disabled={version!.index >= version!.count}>
+                  <Text style={[styles.actionText, version!.index >= version!.count && styles.actionDisabled]}>›</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {onEdit && (
+              <TouchableOpacity
+                onPress={() => {
+                  setDraft(message.content);
+                  setIsEditing(true);
+                }}
+              >
+                <Text style={styles.actionText}>✏️ Edit</Text>
+              </TouchableOpacity>
+            )}
+            {onReadAloud && (
+              <TouchableOpacity onPress={onReadAloud}>
+                <Text style={[styles.actionText, reading && styles.actionPrimary]}>
+                  {reading ? '⏹️ Stop reading' : '🔊 Read aloud'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {onRegenerate && (
+              <TouchableOpacity onPress={onRegenerate}>
+                <Text style={styles.actionText}>🔄 Regenerate</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  rowUser: {
+    justifyContent: 'flex-end',
+  },
+  rowAssistant: {
+    justifyContent: 'flex-start',
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  bubbleUser: {
+    backgroundColor: '#007AFF',
+    borderBottomRightRadius: 4,
+  },
+  bubbleAssistant: {
+    backgroundColor: '#1a2a1a',
+    borderBottomLeftRadius: 4,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  cursor: {
+    color: '#4CAF50',
+  },
+  spokenSentence: {
+    backgroundColor: 'rgba(76,175,80,0.35)',
+    color: '#fff',
+  },
+  bubbleEditing: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    width: '85%',
+  },
+  editInput: {
+    color: '#fff',
+    fontSize: 15,
+    lineHeight: 22,
+    minHeight: 44,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 14,
+    marginTop: 8,
+  },
+  actionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+  },
+  actionPrimary: {
+    color: '#4FC3F7',
+    fontWeight: '600',
+  },
+  actionDisabled: {
+    opacity: 0.3,
+  },
+  versions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginRight: 'auto',
+  },
+  versionText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  metrics: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 6,
+  },
+  toolStep: {
+    backgroundColor: '#0f1a0f',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: '#FF9800',
+  },
+  toolStepError: {
+    borderLeftColor: '#F44336',
+  },
+  toolCall: {
+    color: '#FF9800',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  toolResult: {
+    color: '#ccc',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+  systemRow: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  systemText: {
+    color: '#888',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,130 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ContextStrategies, type BudgetUsage, type ContextStrategy } from '@/lib/context-budget';
+
+type ContextMeterProps = {
+  usage: BudgetUsage;
+  contextLength: number;
+  strategy: ContextStrategy;
+  onStrategyChange: (strategy: ContextStrategy) => void;
+  /** Messages left out of (or summarized for) the last request */
+  trimmedCount?: number;
+  disabled?: boolean;
+};
+
+const meterColor = (ratio: number) => {
+  if (ratio > 1) return '#F44336';
+  if (ratio > 0.75) return '#FF9800';
+  return '#4CAF50';
+};
+
+export function ContextMeter({
+  usage,
+  contextLength,
+  strategy,
+  onStrategyChange,
+  trimmedCount = 0,
+  disabled = false,
+}: ContextMeterProps) {
+  const color = meterColor(usage.ratio);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>🧮 Context</Text>
+        <Text style={[styles.value, { color }]}>
+          ~{usage.used} / {usage.available} tokens
+          <Text style={styles.muted}> (ctx {contextLength})</Text>
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${Math.min(100, usage.ratio * 100)}%`, backgroundColor: color }]} />
+      </View>
+      {(usage.ratio > 1 || trimmedCount > 0) && (
+        <Text style={styles.note}>
+          {usage.ratio > 1
+            ? `Over budget — ${ContextStrategies[strategy].description.toLowerCase()}`
+            : `${trimmedCount} earlier message${trimmedCount === 1 ? '' : 's'} trimmed on the last reply`}
+        </Text>
+      )}
+      <View style={styles.strategies}>
+        {(Object.keys(ContextStrategies) as ContextStrategy[]).map(key => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.chip, key === strategy && styles.chipActive]}
+            onPress={() => onStrategyChange(key)}
+            disabled={disabled}
+          >
+            <Text style={[styles.chipText, key === strategy && styles.chipTextActive]}>
+              {ContextStrategies[key].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  value: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  muted: {
+    color: '#666',
+    fontWeight: '400',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  note: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 6,
+  },
+  strategies: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 10,
+  },
+  chip: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 11,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,334 @@
+import { useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { customModelFromVariant, saveCustomModel, type CustomModel } from '@/lib/custom-models';
+import { findModels, inferCategory, preferredVariant, type RepoModels } from '@/lib/huggingface';
+import type { ModelCategory } from '@/lib/model-store';
+
+type CustomModelSheetProps = {
+  visible: boolean;
+  onClose: () => void;
+  /** Called with the saved entry; the caller starts the download */
+  onAdded: (model: CustomModel) => void;
+};
+
+type Step =
+  | { kind: 'link' }
+  | { kind: 'searching' }
+  | { kind: 'pick'; found: RepoModels; variantKey: string; category: ModelCategory | null };
+
+const CATEGORIES: { category: ModelCategory; label: string }[] = [
+  { category: 'language', label: '💬 LLM' },
+  { category: 'speech-recognition', label: '🎤 STT' },
+  { category: 'speech-synthesis', label: '🔊 TTS' },
+];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1_000_000_000 ? `${(bytes / 1_000_000_000).toFixed(1)} GB` : `${Math.max(1, Math.round(bytes / 1_000_000))} MB`;
+
+export function CustomModelSheet({ visible, onClose, onAdded }: CustomModelSheetProps) {
+  const [name, setName] = useState('');
+  const [url, setURL] = useState('');
+  const [step, setStep] = useState<Step>({ kind: 'link' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClose = () => {
+    setStep({ kind: 'link' });
+    setError(null);
+    onClose();
+  };
+
+  const handleFind = async () => {
+    setError(null);
+    setStep({ kind: 'searching' });
+    try {
+      const found = await findModels(url);
+      const variant = preferredVariant(found.variants, found.ref.file)!;
+      setStep({ kind: 'pick', found, variantKey: variant.key, category: inferCategory(found.ref, variant, found.info) });
+    } catch (e: any) {
+      setError(e.message);
+      setStep({ kind: 'link' });
+    }
+  };
+
+  const pickVariant = (key: string) => {
+    if (step.kind !== 'pick') return;
+    const variant = step.found.variants.find(v => v.key === key)!;
+    setStep({ ...step, variantKey: key, category: inferCategory(step.found.ref, variant, step.found.info) ?? step.category });
+  };
+
+  const handleAdd = async () => {
+    if (step.kind !== 'pick' || !step.category) return;
+    const variant = step.found.variants.find(v => v.key === step.variantKey)!;
+    setIsSaving(true);
+    try {
+      const model = customModelFromVariant(step.found.ref, variant, step.category, name);
+      await saveCustomModel(model);
+      setName('');
+      setURL('');
+      setStep({ kind: 'link' });
+      onAdded(model);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPick = () => {
+    if (step.kind !== 'pick') return null;
+    const { found, variantKey, category } = step;
+    const variant = found.variants.find(v => v.key === variantKey)!;
+    return (
+      <>
+        <Text style={styles.label}>
+          {found.ref.repo} · {found.variants.length} {found.variants.length === 1 ? 'build' : 'builds'}
+        </Text>
+        <ScrollView style={styles.variantList} nestedScrollEnabled>
+          {found.variants.map(v => {
+            const active = v.key === variantKey;
+            const weights = v.files[0]!.path;
+            return (
+              <TouchableOpacity
+                key={v.key}
+                style={[styles.variantRow, active && styles.variantRowActive]}
+                onPress={() => pickVariant(v.key)}
+              >
+                <Text style={[styles.variantQuant, active && styles.variantTextActive]}>
+                  {v.quantization ?? (v.format === 'onnx' ? 'FP32' : 'GGUF')}
+                </Text>
+                <Text style={styles.variantFile} numberOfLines={1}>
+                  {v.format === 'gguf' ? weights.slice(weights.lastIndexOf('/') + 1) : `${v.files.length} files`}
+                </Text>
+                <Text style={styles.variantSize}>{v.size > 0 ? formatSize(v.size) : '—'}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <Text style={styles.label}>Use as</Text>
+        <View style={styles.chips}>
+          {CATEGORIES.map(c => {
+            // llama.cpp runs the GGUF builds; ONNX builds are speech models
+            const allowed = variant.format === 'gguf' ? c.category === 'language' : c.category !== 'language';
+            const active = category === c.category;
+            return (
+              <TouchableOpacity
+                key={c.category}
+                style={[styles.chip, active && styles.chipActive, !allowed && styles.chipDisabled]}
+                onPress={() => setStep({ ...step, category: c.category })}
+                disabled={!allowed}
+              >
+                <Text style={[styles.chipText, active && styles.variantTextActive]}>{c.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {!category && <Text style={styles.hint}>Couldn’t tell what this model does. Pick how to use it.</Text>}
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Add Custom Model</Text>
+          <Text style={styles.subtitle}>Import from Hugging Face</Text>
+
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Model name (e.g., My Custom LLM)"
+            placeholderTextColor="#666"
+          />
+
+          <TextInput
+            style={styles.input}
+            value={url}
+            onChangeText={text => {
+              setURL(text);
+              if (step.kind === 'pick') setStep({ kind: 'link' });
+            }}
+            placeholder="https://huggingface.co/..."
+            placeholderTextColor="#666"
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={step.kind !== 'searching'}
+          />
+
+          {step.kind === 'pick' ? (
+            renderPick()
+          ) : (
+            <Text style={styles.hint}>
+              💡 Supports GGUF (LLM) and ONNX (STT/TTS) formats. Paste a repo, folder or file link.
+            </Text>
+          )}
+
+          {error && <Text style={styles.errorText}>⚠️ {error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            {step.kind === 'pick' ? (
+              <TouchableOpacity
+                style={[styles.addButton, (!step.category || isSaving) && styles.addButtonDisabled]}
+                onPress={handleAdd}
+                disabled={!step.category || isSaving}
+              >
+                <Text style={styles.addText}>📥 Add & Download</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.addButton, (!url.trim() || step.kind === 'searching') && styles.addButtonDisabled]}
+                onPress={handleFind}
+                disabled={!url.trim() || step.kind === 'searching'}
+              >
+                {step.kind === 'searching' ? <ActivityIndicator color="#fff" /> : <Text style={styles.addText}>Find Files</Text>}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: 24,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 16,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  hint: {
+    color: '#666',
+    fontSize: 12,
+    marginBottom: 20,
+  },
+  label: {
+    color: '#888',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  variantList: {
+    maxHeight: 200,
+    marginBottom: 12,
+  },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  variantRowActive: {
+    borderColor: '#007AFF',
+  },
+  variantQuant: {
+    color: '#ccc',
+    fontSize: 13,
+    fontWeight: '600',
+    width: 72,
+  },
+  variantTextActive: {
+    color: '#fff',
+  },
+  variantFile: {
+    color: '#666',
+    fontSize: 12,
+    flex: 1,
+    marginRight: 8,
+  },
+  variantSize: {
+    color: '#888',
+    fontSize: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipDisabled: {
+    opacity: 0.3,
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 12,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    marginRight: 12,
+  },
+  cancelText: {
+    color: '#888',
+    fontSize: 16,
+  },
+  addButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    minWidth: 110,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { MarkdownView } from '@/components/markdown-view';
+import { createMessage } from '@/lib/chat-templates';
+import { buildIndex, buildRagPrompt, citedSources, searchIndex, type SearchHit } from '@/lib/document-index';
+import {
+  deleteDocument,
+  findImportableFiles,
+  importDocument,
+  listDocuments,
+  SUPPORTED_EXTENSIONS,
+  type StoredDocument,
+} from '@/lib/document-store';
+import type { ChatGenerator } from '@/lib/structured-output';
+
+type DocumentQAPanelProps = {
+  generate: ChatGenerator;
+  disabled?: boolean;
+  onBusyChange?: (busy: boolean) => void;
+};
+
+type Answer = {
+  question: string;
+  text: string;
+  sources: SearchHit[];
+  cited: number[];
+};
+
+const MAX_TOP_K = 8;
+
+export function DocumentQAPanel({ generate, disabled = false, onBusyChange }: DocumentQAPanelProps) {
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [importable, setImportable] = useState<string[]>([]);
+  const [importUri, setImportUri] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [topK, setTopK] = useState(4);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [answer, setAnswer] = useState<Answer | null>(null);
+  const [expandedSource, setExpandedSource] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const docs = await listDocuments();
+    setDocuments(docs);
+    try {
+      setImportable(await findImportableFiles(docs));
+    } catch (e: any) {
+      console.log('Could not scan documents folder:', e.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const index = useMemo(() => buildIndex(documents.flatMap(d => d.chunks)), [documents]);
+
+  const handleImport = async (uri: string) => {
+    if (!uri.trim()) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const document = await importDocument(uri);
+      setImportUri('');
+      await refresh();
+      Alert.alert('Imported', `${document.name}: ${document.chunks.length} chunks indexed`);
+    } catch (e: any) {
+      setError(`Import failed: ${e.message}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = (document: StoredDocument) => {
+    Alert.alert('Remove Document', `Remove "${document.name}" from the index?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteDocument(document.id);
+          await refresh();
+        },
+      },
+    ]);
+  };
+
+  const handleAsk = async () => {
+    const q = question.trim();
+    if (!q) return;
+
+    const sources = searchIndex(index, q, topK);
+    setIsAnswering(true);
+    onBusyChange?.(true);
+    setError(null);
+    setAnswer(null);
+    setExpandedSource(null);
+
+    try {
+      const text = await generate([createMessage('user', buildRagPrompt(q, sources))]);
+      setAnswer({ question: q, text, sources, cited: citedSources(text, sources.length) });
+    } catch (e: any) {
+      setError(`Generation failed: ${e.message}`);
+    } finally {
+      setIsAnswering(false);
+      onBusyChange?.(false);
+    }
+  };
+
+  const busy = isAnswering || isImporting || disabled;
+
+  return (
+    <View>
+      <Text style={styles.label}>Documents ({index.chunks.length} chunks indexed)</Text>
+      {documents.length === 0 ? (
+        <Text style={styles.hint}>No documents yet. Import a {SUPPORTED_EXTENSIONS.join(' / ')} file below.</Text>
+      ) : (
+        documents.map(document => (
+          <View key={document.id} style={styles.documentRow}>
+            <Text style={styles.documentName} numberOfLines={1}>📄 {document.name}</Text>
+            <Text style={styles.documentMeta}>{document.chunks.length} chunks</Text>
+            <TouchableOpacity onPress={() => handleDelete(document)} disabled={busy}>
+              <Text style={styles.removeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {importable.length > 0 && (
+        <>
+          <Text style={[styles.label, styles.sectionGap]}>Files in the app&apos;s documents folder</Text>
+          {importable.map(uri => (
+            <TouchableOpacity key={uri} style={styles.importableRow} onPress={() => handleImport(uri)} disabled={busy}>
+              <Text style={styles.importableText} numberOfLines={1}>＋ {decodeURIComponent(uri.split('/').pop() ?? uri)}</Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+
+      <View style={[styles.importRow, styles.sectionGap]}>
+        <TextInput
+          style={styles.importInput}
+          value={importUri}
+          onChangeText={setImportUri}
+          placeholder="file:// or content:// URI of a .txt / .md file"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!busy}
+        />
+        <TouchableOpacity
+          style={[styles.smallButton, (busy || !importUri.trim()) && styles.buttonDisabled]}
+          onPress={() => handleImport(importUri)}
+          disabled={busy || !importUri.trim()}
+        >
+          {isImporting ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.buttonText}>Import</Text>}
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.label, styles.sectionGap]}>Question</Text>
+      <TextInput
+        style={styles.input}
+        value={question}
+        onChangeText={setQuestion}
+        placeholder="Ask something about your documents..."
+        placeholderTextColor="#666"
+        multiline
+        editable={!busy}
+      />
+
+      <View style={styles.topKRow}>
+        <Text style={styles.label}>Passages per question</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity onPress={() => setTopK(n => Math.max(1, n - 1))} disabled={busy}>
+            <Text style={styles.stepperButton}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{topK}</Text>
+          <TouchableOpacity onPress={() => setTopK(n => Math.min(MAX_TOP_K, n + 1))} disabled={busy}>
+            <Text style={styles.stepperButton}>+</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.button, (busy || documents.length === 0) && styles.buttonDisabled]}
+        onPress={handleAsk}
+        disabled={busy || documents.length === 0}
+      >
+        {isAnswering ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>📚 Ask Documents</Text>}
+      </TouchableOpacity>
+
+      {error && <Text style={styles.errorText}>⚠️ {error}</Text>}
+
+      {answer && (
+        <View style={styles.answerBox}>
+          <MarkdownView content={answer.text} />
+          {answer.sources.length === 0 ? (
+            <Text style={styles.hint}>No passages matched this question.</Text>
+          ) : (
+            <>
+              <Text style={[styles.label, styles.sectionGap]}>Sources</Text>
+              {answer.sources.map((hit, i) => {
+                const isCited = answer.cited.includes(i + 1);
+                const isExpanded = expandedSource === i;
+                return (
+                  <TouchableOpacity
+                    key={hit.chunk.id}
+                    style={[styles.source, isCited && styles.sourceCited]}
+                    onPress={() => setExpandedSource(isExpanded ? null : i)}
+                  >
+                    <Text style={styles.sourceTitle}>
+                      [{i + 1}] {hit.chunk.documentName} · part {hit.chunk.index + 1}
+                      {isCited ? ' · cited' : ''}
+                    </Text>
+                    <Text style={styles.sourceText} numberOfLines={isExpanded ? undefined : 2}>
+                      {hit.chunk.text}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  hint: {
+    color: '#666',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  sectionGap: {
+    marginTop: 12,
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 6,
+  },
+  documentName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  documentMeta: {
+    color: '#888',
+    fontSize: 12,
+    marginHorizontal: 10,
+  },
+  removeText: {
+    color: '#F44336',
+    fontSize: 16,
+  },
+  importableRow: {
+    paddingVertical: 6,
+  },
+  importableText: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  importRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  importInput: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 13,
+    marginRight: 8,
+  },
+  smallButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    color: '#fff',
+    fontSize: 15,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  topKRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+  },
+  stepperButton: {
+    color: '#007AFF',
+    fontSize: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 15,
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  answerBox: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4CAF50',
+  },
+  source: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+    borderLeftWidth: 3,
+    borderLeftColor: '#333',
+  },
+  sourceCited: {
+    borderLeftColor: '#4CAF50',
+  },
+  sourceTitle: {
+    color: '#4CAF50',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  sourceText: {
+    color: '#ccc',
+    fontSize: 12,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,138 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { DownloadStatuses, formatETA, formatSpeed, type DownloadJob } from '@/lib/download-manager';
+
+type DownloadQueueProps = {
+  jobs: DownloadJob[];
+  onPause: (modelId: string) => void;
+  onResume: (modelId: string) => void;
+  onCancel: (modelId: string) => void;
+  /** Start a failed download again */
+  onRetry: (modelId: string) => void;
+};
+
+const statusColor = (job: DownloadJob) => {
+  if (job.status === 'failed') return '#F44336';
+  if (job.status === 'retrying' || job.status === 'paused') return '#FF9800';
+  return '#007AFF';
+};
+
+const formatMB = (bytes: number) => `${(bytes / 1_000_000).toFixed(bytes < 10_000_000 ? 1 : 0)} MB`;
+
+/** What's happening to a download, in one line */
+const describe = (job: DownloadJob) => {
+  switch (job.status) {
+    case 'downloading': {
+      const parts = [
+        job.totalBytes > 0 ? `${formatMB(job.bytesWritten)} / ${formatMB(job.totalBytes)}` : `${Math.round(job.progress * 100)}%`,
+      ];
+      if (job.speed) parts.push(formatSpeed(job.speed));
+      if (job.eta !== null) parts.push(`${formatETA(job.eta)} left`);
+      return parts.join(' · ');
+    }
+    case 'retrying':
+      return `Attempt ${job.attempts} failed (${job.error}), retrying…`;
+    case 'failed':
+      return job.error ?? DownloadStatuses.failed;
+    default:
+      return `${DownloadStatuses[job.status]} · ${Math.round(job.progress * 100)}%`;
+  }
+};
+
+export function DownloadQueue({ jobs, onPause, onResume, onCancel, onRetry }: DownloadQueueProps) {
+  if (jobs.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📥 Downloads ({jobs.length})</Text>
+      {jobs.map(job => {
+        const color = statusColor(job);
+        return (
+          <View key={job.modelId} style={styles.job}>
+            <View style={styles.header}>
+              <Text style={styles.name} numberOfLines={1}>{job.name}</Text>
+              <View style={styles.actions}>
+                {job.status === 'failed' ? (
+                  <TouchableOpacity onPress={() => onRetry(job.modelId)}>
+                    <Text style={styles.action}>🔁</Text>
+                  </TouchableOpacity>
+                ) : job.status === 'paused' ? (
+                  <TouchableOpacity onPress={() => onResume(job.modelId)}>
+                    <Text style={styles.action}>▶️</Text>
+                  </TouchableOpacity>
+                ) : (
+                  job.canPause && (
+                    <TouchableOpacity onPress={() => onPause(job.modelId)}>
+                      <Text style={styles.action}>⏸️</Text>
+                    </TouchableOpacity>
+                  )
+                )}
+                <TouchableOpacity onPress={() => onCancel(job.modelId)}>
+                  <Text style={styles.action}>✖️</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            <View style={styles.track}>
+              <View style={[styles.fill, { width: `${Math.round(job.progress * 100)}%`, backgroundColor: color }]} />
+            </View>
+            <Text style={[styles.detail, job.status === 'failed' && { color }]} numberOfLines={2}>
+              {describe(job)}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  job: {
+    paddingVertical: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  name: {
+    color: '#ccc',
+    fontSize: 13,
+    flex: 1,
+    marginRight: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  action: {
+    fontSize: 16,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    borderRadius: 2,
+  },
+  detail: {
+    color: '#888',
+    fontSize: 11,
+    marginTop: 4,
+  },
+});
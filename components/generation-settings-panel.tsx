@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import type { GenerationSettings } from '@/hooks/use-generation-settings';
+import {
+  BUILT_IN_PRESETS,
+  parseDraft,
+  toDraft,
+  type GenerationParams,
+  type GenerationParamsDraft,
+  type GenerationPreset,
+} from '@/lib/generation-params';
+
+type GenerationSettingsPanelProps = {
+  settings: GenerationSettings;
+  disabled?: boolean;
+};
+
+const NUMBER_FIELDS: { key: keyof GenerationParams; label: string; placeholder?: string }[] = [
+  { key: 'maxTokens', label: 'Max tokens' },
+  { key: 'temperature', label: 'Temperature' },
+  { key: 'topP', label: 'Top-p' },
+  { key: 'topK', label: 'Top-k' },
+  { key: 'repetitionPenalty', label: 'Repeat penalty' },
+  { key: 'seed', label: 'Seed', placeholder: 'Random' },
+];
+
+export function GenerationSettingsPanel({ settings, disabled = false }: GenerationSettingsPanelProps) {
+  const { params, presetId, presets } = settings;
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<GenerationParamsDraft>(() => toDraft(params));
+  const [presetName, setPresetName] = useState('');
+
+  // Reset the form whenever the applied params change (preset or model switch)
+  useEffect(() => {
+    setDraft(toDraft(params));
+  }, [params]);
+
+  const { params: parsed, errors } = useMemo(() => parseDraft(draft), [draft]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(params));
+  const allPresets = [...BUILT_IN_PRESETS, ...presets];
+  const activePreset = allPresets.find(p => p.id === presetId);
+
+  const setField = (key: keyof GenerationParams, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleApply = () => {
+    if (parsed) settings.updateParams(parsed);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) {
+      Alert.alert('Error', 'Please enter a preset name');
+      return;
+    }
+    if (BUILT_IN_PRESETS.some(p => p.name.toLowerCase() === presetName.trim().toLowerCase())) {
+      Alert.alert('Error', 'Built-in presets cannot be overwritten');
+      return;
+    }
+    if (isDirty && parsed) settings.updateParams(parsed);
+    settings.savePreset(presetName);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (preset: GenerationPreset) => {
+    Alert.alert('Delete Preset', `Delete "${preset.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => settings.deletePreset(preset.id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setIsOpen(open => !open)}>
+        <Text style={styles.headerText}>⚙️ Advanced settings</Text>
+        <Text style={styles.headerValue}>
+          {activePreset?.name ?? 'Custom'} · {params.maxTokens} tok · T {params.temperature} {isOpen ? '▲' : '▼'}
+        </Text>
+      </TouchableOpacity>
+
+      {isOpen && (
+        <View style={styles.body}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.presetRow}>
+            {allPresets.map(preset => (
+              <TouchableOpacity
+                key={preset.id}
+                style={[styles.presetChip, preset.id === presetId && styles.presetChipActive]}
+                onPress={() => settings.applyPreset(preset)}
+                onLongPress={preset.builtIn ? undefined : () => handleDeletePreset(preset)}
+                disabled={disabled}
+              >
+                <Text style={styles.presetChipText}>{preset.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          {presets.length > 0 && <Text style={styles.hint}>Long-press a saved preset to delete it</Text>}
+
+          <View style={styles.fieldGrid}>
+            {NUMBER_FIELDS.map(field => (
+              <View key={field.key} style={styles.field}>
+                <Text style={styles.fieldLabel}>{field.label}</Text>
+                <TextInput
+                  style={[styles.fieldInput, errors[field.key] && styles.fieldInputError]}
+                  value={draft[field.key]}
+                  onChangeText={value => setField(field.key, value)}
+                  placeholder={field.placeholder}
+                  placeholderTextColor="#555"
+                  keyboardType="numeric"
+                  editable={!disabled}
+                />
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Stop sequences (one per line, \n for newline)</Text>
+          <TextInput
+            style={[styles.fieldInput, styles.stopInput, errors.stopSequences && styles.fieldInputError]}
+            value={draft.stopSequences}
+            onChangeText={value => setField('stopSequences', value)}
+            placeholder="e.g. ###"
+            placeholderTextColor="#555"
+            multiline
+            autoCapitalize="none"
+            editable={!disabled}
+          />
+
+          {Object.values(errors).map(message => (
+            <Text key={message} style={styles.errorText}>• {message}</Text>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.applyButton, (!parsed || !isDirty || disabled) && styles.buttonDisabled]}
+            onPress={handleApply}
+            disabled={!parsed || !isDirty || disabled}
+          >
+            <Text style={styles.applyButtonText}>Apply</Text>
+          </TouchableOpacity>
+
+          <View style={styles.saveRow}>
+            <TextInput
+              style={[styles.fieldInput, styles.saveInput]}
+              value={presetName}
+              onChangeText={setPresetName}
+              placeholder="Preset name"
+              placeholderTextColor="#555"
+              editable={!disabled}
+            />
+            <TouchableOpacity
+              style={[styles.saveButton, (!parsed || disabled) && styles.buttonDisabled]}
+              onPress={handleSavePreset}
+              disabled={!parsed || disabled}
+            >
+              <Text style={styles.applyButtonText}>Save preset</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 14,
+  },
+  headerText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  headerValue: {
+    color: '#888',
+    fontSize: 12,
+  },
+  body: {
+    paddingHorizontal: 14,
+    paddingBottom: 14,
+  },
+  presetRow: {
+    marginBottom: 6,
+  },
+  presetChip: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  presetChipActive: {
+    borderColor: '#007AFF',
+  },
+  presetChipText: {
+    color: '#fff',
+    fontSize: 13,
+  },
+  hint: {
+    color: '#555',
+    fontSize: 11,
+    marginBottom: 6,
+  },
+  fieldGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  field: {
+    width: '48%',
+    marginBottom: 10,
+  },
+  fieldLabel: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  fieldInput: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#fff',
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  fieldInputError: {
+    borderColor: '#F44336',
+  },
+  stopInput: {
+    minHeight: 56,
+    textAlignVertical: 'top',
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 8,
+  },
+  saveInput: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+});
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+type JsonTreeProps = {
+  value: unknown;
+  /** Key or index shown before the value */
+  label?: string;
+  depth?: number;
+};
+
+const valueColor = (value: unknown) => {
+  if (typeof value === 'string') return '#CE9178';
+  if (typeof value === 'number') return '#B5CEA8';
+  if (typeof value === 'boolean' || value === null) return '#569CD6';
+  return '#fff';
+};
+
+/** Collapsible tree view of a parsed JSON value */
+export function JsonTree({ value, label, depth = 0 }: JsonTreeProps) {
+  const [isOpen, setIsOpen] = useState(depth < 2);
+  const isContainer = value !== null && typeof value === 'object';
+  const prefix = label !== undefined ? <Text style={styles.key}>{label}: </Text> : null;
+
+  if (!isContainer) {
+    return (
+      <View style={[styles.row, { paddingLeft: depth * 14 }]}>
+        <Text style={styles.text}>
+          {prefix}
+          <Text style={{ color: valueColor(value) }}>{JSON.stringify(value)}</Text>
+        </Text>
+      </View>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <View>
+      <TouchableOpacity style={[styles.row, { paddingLeft: depth * 14 }]} onPress={() => setIsOpen(o => !o)}>
+        <Text style={styles.text}>
+          <Text style={styles.toggle}>{isOpen ? '▾ ' : '▸ '}</Text>
+          {prefix}
+          <Text style={styles.bracket}>
+            {open}
+            {isOpen ? '' : ` ${entries.length} ${entries.length === 1 ? 'item' : 'items'} ${close}`}
+          </Text>
+        </Text>
+      </TouchableOpacity>
+      {isOpen && (
+        <>
+          {entries.map(([key, child]) => (
+            <JsonTree key={key} label={key} value={child} depth={depth + 1} />
+          ))}
+          <View style={[styles.row, { paddingLeft: depth * 14 }]}>
+            <Text style={[styles.text, styles.bracket]}>  {close}</Text>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    paddingVertical: 2,
+  },
+  text: {
+    color: '#fff',
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  key: {
+    color: '#9CDCFE',
+  },
+  toggle: {
+    color: '#888',
+  },
+  bracket: {
+    color: '#888',
+  },
+});
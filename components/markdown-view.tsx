@@ -0,0 +1,283 @@
+import { memo, useEffect, useMemo, useState } from 'react';
+import { Alert, Linking, ScrollView, StyleSheet, Text, TouchableOpacity, View, type TextStyle } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+
+import {
+  highlightCode,
+  parseInline,
+  parseMarkdown,
+  type CodeTokenKind,
+  type InlineSpan,
+  type MarkdownBlock,
+} from '@/lib/markdown';
+
+type MarkdownViewProps = {
+  content: string;
+};
+
+/** Renders assistant markdown; safe to re-render on every streamed token */
+export const MarkdownView = memo(function MarkdownView({ content }: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return (
+    <View>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} isLast={index === blocks.length - 1} />
+      ))}
+    </View>
+  );
+});
+
+function Inline({ text }: { text: string }) {
+  return (
+    <>
+      {parseInline(text).map((span, index) => (
+        <Text
+          key={index}
+          style={spanStyle(span)}
+          onPress={span.href ? () => Linking.openURL(span.href!).catch(() => {}) : undefined}
+        >
+          {span.text}
+        </Text>
+      ))}
+    </>
+  );
+}
+
+const spanStyle = (span: InlineSpan) => [
+  span.bold && styles.bold,
+  span.italic && styles.italic,
+  span.strike && styles.strike,
+  span.code && styles.inlineCode,
+  span.href && styles.link,
+];
+
+function Block({ block, isLast }: { block: MarkdownBlock; isLast: boolean }) {
+  const spacing = isLast ? null : styles.blockGap;
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text style={[styles.text, styles.heading, HEADING_STYLES[Math.min(block.level, 3) - 1], spacing]}>
+          <Inline text={block.text} />
+        </Text>
+      );
+    case 'paragraph':
+      return (
+        <Text style={[styles.text, spacing]}>
+          <Inline text={block.text} />
+        </Text>
+      );
+    case 'quote':
+      return (
+        <View style={[styles.quote, spacing]}>
+          <Text style={[styles.text, styles.quoteText]}>
+            <Inline text={block.text} />
+          </Text>
+        </View>
+      );
+    case 'rule':
+      return <View style={[styles.rule, spacing]} />;
+    case 'list':
+      return (
+        <View style={spacing}>
+          {block.items.map((item, index) => (
+            <View key={index} style={[styles.listItem, { marginLeft: item.depth * 16 }]}>
+              <Text style={[styles.text, styles.bullet]}>
+                {item.checked !== undefined ? (item.checked ? '☑' : '☐') : block.ordered ? `${item.number}.` : '•'}
+              </Text>
+              <Text style={[styles.text, styles.listText]}>
+                <Inline text={item.text} />
+              </Text>
+            </View>
+          ))}
+        </View>
+      );
+    case 'code':
+      return <CodeBlock language={block.language} code={block.code} closed={block.closed} style={spacing} />;
+    case 'table':
+      return (
+        <ScrollView horizontal style={spacing} showsHorizontalScrollIndicator={false}>
+          <View style={styles.table}>
+            {[block.header, ...block.rows].map((row, r) => (
+              <View key={r} style={[styles.tableRow, r === 0 && styles.tableHeader]}>
+                {row.map((cell, c) => (
+                  <Text key={c} style={[styles.text, styles.tableCell, { textAlign: block.align[c] }, r === 0 && styles.bold]}>
+                    <Inline text={cell} />
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      );
+  }
+}
+
+function CodeBlock({ language, code, closed, style }: { language: string; code: string; closed: boolean; style: any }) {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await Clipboard.setStringAsync(code);
+      setCopied(true);
+    } catch (e: any) {
+      Alert.alert('Copy failed', e.message);
+    }
+  };
+
+  return (
+    <View style={[styles.codeBlock, style]}>
+      <View style={styles.codeHeader}>
+        <Text style={styles.codeLanguage}>{language || 'code'}{closed ? '' : ' …'}</Text>
+        <TouchableOpacity onPress={handleCopy} disabled={!code}>
+          <Text style={styles.copyText}>{copied ? '✓ Copied' : '📋 Copy'}</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <Text style={styles.code}>
+          {tokens.map((token, index) => (
+            <Text key={index} style={TOKEN_STYLES[token.kind]}>
+              {token.text}
+            </Text>
+          ))}
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    color: '#fff',
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  blockGap: {
+    marginBottom: 8,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  h1: {
+    fontSize: 20,
+    lineHeight: 28,
+  },
+  h2: {
+    fontSize: 18,
+    lineHeight: 26,
+  },
+  h3: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  strike: {
+    textDecorationLine: 'line-through',
+  },
+  inlineCode: {
+    fontFamily: 'monospace',
+    fontSize: 13,
+    backgroundColor: '#0d0d0d',
+    color: '#FFB74D',
+  },
+  link: {
+    color: '#4FC3F7',
+    textDecorationLine: 'underline',
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#555',
+    paddingLeft: 10,
+  },
+  quoteText: {
+    color: '#bbb',
+  },
+  rule: {
+    height: 1,
+    backgroundColor: '#444',
+    marginVertical: 4,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  bullet: {
+    minWidth: 20,
+    color: '#aaa',
+  },
+  listText: {
+    flex: 1,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 6,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  tableHeader: {
+    backgroundColor: '#222',
+    borderTopWidth: 0,
+  },
+  tableCell: {
+    minWidth: 80,
+    maxWidth: 200,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  codeBlock: {
+    backgroundColor: '#0d0d0d',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#1f1f1f',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  codeLanguage: {
+    color: '#888',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  copyText: {
+    color: '#007AFF',
+    fontSize: 12,
+  },
+  code: {
+    color: '#e0e0e0',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    lineHeight: 18,
+    padding: 10,
+  },
+});
+
+const HEADING_STYLES = [styles.h1, styles.h2, styles.h3];
+
+const TOKEN_STYLES: Record<CodeTokenKind, TextStyle> = StyleSheet.create({
+  plain: {},
+  keyword: { color: '#C792EA' },
+  string: { color: '#C3E88D' },
+  number: { color: '#F78C6C' },
+  comment: { color: '#676E95', fontStyle: 'italic' },
+});
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { readGGUFDetails } from '@/lib/gguf';
+import type { GGUFDetails } from '@/lib/gguf-parser';
+import { modelStore } from '@/lib/app-models';
+import type { StoreModel } from '@/lib/model-store';
+
+type ModelDetailsSheetProps = {
+  /** Downloaded language model to inspect; the sheet is hidden while null */
+  model: StoreModel | null;
+  onClose: () => void;
+};
+
+type Row = { label: string; value: string | number | null };
+
+export function ModelDetailsSheet({ model, onClose }: ModelDetailsSheetProps) {
+  const [details, setDetails] = useState<GGUFDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showTemplate, setShowTemplate] = useState(false);
+
+  useEffect(() => {
+    if (!model) return;
+    let cancelled = false;
+    setDetails(null);
+    setError(null);
+    setShowTemplate(false);
+
+    (async () => {
+      try {
+        const path = await modelStore.localPath(model);
+        if (!path) throw new Error('Model path not found. Please re-download.');
+        const read = await readGGUFDetails(path);
+        if (!cancelled) setDetails(read);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  const rows = (d: GGUFDetails): Row[] => [
+    { label: 'Architecture', value: d.architecture },
+    { label: 'Parameters', value: d.parameters },
+    { label: 'Quantization', value: d.quantization },
+    { label: 'Context length', value: d.contextLength?.toLocaleString() ?? null },
+    { label: 'Embedding size', value: d.embeddingLength },
+    { label: 'Layers', value: d.layers },
+    { label: 'Attention heads', value: d.attentionHeads },
+    { label: 'Tokenizer', value: d.tokenizer.model },
+    { label: 'Vocabulary', value: d.tokenizer.vocabularySize?.toLocaleString() ?? null },
+    { label: 'BOS / EOS token', value: `${d.tokenizer.bosTokenId ?? '—'} / ${d.tokenizer.eosTokenId ?? '—'}` },
+    { label: 'GGUF', value: `v${d.version} · ${d.tensorCount.toLocaleString()} tensors` },
+  ];
+
+  return (
+    <Modal visible={!!model} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title} numberOfLines={1}>{model?.name}</Text>
+          <Text style={styles.subtitle}>{details?.name ?? 'Model details'}</Text>
+
+          {error ? (
+            <Text style={styles.errorText}>⚠️ {error}</Text>
+          ) : !details ? (
+            <ActivityIndicator color="#007AFF" style={styles.spinner} />
+          ) : (
+            <ScrollView style={styles.body}>
+              {rows(details).map(row => (
+                <View key={row.label} style={styles.row}>
+                  <Text style={styles.rowLabel}>{row.label}</Text>
+                  <Text style={styles.rowValue} numberOfLines={1}>{row.value ?? '—'}</Text>
+                </View>
+              ))}
+
+              {details.chatTemplate ? (
+                <>
+                  <TouchableOpacity onPress={() => setShowTemplate(!showTemplate)}>
+                    <Text style={styles.link}>{showTemplate ? '▾ Hide chat template' : '▸ Show chat template'}</Text>
+                  </TouchableOpacity>
+                  {showTemplate && (
+                    <ScrollView style={styles.template} nestedScrollEnabled>
+                      <Text style={styles.templateText} selectable>{details.chatTemplate}</Text>
+                    </ScrollView>
+                  )}
+                </>
+              ) : (
+                <Text style={styles.hint}>No chat template in the file; the app’s built-in format is used.</Text>
+              )}
+
+              {details.partial && (
+                <Text style={styles.hint}>The header is larger than the part that was read, so some fields may be missing.</Text>
+              )}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  subtitle: {
+    color: '#888',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  spinner: {
+    marginVertical: 24,
+  },
+  body: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  rowLabel: {
+    color: '#888',
+    fontSize: 14,
+  },
+  rowValue: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    flexShrink: 1,
+    marginLeft: 12,
+    textAlign: 'right',
+  },
+  link: {
+    color: '#007AFF',
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  template: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    padding: 10,
+    maxHeight: 200,
+  },
+  templateText: {
+    color: '#ccc',
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  hint: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginVertical: 12,
+  },
+  doneButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  doneText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import type { PersonaState } from '@/hooks/use-personas';
+import type { Persona } from '@/lib/personas';
+
+type PersonaPickerProps = {
+  visible: boolean;
+  personas: PersonaState;
+  onClose: () => void;
+};
+
+type Draft = { id?: string; name: string; icon: string; systemPrompt: string };
+
+const EMPTY_DRAFT: Draft = { name: '', icon: '💬', systemPrompt: '' };
+
+export function PersonaPicker({ visible, personas, onClose }: PersonaPickerProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const handleSelect = async (persona: Persona) => {
+    try {
+      await personas.select(persona.id);
+      onClose();
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await personas.save(draft);
+      setDraft(null);
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const handleDelete = (persona: Persona) => {
+    Alert.alert('Delete Persona', `Delete "${persona.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => personas.remove(persona.id).catch((e: any) => Alert.alert('Error', e.message)),
+      },
+    ]);
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>{draft ? (draft.id ? 'Edit Persona' : 'New Persona') : 'Personas'}</Text>
+
+          {draft ? (
+            <>
+              <View style={styles.nameRow}>
+                <TextInput
+                  style={[styles.input, styles.iconInput]}
+                  value={draft.icon}
+                  onChangeText={icon => setDraft({ ...draft, icon })}
+                  maxLength={4}
+                />
+                <TextInput
+                  style={[styles.input, styles.nameInput]}
+                  value={draft.name}
+                  onChangeText={name => setDraft({ ...draft, name })}
+                  placeholder="Name"
+                  placeholderTextColor="#666"
+                />
+              </View>
+              <TextInput
+                style={[styles.input, styles.promptInput]}
+                value={draft.systemPrompt}
+                onChangeText={systemPrompt => setDraft({ ...draft, systemPrompt })}
+                placeholder="System prompt, e.g. You are a friendly travel guide..."
+                placeholderTextColor="#666"
+                multiline
+              />
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setDraft(null)}>
+                  <Text style={styles.cancelText}>Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+                  <Text style={styles.primaryText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <>
+              <ScrollView style={styles.list}>
+                {personas.personas.map(persona => (
+                  <TouchableOpacity
+                    key={persona.id}
+                    style={[styles.row, persona.id === personas.activePersona.id && styles.rowActive]}
+                    onPress={() => handleSelect(persona)}
+                  >
+                    <Text style={styles.rowIcon}>{persona.icon}</Text>
+                    <View style={styles.rowBody}>
+                      <Text style={styles.rowName}>{persona.name}</Text>
+                      <Text style={styles.rowPrompt} numberOfLines={2}>{persona.systemPrompt}</Text>
+                    </View>
+                    {!persona.builtIn && (
+                      <View style={styles.rowActions}>
+                        <TouchableOpacity onPress={() => setDraft({ ...persona })}>
+                          <Text style={styles.link}>Edit</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => handleDelete(persona)}>
+                          <Text style={styles.deleteLink}>Delete</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+                  <Text style={styles.cancelText}>Close</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.primaryButton} onPress={() => setDraft({ ...EMPTY_DRAFT })}>
+                  <Text style={styles.primaryText}>+ New Persona</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  list: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  rowActive: {
+    borderColor: '#007AFF',
+  },
+  rowIcon: {
+    fontSize: 28,
+    marginRight: 12,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowPrompt: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  rowActions: {
+    marginLeft: 8,
+    gap: 6,
+  },
+  link: {
+    color: '#007AFF',
+    fontSize: 13,
+  },
+  deleteLink: {
+    color: '#F44336',
+    fontSize: 13,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 14,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  iconInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  promptInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    marginRight: 12,
+  },
+  cancelText: {
+    color: '#888',
+    fontSize: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  primaryText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
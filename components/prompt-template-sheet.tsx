@@ -0,0 +1,390 @@
+import { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import {
+  addTemplates,
+  deleteTemplate,
+  exportPack,
+  extractVariables,
+  fillTemplate,
+  importPack,
+  initialValues,
+  isLongVariable,
+  loadTemplates,
+  variableLabel,
+  type PromptTemplate,
+} from '@/lib/prompt-templates';
+
+type PromptTemplateSheetProps = {
+  visible: boolean;
+  onClose: () => void;
+  /** Called with the filled prompt */
+  onUse: (prompt: string) => void;
+};
+
+type Mode =
+  | { kind: 'list' }
+  | { kind: 'fill'; template: PromptTemplate; values: Record<string, string>; showErrors: boolean }
+  | { kind: 'create'; name: string; body: string }
+  | { kind: 'import'; json: string };
+
+export function PromptTemplateSheet({ visible, onClose, onUse }: PromptTemplateSheetProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [mode, setMode] = useState<Mode>({ kind: 'list' });
+
+  useEffect(() => {
+    if (visible) {
+      loadTemplates()
+        .then(setTemplates)
+        .catch(e => console.log('Failed to load templates:', e));
+    }
+  }, [visible]);
+
+  const handleClose = () => {
+    setMode({ kind: 'list' });
+    onClose();
+  };
+
+  const run = async (action: () => Promise<PromptTemplate[]>, onDone?: () => void) => {
+    try {
+      setTemplates(await action());
+      onDone?.();
+    } catch (e: any) {
+      Alert.alert('Error', e.message);
+    }
+  };
+
+  const handleUse = () => {
+    if (mode.kind !== 'fill') return;
+    const { prompt, missing } = fillTemplate(mode.template, mode.values);
+    if (missing.length > 0) {
+      setMode({ ...mode, showErrors: true });
+      return;
+    }
+    onUse(prompt);
+    handleClose();
+  };
+
+  const handleCreate = () => {
+    if (mode.kind !== 'create') return;
+    if (!mode.name.trim() || !mode.body.trim()) {
+      Alert.alert('Error', 'Please enter a name and a template body');
+      return;
+    }
+    const template: PromptTemplate = { id: `tpl-${Date.now().toString(36)}`, name: mode.name.trim(), body: mode.body };
+    run(() => addTemplates([template]), () => setMode({ kind: 'list' }));
+  };
+
+  const handleImport = () => {
+    if (mode.kind !== 'import') return;
+    let imported: PromptTemplate[];
+    try {
+      imported = importPack(mode.json);
+    } catch (e: any) {
+      Alert.alert('Import Failed', e.message);
+      return;
+    }
+    run(
+      () => addTemplates(imported),
+      () => {
+        Alert.alert('Imported', `${imported.length} template${imported.length === 1 ? '' : 's'} added`);
+        setMode({ kind: 'list' });
+      }
+    );
+  };
+
+  const handleExport = () => {
+    const custom = templates.filter(t => !t.builtIn);
+    Share.share({ message: exportPack(custom.length > 0 ? custom : templates) }).catch((e: any) =>
+      Alert.alert('Error', e.message)
+    );
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    Alert.alert('Delete Template', `Delete "${template.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => run(() => deleteTemplate(template.id)) },
+    ]);
+  };
+
+  const renderList = () => (
+    <>
+      <ScrollView style={styles.list}>
+        {templates.map(template => (
+          <TouchableOpacity
+            key={template.id}
+            style={styles.row}
+            onPress={() => setMode({ kind: 'fill', template, values: initialValues(template), showErrors: false })}
+            onLongPress={template.builtIn ? undefined : () => handleDelete(template)}
+          >
+            <Text style={styles.rowName}>{template.name}</Text>
+            <Text style={styles.rowMeta} numberOfLines={1}>
+              {template.description ?? template.body}
+            </Text>
+            <Text style={styles.rowVariables} numberOfLines={1}>
+              {extractVariables(template.body).map(v => `{{${v}}}`).join(' ')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <Text style={styles.hint}>Long-press your own templates to delete them</Text>
+      <View style={styles.toolbar}>
+        <TouchableOpacity onPress={() => setMode({ kind: 'create', name: '', body: '' })}>
+          <Text style={styles.link}>+ New</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setMode({ kind: 'import', json: '' })}>
+          <Text style={styles.link}>Import</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleExport}>
+          <Text style={styles.link}>Export</Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+          <Text style={styles.cancelText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderFill = (state: Extract<Mode, { kind: 'fill' }>) => {
+    const variables = extractVariables(state.template.body);
+    const { prompt, missing } = fillTemplate(state.template, state.values);
+
+    return (
+      <>
+        <ScrollView style={styles.list}>
+          {variables.map(name => (
+            <View key={name}>
+              <Text style={styles.label}>{variableLabel(name)}</Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  isLongVariable(name) && styles.longInput,
+                  state.showErrors && missing.includes(name) && styles.inputError,
+                ]}
+                value={state.values[name]}
+                onChangeText={value => setMode({ ...state, values: { ...state.values, [name]: value } })}
+                placeholderTextColor="#666"
+                multiline={isLongVariable(name)}
+              />
+            </View>
+          ))}
+          <Text style={styles.label}>Preview</Text>
+          <Text style={styles.preview}>{prompt}</Text>
+        </ScrollView>
+        {state.showErrors && missing.length > 0 && (
+          <Text style={styles.errorText}>Please fill in: {missing.map(variableLabel).join(', ')}</Text>
+        )}
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.cancelButton} onPress={() => setMode({ kind: 'list' })}>
+            <Text style={styles.cancelText}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleUse}>
+            <Text style={styles.primaryText}>Use Prompt</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  const renderCreate = (state: Extract<Mode, { kind: 'create' }>) => (
+    <>
+      <TextInput
+        style={styles.input}
+        value={state.name}
+        onChangeText={name => setMode({ ...state, name })}
+        placeholder="Template name"
+        placeholderTextColor="#666"
+      />
+      <TextInput
+        style={[styles.input, styles.longInput]}
+        value={state.body}
+        onChangeText={body => setMode({ ...state, body })}
+        placeholder={'e.g. Translate {{text}} into {{language}}'}
+        placeholderTextColor="#666"
+        multiline
+      />
+      <Text style={styles.hint}>
+        Variables: {extractVariables(state.body).join(', ') || 'none yet — use {{name}}'}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setMode({ kind: 'list' })}>
+          <Text style={styles.cancelText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleCreate}>
+          <Text style={styles.primaryText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderImport = (state: Extract<Mode, { kind: 'import' }>) => (
+    <>
+      <TextInput
+        style={[styles.input, styles.jsonInput]}
+        value={state.json}
+        onChangeText={json => setMode({ ...state, json })}
+        placeholder="Paste a template pack (JSON)"
+        placeholderTextColor="#666"
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setMode({ kind: 'list' })}>
+          <Text style={styles.cancelText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleImport}>
+          <Text style={styles.primaryText}>Import</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const titles: Record<Mode['kind'], string> = {
+    list: 'Prompt Templates',
+    fill: mode.kind === 'fill' ? mode.template.name : '',
+    create: 'New Template',
+    import: 'Import Templates',
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>{titles[mode.kind]}</Text>
+          {mode.kind === 'list' && renderList()}
+          {mode.kind === 'fill' && renderFill(mode)}
+          {mode.kind === 'create' && renderCreate(mode)}
+          {mode.kind === 'import' && renderImport(mode)}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  list: {
+    marginBottom: 12,
+  },
+  row: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  rowVariables: {
+    color: '#FF9800',
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: 'monospace',
+  },
+  label: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 12,
+    color: '#fff',
+    fontSize: 15,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  longInput: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  jsonInput: {
+    minHeight: 180,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  inputError: {
+    borderColor: '#F44336',
+  },
+  preview: {
+    color: '#ccc',
+    fontSize: 13,
+    lineHeight: 19,
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 12,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  hint: {
+    color: '#555',
+    fontSize: 11,
+    marginBottom: 12,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: 20,
+    marginBottom: 12,
+  },
+  link: {
+    color: '#007AFF',
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    marginRight: 12,
+  },
+  cancelText: {
+    color: '#888',
+    fontSize: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  primaryText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
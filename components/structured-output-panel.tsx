@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { JsonTree } from '@/components/json-tree';
+import {
+  EXAMPLE_SCHEMA,
+  generateStructured,
+  parseSchema,
+  type ChatGenerator,
+  type StructuredAttempt,
+  type StructuredResult,
+} from '@/lib/structured-output';
+
+type StructuredOutputPanelProps = {
+  generate: ChatGenerator;
+  disabled?: boolean;
+  onBusyChange?: (busy: boolean) => void;
+};
+
+const MAX_RETRIES_LIMIT = 5;
+
+export function StructuredOutputPanel({ generate, disabled = false, onBusyChange }: StructuredOutputPanelProps) {
+  const [schemaText, setSchemaText] = useState(EXAMPLE_SCHEMA);
+  const [prompt, setPrompt] = useState('');
+  const [maxRetries, setMaxRetries] = useState(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [attempts, setAttempts] = useState<StructuredAttempt[]>([]);
+  const [result, setResult] = useState<StructuredResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    if (!prompt.trim()) return;
+
+    let schema;
+    try {
+      schema = parseSchema(schemaText);
+    } catch (e: any) {
+      setError(e.message);
+      return;
+    }
+
+    setIsRunning(true);
+    onBusyChange?.(true);
+    setError(null);
+    setResult(null);
+    setAttempts([]);
+
+    try {
+      const structured = await generateStructured({
+        prompt: prompt.trim(),
+        schema,
+        generate,
+        maxRetries,
+        onAttempt: attempt => setAttempts(prev => [...prev, attempt]),
+      });
+      setResult(structured);
+    } catch (e: any) {
+      setError(`Generation failed: ${e.message}`);
+    } finally {
+      setIsRunning(false);
+      onBusyChange?.(false);
+    }
+  };
+
+  const busy = isRunning || disabled;
+
+  return (
+    <View>
+      <Text style={styles.label}>JSON Schema</Text>
+      <TextInput
+        style={[styles.input, styles.schemaInput]}
+        value={schemaText}
+        onChangeText={setSchemaText}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!busy}
+      />
+
+      <Text style={styles.label}>Prompt</Text>
+      <TextInput
+        style={styles.input}
+        value={prompt}
+        onChangeText={setPrompt}
+        placeholder="e.g. Describe the movie Inception"
+        placeholderTextColor="#666"
+        multiline
+        editable={!busy}
+      />
+
+      <View style={styles.retryRow}>
+        <Text style={styles.label}>Retries on invalid output</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity onPress={() => setMaxRetries(n => Math.max(0, n - 1))} disabled={busy}>
+            <Text style={styles.stepperButton}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{maxRetries}</Text>
+          <TouchableOpacity onPress={() => setMaxRetries(n => Math.min(MAX_RETRIES_LIMIT, n + 1))} disabled={busy}>
+            <Text style={styles.stepperButton}>+</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.button, busy && styles.buttonDisabled]}
+        onPress={handleRun}
+        disabled={busy}
+      >
+        {isRunning ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>{'{ }'} Generate JSON</Text>}
+      </TouchableOpacity>
+
+      {error && <Text style={styles.errorText}>⚠️ {error}</Text>}
+
+      {attempts.map((attempt, index) => (
+        <View key={index} style={styles.attempt}>
+          <Text style={[styles.attemptTitle, attempt.errors.length === 0 ? styles.ok : styles.failed]}>
+            {attempt.errors.length === 0 ? '✓' : '✗'} Attempt {index + 1}
+          </Text>
+          {attempt.errors.map(message => (
+            <Text key={message} style={styles.attemptError}>• {message}</Text>
+          ))}
+        </View>
+      ))}
+
+      {result && (
+        <View style={[styles.resultBox, !result.ok && styles.resultBoxFailed]}>
+          {result.ok ? (
+            <JsonTree value={result.value} />
+          ) : (
+            <>
+              <Text style={styles.failed}>No valid JSON after {result.attempts.length} attempts. Last reply:</Text>
+              <Text style={styles.rawOutput}>{result.attempts[result.attempts.length - 1]?.output}</Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    color: '#888',
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    color: '#fff',
+    fontSize: 15,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  schemaInput: {
+    minHeight: 140,
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  retryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+  },
+  stepperButton: {
+    color: '#007AFF',
+    fontSize: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 15,
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  attempt: {
+    marginTop: 10,
+  },
+  attemptTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  attemptError: {
+    color: '#888',
+    fontSize: 12,
+    marginLeft: 12,
+  },
+  ok: {
+    color: '#4CAF50',
+  },
+  failed: {
+    color: '#F44336',
+  },
+  resultBox: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4CAF50',
+  },
+  resultBoxFailed: {
+    borderLeftColor: '#F44336',
+  },
+  rawOutput: {
+    color: '#ccc',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,440 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import type { VoiceModels } from '@/components/voice-model-picker';
+import { cancelCapture, captureAvailable, startCapture, stopCapture } from '@/lib/audio-capture';
+import { speakText, stopPlayback } from '@/lib/audio-playback';
+import { ChatTemplates, cleanAssistantReply, detectChatTemplate, formatChatPrompt } from '@/lib/chat-templates';
+import { toGenerateOptions } from '@/lib/generation-params';
+import { SafeRunAnywhere } from '@/lib/safety-filter';
+import {
+  buildTranslationMessages,
+  cleanTranslation,
+  deletePhrase,
+  languageName,
+  LANGUAGES,
+  listPhrases,
+  savePhrase,
+  TRANSLATION_PARAMS,
+  type PhrasebookEntry,
+} from '@/lib/translation';
+
+type TranslatePanelProps = {
+  /** Models loaded for each step by the voice model picker */
+  models: VoiceModels;
+  onBusyChange?: (busy: boolean) => void;
+};
+
+type TranslatePhase = 'idle' | 'recording' | 'transcribing' | 'translating' | 'speaking';
+
+const PHASE_LABELS: Record<TranslatePhase, string> = {
+  idle: 'Tap to speak',
+  recording: 'Listening… tap when done',
+  transcribing: 'Transcribing…',
+  translating: 'Translating…',
+  speaking: 'Speaking…',
+};
+
+export function TranslatePanel({ models, onBusyChange }: TranslatePanelProps) {
+  const [sourceLang, setSourceLang] = useState('en');
+  const [targetLang, setTargetLang] = useState('es');
+  const [sourceText, setSourceText] = useState('');
+  const [translatedText, setTranslatedText] = useState('');
+  const [phase, setPhase] = useState<TranslatePhase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [phrases, setPhrases] = useState<PhrasebookEntry[]>([]);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    listPhrases().then(setPhrases);
+    // Leaving the tab stops any recording or playback
+    return () => {
+      cancelCapture();
+      stopPlayback();
+    };
+  }, []);
+
+  const isBusy = phase !== 'idle';
+
+  useEffect(() => {
+    onBusyChange?.(isBusy);
+  }, [isBusy, onBusyChange]);
+
+  const speak = useCallback(
+    async (text: string, language: string) => {
+      setPhase('speaking');
+      try {
+        await speakText(SafeRunAnywhere, text, { modelId: models.tts.id, language });
+      } finally {
+        setPhase('idle');
+      }
+    },
+    [models.tts.id]
+  );
+
+  const translate = async (text: string) => {
+    setPhase('translating');
+    setTranslatedText('');
+    setIsSaved(false);
+    const templateId = detectChatTemplate(models.llm);
+    const result = await SafeRunAnywhere.generate(
+      formatChatPrompt(buildTranslationMessages(text, sourceLang, targetLang), templateId),
+      toGenerateOptions(TRANSLATION_PARAMS, ChatTemplates[templateId].stopSequences)
+    );
+    const translation = cleanTranslation(cleanAssistantReply(result.text || '', templateId), targetLang);
+    if (!translation) throw new Error('The model returned no translation');
+    setTranslatedText(translation);
+    return translation;
+  };
+
+  /** Translate `text` and speak the result; errors end up in the panel */
+  const run = async (text: string) => {
+    setError(null);
+    try {
+      const translation = await translate(text);
+      await speak(translation, targetLang);
+    } catch (e: any) {
+      setError(`Translation failed: ${e.message}`);
+      setPhase('idle');
+    }
+  };
+
+  const handleMic = async () => {
+    if (phase === 'recording') {
+      setPhase('transcribing');
+      try {
+        const { path } = await stopCapture();
+        const result = await SafeRunAnywhere.transcribeFile(path);
+        const text = (typeof result === 'string' ? result : result?.text ?? '').trim();
+        setSourceText(text);
+        if (!text) {
+          setError('Nothing was heard. Try again a little closer to the microphone.');
+          setPhase('idle');
+          return;
+        }
+        await run(text);
+      } catch (e: any) {
+        setError(`Transcription failed: ${e.message}`);
+        setPhase('idle');
+      }
+      return;
+    }
+    if (phase === 'speaking') {
+      await stopPlayback();
+      return;
+    }
+    setError(null);
+    try {
+      await startCapture();
+      setPhase('recording');
+    } catch (e: any) {
+      setError(`Recording failed: ${e.message}`);
+    }
+  };
+
+  const handleSwap = () => {
+    setSourceLang(targetLang);
+    setTargetLang(sourceLang);
+    if (translatedText) {
+      setSourceText(translatedText);
+      setTranslatedText('');
+      setIsSaved(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!sourceText.trim() || !translatedText) return;
+    setPhrases(await savePhrase({ sourceLang, targetLang, sourceText: sourceText.trim(), translatedText }));
+    setIsSaved(true);
+  };
+
+  const handleDeletePhrase = async (id: string) => {
+    setPhrases(await deletePhrase(id));
+  };
+
+  const handleSpeakPhrase = (entry: PhrasebookEntry) => {
+    if (isBusy) return;
+    setError(null);
+    speak(entry.translatedText, entry.targetLang).catch(e => setError(`Playback failed: ${e.message}`));
+  };
+
+  const renderLanguageRow = (label: string, selected: string, onSelect: (code: string) => void) => (
+    <View style={styles.languageRow}>
+      <Text style={styles.languageLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {LANGUAGES.map(language => {
+          const active = language.code === selected;
+          return (
+            <TouchableOpacity
+              key={language.code}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onSelect(language.code)}
+              disabled={isBusy}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{language.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <View>
+      {renderLanguageRow('From', sourceLang, setSourceLang)}
+      <TouchableOpacity style={styles.swapButton} onPress={handleSwap} disabled={isBusy}>
+        <Text style={styles.swapText}>⇅ Swap</Text>
+      </TouchableOpacity>
+      {renderLanguageRow('To', targetLang, setTargetLang)}
+
+      <View style={styles.micSection}>
+        <TouchableOpacity
+          style={[
+            styles.micButton,
+            phase === 'recording' && styles.micRecording,
+            (!captureAvailable || phase === 'transcribing' || phase === 'translating') && styles.buttonDisabled,
+          ]}
+          onPress={handleMic}
+          disabled={!captureAvailable || phase === 'transcribing' || phase === 'translating'}
+        >
+          {phase === 'transcribing' || phase === 'translating' ? (
+            <ActivityIndicator color="#fff" size="large" />
+          ) : (
+            <Text style={styles.micIcon}>{phase === 'speaking' ? '🔊' : '🎙️'}</Text>
+          )}
+        </TouchableOpacity>
+        <Text style={styles.phaseText}>{PHASE_LABELS[phase]}</Text>
+        {!captureAvailable && <Text style={styles.hint}>Recording needs a rebuild; type the text below instead.</Text>}
+      </View>
+
+      {error && <Text style={styles.errorText}>⚠️ {error}</Text>}
+
+      <Text style={styles.cardLabel}>{languageName(sourceLang)}</Text>
+      <TextInput
+        style={styles.input}
+        value={sourceText}
+        onChangeText={setSourceText}
+        placeholder="Speak or type something to translate..."
+        placeholderTextColor="#666"
+        multiline
+        editable={!isBusy}
+      />
+      <TouchableOpacity
+        style={[styles.button, (isBusy || !sourceText.trim()) && styles.buttonDisabled]}
+        onPress={() => run(sourceText.trim())}
+        disabled={isBusy || !sourceText.trim()}
+      >
+        <Text style={styles.buttonText}>🌐 Translate</Text>
+      </TouchableOpacity>
+
+      {translatedText !== '' && (
+        <View style={styles.resultCard}>
+          <Text style={styles.cardLabel}>{languageName(targetLang)}</Text>
+          <Text style={styles.resultText} selectable>
+            {translatedText}
+          </Text>
+          <View style={styles.resultActions}>
+            <TouchableOpacity onPress={() => speak(translatedText, targetLang).catch(() => {})} disabled={isBusy}>
+              <Text style={[styles.actionText, isBusy && styles.actionDisabled]}>🔊 Speak again</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSave} disabled={isSaved}>
+              <Text style={[styles.actionText, isSaved && styles.actionDisabled]}>
+                {isSaved ? '✓ Saved' : '⭐ Save to phrasebook'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>📖 Phrasebook</Text>
+      {phrases.length === 0 ? (
+        <Text style={styles.hint}>Saved translations appear here. Tap one to hear it again.</Text>
+      ) : (
+        phrases.map(entry => (
+          <TouchableOpacity key={entry.id} style={styles.phrase} onPress={() => handleSpeakPhrase(entry)}>
+            <View style={styles.phraseBody}>
+              <Text style={styles.phraseLangs}>
+                {languageName(entry.sourceLang)} → {languageName(entry.targetLang)}
+              </Text>
+              <Text style={styles.phraseSource}>{entry.sourceText}</Text>
+              <Text style={styles.phraseTarget}>{entry.translatedText}</Text>
+            </View>
+            <TouchableOpacity onPress={() => handleDeletePhrase(entry.id)} hitSlop={8}>
+              <Text style={styles.deleteText}>✕</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    color: '#666',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  languageRow: {
+    marginBottom: 8,
+  },
+  languageLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  chips: {
+    gap: 6,
+  },
+  chip: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  swapButton: {
+    alignSelf: 'center',
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  swapText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  micSection: {
+    alignItems: 'center',
+    marginVertical: 16,
+    gap: 8,
+  },
+  micButton: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  micRecording: {
+    backgroundColor: '#F44336',
+  },
+  micIcon: {
+    fontSize: 36,
+  },
+  phaseText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginVertical: 8,
+  },
+  cardLabel: {
+    color: '#888',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+    textTransform: 'uppercase',
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    color: '#fff',
+    fontSize: 15,
+    minHeight: 70,
+    textAlignVertical: 'top',
+    marginBottom: 10,
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resultCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#4CAF50',
+  },
+  resultText: {
+    color: '#fff',
+    fontSize: 17,
+    lineHeight: 24,
+  },
+  resultActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  actionText: {
+    color: '#007AFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actionDisabled: {
+    color: '#666',
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  phrase: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 6,
+    gap: 10,
+  },
+  phraseBody: {
+    flex: 1,
+  },
+  phraseLangs: {
+    color: '#666',
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  phraseSource: {
+    color: '#888',
+    fontSize: 13,
+  },
+  phraseTarget: {
+    color: '#fff',
+    fontSize: 15,
+    marginTop: 2,
+  },
+  deleteText: {
+    color: '#F44336',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+import type { VoiceModels } from '@/components/voice-model-picker';
+import { cancelCapture, captureAvailable, captureModuleName, startCapture, stopCapture } from '@/lib/audio-capture';
+import { speakText, stopPlayback } from '@/lib/audio-playback';
+import {
+  ChatTemplates,
+  cleanAssistantReply,
+  createMessage,
+  detectChatTemplate,
+  formatChatPrompt,
+} from '@/lib/chat-templates';
+import { DEFAULT_GENERATION_PARAMS, toGenerateOptions } from '@/lib/generation-params';
+import { SafeRunAnywhere } from '@/lib/safety-filter';
+import {
+  createVoiceAssistant,
+  initialVoiceState,
+  VoicePhases,
+  type VoiceAssistant,
+  type VoiceState,
+} from '@/lib/voice-assistant';
+
+type VoiceAssistantPanelProps = {
+  /** Models loaded for each step by the voice model picker */
+  models: VoiceModels;
+  /** Reports whether a session is running, so the parent can lock the pickers */
+  onBusyChange?: (busy: boolean) => void;
+};
+
+// Spoken answers should be short and free of markdown
+const VOICE_SYSTEM_PROMPT =
+  'You are a helpful voice assistant. Answer in one to three short spoken sentences. Do not use markdown, lists or emoji.';
+const VOICE_PARAMS = { ...DEFAULT_GENERATION_PARAMS, maxTokens: 160 };
+
+const PHASE_COLORS: Record<VoiceState['phase'], string> = {
+  idle: '#007AFF',
+  listening: '#F44336',
+  transcribing: '#FF9800',
+  thinking: '#9C27B0',
+  speaking: '#4CAF50',
+};
+
+export function VoiceAssistantPanel({ models, onBusyChange }: VoiceAssistantPanelProps) {
+  const [state, setState] = useState<VoiceState>(initialVoiceState);
+  const assistantRef = useRef<VoiceAssistant | null>(null);
+  // The assistant is created once; it reads the current models through this ref
+  const modelsRef = useRef(models);
+  modelsRef.current = models;
+
+  if (!assistantRef.current) {
+    assistantRef.current = createVoiceAssistant(
+      {
+        startListening: onLevel => startCapture({ onLevel }),
+        stopListening: async () => (await stopCapture()).path,
+        cancelListening: cancelCapture,
+        transcribe: async path => {
+          const result = await SafeRunAnywhere.transcribeFile(path);
+          return typeof result === 'string' ? result : result?.text ?? '';
+        },
+        generate: async history => {
+          const model = modelsRef.current.llm;
+          const templateId = detectChatTemplate(model);
+          const result = await SafeRunAnywhere.generate(
+            formatChatPrompt([createMessage('system', VOICE_SYSTEM_PROMPT), ...history], templateId),
+            toGenerateOptions(VOICE_PARAMS, ChatTemplates[templateId].stopSequences)
+          );
+          return cleanAssistantReply(result.text || '', templateId);
+        },
+        speak: text => speakText(SafeRunAnywhere, text, { modelId: modelsRef.current.tts.id }),
+        stopSpeaking: stopPlayback,
+      },
+      { onChange: setState }
+    );
+  }
+  const assistant = assistantRef.current;
+
+  // Leaving the tab ends the session, including any recording or playback
+  useEffect(() => {
+    const current = assistantRef.current;
+    return () => {
+      current?.stop();
+    };
+  }, []);
+
+  const isActive = state.phase !== 'idle';
+
+  useEffect(() => {
+    onBusyChange?.(isActive);
+  }, [isActive, onBusyChange]);
+
+  const handleMic = () => {
+    switch (state.phase) {
+      case 'idle':
+        assistant.start();
+        return;
+      case 'listening':
+        // Ends the utterance without waiting for silence
+        assistant.finishListening();
+        return;
+      default:
+        assistant.stop();
+    }
+  };
+
+  if (!captureAvailable) {
+    return (
+      <Text style={styles.hint}>
+        The voice assistant needs microphone access through {captureModuleName}. Rebuild the development client to use it.
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.micSection}>
+        <TouchableOpacity
+          style={[styles.micButton, { backgroundColor: PHASE_COLORS[state.phase] }]}
+          onPress={handleMic}
+        >
+          {state.phase === 'transcribing' || state.phase === 'thinking' ? (
+            <ActivityIndicator color="#fff" size="large" />
+          ) : (
+            <Text style={styles.micIcon}>{state.phase === 'speaking' ? '🔊' : '🎙️'}</Text>
+          )}
+        </TouchableOpacity>
+        <Text style={styles.phaseText}>{VoicePhases[state.phase]}</Text>
+        <Text style={styles.hint}>
+          {state.phase === 'listening'
+            ? state.handsFree
+              ? 'Stops by itself when you pause; tap to stop now'
+              : 'Tap when you are done speaking'
+            : isActive
+              ? 'Tap to stop'
+              : ''}
+        </Text>
+      </View>
+
+      <View style={styles.toggleRow}>
+        <Text style={styles.toggleLabel}>Hands-free (listen again after each answer)</Text>
+        <Switch value={state.handsFree} onValueChange={assistant.setHandsFree} />
+      </View>
+
+      {state.error && <Text style={styles.errorText}>⚠️ {state.error}</Text>}
+
+      {state.heard && (
+        <View style={[styles.bubble, styles.userBubble]}>
+          <Text style={styles.bubbleText}>{state.heard}</Text>
+        </View>
+      )}
+      {[...state.turns].reverse().map(turn => (
+        <View key={turn.id}>
+          <View style={[styles.bubble, styles.userBubble]}>
+            <Text style={styles.bubbleText}>{turn.userText}</Text>
+          </View>
+          <View style={[styles.bubble, styles.assistantBubble]}>
+            <Text style={styles.bubbleText}>{turn.replyText}</Text>
+          </View>
+        </View>
+      ))}
+      {state.turns.length > 0 && !isActive && (
+        <TouchableOpacity onPress={assistant.clearTurns}>
+          <Text style={styles.resetLink}>Clear conversation</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    color: '#666',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  micSection: {
+    alignItems: 'center',
+    marginVertical: 20,
+    gap: 8,
+  },
+  micButton: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  micIcon: {
+    fontSize: 40,
+  },
+  phaseText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  toggleLabel: {
+    color: '#888',
+    fontSize: 13,
+    flex: 1,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginVertical: 8,
+  },
+  bubble: {
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 6,
+    maxWidth: '85%',
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#007AFF',
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#1a1a1a',
+  },
+  bubbleText: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  resetLink: {
+    color: '#F44336',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { SYSTEM_TTS_ID } from '@/lib/audio-playback';
+import { modelStore } from '@/lib/app-models';
+
+export interface VoiceModel {
+  id: string;
+  name: string;
+  category: string;
+  isDownloaded?: boolean;
+  localPath?: string;
+}
+
+export type VoiceSlot = 'stt' | 'llm' | 'tts';
+
+/** One loaded model per step of a voice pipeline */
+export type VoiceModels = Record<VoiceSlot, VoiceModel>;
+
+type VoiceModelPickerProps = {
+  /** All models; the picker offers the downloaded ones for each step */
+  models: VoiceModel[];
+  /** Models the SDK already holds; they start out picked and aren't loaded again */
+  loaded: Record<VoiceSlot, VoiceModel | null>;
+  /** Locks the picks, e.g. while a voice session is running */
+  disabled?: boolean;
+};
+
+const SLOTS: { slot: VoiceSlot; label: string; category: string }[] = [
+  { slot: 'stt', label: '🎤 Listen with', category: 'speech-recognition' },
+  { slot: 'llm', label: '💬 Answer with', category: 'language' },
+  { slot: 'tts', label: '🔊 Speak with', category: 'speech-synthesis' },
+];
+
+export function VoiceModelPicker({ models, loaded, disabled = false }: VoiceModelPickerProps) {
+  const [picks, setPicks] = useState<Record<VoiceSlot, string | null>>(() => ({
+    stt: loaded.stt?.id ?? null,
+    llm: loaded.llm?.id ?? null,
+    tts: loaded.tts?.id ?? null,
+  }));
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const candidates = (category: string) =>
+    models.filter(m => m.category === category && (m.isDownloaded || m.id === SYSTEM_TTS_ID));
+
+  const isReady = SLOTS.every(({ slot }) => loaded[slot] && loaded[slot].id === picks[slot]);
+  const canLoad = SLOTS.every(({ slot }) => picks[slot]) && !isLoading && !disabled;
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      for (const { slot } of SLOTS) {
+        const model = models.find(m => m.id === picks[slot]);
+        if (!model) throw new Error('Pick a model for each step');
+        if (loaded[slot]?.id === model.id) continue;
+        // The store updates `loaded` through the parent once the model is in
+        await modelStore.load(model);
+      }
+    } catch (e: any) {
+      setLoadError(`Load failed: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <View>
+      {SLOTS.map(({ slot, label, category }) => {
+        const options = candidates(category);
+        return (
+          <View key={slot} style={styles.pickRow}>
+            <Text style={styles.slotLabel}>{label}</Text>
+            {options.length === 0 ? (
+              <Text style={styles.hint}>Download a model for this step first.</Text>
+            ) : (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.pickChips}>
+                {options.map(model => {
+                  const active = picks[slot] === model.id;
+                  return (
+                    <TouchableOpacity
+                      key={model.id}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => setPicks(prev => ({ ...prev, [slot]: model.id }))}
+                      disabled={isLoading || disabled}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+                        {model.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        );
+      })}
+
+      {!isReady && (
+        <TouchableOpacity style={[styles.button, !canLoad && styles.buttonDisabled]} onPress={handleLoad} disabled={!canLoad}>
+          {isLoading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>🚀 Load voice models</Text>}
+        </TouchableOpacity>
+      )}
+      {loadError && <Text style={styles.errorText}>⚠️ {loadError}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    color: '#666',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  pickRow: {
+    marginBottom: 12,
+  },
+  slotLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  pickChips: {
+    gap: 6,
+  },
+  chip: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 180,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 12,
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  button: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 13,
+    marginVertical: 8,
+  },
+});
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import { downloadManager } from '@/lib/app-downloads';
+import type { DownloadJob } from '@/lib/download-manager';
+
+/** Downloads in the app-wide queue, updated on every change */
+export function useDownloads(): DownloadJob[] {
+  const [jobs, setJobs] = useState<DownloadJob[]>(downloadManager.getJobs);
+
+  useEffect(() => {
+    // Catch changes that happened between the first render and subscribing
+    setJobs(downloadManager.getJobs());
+    return downloadManager.subscribe(setJobs);
+  }, []);
+
+  return jobs;
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  DEFAULT_GENERATION_PARAMS,
+  deleteModelPreset,
+  loadModelSettings,
+  saveModelParams,
+  saveModelPreset,
+  type GenerationParams,
+  type GenerationPreset,
+  type ModelGenerationSettings,
+} from '@/lib/generation-params';
+
+/**
+ * Generation params for the selected model, restored from and saved to
+ * on-device storage whenever the model or the settings change.
+ */
+export function useGenerationSettings(modelId: string | null) {
+  const [params, setParams] = useState<GenerationParams>(DEFAULT_GENERATION_PARAMS);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<GenerationPreset[]>([]);
+
+  const modelIdRef = useRef(modelId);
+  modelIdRef.current = modelId;
+
+  const apply = (settings: ModelGenerationSettings) => {
+    setParams(settings.params);
+    setPresetId(settings.presetId);
+    setPresets(settings.presets);
+  };
+
+  /** Apply settings read or saved for `id`, unless another model was selected in the meantime */
+  const applyFor = (id: string) => (settings: ModelGenerationSettings) => {
+    if (modelIdRef.current === id) apply(settings);
+  };
+
+  useEffect(() => {
+    if (!modelId) {
+      apply({ params: DEFAULT_GENERATION_PARAMS, presetId: null, presets: [] });
+      return;
+    }
+    loadModelSettings(modelId)
+      .then(applyFor(modelId))
+      .catch(e => console.log('Failed to load generation settings:', e));
+  }, [modelId]);
+
+  const persist = useCallback(
+    (run: () => Promise<ModelGenerationSettings>) => {
+      if (!modelId) return;
+      run()
+        .then(applyFor(modelId))
+        .catch(e => console.log('Failed to save generation settings:', e));
+    },
+    [modelId]
+  );
+
+  const updateParams = (next: GenerationParams, fromPresetId: string | null = null) => {
+    setParams(next);
+    setPresetId(fromPresetId);
+    persist(() => saveModelParams(modelId!, next, fromPresetId));
+  };
+
+  return {
+    params,
+    presetId,
+    presets,
+    updateParams,
+    applyPreset: (preset: GenerationPreset) => updateParams(preset.params, preset.id),
+    savePreset: (name: string) => persist(() => saveModelPreset(modelId!, name, params)),
+    deletePreset: (id: string) => persist(() => deleteModelPreset(modelId!, id)),
+  };
+}
+
+export type GenerationSettings = ReturnType<typeof useGenerationSettings>;
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import { modelStore } from '@/lib/app-models';
+import type { ModelStates } from '@/lib/model-store';
+
+/** Lifecycle state of every model in the app-wide model store, updated on each transition */
+export function useModelStates(): ModelStates {
+  const [states, setStates] = useState<ModelStates>(modelStore.getStates);
+
+  useEffect(() => {
+    // Catch transitions that happened between the first render and subscribing
+    setStates(modelStore.getStates());
+    return modelStore.subscribe(setStates);
+  }, []);
+
+  return states;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_PERSONA_ID,
+  deletePersona,
+  loadPersonas,
+  savePersona,
+  setActivePersona,
+  type Persona,
+  type PersonaLibrary,
+} from '@/lib/personas';
+
+/**
+ * The persona library and the active persona, kept in sync with on-device storage.
+ * Mutations reject with a user-facing message when validation fails.
+ */
+export function usePersonas() {
+  const [library, setLibrary] = useState<PersonaLibrary>({
+    personas: BUILT_IN_PERSONAS,
+    activeId: DEFAULT_PERSONA_ID,
+  });
+
+  useEffect(() => {
+    loadPersonas()
+      .then(setLibrary)
+      .catch(e => console.log('Failed to load personas:', e));
+  }, []);
+
+  const run = async (mutation: Promise<PersonaLibrary>) => {
+    setLibrary(await mutation);
+  };
+
+  const activePersona = library.personas.find(p => p.id === library.activeId) ?? BUILT_IN_PERSONAS[0]!;
+
+  return {
+    personas: library.personas,
+    activePersona,
+    select: (id: string) => run(setActivePersona(id)),
+    save: (persona: Omit<Persona, 'id'> & { id?: string }) => run(savePersona(persona)),
+    remove: (id: string) => run(deletePersona(id)),
+  };
+}
+
+export type PersonaState = ReturnType<typeof usePersonas>;
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildLeaderboard, clearVotes, listVotes, recordVote, runArenaMatch, type ArenaVote } from '@/lib/arena';
+import { createModelStore, modelStateOf } from '@/lib/model-store';
+
+describe('runArenaMatch', () => {
+  const model = (id: string) => ({ id, name: id.toUpperCase(), localPath: `/models/${id}.gguf` });
+
+  const setup = () => {
+    const calls: string[] = [];
+    let loaded = '';
+    const sdk = {
+      getModelPath: async () => null,
+      loadTextModel: async (path: string) => {
+        if (path.includes('broken')) throw new Error('Could not load');
+        calls.push(`load ${path}`);
+        loaded = path;
+      },
+      unloadTextModel: async () => {
+        calls.push('unload');
+      },
+      generate: async () => ({ text: `Answer from ${loaded}` }),
+    };
+    const store = createModelStore({ sdk, downloads: { enqueue: async () => null } });
+    store.sync(['current', 'a', 'b', 'broken'].map(id => ({ ...model(id), category: 'language', isDownloaded: true })));
+    return { sdk, store, calls };
+  };
+
+  it('loads each side in turn through the store and restores the chat model', async () => {
+    const { sdk, store, calls } = setup();
+    const current = model('current');
+    await store.load({ ...current, category: 'language' });
+
+    const answers = await runArenaMatch({ sdk, store, prompt: 'Hi', models: [model('a'), model('b')], restore: current });
+    assert.deepEqual(
+      answers.map(answer => answer.text),
+      ['Answer from /models/a.gguf', 'Answer from /models/b.gguf']
+    );
+    assert.deepEqual(calls.slice(1), [
+      'load /models/a.gguf',
+      'unload',
+      'load /models/b.gguf',
+      'unload',
+      'load /models/current.gguf',
+    ]);
+    assert.equal(store.loadedModelId('language'), 'current');
+    assert.equal(modelStateOf(store.getStates(), 'a').status, 'downloaded');
+  });
+
+  it('records a side that fails to load and still runs the other', async () => {
+    const { sdk, store } = setup();
+    const [broken, b] = await runArenaMatch({ sdk, store, prompt: 'Hi', models: [model('broken'), model('b')] });
+    assert.equal(broken.error, 'Could not load');
+    assert.equal(b.text, 'Answer from /models/b.gguf');
+    assert.equal(store.loadedModelId('language'), null);
+  });
+});
+
+describe('votes', () => {
+  it('keeps votes recorded at the same time', async () => {
+    await Promise.all([recordVote('p', 'a', 'b', 'a'), recordVote('p', 'b', 'c', 'tie')]);
+    assert.equal((await listVotes()).length, 2);
+    await clearVotes();
+    assert.deepEqual(await listVotes(), []);
+  });
+});
+
+describe('buildLeaderboard', () => {
+  const vote = (modelA: string, modelB: string, verdict: ArenaVote['verdict']): ArenaVote => ({
+    id: `${modelA}-${modelB}`,
+    prompt: 'p',
+    modelA,
+    modelB,
+    verdict,
+    createdAt: 0,
+  });
+
+  it('counts ties as half a win and skips self-matches', () => {
+    const board = buildLeaderboard([vote('a', 'b', 'a'), vote('a', 'b', 'tie'), vote('b', 'c', 'a'), vote('c', 'c', 'a')]);
+    assert.deepEqual(
+      board.map(e => [e.modelId, e.winRate, e.games]),
+      [
+        ['a', 0.75, 2],
+        ['b', 0.5, 3],
+        ['c', 0, 1],
+      ]
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createMessage } from '@/lib/chat-templates';
+import { buildSummaryRequest, fitToContext, measureUsage } from '@/lib/context-budget';
+
+const turns = (count: number, words: number) =>
+  Array.from({ length: count }, (_, i) =>
+    createMessage(i % 2 ? 'assistant' : 'user', `turn${i} ${Array.from({ length: words }, () => 'word').join(' ')}`)
+  );
+
+describe('fitToContext', () => {
+  it('keeps the system prompt with pin-system and always keeps the last turn', async () => {
+    const messages = [createMessage('system', 'Be brief.'), ...turns(6, 60)];
+    const fitted = await fitToContext(messages, { contextLength: 250, reserveTokens: 50, strategy: 'pin-system' });
+    assert.equal(fitted.messages[0]!.role, 'system');
+    assert.equal(fitted.messages.at(-1), messages.at(-1));
+    assert.ok(fitted.usage.ratio <= 1);
+    assert.ok(fitted.droppedCount > 0);
+  });
+
+  it('folds old turns into a rolling summary', async () => {
+    const messages = [createMessage('system', 'Be brief.'), ...turns(8, 60)];
+    const summarized: number[] = [];
+    const fitted = await fitToContext(messages, {
+      contextLength: 400,
+      reserveTokens: 50,
+      strategy: 'summarize',
+      summarize: async folded => {
+        summarized.push(folded.length);
+        return 'Short summary.';
+      },
+    });
+    assert.ok(summarized.length > 0);
+    assert.equal(fitted.summary!.text, 'Short summary.');
+    assert.ok(fitted.messages.some(m => m.content.includes('Short summary.')));
+    assert.ok(fitted.usage.ratio <= 1);
+  });
+});
+
+describe('buildSummaryRequest', () => {
+  const budget = { contextLength: 300, reserveTokens: 100 };
+
+  it('leaves a request that fits unchanged', () => {
+    const few = turns(2, 5);
+    assert.deepEqual(
+      buildSummaryRequest(few, null, budget).map(m => m.content),
+      buildSummaryRequest(few, null).map(m => m.content)
+    );
+  });
+
+  it('shortens long turns until the request fits the budget', () => {
+    const long = turns(4, 200);
+    assert.ok(measureUsage(buildSummaryRequest(long, null), budget).ratio > 1);
+    const request = buildSummaryRequest(long, 'Earlier facts.', budget);
+    assert.ok(measureUsage(request, budget).ratio <= 1);
+    // Every turn is still represented
+    for (let i = 0; i < 4; i++) assert.match(request[1]!.content, new RegExp(`turn${i} word`));
+  });
+
+  it('drops the oldest turns when shortening is not enough', () => {
+    const request = buildSummaryRequest(turns(60, 20), null, budget);
+    assert.ok(measureUsage(request, budget).ratio <= 1);
+    assert.doesNotMatch(request[1]!.content, /turn0 /);
+    assert.match(request[1]!.content, /turn59 /);
+  });
+});
@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { ChatMessage } from '@/lib/chat-templates';
+import {
+  exportConversation,
+  exportFileName,
+  importConversation,
+  parseConversationExport,
+} from '@/lib/conversation-export';
+import { loadConversation, type Conversation } from '@/lib/conversation-store';
+import { activePath, appendMessage, emptyTree, toMessages, type ConversationTree } from '@/lib/conversation-tree';
+import { DEFAULT_GENERATION_PARAMS } from '@/lib/generation-params';
+
+const AT = Date.UTC(2026, 0, 2, 3, 4, 5);
+
+const message = (id: string, role: ChatMessage['role'], content: string, offset: number): ChatMessage => ({
+  id,
+  role,
+  content,
+  createdAt: AT + offset * 1000,
+});
+
+/** A question with two answers, the second selected */
+const conversation = (): Conversation => {
+  let tree = appendMessage(emptyTree(), null, message('q', 'user', 'What is GGUF?', 0));
+  tree = appendMessage(tree, 'q', message('a1', 'assistant', 'A file format.', 1));
+  tree = appendMessage(tree, 'q', {
+    ...message('a2', 'assistant', 'The llama.cpp model format.', 2),
+    modelId: 'qwen-0.5b',
+    params: DEFAULT_GENERATION_PARAMS,
+    metrics: {
+      id: 'metric-1',
+      kind: 'generation',
+      modelId: 'qwen-0.5b',
+      modelName: 'Qwen 0.5B',
+      timestamp: AT,
+      durationMs: 1500,
+      timeToFirstTokenMs: 200,
+      tokens: 30,
+      tokensPerSecond: 20,
+    },
+  });
+  return withTree({ id: 'conv-abc-123', title: 'GGUF question', createdAt: AT, updatedAt: AT + 2000, messages: [], tree });
+};
+
+const withTree = (c: Conversation, tree: ConversationTree = c.tree): Conversation => ({
+  ...c,
+  tree,
+  messages: toMessages(activePath(tree)),
+});
+
+const exported = (patch: (document: any) => void) => {
+  const document = JSON.parse(exportConversation(conversation(), 'json'));
+  patch(document);
+  return JSON.stringify(document);
+};
+
+describe('exportConversation', () => {
+  it('writes the active branch as Markdown with details', () => {
+    const markdown = exportConversation(conversation(), 'markdown');
+    assert.match(markdown, /^# GGUF question\n/);
+    assert.match(markdown, /- Other versions: 1 \(kept in the JSON export\)/);
+    assert.match(markdown, /### Assistant · 2026-01-02T03:04:07.000Z/);
+    assert.match(markdown, /> Model: qwen-0.5b {2}\n> Params: temperature 0.7, top-p 0.95, top-k 40/);
+    assert.match(markdown, /> Metrics: 20 tok\/s · TTFT 200 ms · 30 tokens/);
+    assert.doesNotMatch(markdown, /A file format/);
+  });
+
+  it('writes plain text', () => {
+    const text = exportConversation(conversation(), 'text');
+    assert.match(text, /^GGUF question\nCreated 2026-01-02T03:04:05.000Z/);
+    assert.match(text, /\[2026-01-02T03:04:05.000Z\] User:\nWhat is GGUF\?/);
+    assert.match(text, /  \(Model: qwen-0.5b\)/);
+  });
+
+  it('round-trips every branch through JSON', () => {
+    assert.deepEqual(parseConversationExport(exportConversation(conversation(), 'json')), conversation());
+  });
+
+  it('names files after the title', () => {
+    assert.equal(exportFileName(conversation(), 'markdown'), 'gguf-question.md');
+    assert.equal(exportFileName({ ...conversation(), title: '???' }, 'json'), 'conversation.json');
+  });
+});
+
+describe('parseConversationExport', () => {
+  it('rejects documents that are not exports', () => {
+    assert.throws(() => parseConversationExport('{'), /Not valid JSON/);
+    assert.throws(() => parseConversationExport('[]'), /Not a conversation export/);
+    assert.throws(() => parseConversationExport(exported(d => (d.version = '1'))), /no valid version/);
+    assert.throws(() => parseConversationExport(exported(d => (d.version = 2))), /version 2 is newer/);
+    assert.throws(() => parseConversationExport(exported(d => delete d.conversation.tree)), /missing conversation data/);
+    assert.throws(() => parseConversationExport(exported(d => (d.conversation.messages[0].role = 'tool'))), /missing conversation data/);
+    assert.throws(() => parseConversationExport(exported(d => (d.conversation.id = '../settings'))), /invalid conversation id/);
+  });
+
+  it('rejects selections that are not children of their parent', () => {
+    assert.throws(() => parseConversationExport(exported(d => (d.conversation.tree.selected.q = 'q'))), /under the wrong parent/);
+    assert.throws(() => parseConversationExport(exported(d => (d.conversation.tree.selected.__root__ = 'a1'))), /under the wrong parent/);
+    assert.throws(() => parseConversationExport(exported(d => (d.conversation.tree.selected.q = 'gone'))), /under the wrong parent/);
+  });
+
+  it('rejects replies to missing messages and cycles', () => {
+    assert.throws(() => parseConversationExport(exported(d => (d.conversation.tree.nodes.a1.parentId = 'gone'))), /replies to missing/);
+    assert.throws(
+      () => parseConversationExport(exported(d => (d.conversation.tree.nodes.a1.parentId = 'constructor'))),
+      /replies to missing/
+    );
+    const cycle = exported(d => {
+      d.conversation.tree.nodes.a1.parentId = 'b';
+      d.conversation.tree.nodes.b = { ...message('b', 'user', 'Loop', 3), parentId: 'a1' };
+    });
+    assert.throws(() => parseConversationExport(cycle), /reply to themselves/);
+  });
+
+  it('rejects a selection of a node under itself without hanging', () => {
+    const selfSelected = exported(d => {
+      d.conversation.tree = {
+        nodes: {
+          a: { ...message('a', 'user', 'A', 0), parentId: null },
+          b: { ...message('b', 'assistant', 'B', 1), parentId: 'a' },
+        },
+        selected: { a: 'a' },
+      };
+    });
+    assert.throws(() => parseConversationExport(selfSelected), /under the wrong parent/);
+  });
+
+  it('rejects messages that are not the selected branch', () => {
+    assert.throws(
+      () => parseConversationExport(exported(d => d.conversation.messages.pop())),
+      /do not match the selected branch/
+    );
+    assert.throws(
+      () => parseConversationExport(exported(d => (d.conversation.tree.selected.q = 'a1'))),
+      /do not match the selected branch/
+    );
+  });
+});
+
+describe('importConversation', () => {
+  it('saves the conversation under its own id', async () => {
+    await importConversation(exportConversation(conversation(), 'json'));
+    assert.deepEqual(await loadConversation('conv-abc-123'), conversation());
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { ChatMessage } from '@/lib/chat-templates';
+import {
+  activePath,
+  appendMessage,
+  emptyTree,
+  pathTo,
+  removeLeaf,
+  selectSibling,
+  siblingPosition,
+  toMessages,
+  treeFromMessages,
+  type ConversationTree,
+} from '@/lib/conversation-tree';
+
+let clock = 0;
+const message = (id: string, role: ChatMessage['role'] = 'user'): ChatMessage => ({
+  id,
+  role,
+  content: id,
+  createdAt: ++clock,
+});
+
+const ids = (tree: ConversationTree) => activePath(tree).map(node => node.id);
+
+/** q → a1, then a regenerated a2 under q, then a follow-up q2 under a2 */
+const branched = () => {
+  let tree = appendMessage(emptyTree(), null, message('q'));
+  tree = appendMessage(tree, 'q', message('a1', 'assistant'));
+  tree = appendMessage(tree, 'q', message('a2', 'assistant'));
+  return appendMessage(tree, 'a2', message('q2'));
+};
+
+describe('activePath', () => {
+  it('follows the selected child from the first turn down', () => {
+    assert.deepEqual(ids(branched()), ['q', 'a2', 'q2']);
+    assert.deepEqual(ids(emptyTree()), []);
+  });
+
+  it('falls back to the newest sibling without a selection', () => {
+    const tree = branched();
+    assert.deepEqual(ids({ ...tree, selected: {} }), ['q', 'a2', 'q2']);
+  });
+
+  it('ignores selections that are not among the siblings', () => {
+    const tree = branched();
+    // A node of another branch, a missing id, and a node selected under itself
+    assert.deepEqual(ids({ ...tree, selected: { ...tree.selected, q: 'q2' } }), ['q', 'a2', 'q2']);
+    assert.deepEqual(ids({ ...tree, selected: { ...tree.selected, q: 'gone' } }), ['q', 'a2', 'q2']);
+    const looping: ConversationTree = {
+      nodes: { a: { ...message('a'), parentId: null }, b: { ...message('b'), parentId: 'a' } },
+      selected: { a: 'a' },
+    };
+    assert.deepEqual(ids(looping), ['a', 'b']);
+  });
+});
+
+describe('pathTo', () => {
+  it('walks up to the first turn', () => {
+    assert.deepEqual(pathTo(branched(), 'q2').map(n => n.id), ['q', 'a2', 'q2']);
+    assert.deepEqual(pathTo(branched(), 'a1').map(n => n.id), ['q', 'a1']);
+    assert.deepEqual(pathTo(branched(), 'missing'), []);
+  });
+});
+
+describe('selectSibling', () => {
+  it('switches between versions and stays put at the ends', () => {
+    const tree = branched();
+    assert.deepEqual(siblingPosition(tree, 'a2'), { index: 2, count: 2 });
+    const previous = selectSibling(tree, 'a2', -1);
+    assert.deepEqual(ids(previous), ['q', 'a1']);
+    assert.equal(selectSibling(previous, 'a1', -1), previous);
+    assert.deepEqual(ids(selectSibling(previous, 'a1', 1)), ['q', 'a2', 'q2']);
+  });
+});
+
+describe('removeLeaf', () => {
+  it('removes a leaf and falls back to the newest remaining sibling', () => {
+    const tree = selectSibling(branched(), 'a2', -1);
+    const removed = removeLeaf(tree, 'a1');
+    assert.equal(removed.nodes.a1, undefined);
+    assert.deepEqual(ids(removed), ['q', 'a2', 'q2']);
+  });
+
+  it('keeps nodes that have children', () => {
+    const tree = branched();
+    assert.equal(removeLeaf(tree, 'a2'), tree);
+    assert.equal(removeLeaf(tree, 'missing'), tree);
+  });
+});
+
+describe('treeFromMessages', () => {
+  it('chains the messages into a single branch', () => {
+    const messages = [message('m1'), message('m2', 'assistant'), message('m3')];
+    const tree = treeFromMessages(messages);
+    assert.deepEqual(toMessages(activePath(tree)), messages);
+    assert.equal(tree.nodes.m1!.parentId, null);
+    assert.equal(tree.nodes.m3!.parentId, 'm2');
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  customDownloadPlan,
+  deleteCustomModel,
+  listCustomModels,
+  markCustomModelDownloaded,
+  saveCustomModel,
+  type CustomModel,
+} from '@/lib/custom-models';
+
+const model = (id: string): CustomModel => ({
+  id: `hf:owner/repo/${id}.gguf`,
+  name: id,
+  category: 'language',
+  framework: 'LlamaCpp',
+  repo: 'owner/repo',
+  revision: 'main',
+  quantization: 'Q4_K_M',
+  files: [{ path: `${id}.gguf`, url: `https://huggingface.co/owner/repo/resolve/main/${id}.gguf`, size: 10 }],
+  downloadSize: 10,
+  downloadURL: `https://huggingface.co/owner/repo/resolve/main/${id}.gguf`,
+  isDownloaded: false,
+  addedAt: 0,
+});
+
+describe('custom model list', () => {
+  it('keeps every change made at the same time', async () => {
+    await saveCustomModel(model('a'));
+    await Promise.all([saveCustomModel(model('b')), markCustomModelDownloaded(model('a').id, '/models/a.gguf')]);
+    const models = await listCustomModels();
+    assert.deepEqual(
+      models.map(m => [m.name, m.isDownloaded]),
+      [
+        ['a', true],
+        ['b', false],
+      ]
+    );
+
+    assert.deepEqual(
+      (await deleteCustomModel(model('a').id)).map(m => m.name),
+      ['b']
+    );
+  });
+
+  it('plans downloads into the model folder', async () => {
+    await saveCustomModel(model('c'));
+    const plan = await customDownloadPlan(model('c').id);
+    assert.equal(plan?.localPath, 'models/custom/owner_repo_c.gguf/c.gguf');
+    assert.equal(await customDownloadPlan('qwen-0.5b'), null);
+    await assert.rejects(customDownloadPlan('hf:owner/repo/gone.gguf'), /was removed/);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  buildIndex,
+  buildRagPrompt,
+  chunkDocument,
+  citedSources,
+  searchIndex,
+  tokenize,
+} from '@/lib/document-index';
+
+const words = (n: number, word = 'lorem') => Array.from({ length: n }, () => word).join(' ');
+
+describe('tokenize', () => {
+  it('lower-cases, drops stop words and folds plurals', () => {
+    assert.deepEqual(tokenize('The Batteries and the Cables of a glass'), ['battery', 'cable', 'glass']);
+  });
+
+  it('keeps letters and digits from any script', () => {
+    assert.deepEqual(tokenize('Größe: 42 mm, café'), ['größe', '42', 'mm', 'café']);
+  });
+});
+
+describe('chunkDocument', () => {
+  it('returns one chunk for a short document', () => {
+    const chunks = chunkDocument({ id: 'd', name: 'notes.md', text: 'One short note.' });
+    assert.equal(chunks.length, 1);
+    assert.deepEqual(chunks[0], { id: 'd#0', documentId: 'd', documentName: 'notes.md', index: 0, text: 'One short note.' });
+  });
+
+  it('strips markdown syntax', () => {
+    const [chunk] = chunkDocument({ id: 'd', name: 'n', text: '# Title\n- **bold** [link](http://x)\n```js\ncode\n```' });
+    assert.equal(chunk!.text, 'Title bold link code');
+  });
+
+  it('overlaps consecutive chunks', () => {
+    const text = Array.from({ length: 25 }, (_, i) => `w${i}`).join(' ');
+    const chunks = chunkDocument({ id: 'd', name: 'n', text }, { chunkSize: 10, overlap: 3 });
+    assert.equal(chunks[0]!.text.split(' ').at(-1), 'w9');
+    assert.equal(chunks[1]!.text.split(' ')[0], 'w7');
+    assert.equal(chunks.at(-1)!.text.split(' ').at(-1), 'w24');
+  });
+
+  it('ends chunks on a sentence boundary in their second half', () => {
+    const text = `${words(6)} end. ${words(10)}`;
+    const chunks = chunkDocument({ id: 'd', name: 'n', text }, { chunkSize: 10, overlap: 0 });
+    assert.ok(chunks[0]!.text.endsWith('end.'));
+    assert.equal(chunks[1]!.text, words(10));
+  });
+});
+
+describe('searchIndex', () => {
+  const chunks = [
+    ...chunkDocument({ id: 'a', name: 'battery.md', text: 'The battery lasts ten hours. Charge the battery with the USB cable.' }),
+    ...chunkDocument({ id: 'b', name: 'screen.md', text: 'The screen is an OLED panel with a high refresh rate.' }),
+    ...chunkDocument({ id: 'c', name: 'case.md', text: 'The case is aluminium and survives drops.' }),
+  ];
+  const index = buildIndex(chunks);
+
+  it('ranks the chunk with the query terms first', () => {
+    const hits = searchIndex(index, 'How long do batteries last?');
+    assert.equal(hits[0]!.chunk.documentId, 'a');
+    assert.equal(hits.length, 1);
+  });
+
+  it('skips chunks without matching terms and honours k', () => {
+    assert.deepEqual(searchIndex(index, 'keyboard layout'), []);
+    assert.equal(searchIndex(index, 'battery screen case', 2).length, 2);
+  });
+
+  it('returns nothing for stop-word-only queries or an empty index', () => {
+    assert.deepEqual(searchIndex(index, 'what is the'), []);
+    assert.deepEqual(searchIndex(buildIndex([]), 'battery'), []);
+  });
+
+  it('scores rarer terms higher', () => {
+    const small = buildIndex(
+      ['alpha beta', 'alpha gamma', 'delta epsilon'].map((text, i) => chunkDocument({ id: `${i}`, name: 'n', text })[0]!)
+    );
+    const [rare] = searchIndex(small, 'beta');
+    const [common] = searchIndex(small, 'alpha');
+    assert.equal(common!.chunk.id, rare!.chunk.id);
+    assert.ok(rare!.score > common!.score);
+  });
+});
+
+describe('buildRagPrompt', () => {
+  it('numbers the sources with their document and part', () => {
+    const [chunk] = chunkDocument({ id: 'a', name: 'battery.md', text: 'Ten hours.' });
+    const prompt = buildRagPrompt('How long?', [{ chunk: chunk!, score: 1 }]);
+    assert.match(prompt, /\[1\] \(battery\.md, part 1\)\nTen hours\./);
+    assert.ok(prompt.endsWith('Question: How long?'));
+  });
+
+  it('tells the model when nothing matched', () => {
+    assert.match(buildRagPrompt('Why?', []), /^No passages/);
+  });
+});
+
+describe('citedSources', () => {
+  it('lists valid citations in order of first use', () => {
+    assert.deepEqual(citedSources('Yes [2]. Also [1, 2] and [3].', 2), [2, 1]);
+  });
+
+  it('ignores out-of-range numbers', () => {
+    assert.deepEqual(citedSources('See [0] and [5].', 3), []);
+  });
+});
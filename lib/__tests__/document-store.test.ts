@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { importDocument, listDocuments } from '@/lib/document-store';
+
+describe('importDocument', () => {
+  it('names documents after the decoded file name', async () => {
+    const uri = `${FileSystem.documentDirectory}Release%20notes.md`;
+    await FileSystem.writeAsStringAsync(uri, '# Notes\n\nBattery life is better.');
+    const document = await importDocument(uri);
+    assert.equal(document.name, 'Release notes.md');
+    assert.equal(document.sourceUri, uri);
+    assert.ok((await listDocuments()).some(d => d.id === document.id));
+  });
+
+  it('keeps names that are not valid percent-encoding', async () => {
+    const uri = `${FileSystem.documentDirectory}100%.txt`;
+    await FileSystem.writeAsStringAsync(uri, 'Fully charged.');
+    assert.equal((await importDocument(uri)).name, '100%.txt');
+  });
+
+  it('rejects unsupported and missing files', async () => {
+    await assert.rejects(importDocument(`${FileSystem.documentDirectory}photo.png`), /Unsupported file type/);
+    await assert.rejects(importDocument(`${FileSystem.documentDirectory}missing.txt`), /File not found/);
+  });
+});
@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import {
+  createDownloadManager,
+  isCancelled,
+  type DownloadJob,
+  type DownloadManager,
+  type DownloadPlan,
+  type SavedDownload,
+} from '@/lib/download-manager';
+import { createFetchTransfer } from '@/lib/__tests__/helpers/fetch-transfer';
+
+const BODY = Buffer.from(Array.from({ length: 256 * 1024 }, (_, i) => i % 251));
+const CHUNK = 16 * 1024;
+
+/** Serves BODY with range support, a chunk every few milliseconds so there is time to pause */
+const serve = async () => {
+  const ranges: (string | undefined)[] = [];
+  let failures = 0;
+  const server = createServer((req, res) => {
+    if (req.url === '/missing') return res.writeHead(404).end();
+    ranges.push(req.headers.range);
+    if (failures > 0) {
+      failures -= 1;
+      return res.writeHead(503).end();
+    }
+    let at = Number(/^bytes=(\d+)-$/.exec(req.headers.range ?? '')?.[1] ?? 0);
+    res.writeHead(at > 0 ? 206 : 200, { 'Content-Length': BODY.length - at });
+    const timer = setInterval(() => {
+      res.write(BODY.subarray(at, at + CHUNK));
+      at += CHUNK;
+      if (at >= BODY.length) {
+        clearInterval(timer);
+        res.end();
+      }
+    }, 5);
+    res.on('close', () => clearInterval(timer));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: (path: string) => `http://127.0.0.1:${port}${path}`,
+    ranges,
+    failNext: (count: number) => (failures = count),
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    },
+  };
+};
+
+const MODEL = { id: 'hf:owner/repo/model.gguf', name: 'Model' };
+const FILE_PATH = 'models/custom/model.gguf';
+
+const waitFor = (manager: DownloadManager, predicate: (jobs: DownloadJob[]) => boolean) =>
+  new Promise<DownloadJob[]>(resolve => {
+    const unsubscribe = manager.subscribe(jobs => {
+      if (!predicate(jobs)) return;
+      unsubscribe();
+      resolve(jobs);
+    });
+  });
+
+const started = (manager: DownloadManager) => waitFor(manager, jobs => (jobs[0]?.bytesWritten ?? 0) > 0);
+
+describe('createDownloadManager', () => {
+  let server: Awaited<ReturnType<typeof serve>>;
+  let root: string;
+  let saved: SavedDownload[];
+  let finished: string[];
+
+  const planFor = (path: string): DownloadPlan => ({
+    files: [{ url: server.url(path), path: FILE_PATH, size: BODY.length }],
+    localPath: FILE_PATH,
+  });
+
+  const createManager = (path = '/model.gguf') =>
+    createDownloadManager({
+      sdk: null,
+      planFor: async () => planFor(path),
+      onFinished: async (_id, localPath) => {
+        finished.push(localPath);
+      },
+      transfer: createFetchTransfer(root),
+      storage: {
+        load: async () => saved,
+        save: async downloads => {
+          saved = downloads;
+        },
+      },
+      retryBaseMs: 10,
+    });
+
+  before(async () => {
+    server = await serve();
+  });
+
+  after(() => server.close());
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'downloads-'));
+    saved = [];
+    finished = [];
+    server.ranges.length = 0;
+  });
+
+  afterEach(() => rm(root, { recursive: true, force: true }));
+
+  it('downloads a planned model and reports where it is', async () => {
+    const manager = createManager();
+    const localPath = await manager.enqueue(MODEL);
+    assert.equal(localPath, join(root, FILE_PATH));
+    assert.deepEqual(finished, [localPath]);
+    assert.deepEqual(await readFile(localPath!), BODY);
+    assert.deepEqual(manager.getJobs(), []);
+    assert.deepEqual(saved, []);
+  });
+
+  it('pauses mid-file and resumes with a range request', async () => {
+    const manager = createManager();
+    const result = manager.enqueue(MODEL);
+    await started(manager);
+    await manager.pause(MODEL.id);
+
+    const [job] = manager.getJobs();
+    assert.equal(job!.status, 'paused');
+    assert.ok(job!.bytesWritten < BODY.length);
+    assert.equal(saved[0]!.paused, true);
+
+    manager.resume(MODEL.id);
+    assert.deepEqual(await readFile((await result)!), BODY);
+    assert.equal(server.ranges.length, 2);
+    assert.match(server.ranges[1]!, /^bytes=[1-9]\d*-$/);
+  });
+
+  it('continues a paused download after a restart', async () => {
+    const first = createManager();
+    first.enqueue(MODEL).catch(() => {});
+    await started(first);
+    await first.pause(MODEL.id);
+
+    const second = createManager();
+    assert.deepEqual(await second.pendingIds(), [MODEL.id]);
+    const paused = waitFor(second, jobs => jobs[0]?.status === 'paused');
+    const result = second.enqueue(MODEL);
+    await paused;
+    second.resume(MODEL.id);
+    assert.deepEqual(await readFile((await result)!), BODY);
+    assert.match(server.ranges[1]!, /^bytes=[1-9]\d*-$/);
+  });
+
+  it('cancels, deleting the partial file', async () => {
+    const manager = createManager();
+    const result = manager.enqueue(MODEL);
+    await started(manager);
+    await manager.cancel(MODEL.id);
+
+    await assert.rejects(result, isCancelled);
+    await assert.rejects(stat(join(root, FILE_PATH)));
+    assert.deepEqual(manager.getJobs(), []);
+    assert.deepEqual(saved, []);
+  });
+
+  it('retries server errors', async () => {
+    server.failNext(2);
+    const manager = createManager();
+    const states: string[] = [];
+    manager.subscribe(jobs => jobs[0] && states.push(jobs[0].status));
+    assert.deepEqual(await readFile((await manager.enqueue(MODEL))!), BODY);
+    assert.equal(server.ranges.length, 3);
+    assert.equal(states.filter(status => status === 'retrying').length, 2);
+  });
+
+  it('gives up on client errors and leaves failed jobs out of the restart', async () => {
+    const manager = createManager('/missing');
+    await assert.rejects(manager.enqueue(MODEL), /HTTP 404/);
+    const [job] = manager.getJobs();
+    assert.equal(job!.status, 'failed');
+    assert.equal(job!.attempts, 1);
+    assert.equal(saved[0]!.failed, true);
+
+    assert.deepEqual(await createManager().pendingIds(), []);
+  });
+});
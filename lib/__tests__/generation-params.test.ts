@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  DEFAULT_GENERATION_PARAMS,
+  deleteModelPreset,
+  loadModelSettings,
+  MAX_STOP_SEQUENCES,
+  parseDraft,
+  saveModelParams,
+  saveModelPreset,
+  toDraft,
+  toGenerateOptions,
+} from '@/lib/generation-params';
+
+describe('parseDraft', () => {
+  const draft = toDraft(DEFAULT_GENERATION_PARAMS);
+
+  it('round-trips params through the draft', () => {
+    const params = { ...DEFAULT_GENERATION_PARAMS, seed: 42, stopSequences: ['</s>', '\nUser:'] };
+    assert.deepEqual(parseDraft(toDraft(params)), { params, errors: {} });
+    assert.equal(toDraft(params).stopSequences, '</s>\n\\nUser:');
+  });
+
+  it('reports one message per invalid field', () => {
+    const { params, errors } = parseDraft({
+      ...draft,
+      maxTokens: '12.5',
+      temperature: 'hot',
+      topP: '0',
+      topK: '',
+      repetitionPenalty: '3',
+    });
+    assert.equal(params, null);
+    assert.deepEqual(errors, {
+      maxTokens: 'Max tokens must be a whole number',
+      temperature: 'Temperature must be a number',
+      topP: 'Top-p must be between 0.01 and 1',
+      topK: 'Top-k must be a number',
+      repetitionPenalty: 'Repetition penalty must be between 0.5 and 2',
+    });
+  });
+
+  it('treats an empty seed as random and checks a given one', () => {
+    assert.equal(parseDraft({ ...draft, seed: '  ' }).params?.seed, null);
+    assert.equal(parseDraft({ ...draft, seed: '-1' }).errors.seed, 'Seed must be between 0 and 2147483647');
+  });
+
+  it('drops blank stop sequences and limits their number', () => {
+    assert.deepEqual(parseDraft({ ...draft, stopSequences: 'END\n \n\n###' }).params?.stopSequences, ['END', '###']);
+    const tooMany = Array.from({ length: MAX_STOP_SEQUENCES + 1 }, (_, i) => `stop${i}`).join('\n');
+    assert.equal(parseDraft({ ...draft, stopSequences: tooMany }).errors.stopSequences, 'At most 8 stop sequences');
+  });
+});
+
+describe('toGenerateOptions', () => {
+  it('merges template stops with the user stops and leaves out a random seed', () => {
+    const options = toGenerateOptions({ ...DEFAULT_GENERATION_PARAMS, stopSequences: ['<|im_end|>', 'END'] }, ['<|im_end|>']);
+    assert.deepEqual(options.stopSequences, ['<|im_end|>', 'END']);
+    assert.equal('seed' in options, false);
+  });
+});
+
+describe('model settings', () => {
+  it('keeps every change when several are saved at once', async () => {
+    const params = { ...DEFAULT_GENERATION_PARAMS, temperature: 0.3 };
+    await Promise.all([
+      saveModelParams('a', params, null),
+      saveModelPreset('a', 'Cold', params),
+      saveModelParams('b', DEFAULT_GENERATION_PARAMS, 'precise'),
+    ]);
+    const a = await loadModelSettings('a');
+    assert.deepEqual(a.presets.map(p => p.name), ['Cold']);
+    assert.equal(a.presetId, a.presets[0]!.id);
+    assert.equal((await loadModelSettings('b')).presetId, 'precise');
+
+    const after = await deleteModelPreset('a', a.presets[0]!.id);
+    assert.deepEqual(after.presets, []);
+    assert.equal(after.presetId, null);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { formatParameterCount, ggufDetails, GGUFValueTypes, parseGGUF } from '@/lib/gguf-parser';
+
+/** Little-endian GGUF bytes, built field by field */
+const gguf = () => {
+  const parts: Buffer[] = [];
+  const fixed = (size: number, write: (buffer: Buffer) => void) => {
+    const buffer = Buffer.alloc(size);
+    write(buffer);
+    parts.push(buffer);
+    return writer;
+  };
+  const writer = {
+    u8: (n: number) => fixed(1, b => b.writeUInt8(n)),
+    u32: (n: number) => fixed(4, b => b.writeUInt32LE(n)),
+    i32: (n: number) => fixed(4, b => b.writeInt32LE(n)),
+    f32: (n: number) => fixed(4, b => b.writeFloatLE(n)),
+    u64: (n: number | bigint) => fixed(8, b => b.writeBigUInt64LE(BigInt(n))),
+    string: (text: string) => {
+      const bytes = Buffer.from(text, 'utf8');
+      writer.u64(bytes.length);
+      parts.push(bytes);
+      return writer;
+    },
+    /** Magic, version and counts */
+    header: (version: number, tensors: number | bigint, metadata: number) =>
+      fixed(4, b => b.write('GGUF', 'latin1')).u32(version).u64(tensors).u64(metadata),
+    key: (key: string, type: number) => writer.string(key).u32(type),
+    tensor: (name: string, dims: number[]) => {
+      writer.string(name).u32(dims.length);
+      dims.forEach(d => writer.u64(d));
+      return writer.u32(0).u64(0);
+    },
+    bytes: () => new Uint8Array(Buffer.concat(parts)),
+  };
+  return writer;
+};
+
+const { STRING, UINT32, INT32, FLOAT32, BOOL, UINT64, ARRAY, UINT8 } = GGUFValueTypes;
+
+const TOKENS = Array.from({ length: 100 }, (_, i) => `tok${i}`);
+
+const validModel = () => {
+  const w = gguf().header(3, 2, 10);
+  w.key('general.architecture', STRING).string('llama');
+  w.key('general.name', STRING).string('Tiny Llama ✓');
+  w.key('general.file_type', UINT32).u32(15);
+  w.key('llama.context_length', UINT32).u32(4096);
+  w.key('llama.block_count', UINT32).u32(2);
+  w.key('llama.rope.freq_base', FLOAT32).f32(10000);
+  w.key('general.quantized', BOOL).u8(1);
+  w.key('general.size', UINT64).u64(2n ** 60n);
+  w.key('tokenizer.ggml.scores', ARRAY).u32(INT32).u64(3).i32(-1).i32(0).i32(7);
+  w.key('tokenizer.ggml.tokens', ARRAY).u32(STRING).u64(TOKENS.length);
+  TOKENS.forEach(token => w.string(token));
+  w.tensor('token_embd.weight', [4, 8]);
+  w.tensor('output.weight', [16]);
+  return w.bytes();
+};
+
+describe('parseGGUF', () => {
+  it('reads a v3 header', () => {
+    const header = parseGGUF(validModel());
+    assert.equal(header.version, 3);
+    assert.equal(header.tensorCount, 2);
+    assert.equal(header.metadataComplete, true);
+    assert.equal(header.parameterCount, 48);
+    assert.equal(header.metadata['general.name'], 'Tiny Llama ✓');
+    assert.equal(header.metadata['llama.rope.freq_base'], 10000);
+    assert.equal(header.metadata['general.quantized'], true);
+    assert.equal(header.metadata['general.size'], 2n ** 60n);
+    assert.deepEqual(header.metadata['tokenizer.ggml.scores'], [-1, 0, 7]);
+    assert.deepEqual(header.metadata['tokenizer.ggml.tokens'], { type: 'array', itemType: STRING, length: 100 });
+  });
+
+  it('turns the header into details', () => {
+    const details = ggufDetails(parseGGUF(validModel()));
+    assert.equal(details.architecture, 'llama');
+    assert.equal(details.quantization, 'Q4_K_M');
+    assert.equal(details.parameters, '48');
+    assert.equal(details.contextLength, 4096);
+    assert.equal(details.layers, 2);
+    assert.equal(details.tokenizer.vocabularySize, 100);
+    assert.equal(details.partial, false);
+  });
+
+  it('returns what it could read from a truncated file', () => {
+    const bytes = validModel();
+    const inTensors = parseGGUF(bytes.subarray(0, bytes.length - 10));
+    assert.equal(inTensors.metadataComplete, true);
+    assert.equal(inTensors.parameterCount, null);
+    assert.equal(ggufDetails(inTensors).partial, true);
+
+    const inMetadata = parseGGUF(bytes.subarray(0, 120));
+    assert.equal(inMetadata.metadataComplete, false);
+    assert.equal(inMetadata.metadata['general.architecture'], 'llama');
+    assert.equal(inMetadata.metadata['tokenizer.ggml.tokens'], undefined);
+
+    assert.throws(() => parseGGUF(bytes.subarray(0, 12)), /too short/);
+  });
+
+  it('rejects a bad magic number', () => {
+    const bytes = validModel();
+    // The magic of the GGJT files llama.cpp used before GGUF
+    bytes.set(Buffer.from('ggjt', 'latin1'));
+    assert.throws(() => parseGGUF(bytes), /Not a GGUF file/);
+  });
+
+  it('rejects unsupported versions', () => {
+    assert.throws(() => parseGGUF(gguf().header(1, 0, 0).bytes()), /version 1 is too old/);
+    assert.throws(() => parseGGUF(gguf().header(4, 0, 0).bytes()), /version 4 is newer/);
+    assert.equal(parseGGUF(gguf().header(2, 0, 0).bytes()).version, 2);
+  });
+
+  it('treats lengths past the end of the data as a cut-off header', () => {
+    const longString = gguf().header(3, 0, 1).key('general.name', STRING).u64(2n ** 40n).string('short').bytes();
+    assert.equal(parseGGUF(longString).metadataComplete, false);
+
+    const longArray = gguf().header(3, 0, 1).key('tokenizer.ggml.token_type', ARRAY).u32(UINT8).u64(2n ** 50n).bytes();
+    assert.equal(parseGGUF(longArray).metadataComplete, false);
+
+    const manyStrings = gguf().header(3, 0, 1).key('tokenizer.ggml.tokens', ARRAY).u32(STRING).u64(1e12).string('a').bytes();
+    assert.equal(parseGGUF(manyStrings).metadataComplete, false);
+
+    const longKey = gguf().header(3, 0, 1).u64(2n ** 32n).bytes();
+    assert.deepEqual(parseGGUF(longKey).metadata, {});
+  });
+
+  it('rejects lengths no file can have', () => {
+    const huge = gguf().header(3, 0, 1).key('general.name', STRING).u64(2n ** 63n).bytes();
+    assert.throws(() => parseGGUF(huge), /length is out of range/);
+    assert.throws(() => parseGGUF(gguf().header(3, 2n ** 62n, 0).bytes()), /length is out of range/);
+  });
+
+  it('rejects unknown value types', () => {
+    const bytes = gguf().header(3, 0, 1).key('general.odd', 99).u32(0).bytes();
+    assert.throws(() => parseGGUF(bytes), /Unknown GGUF value type 99/);
+  });
+});
+
+describe('formatParameterCount', () => {
+  it('abbreviates with one decimal below 100 of a unit', () => {
+    assert.equal(formatParameterCount(494_032_768), '494M');
+    assert.equal(formatParameterCount(7_241_732_096), '7.2B');
+    assert.equal(formatParameterCount(1_000_000_000), '1B');
+    assert.equal(formatParameterCount(512), '512');
+  });
+});
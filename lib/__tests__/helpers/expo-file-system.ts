@@ -0,0 +1,55 @@
+// =============================================================================
+// expo-file-system stand-in
+// =============================================================================
+//
+// The parts of `expo-file-system/legacy` the lib modules use, over node:fs in
+// a temporary folder, so modules that persist through `json-storage` can run
+// under Node. `setup` points the import here.
+// =============================================================================
+
+import { cpSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+const root = mkdtempSync(join(tmpdir(), 'expo-fs-'));
+process.on('exit', () => rmSync(root, { recursive: true, force: true }));
+
+export const documentDirectory = `file://${root}/documents/`;
+export const cacheDirectory = `file://${root}/cache/`;
+
+const pathOf = (uri: string) => uri.replace(/^file:\/\//, '');
+
+export const getInfoAsync = async (uri: string) => {
+  try {
+    const stats = statSync(pathOf(uri));
+    return { exists: true, uri, size: stats.size, isDirectory: stats.isDirectory() };
+  } catch {
+    return { exists: false, uri, isDirectory: false };
+  }
+};
+
+export const makeDirectoryAsync = async (uri: string, _options?: { intermediates?: boolean }) => {
+  mkdirSync(pathOf(uri), { recursive: true });
+};
+
+export const readAsStringAsync = async (uri: string, options: { encoding?: string; position?: number; length?: number } = {}) => {
+  const bytes = readFileSync(pathOf(uri));
+  if (options.encoding !== 'base64') return bytes.toString('utf8');
+  const start = options.position ?? 0;
+  return bytes.subarray(start, start + (options.length ?? bytes.length)).toString('base64');
+};
+
+export const writeAsStringAsync = async (uri: string, contents: string, options: { encoding?: string } = {}) => {
+  mkdirSync(dirname(pathOf(uri)), { recursive: true });
+  writeFileSync(pathOf(uri), options.encoding === 'base64' ? Buffer.from(contents, 'base64') : contents);
+};
+
+export const deleteAsync = async (uri: string, options: { idempotent?: boolean } = {}) => {
+  rmSync(pathOf(uri), { recursive: true, force: options.idempotent });
+};
+
+export const readDirectoryAsync = async (uri: string) => readdirSync(pathOf(uri));
+
+export const copyAsync = async ({ from, to }: { from: string; to: string }) => {
+  cpSync(pathOf(from), pathOf(to), { recursive: true });
+};
@@ -0,0 +1,84 @@
+// =============================================================================
+// Fetch transfer
+// =============================================================================
+//
+// A `FileTransfer` over fetch and node:fs, for running the download manager
+// under Node in tests. Files are written under `root`; a paused
+// or failed transfer continues with a range request from the bytes already on
+// disk, and starts over when the server ignores the range.
+// =============================================================================
+
+import { createWriteStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { httpError, type FileTransfer } from '@/lib/download-manager';
+
+const cancelledError = () => Object.assign(new Error('Download cancelled'), { cancelled: true });
+
+export const createFetchTransfer = (root: string, fetchImpl: typeof fetch = fetch): FileTransfer => ({
+  start(file, resumeData, onBytes) {
+    const target = join(root, file.path);
+    const controller = new AbortController();
+    let stopping: 'paused' | 'cancelled' | null = null;
+    let written = 0;
+
+    const download = async (): Promise<'complete' | 'paused'> => {
+      await mkdir(dirname(target), { recursive: true });
+      const offset = resumeData ? ((await stat(target).catch(() => null))?.size ?? 0) : 0;
+      const response = await fetchImpl(file.url, {
+        headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) throw httpError(file, response.status);
+
+      const append = offset > 0 && response.status === 206;
+      written = append ? offset : 0;
+      onBytes(written);
+      const out = createWriteStream(target, { flags: append ? 'a' : 'w' });
+      const reader = response.body.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await new Promise<void>((resolve, reject) => out.write(value, e => (e ? reject(e) : resolve())));
+          written += value.length;
+          onBytes(written);
+        }
+      } finally {
+        await new Promise(resolve => out.end(resolve));
+      }
+      return 'complete';
+    };
+
+    const run = async (): Promise<'complete' | 'paused'> => {
+      try {
+        return await download();
+      } catch (e) {
+        if (stopping === 'paused') return 'paused';
+        if (stopping === 'cancelled') throw cancelledError();
+        throw e;
+      }
+    };
+
+    const done = run();
+    const stop = async (reason: 'paused' | 'cancelled') => {
+      stopping = reason;
+      controller.abort();
+      await done.catch(() => {});
+    };
+
+    return {
+      done,
+      pause: async () => {
+        await stop('paused');
+        return String(written);
+      },
+      // Resuming reads the size of the partial file; the count is only a marker
+      snapshot: () => (written > 0 ? String(written) : null),
+      cancel: () => stop('cancelled'),
+    };
+  },
+  discard: file => rm(join(root, file.path), { force: true }),
+  localPath: path => join(root, path).replace(/\/$/, ''),
+});
@@ -0,0 +1,13 @@
+// Loaded before every test file (see the `test` script): expo-file-system
+// needs the native runtime, so its imports get the node:fs stand-in.
+import Module from 'node:module';
+import { join } from 'node:path';
+
+const STAND_INS: Record<string, string> = {
+  'expo-file-system/legacy': join(__dirname, 'expo-file-system.ts'),
+};
+
+const resolveFilename = (Module as any)._resolveFilename;
+(Module as any)._resolveFilename = function (request: string, ...rest: unknown[]) {
+  return resolveFilename.call(this, STAND_INS[request] ?? request, ...rest);
+};
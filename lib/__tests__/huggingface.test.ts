@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  findModels,
+  HUGGING_FACE_ENDPOINT,
+  parseHuggingFaceURL,
+  preferredVariant,
+  resolveURL,
+} from '@/lib/huggingface';
+
+describe('parseHuggingFaceURL', () => {
+  it('reads repo, tree, resolve and bare links', () => {
+    assert.deepEqual(parseHuggingFaceURL('https://huggingface.co/owner/model'), {
+      endpoint: HUGGING_FACE_ENDPOINT,
+      repo: 'owner/model',
+      revision: 'main',
+      directory: '',
+      file: null,
+    });
+    assert.deepEqual(parseHuggingFaceURL('hf.co/owner/model/tree/v1/onnx'), {
+      endpoint: HUGGING_FACE_ENDPOINT,
+      repo: 'owner/model',
+      revision: 'v1',
+      directory: 'onnx',
+      file: null,
+    });
+    assert.deepEqual(parseHuggingFaceURL('https://huggingface.co/owner/model/resolve/main/q4/model%20Q4.gguf?download=1'), {
+      endpoint: HUGGING_FACE_ENDPOINT,
+      repo: 'owner/model',
+      revision: 'main',
+      directory: 'q4',
+      file: 'q4/model Q4.gguf',
+    });
+    assert.equal(parseHuggingFaceURL(' owner/model ').repo, 'owner/model');
+  });
+
+  it('rejects datasets, spaces and links without a repo', () => {
+    assert.throws(() => parseHuggingFaceURL('https://huggingface.co/datasets/owner/data'), /Only model repositories/);
+    assert.throws(() => parseHuggingFaceURL('https://huggingface.co/owner'), /Expected a repository/);
+    assert.throws(() => parseHuggingFaceURL('https://huggingface.co/owner/model/tree'), /Missing revision/);
+  });
+
+  it('reports malformed escapes as a parse error', () => {
+    assert.throws(
+      () => parseHuggingFaceURL('https://huggingface.co/owner/model/resolve/main/%E0%A4%A'),
+      (e: Error) => !(e instanceof URIError) && /malformed %-escape/.test(e.message)
+    );
+  });
+
+  it('rejects other hosts unless they are the endpoint', () => {
+    assert.throws(() => parseHuggingFaceURL('https://example.com/owner/model'), /Not a Hugging Face URL/);
+    const endpoint = 'http://127.0.0.1:8080/';
+    assert.equal(parseHuggingFaceURL('http://127.0.0.1:8080/owner/model', endpoint).endpoint, 'http://127.0.0.1:8080');
+    assert.equal(parseHuggingFaceURL('https://huggingface.co/owner/model', endpoint).endpoint, 'http://127.0.0.1:8080');
+    assert.throws(() => parseHuggingFaceURL('http://127.0.0.1:9090/owner/model', endpoint), /Not a Hugging Face URL/);
+  });
+});
+
+describe('findModels', () => {
+  const LISTING = [
+    { type: 'directory', path: 'onnx' },
+    { type: 'file', path: 'README.md', size: 10 },
+    { type: 'file', path: 'model-Q8_0.gguf', size: 800, lfs: { size: 8_000 } },
+    { type: 'file', path: 'model-Q4_K_M.gguf', size: 400, lfs: { size: 4_000 } },
+    { type: 'file', path: 'mmproj-model-F16.gguf', size: 100 },
+  ];
+
+  let endpoint: string;
+  const requests: string[] = [];
+  const server = createServer((req, res) => {
+    const json = (status: number, body: unknown) =>
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    if (req.url === '/api/models/owner/model/tree/main?recursive=true') return json(200, LISTING);
+    if (req.url === '/api/models/owner/model') return json(200, { pipeline_tag: 'text-generation', tags: ['gguf', 3] });
+    if (req.url?.startsWith('/api/models/owner/gated')) return json(403, { error: 'gated' });
+    if (req.url === '/api/models/owner/empty/tree/main?recursive=true') return json(200, [LISTING[1]]);
+    json(404, { error: 'not found' });
+  });
+  const fetchImpl: typeof fetch = (input, init) => {
+    requests.push(String(input));
+    return fetch(input, init);
+  };
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    return new Promise(resolve => server.close(resolve));
+  });
+
+  it('lists the variants of a repo from the endpoint', async () => {
+    requests.length = 0;
+    const { ref, info, variants } = await findModels(`${endpoint}/owner/model`, fetchImpl, endpoint);
+    assert.deepEqual(requests.sort(), [`${endpoint}/api/models/owner/model`, `${endpoint}/api/models/owner/model/tree/main?recursive=true`]);
+    assert.deepEqual(info, { pipelineTag: 'text-generation', tags: ['gguf'] });
+    assert.deepEqual(
+      variants.map(v => [v.quantization, v.size]),
+      [
+        ['Q4_K_M', 4_000],
+        ['Q8_0', 8_000],
+      ]
+    );
+    assert.equal(preferredVariant(variants)!.quantization, 'Q4_K_M');
+    assert.equal(resolveURL(ref, variants[0]!.files[0]!.path), `${endpoint}/owner/model/resolve/main/model-Q4_K_M.gguf`);
+  });
+
+  it('explains missing, gated and empty repos', async () => {
+    await assert.rejects(findModels('owner/missing', fetchImpl, endpoint), /Repository not found: owner\/missing/);
+    await assert.rejects(findModels('owner/gated', fetchImpl, endpoint), /private or gated/);
+    await assert.rejects(findModels('owner/empty', fetchImpl, endpoint), /No GGUF or ONNX files in owner\/empty/);
+  });
+});
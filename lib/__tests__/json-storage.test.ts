@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { deleteFile, listDirectory, readJSON, updateJSON, writeJSON } from '@/lib/json-storage';
+
+describe('readJSON and writeJSON', () => {
+  it('round-trips values and creates parent directories', async () => {
+    await writeJSON('nested/dir/value.json', { a: [1, 2] });
+    assert.deepEqual(await readJSON('nested/dir/value.json', null), { a: [1, 2] });
+    assert.deepEqual(await listDirectory('nested/dir/'), ['value.json']);
+    assert.deepEqual(await listDirectory('missing/'), []);
+  });
+
+  it('falls back for missing and corrupt files', async () => {
+    assert.equal(await readJSON('missing.json', 'fallback'), 'fallback');
+    await writeJSON('deleted.json', 1);
+    await deleteFile('deleted.json');
+    assert.equal(await readJSON('deleted.json', 0), 0);
+  });
+});
+
+describe('updateJSON', () => {
+  it('runs concurrent updates of a file one after another', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => updateJSON<number[]>('list.json', [], async list => [...list, i]))
+    );
+    assert.deepEqual(await readJSON('list.json', []), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.deepEqual(results[9], [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('rejects a failed update without blocking the next one', async () => {
+    const failed = updateJSON('count.json', 0, () => {
+      throw new Error('Disk full');
+    });
+    const next = updateJSON('count.json', 0, n => n + 1);
+    await assert.rejects(failed, /Disk full/);
+    assert.equal(await next, 1);
+  });
+});
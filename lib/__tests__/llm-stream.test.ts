@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createSDKStreamer } from '@/lib/llm-stream';
+
+const collect = () => {
+  const tokens: string[] = [];
+  return { tokens, onToken: (token: string) => tokens.push(token) };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createSDKStreamer', () => {
+  it('reads an async-iterator stream of strings and chunk objects', async () => {
+    const sdk = {
+      async generateStream() {
+        return (async function* () {
+          yield 'Hel';
+          yield { token: 'lo' };
+          yield { text: ' world' };
+          yield {};
+        })();
+      },
+    };
+    const { tokens, onToken } = collect();
+    const result = await createSDKStreamer(sdk).stream('p', {}, onToken).result;
+    assert.deepEqual(tokens, ['Hel', 'lo', ' world']);
+    assert.deepEqual(result, { text: 'Hello world', tokenCount: 3, streamed: true, estimated: false, cancelled: false });
+  });
+
+  it('accepts a per-token callback stream', async () => {
+    const sdk = {
+      async generateStream(_prompt: string, _options: object, onToken: (chunk: any) => void) {
+        for (const token of ['a', 'b', 'c']) onToken(token);
+        return { text: 'abc' };
+      },
+    };
+    const { tokens, onToken } = collect();
+    const result = await createSDKStreamer(sdk).stream('p', {}, onToken).result;
+    assert.deepEqual(tokens, ['a', 'b', 'c']);
+    assert.equal(result.tokenCount, 3);
+    assert.equal(result.streamed, true);
+  });
+
+  it('falls back to generate with the reported token usage', async () => {
+    const sdk = { generate: async () => ({ text: 'One whole reply.', tokensUsed: 5 }) };
+    const { tokens, onToken } = collect();
+    const result = await createSDKStreamer(sdk).stream('p', {}, onToken).result;
+    assert.deepEqual(tokens, ['One whole reply.']);
+    assert.deepEqual(result, { text: 'One whole reply.', tokenCount: 5, streamed: false, estimated: false, cancelled: false });
+  });
+
+  it('estimates the count when generate reports no usage', async () => {
+    const text = 'A reply without any usage numbers attached to it.';
+    const result = await createSDKStreamer({ generate: async () => ({ text }) }).stream('p', {}, () => {}).result;
+    assert.equal(result.estimated, true);
+    assert.ok(result.tokenCount > 1);
+  });
+
+  it('keeps the partial text on cancel and stops the SDK', async () => {
+    let cancelCalls = 0;
+    let release = () => {};
+    const sdk = {
+      cancelGeneration: () => cancelCalls++,
+      async generateStream() {
+        return (async function* () {
+          yield 'first';
+          await new Promise<void>(resolve => (release = resolve));
+          yield 'second';
+        })();
+      },
+    };
+    const { tokens, onToken } = collect();
+    const handle = createSDKStreamer(sdk).stream('p', {}, onToken);
+    await tick();
+    handle.cancel();
+    handle.cancel();
+    release();
+    const result = await handle.result;
+    assert.equal(cancelCalls, 1);
+    assert.deepEqual(tokens, ['first']);
+    assert.deepEqual(result, { text: 'first', tokenCount: 1, streamed: true, estimated: false, cancelled: true });
+  });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { highlightCode, parseInline, parseMarkdown, splitTableRow, type MarkdownBlock } from '@/lib/markdown';
+
+const SAMPLE = [
+  '# Setup',
+  '',
+  'Install **the SDK** with `npm`, then see [the docs](https://example.com/docs) for *details*.',
+  '',
+  '- [x] Download a model',
+  '- [ ] Load it',
+  '  into memory',
+  '',
+  '| Model | Size |',
+  '|:------|-----:|',
+  '| Qwen | 0.5B |',
+  '',
+  '> Models run on-device.',
+  '',
+  '```python',
+  '# load the model',
+  'model = load("qwen.gguf", threads=4)',
+  '```',
+  '',
+  '---',
+  'Done.',
+].join('\n');
+
+const inlineTexts = (block: MarkdownBlock): string[] => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'quote':
+      return [block.text];
+    case 'list':
+      return block.items.map(item => item.text);
+    case 'table':
+      return [...block.header, ...block.rows.flat()];
+    default:
+      return [];
+  }
+};
+
+describe('parseMarkdown', () => {
+  it('parses the whole sample', () => {
+    assert.deepEqual(
+      parseMarkdown(SAMPLE).map(block => block.type),
+      ['heading', 'paragraph', 'list', 'table', 'quote', 'code', 'rule', 'paragraph']
+    );
+    const list = parseMarkdown(SAMPLE)[2] as Extract<MarkdownBlock, { type: 'list' }>;
+    assert.deepEqual(list.items, [
+      { text: 'Download a model', depth: 0, checked: true },
+      { text: 'Load it into memory', depth: 0, checked: false },
+    ]);
+    const table = parseMarkdown(SAMPLE)[3] as Extract<MarkdownBlock, { type: 'table' }>;
+    assert.deepEqual(table.align, ['left', 'right']);
+  });
+
+  it('parses every prefix, as while streaming', () => {
+    for (let end = 0; end <= SAMPLE.length; end++) {
+      const prefix = SAMPLE.slice(0, end);
+      const blocks = parseMarkdown(prefix);
+      for (const block of blocks) {
+        for (const text of inlineTexts(block)) {
+          assert.ok(parseInline(text).every(span => span.text !== ''), prefix);
+        }
+        if (block.type === 'code') highlightCode(block.code, block.language);
+      }
+    }
+  });
+
+  it('runs an open code fence to the end of the text', () => {
+    const prefix = SAMPLE.slice(0, SAMPLE.indexOf('threads'));
+    const code = parseMarkdown(prefix).at(-1);
+    assert.deepEqual(code, { type: 'code', language: 'python', code: '# load the model\nmodel = load("qwen.gguf", ', closed: false });
+    assert.equal((parseMarkdown(SAMPLE)[5] as { closed: boolean }).closed, true);
+  });
+});
+
+describe('parseInline', () => {
+  it('styles emphasis, code and links', () => {
+    assert.deepEqual(parseInline('a **b** *c* `d` [e](https://x.y) ~~f~~ ***g***'), [
+      { text: 'a ' },
+      { text: 'b', bold: true },
+      { text: ' ' },
+      { text: 'c', italic: true },
+      { text: ' ' },
+      { text: 'd', code: true },
+      { text: ' ' },
+      { text: 'e', href: 'https://x.y' },
+      { text: ' ' },
+      { text: 'f', strike: true },
+      { text: ' ' },
+      { text: 'g', bold: true, italic: true },
+    ]);
+  });
+
+  it('keeps unclosed markers as literal text', () => {
+    assert.deepEqual(parseInline('Install **the SD'), [{ text: 'Install **the SD' }]);
+    assert.deepEqual(parseInline('see [the docs](https://exa'), [{ text: 'see [the docs](https://exa' }]);
+    assert.deepEqual(parseInline('run `npm'), [{ text: 'run `npm' }]);
+    assert.deepEqual(parseInline('for *det'), [{ text: 'for *det' }]);
+  });
+
+  it('leaves snake_case, escapes and markers before spaces alone', () => {
+    assert.deepEqual(parseInline('snake_case_name'), [{ text: 'snake_case_name' }]);
+    assert.deepEqual(parseInline('\\*not\\* 2 * 3 * 4'), [{ text: '*not* 2 * 3 * 4' }]);
+  });
+});
+
+describe('splitTableRow', () => {
+  it('keeps escaped pipes in the cell', () => {
+    assert.deepEqual(splitTableRow('| a \\| b | c |'), ['a | b', 'c']);
+  });
+});
+
+describe('highlightCode', () => {
+  it('classifies keywords, strings, numbers and comments', () => {
+    assert.deepEqual(highlightCode('const x = 0x1F; // hex'), [
+      { text: 'const', kind: 'keyword' },
+      { text: ' x = ', kind: 'plain' },
+      { text: '0x1F', kind: 'number' },
+      { text: '; ', kind: 'plain' },
+      { text: '// hex', kind: 'comment' },
+    ]);
+    assert.deepEqual(highlightCode('x1 = 2 # two', 'python').map(t => t.kind), ['plain', 'number', 'plain', 'comment']);
+  });
+
+  it('keeps every character of any prefix, unterminated strings and comments included', () => {
+    const code = 'let s = "a\\"b"; /* note */ let n = 1.5e3;\nprint(`multi\nline`)';
+    for (let end = 0; end <= code.length; end++) {
+      const prefix = code.slice(0, end);
+      assert.equal(highlightCode(prefix).map(t => t.text).join(''), prefix);
+    }
+    assert.deepEqual(highlightCode('x = "open').at(-1), { text: '"open', kind: 'string' });
+    assert.deepEqual(highlightCode('/* open').at(-1), { text: '/* open', kind: 'comment' });
+  });
+});
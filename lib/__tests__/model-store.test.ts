@@ -0,0 +1,217 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  createModelStore,
+  INITIAL_MODEL_STATE,
+  modelStateOf,
+  modelTransition,
+  type ModelEvent,
+  type ModelState,
+} from '@/lib/model-store';
+
+const run = (events: ModelEvent[], state = INITIAL_MODEL_STATE): ModelState =>
+  events.reduce(modelTransition, state);
+
+describe('modelTransition', () => {
+  it('walks the whole lifecycle', () => {
+    const statuses: string[] = [];
+    let state = INITIAL_MODEL_STATE;
+    for (const event of [
+      { type: 'download' },
+      { type: 'progress', progress: 0.5 },
+      { type: 'downloaded', localPath: '/models/a.gguf' },
+      { type: 'load' },
+      { type: 'loaded', at: 42 },
+      { type: 'unload' },
+      { type: 'unloaded' },
+    ] as ModelEvent[]) {
+      state = modelTransition(state, event);
+      statuses.push(state.status);
+    }
+    assert.deepEqual(statuses, ['downloading', 'downloading', 'downloaded', 'loading', 'loaded', 'unloading', 'downloaded']);
+    assert.deepEqual(state, { ...INITIAL_MODEL_STATE, status: 'downloaded', progress: 1, isDownloaded: true, localPath: '/models/a.gguf' });
+  });
+
+  it('ignores events that do not apply, returning the same state', () => {
+    assert.equal(modelTransition(INITIAL_MODEL_STATE, { type: 'load' }), INITIAL_MODEL_STATE);
+    assert.equal(modelTransition(INITIAL_MODEL_STATE, { type: 'unload' }), INITIAL_MODEL_STATE);
+    assert.equal(modelTransition(INITIAL_MODEL_STATE, { type: 'failed', error: 'x' }), INITIAL_MODEL_STATE);
+    const loaded = run([{ type: 'sync', isDownloaded: true, localPath: null }, { type: 'load' }, { type: 'loaded', at: 1 }]);
+    assert.equal(modelTransition(loaded, { type: 'download' }), loaded);
+  });
+
+  it('clamps progress and resets it on cancel', () => {
+    const downloading = run([{ type: 'download' }, { type: 'progress', progress: 1.7 }]);
+    assert.equal(downloading.progress, 1);
+    assert.deepEqual(modelTransition(downloading, { type: 'cancelled' }), INITIAL_MODEL_STATE);
+  });
+
+  it('offers a download again after a failed download and a load after a failed load', () => {
+    const failedDownload = run([{ type: 'download' }, { type: 'failed', error: 'offline' }]);
+    assert.equal(failedDownload.status, 'failed');
+    assert.equal(failedDownload.error, 'offline');
+    assert.equal(modelTransition(failedDownload, { type: 'load' }), failedDownload);
+    assert.equal(modelTransition(failedDownload, { type: 'download' }).error, null);
+
+    const failedLoad = run([{ type: 'sync', isDownloaded: true, localPath: null }, { type: 'load' }, { type: 'failed', error: 'bad file' }]);
+    assert.equal(modelTransition(failedLoad, { type: 'download' }), failedLoad);
+    assert.equal(modelTransition(failedLoad, { type: 'load' }).status, 'loading');
+  });
+
+  it('lets catalog syncs update idle models only', () => {
+    const synced = modelTransition(INITIAL_MODEL_STATE, { type: 'sync', isDownloaded: true, localPath: '/a' });
+    assert.equal(synced.status, 'downloaded');
+    assert.equal(modelTransition(synced, { type: 'sync', isDownloaded: true, localPath: null }), synced);
+
+    const downloading = run([{ type: 'download' }]);
+    assert.equal(modelTransition(downloading, { type: 'sync', isDownloaded: false, localPath: null }).status, 'downloading');
+    const loaded = run([{ type: 'load' }, { type: 'loaded', at: 1 }], synced);
+    assert.equal(modelTransition(loaded, { type: 'sync', isDownloaded: true, localPath: '/a' }).status, 'loaded');
+  });
+
+  it('treats a model dropped by the SDK as unloaded', () => {
+    const loaded = run([{ type: 'load' }, { type: 'loaded', at: 1 }], { ...INITIAL_MODEL_STATE, status: 'downloaded', isDownloaded: true });
+    assert.deepEqual(modelTransition(loaded, { type: 'unloaded' }), { ...loaded, status: 'downloaded', loadedAt: null });
+  });
+});
+
+describe('createModelStore', () => {
+  const chat = { id: 'chat', name: 'Chat', category: 'language', downloadSize: 100 };
+  const other = { id: 'other', name: 'Other', category: 'language', isDownloaded: true, localPath: '/models/other.gguf' };
+
+  const fakeSDK = () => {
+    const calls: string[] = [];
+    return {
+      calls,
+      sdk: {
+        getModelPath: async (id: string) => `/models/${id}.gguf`,
+        loadTextModel: async (path: string) => {
+          if (path.includes('broken')) throw new Error('Could not load');
+          calls.push(`load ${path}`);
+        },
+        unloadTextModel: async () => {
+          calls.push('unload');
+        },
+      },
+    };
+  };
+
+  it('downloads through the queue, passing on progress', async () => {
+    const progress: number[] = [];
+    const store = createModelStore({
+      sdk: fakeSDK().sdk,
+      downloads: {
+        enqueue: async (_model, onProgress) => {
+          onProgress?.(0.25);
+          onProgress?.(0.75);
+          return '/models/chat.gguf';
+        },
+      },
+    });
+    store.subscribe(states => progress.push(modelStateOf(states, 'chat').progress));
+
+    assert.equal(await store.download(chat), true);
+    assert.deepEqual(progress, [0, 0.25, 0.75, 1]);
+    assert.equal(modelStateOf(store.getStates(), 'chat').status, 'downloaded');
+    assert.equal(await store.localPath(chat), '/models/chat.gguf');
+  });
+
+  it('goes back to remote when the download is cancelled and records failures', async () => {
+    let outcome: Error = Object.assign(new Error('Download cancelled'), { cancelled: true });
+    const store = createModelStore({
+      sdk: fakeSDK().sdk,
+      downloads: {
+        enqueue: async () => {
+          throw outcome;
+        },
+      },
+    });
+
+    assert.equal(await store.download(chat), false);
+    assert.equal(modelStateOf(store.getStates(), 'chat').status, 'remote');
+
+    outcome = new Error('HTTP 404');
+    await assert.rejects(store.download(chat), /HTTP 404/);
+    const state = modelStateOf(store.getStates(), 'chat');
+    assert.equal(state.status, 'failed');
+    assert.equal(state.error, 'HTTP 404');
+  });
+
+  it('loads through the SDK, replacing the loaded model of the category', async () => {
+    const { sdk, calls } = fakeSDK();
+    const store = createModelStore({ sdk, downloads: { enqueue: async () => null }, now: () => 7 });
+    store.sync([{ ...chat, isDownloaded: true }, other]);
+
+    assert.equal(await store.load(other), true);
+    assert.equal(store.loadedModelId('language'), 'other');
+    assert.equal(await store.load(chat), true);
+    assert.deepEqual(calls, ['load /models/other.gguf', 'load /models/chat.gguf']);
+    assert.equal(store.loadedModelId('language'), 'chat');
+    assert.equal(modelStateOf(store.getStates(), 'other').status, 'downloaded');
+    assert.equal(modelStateOf(store.getStates(), 'chat').loadedAt, 7);
+
+    assert.equal(await store.unload(chat), true);
+    assert.equal(calls.at(-1), 'unload');
+    assert.equal(store.loadedModelId('language'), null);
+  });
+
+  it('records a failed load and leaves the model loadable', async () => {
+    const store = createModelStore({ sdk: fakeSDK().sdk, downloads: { enqueue: async () => null } });
+    const broken = { ...other, id: 'broken', localPath: '/models/broken.gguf' };
+    store.sync([broken]);
+
+    await assert.rejects(store.load(broken), /Could not load/);
+    const state = modelStateOf(store.getStates(), 'broken');
+    assert.equal(state.status, 'failed');
+    assert.equal(state.isDownloaded, true);
+    await assert.rejects(store.load({ ...broken, category: 'video' }), /Unknown model category: video/);
+  });
+
+  it('loads built-in models without the SDK', async () => {
+    const { sdk, calls } = fakeSDK();
+    const voice = { id: 'system-tts', name: 'System voice', category: 'speech-synthesis' };
+    const store = createModelStore({ sdk, downloads: { enqueue: async () => null }, isBuiltIn: m => m.id === voice.id });
+    store.sync([voice]);
+
+    assert.equal(modelStateOf(store.getStates(), voice.id).status, 'downloaded');
+    assert.equal(await store.load(voice), true);
+    assert.equal(await store.unload(voice), true);
+    assert.deepEqual(calls, []);
+  });
+
+  it('keeps the SDK model of the category loaded when a built-in one is loaded', async () => {
+    const calls: string[] = [];
+    const sdk = {
+      getModelPath: async (id: string) => `/models/${id}`,
+      loadTTSModel: async (path: string) => {
+        calls.push(`load ${path}`);
+      },
+    };
+    const voice = { id: 'system-tts', name: 'System voice', category: 'speech-synthesis' };
+    const neural = { id: 'piper', name: 'Piper', category: 'speech-synthesis', isDownloaded: true };
+    const store = createModelStore({ sdk, downloads: { enqueue: async () => null }, isBuiltIn: m => m.id === voice.id });
+    store.sync([voice, neural]);
+
+    await store.load(neural);
+    await store.load(voice);
+    assert.equal(modelStateOf(store.getStates(), 'piper').status, 'loaded');
+    assert.equal(modelStateOf(store.getStates(), 'system-tts').status, 'loaded');
+
+    // Loading an SDK model does replace the built-in one
+    await store.unload(neural);
+    await store.load(neural);
+    assert.deepEqual(calls, ['load /models/piper', 'load /models/piper']);
+    assert.equal(modelStateOf(store.getStates(), 'system-tts').status, 'downloaded');
+  });
+
+  it('evicts models unloaded elsewhere', async () => {
+    const store = createModelStore({ sdk: fakeSDK().sdk, downloads: { enqueue: async () => null } });
+    store.sync([other]);
+    await store.load(other);
+    store.evict('speech-recognition');
+    assert.equal(store.loadedModelId('language'), 'other');
+    store.evict();
+    assert.equal(store.loadedModelId('language'), null);
+  });
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { generateStructured, parseModelJson, parseSchema, repairJson, validateSchema } from '@/lib/structured-output';
+
+describe('repairJson', () => {
+  it('removes trailing commas and Python literals outside strings', () => {
+    assert.deepEqual(JSON.parse(repairJson('{"a": [1, 2,], "b": True, "c": None, "d": False,}')), {
+      a: [1, 2],
+      b: true,
+      c: null,
+      d: false,
+    });
+  });
+
+  it('leaves string contents alone', () => {
+    const text = '{"note": "True, None, False ,] and ,}", "list": "a, ]"}';
+    assert.equal(repairJson(text), text);
+  });
+
+  it('closes strings opened with a smart quote at the matching smart quote', () => {
+    assert.deepEqual(JSON.parse(repairJson('{“name”: “Ada”, “tags”: [“x”,]}')), { name: 'Ada', tags: ['x'] });
+  });
+
+  it('keeps smart quotes inside plain strings', () => {
+    assert.deepEqual(JSON.parse(repairJson('{"quote": "she said “hi”",}')), { quote: 'she said “hi”' });
+  });
+
+  it('strips comments', () => {
+    assert.deepEqual(JSON.parse(repairJson('{"a": 1, // one\n/* two */ "b": 2}')), { a: 1, b: 2 });
+  });
+});
+
+describe('parseModelJson', () => {
+  it('extracts a fenced value and repairs it', () => {
+    assert.deepEqual(parseModelJson('Sure!\n```json\n{"ok": True,}\n```\nDone.'), { ok: true });
+  });
+
+  it('reports replies without JSON', () => {
+    assert.throws(() => parseModelJson('no json here'), /No JSON/);
+  });
+});
+
+describe('schemas', () => {
+  it('rejects an invalid pattern when the schema is parsed', () => {
+    assert.throws(
+      () => parseSchema('{"type": "object", "properties": {"code": {"type": "string", "pattern": "[a-"}}}'),
+      /Schema pattern at \$\.code is not a valid regular expression/
+    );
+  });
+
+  it('validates patterns, ranges and required keys', () => {
+    const schema = parseSchema(
+      '{"type": "object", "properties": {"code": {"type": "string", "pattern": "^[A-Z]{3}$"}, "n": {"type": "integer", "maximum": 3}}, "required": ["code", "n"]}'
+    );
+    assert.deepEqual(validateSchema({ code: 'ABC', n: 2 }, schema), []);
+    assert.deepEqual(
+      validateSchema({ code: 'abc', n: 5 }, schema).map(e => `${e.path} ${e.message}`),
+      ['$.code must match /^[A-Z]{3}$/', '$.n must be <= 3']
+    );
+  });
+
+  it('does not mistake inherited object members for keys', () => {
+    assert.deepEqual(
+      validateSchema({}, { type: 'object', required: ['valueOf'] }).map(e => `${e.path} ${e.message}`),
+      ['$.valueOf is required']
+    );
+    assert.deepEqual(
+      validateSchema(JSON.parse('{"constructor": 1}'), { type: 'object', additionalProperties: false }).map(
+        e => `${e.path} ${e.message}`
+      ),
+      ['$.constructor is not allowed']
+    );
+  });
+
+  it('fails before generating when a schema pattern is invalid', async () => {
+    let calls = 0;
+    await assert.rejects(
+      generateStructured({
+        prompt: 'p',
+        schema: { type: 'string', pattern: '(' },
+        generate: async () => {
+          calls++;
+          return '"x"';
+        },
+        maxRetries: 1,
+      }),
+      /not a valid regular expression/
+    );
+    assert.equal(calls, 0);
+  });
+
+  it('retries with the validation errors until the reply passes', async () => {
+    const replies = ['{"n": "two"}', '{"n": 2}'];
+    const result = await generateStructured({
+      prompt: 'p',
+      schema: { type: 'object', properties: { n: { type: 'integer' } } },
+      generate: async () => replies.shift()!,
+      maxRetries: 2,
+    });
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.value, { n: 2 });
+    assert.deepEqual(result.attempts[0]!.errors, ['$.n expected integer, got string']);
+  });
+});
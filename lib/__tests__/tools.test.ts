@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createMessage } from '@/lib/chat-templates';
+import { createToolRegistry, parseToolCall, runToolLoop, type ToolDefinition } from '@/lib/tools';
+
+const echoTool: ToolDefinition = {
+  name: 'echo',
+  description: 'Repeat the text',
+  parameters: { text: { type: 'string', description: 'Text to repeat', required: true } },
+  execute: args => String(args.text),
+};
+
+describe('parseToolCall', () => {
+  it('reads tagged calls, closed or not', () => {
+    assert.deepEqual(parseToolCall('<tool_call>{"name": "echo", "arguments": {"text": "hi"}}</tool_call>'), {
+      name: 'echo',
+      arguments: { text: 'hi' },
+    });
+    assert.deepEqual(parseToolCall('<tool_call>{"name": "echo", "parameters": {"text": "hi"}}'), {
+      name: 'echo',
+      arguments: { text: 'hi' },
+    });
+  });
+
+  it('accepts a reply that is only a call object, fenced or not', () => {
+    assert.equal(parseToolCall('{"name": "echo", "arguments": {"text": "hi"}}')?.name, 'echo');
+    assert.equal(parseToolCall('```json\n{"name": "echo", "arguments": {}}\n```')?.name, 'echo');
+  });
+
+  it('treats answers that only contain a "name" key as answers', () => {
+    assert.equal(parseToolCall('The user record is {"name": "Ada", "age": 36}.'), null);
+    assert.equal(parseToolCall('{"name": "Ada", "age": 36}'), null);
+    assert.equal(parseToolCall('{"name": "echo"}'), null);
+    assert.equal(parseToolCall('{"name": "echo", "arguments": "text"}'), null);
+    assert.equal(parseToolCall('<tool_call>{"name": ""}</tool_call>'), null);
+  });
+});
+
+describe('createToolRegistry', () => {
+  const registry = createToolRegistry([echoTool]);
+
+  it('rejects unknown and inherited argument names', async () => {
+    const step = await registry.execute({ name: 'echo', arguments: { text: 'hi', toString: 'x' } });
+    assert.equal(step.isError, true);
+    assert.match(step.result, /unknown argument "toString"/);
+  });
+
+  it('reports unknown tools without throwing', async () => {
+    const step = await registry.execute({ name: 'nope', arguments: {} });
+    assert.equal(step.isError, true);
+  });
+});
+
+describe('runToolLoop', () => {
+  it('runs calls and feeds the results back until the model answers', async () => {
+    const replies = ['<tool_call>{"name": "echo", "arguments": {"text": "42"}}</tool_call>', 'The answer is 42.'];
+    const seen: string[] = [];
+    const result = await runToolLoop({
+      messages: [createMessage('user', 'What is it?')],
+      registry: createToolRegistry([echoTool]),
+      generate: async messages => {
+        seen.push(messages.at(-1)!.content);
+        return replies.shift()!;
+      },
+      maxSteps: 3,
+    });
+    assert.equal(result.text, 'The answer is 42.');
+    assert.deepEqual(result.steps.map(s => s.result), ['42']);
+    assert.match(seen[1]!, /<tool_result name="echo">\n42/);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { cleanTranslation, deletePhrase, listPhrases, savePhrase } from '@/lib/translation';
+
+describe('cleanTranslation', () => {
+  it('strips labels and trailing notes', () => {
+    assert.equal(cleanTranslation('Spanish translation: Hola mundo', 'es'), 'Hola mundo');
+    assert.equal(cleanTranslation('In French: Bonjour', 'fr'), 'Bonjour');
+    assert.equal(cleanTranslation('Hallo Welt\n\nNote: informal', 'de'), 'Hallo Welt');
+    assert.equal(cleanTranslation('Ciao (literally: hi)', 'it'), 'Ciao');
+  });
+
+  it('removes one pair of quotes around the whole reply', () => {
+    assert.equal(cleanTranslation('"Hola mundo"', 'es'), 'Hola mundo');
+    assert.equal(cleanTranslation('“Hola mundo”', 'es'), 'Hola mundo');
+    assert.equal(cleanTranslation('„Hallo Welt“', 'de'), 'Hallo Welt');
+    assert.equal(cleanTranslation('«Bonjour»', 'fr'), 'Bonjour');
+  });
+
+  it('keeps quotes that are part of the translation', () => {
+    assert.equal(cleanTranslation('"Sí" o "no"', 'es'), '"Sí" o "no"');
+    assert.equal(cleanTranslation('"Hola»', 'es'), '"Hola»');
+    assert.equal(cleanTranslation("'Tis l'heure", 'fr'), "'Tis l'heure");
+    assert.equal(cleanTranslation("'Ciao'", 'it'), "'Ciao'");
+  });
+});
+
+describe('phrasebook', () => {
+  it('keeps pairs saved at the same time and moves a saved-again pair to the top', async () => {
+    const pair = (sourceText: string) => ({ sourceLang: 'en', targetLang: 'es', sourceText, translatedText: `${sourceText}!` });
+    await Promise.all([savePhrase(pair('one')), savePhrase(pair('two'))]);
+    const phrases = await savePhrase(pair('one'));
+    assert.deepEqual(
+      phrases.map(p => p.sourceText),
+      ['one', 'two']
+    );
+    assert.deepEqual((await deletePhrase(phrases[0]!.id)).map(p => p.sourceText), ['two']);
+    assert.equal((await listPhrases()).length, 1);
+  });
+});
@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  createSilenceDetector,
+  createVoiceAssistant,
+  initialVoiceState,
+  voiceTransition,
+  type VoiceAssistantDeps,
+  type VoicePhase,
+} from '@/lib/voice-assistant';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/** Deferred promise the test resolves by hand */
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => (resolve = r));
+  return { promise, resolve };
+};
+
+const fakeDeps = (overrides: Partial<VoiceAssistantDeps> = {}) => {
+  const calls: string[] = [];
+  let onLevel: (level: number) => void = () => {};
+  const deps: VoiceAssistantDeps = {
+    startListening: async listener => {
+      calls.push('start');
+      onLevel = listener;
+    },
+    stopListening: async () => {
+      calls.push('stop');
+      return '/tmp/audio.wav';
+    },
+    cancelListening: async () => {
+      calls.push('cancel');
+    },
+    transcribe: async path => {
+      calls.push(`transcribe ${path}`);
+      return 'What time is it?';
+    },
+    generate: async history => {
+      calls.push(`generate ${history.length}`);
+      return ' Noon. ';
+    },
+    speak: async text => {
+      calls.push(`speak ${text}`);
+    },
+    stopSpeaking: async () => {
+      calls.push('stopSpeaking');
+    },
+    ...overrides,
+  };
+  return { deps, calls, level: (value: number) => onLevel(value) };
+};
+
+describe('voiceTransition', () => {
+  it('ignores events that do not apply to the phase', () => {
+    const idle = initialVoiceState();
+    assert.equal(voiceTransition(idle, { type: 'captured', audioPath: 'a' }), idle);
+    assert.equal(voiceTransition(idle, { type: 'failed', error: 'x' }), idle);
+  });
+
+  it('goes back to listening after an empty transcript in hands-free mode', () => {
+    const transcribing = { ...initialVoiceState(true), phase: 'transcribing' as VoicePhase, audioPath: 'a' };
+    assert.equal(voiceTransition(transcribing, { type: 'transcribed', text: '  ' }).phase, 'listening');
+    assert.equal(voiceTransition({ ...transcribing, handsFree: false }, { type: 'transcribed', text: '' }).phase, 'idle');
+  });
+});
+
+describe('createSilenceDetector', () => {
+  it('ends after quiet following speech, or at the time limit', () => {
+    const detector = createSilenceDetector({ threshold: 0.1, silenceMs: 100, maxMs: 1000 });
+    assert.equal(detector.push(0, 0), false);
+    assert.equal(detector.push(0.5, 50), false);
+    assert.equal(detector.push(0, 120), false);
+    assert.equal(detector.push(0, 151), true);
+    assert.equal(createSilenceDetector({ threshold: 0.1, silenceMs: 100, maxMs: 1000 }).push(0, 0), false);
+  });
+});
+
+describe('createVoiceAssistant', () => {
+  it('runs one turn through every phase', async () => {
+    const { deps, calls } = fakeDeps();
+    const phases: VoicePhase[] = [];
+    const assistant = createVoiceAssistant(deps, { handsFree: false, onChange: state => phases.push(state.phase) });
+    assistant.start();
+    await flush();
+    assistant.finishListening();
+    await flush();
+    await flush();
+
+    assert.deepEqual(calls, ['start', 'stop', 'transcribe /tmp/audio.wav', 'generate 1', 'speak Noon.']);
+    assert.deepEqual([...new Set(phases)], ['listening', 'transcribing', 'thinking', 'speaking', 'idle']);
+    assert.deepEqual(
+      assistant.getState().turns.map(t => [t.userText, t.replyText]),
+      [['What time is it?', 'Noon.']]
+    );
+  });
+
+  it('stops and transcribes once when a tap and the silence detector both finish', async () => {
+    const stopped = deferred<string>();
+    const { deps, calls, level } = fakeDeps({
+      stopListening: () => {
+        calls.push('stop');
+        return stopped.promise;
+      },
+    });
+    const assistant = createVoiceAssistant(deps, { silence: { threshold: 0.1, silenceMs: 0, maxMs: 0 } });
+    assistant.start();
+    await flush();
+    level(0.5);
+    assistant.finishListening();
+    assistant.finishListening();
+    stopped.resolve('/tmp/once.wav');
+    await flush();
+    assistant.stop();
+
+    assert.equal(calls.filter(c => c === 'stop').length, 1);
+    assert.equal(calls.filter(c => c.startsWith('transcribe')).length, 1);
+  });
+
+  it('listens again after each answer in hands-free mode', async () => {
+    const { deps, calls } = fakeDeps();
+    const assistant = createVoiceAssistant(deps, { handsFree: true });
+    assistant.start();
+    await flush();
+    assistant.finishListening();
+    await flush();
+    await flush();
+    assert.equal(assistant.getState().phase, 'listening');
+    assert.equal(calls.filter(c => c === 'start').length, 2);
+
+    // The second utterance can be finished as well
+    assistant.finishListening();
+    await flush();
+    assert.equal(calls.filter(c => c === 'stop').length, 2);
+    await assistant.stop();
+  });
+
+  it('drops results of work that finishes after stop', async () => {
+    const answer = deferred<string>();
+    const { deps, calls } = fakeDeps({ generate: () => answer.promise });
+    const assistant = createVoiceAssistant(deps, { handsFree: false });
+    assistant.start();
+    await flush();
+    assistant.finishListening();
+    await flush();
+    assert.equal(assistant.getState().phase, 'thinking');
+
+    await assistant.stop();
+    answer.resolve('Too late');
+    await flush();
+    assert.equal(assistant.getState().phase, 'idle');
+    assert.ok(!calls.some(c => c.startsWith('speak')));
+  });
+
+  it('reports a failed step and returns to idle', async () => {
+    const { deps } = fakeDeps({
+      transcribe: async () => {
+        throw new Error('No STT model');
+      },
+    });
+    const assistant = createVoiceAssistant(deps, { handsFree: true });
+    assistant.start();
+    await flush();
+    assistant.finishListening();
+    await flush();
+    assert.equal(assistant.getState().phase, 'idle');
+    assert.equal(assistant.getState().error, 'No STT model');
+  });
+});
@@ -0,0 +1,62 @@
+// =============================================================================
+// App downloads
+// =============================================================================
+//
+// The app-wide download manager. Files go through expo-file-system's resumable
+// downloads into the data root, the queue is kept in `downloads.json`, and
+// imported models are planned from the custom model catalog.
+// =============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { customDownloadPlan, markCustomModelDownloaded } from '@/lib/custom-models';
+import { createDownloadManager, httpError, type FileTransfer, type SavedDownload } from '@/lib/download-manager';
+import { readJSON, storageUri, writeJSON } from '@/lib/json-storage';
+import { RunAnywhere } from '@/lib/runanywhere';
+
+const DOWNLOADS_FILE = 'downloads.json';
+
+/** Transfers through expo-file-system's resumable downloads, which resume with range requests */
+const expoTransfer: FileTransfer = {
+  start(file, resumeData, onBytes) {
+    const uri = storageUri(file.path);
+    const task = FileSystem.createDownloadResumable(
+      file.url,
+      uri,
+      {},
+      ({ totalBytesWritten }) => onBytes(totalBytesWritten),
+      resumeData ?? undefined
+    );
+
+    const run = async (): Promise<'complete' | 'paused'> => {
+      const folder = uri.slice(0, uri.lastIndexOf('/'));
+      await FileSystem.makeDirectoryAsync(folder, { intermediates: true }).catch(() => {});
+      const result = resumeData ? await task.resumeAsync() : await task.downloadAsync();
+      // Nothing comes back when the task was paused
+      if (!result) return 'paused';
+      if (result.status < 200 || result.status >= 300) throw httpError(file, result.status);
+      return 'complete';
+    };
+
+    return {
+      done: run(),
+      pause: async () => (await task.pauseAsync()).resumeData ?? null,
+      snapshot: () => task.savable().resumeData ?? null,
+      cancel: () => task.cancelAsync(),
+    };
+  },
+  discard: file => FileSystem.deleteAsync(storageUri(file.path), { idempotent: true }),
+  localPath: path => storageUri(path).replace(/^file:\/\//, '').replace(/\/$/, ''),
+};
+
+/** Imported models are fetched directly, catalog models by the SDK */
+export const downloadManager = createDownloadManager({
+  sdk: RunAnywhere,
+  planFor: customDownloadPlan,
+  onFinished: markCustomModelDownloaded,
+  transfer: expoTransfer,
+  storage: {
+    load: () => readJSON<SavedDownload[]>(DOWNLOADS_FILE, []),
+    save: downloads => writeJSON(DOWNLOADS_FILE, downloads),
+  },
+});
@@ -0,0 +1,21 @@
+// =============================================================================
+// App models
+// =============================================================================
+//
+// The app-wide model store: loads go to the RunAnywhere SDK (which also finds
+// imported models), downloads to the app's download queue, and the system
+// voice counts as a built-in model.
+// =============================================================================
+
+import { downloadManager } from '@/lib/app-downloads';
+import { SYSTEM_TTS_ID } from '@/lib/audio-playback';
+import { withCustomModels } from '@/lib/custom-models';
+import { createModelStore } from '@/lib/model-store';
+import { RunAnywhere } from '@/lib/runanywhere';
+
+export const modelStore = createModelStore({
+  sdk: withCustomModels(RunAnywhere),
+  downloads: downloadManager,
+  // Nothing to download or load into the SDK for the system voice
+  isBuiltIn: model => model.id === SYSTEM_TTS_ID,
+});
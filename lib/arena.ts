@@ -0,0 +1,194 @@
+// =============================================================================
+// A/B model arena
+// =============================================================================
+//
+// Sends one prompt to two language models and keeps the user's votes. Only one
+// text model can be loaded at a time, so a match loads, runs and unloads the
+// models one after the other, through the model store. Votes build a local win-rate leaderboard keyed
+// by model id, stored in `arena-votes.json`.
+// =============================================================================
+
+import { ChatTemplates, cleanAssistantReply, createMessage, detectChatTemplate, formatChatPrompt } from '@/lib/chat-templates';
+import { DEFAULT_GENERATION_PARAMS, toGenerateOptions } from '@/lib/generation-params';
+import { readJSON, updateJSON } from '@/lib/json-storage';
+import { createSDKStreamer } from '@/lib/llm-stream';
+import { createGenerationTimer, type GenerationMetric } from '@/lib/metrics';
+import type { ModelStore, StoreModel } from '@/lib/model-store';
+
+export interface ArenaModel {
+  id: string;
+  name: string;
+  localPath?: string;
+}
+
+export interface ArenaAnswer {
+  model: ArenaModel;
+  text: string;
+  metrics?: GenerationMetric;
+  error?: string;
+}
+
+export type ArenaStage = 'loading' | 'generating' | 'unloading' | 'restoring';
+
+export type ArenaProgress = {
+  /** 0 for model A, 1 for model B; null while restoring the previous model */
+  side: 0 | 1 | null;
+  stage: ArenaStage;
+  modelName: string;
+};
+
+export type ArenaVerdict = 'a' | 'b' | 'tie';
+
+export interface ArenaVote {
+  id: string;
+  prompt: string;
+  modelA: string;
+  modelB: string;
+  verdict: ArenaVerdict;
+  createdAt: number;
+}
+
+export interface LeaderboardEntry {
+  modelId: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  games: number;
+  /** Ties count as half a win */
+  winRate: number;
+}
+
+const STORAGE_PATH = 'arena-votes.json';
+
+const asLanguageModel = (model: ArenaModel): StoreModel => ({ ...model, category: 'language' });
+
+// =============================================================================
+// Matches
+// =============================================================================
+
+/**
+ * Run `prompt` on both models in turn. A model that fails to load or generate
+ * gets an `error` instead of text; the other side still runs. When `restore`
+ * is given, that model is loaded again at the end so the chat keeps working.
+ * Loads and unloads go through `store`, so the rest of the app sees which
+ * model is loaded.
+ */
+export const runArenaMatch = async (options: {
+  sdk: any;
+  store: Pick<ModelStore, 'load' | 'unload'>;
+  prompt: string;
+  models: [ArenaModel, ArenaModel];
+  restore?: ArenaModel | null;
+  onProgress?: (progress: ArenaProgress) => void;
+  onAnswer?: (side: 0 | 1, answer: ArenaAnswer) => void;
+}): Promise<[ArenaAnswer, ArenaAnswer]> => {
+  const { sdk, store, prompt, models, restore, onProgress, onAnswer } = options;
+  const streamer = createSDKStreamer(sdk);
+  const answers: ArenaAnswer[] = [];
+
+  const load = async (model: ArenaModel) => {
+    if (!(await store.load(asLanguageModel(model)))) throw new Error('The model is busy');
+  };
+
+  for (const side of [0, 1] as const) {
+    const model = models[side];
+    const answer: ArenaAnswer = { model, text: '' };
+    try {
+      onProgress?.({ side, stage: 'loading', modelName: model.name });
+      await load(model);
+
+      onProgress?.({ side, stage: 'generating', modelName: model.name });
+      // Same defaults for both sides so the comparison is about the model, not its settings
+      const templateId = detectChatTemplate(model);
+      const timer = createGenerationTimer(model);
+      const handle = streamer.stream(
+        formatChatPrompt([createMessage('user', prompt)], templateId),
+        toGenerateOptions(DEFAULT_GENERATION_PARAMS, ChatTemplates[templateId].stopSequences),
+        () => timer.token()
+      );
+      const result = await handle.result;
+      answer.text = cleanAssistantReply(result.text, templateId);
+      answer.metrics = timer.finish(result.tokenCount, result);
+    } catch (e: any) {
+      answer.error = e.message;
+    }
+
+    try {
+      onProgress?.({ side, stage: 'unloading', modelName: model.name });
+      await store.unload(asLanguageModel(model));
+    } catch (e: any) {
+      console.log(`[Arena] Unload of ${model.name} failed:`, e.message);
+    }
+
+    answers.push(answer);
+    onAnswer?.(side, answer);
+  }
+
+  if (restore) {
+    onProgress?.({ side: null, stage: 'restoring', modelName: restore.name });
+    await load(restore);
+  }
+
+  return [answers[0]!, answers[1]!];
+};
+
+// =============================================================================
+// Votes and leaderboard
+// =============================================================================
+
+export const listVotes = (): Promise<ArenaVote[]> => readJSON<ArenaVote[]>(STORAGE_PATH, []);
+
+export const recordVote = async (
+  prompt: string,
+  modelA: string,
+  modelB: string,
+  verdict: ArenaVerdict
+): Promise<ArenaVote[]> => {
+  const vote: ArenaVote = {
+    id: `vote-${Date.now().toString(36)}`,
+    prompt,
+    modelA,
+    modelB,
+    verdict,
+    createdAt: Date.now(),
+  };
+  return updateJSON<ArenaVote[]>(STORAGE_PATH, [], votes => [vote, ...votes]);
+};
+
+export const clearVotes = async (): Promise<void> => {
+  await updateJSON<ArenaVote[]>(STORAGE_PATH, [], () => []);
+};
+
+/** Win rate per model id, best first; more games break ties */
+export const buildLeaderboard = (votes: ArenaVote[]): LeaderboardEntry[] => {
+  const entries = new Map<string, LeaderboardEntry>();
+  const entry = (modelId: string) => {
+    let existing = entries.get(modelId);
+    if (!existing) {
+      existing = { modelId, wins: 0, losses: 0, ties: 0, games: 0, winRate: 0 };
+      entries.set(modelId, existing);
+    }
+    return existing;
+  };
+
+  for (const vote of votes) {
+    // A model compared with itself tells us nothing
+    if (vote.modelA === vote.modelB) continue;
+    const a = entry(vote.modelA);
+    const b = entry(vote.modelB);
+    a.games++;
+    b.games++;
+    if (vote.verdict === 'tie') {
+      a.ties++;
+      b.ties++;
+    } else {
+      const [winner, loser] = vote.verdict === 'a' ? [a, b] : [b, a];
+      winner.wins++;
+      loser.losses++;
+    }
+  }
+
+  return [...entries.values()]
+    .map(e => ({ ...e, winRate: e.games ? (e.wins + e.ties / 2) / e.games : 0 }))
+    .sort((x, y) => y.winRate - x.winRate || y.games - x.games);
+};
@@ -0,0 +1,247 @@
+// =============================================================================
+// Microphone capture for speech recognition
+// =============================================================================
+//
+// Records 16 kHz mono audio and hands back a WAV file the SDK can transcribe.
+// Android records raw PCM with react-native-live-audio-stream and wraps it in
+// a WAV header (same as the sample app); iOS records WAV directly with expo-av.
+// Both native modules need a development build, so they are loaded lazily.
+// =============================================================================
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+
+let Audio: any = null;
+let LiveAudioStream: any = null;
+
+try {
+  Audio = require('expo-av').Audio;
+} catch (e) {
+  console.log('[Capture] expo-av not available');
+}
+
+try {
+  LiveAudioStream = require('react-native-live-audio-stream').default;
+} catch (e) {
+  console.log('[Capture] LiveAudioStream not available');
+}
+
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SAMPLE = 2;
+
+/** True when the native module this platform records with is present */
+export const captureAvailable = Platform.OS === 'android' ? !!LiveAudioStream : Platform.OS === 'ios' && !!Audio;
+
+/** Module that has to be built into the app for recording on this platform */
+export const captureModuleName = Platform.OS === 'android' ? 'react-native-live-audio-stream' : 'expo-av';
+
+export interface CapturedAudio {
+  /** file:// URI, for playback and copying */
+  uri: string;
+  /** Same file without the file:// prefix, which is what the SDK expects */
+  path: string;
+  audioSeconds: number;
+}
+
+export interface CaptureOptions {
+  /** Input level between 0 and 1, reported a few times a second */
+  onLevel?: (level: number) => void;
+}
+
+// Android: base64 PCM chunks of the current recording; iOS: the expo-av recording
+let chunks: string[] = [];
+let recording: any = null;
+let isCapturing = false;
+
+const toPath = (uri: string) => (uri.startsWith('file://') ? uri.substring(7) : uri);
+
+const decodeBase64 = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+/** RMS level of a chunk of 16-bit little-endian PCM */
+const pcmLevel = (bytes: Uint8Array): number => {
+  const samples = Math.floor(bytes.length / BYTES_PER_SAMPLE);
+  if (samples === 0) return 0;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, samples * BYTES_PER_SAMPLE);
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = view.getInt16(i * BYTES_PER_SAMPLE, true) / 0x8000;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+};
+
+// Helper: Create WAV header for STT PCM data
+const createWavHeader = (dataLength: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  const byteRate = SAMPLE_RATE * numChannels * (bitsPerSample / 8);
+  const blockAlign = numChannels * (bitsPerSample / 8);
+
+  // RIFF header
+  view.setUint8(0, 0x52); view.setUint8(1, 0x49); view.setUint8(2, 0x46); view.setUint8(3, 0x46);
+  view.setUint32(4, 36 + dataLength, true);
+  view.setUint8(8, 0x57); view.setUint8(9, 0x41); view.setUint8(10, 0x56); view.setUint8(11, 0x45);
+
+  // fmt chunk
+  view.setUint8(12, 0x66); view.setUint8(13, 0x6d); view.setUint8(14, 0x74); view.setUint8(15, 0x20);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  // data chunk
+  view.setUint8(36, 0x64); view.setUint8(37, 0x61); view.setUint8(38, 0x74); view.setUint8(39, 0x61);
+  view.setUint32(40, dataLength, true);
+
+  return buffer;
+};
+
+/** Start recording; throws if the microphone can't be used */
+export const startCapture = async (options: CaptureOptions = {}): Promise<void> => {
+  if (!captureAvailable) throw new Error(`Audio recording requires ${captureModuleName}`);
+  if (isCapturing) await cancelCapture();
+
+  // Android: Use LiveAudioStream for raw PCM (like sample app)
+  if (Platform.OS === 'android') {
+    LiveAudioStream.init({
+      sampleRate: SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      audioSource: 6, // VOICE_RECOGNITION
+      bufferSize: 4096,
+    });
+    chunks = [];
+    LiveAudioStream.on('data', (data: string) => {
+      if (!isCapturing) return;
+      chunks.push(data);
+      options.onLevel?.(pcmLevel(decodeBase64(data)));
+    });
+    LiveAudioStream.start();
+    isCapturing = true;
+    console.log('[Capture] Android: Started raw PCM recording');
+    return;
+  }
+
+  // iOS: Use expo-av
+  const { status } = await Audio.requestPermissionsAsync();
+  if (status !== 'granted') throw new Error('Microphone permission denied');
+
+  await Audio.setAudioModeAsync({
+    allowsRecordingIOS: true,
+    playsInSilentModeIOS: true,
+  });
+
+  // iOS WAV format for Whisper STT compatibility
+  const wavRecordingOptions = {
+    isMeteringEnabled: true,
+    android: {
+      extension: '.m4a',
+      outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+      audioEncoder: Audio.AndroidAudioEncoder.AAC,
+      sampleRate: SAMPLE_RATE,
+      numberOfChannels: 1,
+      bitRate: 128000,
+    },
+    ios: {
+      extension: '.wav',
+      audioQuality: Audio.IOSAudioQuality.HIGH,
+      sampleRate: SAMPLE_RATE,
+      numberOfChannels: 1,
+      bitRate: 256000,
+      linearPCMBitDepth: 16,
+      linearPCMIsBigEndian: false,
+      linearPCMIsFloat: false,
+    },
+    web: {},
+  };
+
+  // Metering is in dBFS; convert it to the same 0–1 amplitude Android reports
+  const onStatus = (status: any) => {
+    if (typeof status?.metering === 'number') options.onLevel?.(Math.pow(10, status.metering / 20));
+  };
+  const created = await Audio.Recording.createAsync(wavRecordingOptions, options.onLevel ? onStatus : undefined, 100);
+  recording = created.recording;
+  isCapturing = true;
+  console.log('[Capture] iOS: Started expo-av recording');
+};
+
+/** Stop recording and write the audio to a WAV file; throws if nothing was recorded */
+export const stopCapture = async (): Promise<CapturedAudio> => {
+  if (!isCapturing) throw new Error('No recording in progress');
+  isCapturing = false;
+
+  // Android: Process raw PCM chunks into WAV
+  if (Platform.OS === 'android') {
+    LiveAudioStream.stop();
+    const recorded = chunks;
+    chunks = [];
+    console.log('[Capture] Android: Processing', recorded.length, 'audio chunks');
+    if (recorded.length === 0) throw new Error('No audio recorded');
+
+    // Combine all chunks into PCM data
+    const decodedChunks = recorded.map(decodeBase64);
+    const totalLength = decodedChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const pcmData = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const chunk of decodedChunks) {
+      pcmData.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    // Create WAV header + data
+    const headerBytes = new Uint8Array(createWavHeader(totalLength));
+    const wavData = new Uint8Array(headerBytes.length + pcmData.length);
+    wavData.set(headerBytes, 0);
+    wavData.set(pcmData, headerBytes.length);
+
+    // Convert to base64 and write to file
+    let wavBase64 = '';
+    const chunkSize = 8192;
+    for (let i = 0; i < wavData.length; i += chunkSize) {
+      const chunk = wavData.subarray(i, Math.min(i + chunkSize, wavData.length));
+      for (let j = 0; j < chunk.length; j++) {
+        wavBase64 += String.fromCharCode(chunk[j]!);
+      }
+    }
+    wavBase64 = btoa(wavBase64);
+
+    const uri = `${FileSystem.cacheDirectory || ''}stt_recording_${Date.now()}.wav`;
+    await FileSystem.writeAsStringAsync(uri, wavBase64, { encoding: 'base64' });
+    console.log('[Capture] Android: WAV file written:', uri, 'size:', wavData.length);
+    return { uri, path: toPath(uri), audioSeconds: totalLength / (SAMPLE_RATE * BYTES_PER_SAMPLE) };
+  }
+
+  // iOS: Use expo-av recording
+  const current = recording;
+  recording = null;
+  const status = await current.getStatusAsync();
+  const audioSeconds = (status?.durationMillis ?? 0) / 1000;
+  await current.stopAndUnloadAsync();
+  const uri = current.getURI();
+  if (!uri) throw new Error('No audio recorded');
+  console.log('[Capture] iOS: Recording saved:', uri);
+  return { uri, path: toPath(uri), audioSeconds };
+};
+
+/** Stop recording and throw the audio away */
+export const cancelCapture = async (): Promise<void> => {
+  if (!isCapturing) return;
+  isCapturing = false;
+  chunks = [];
+  try {
+    if (Platform.OS === 'android') {
+      LiveAudioStream.stop();
+    } else if (recording) {
+      await recording.stopAndUnloadAsync();
+    }
+  } catch (e: any) {
+    console.log('[Capture] Cancel failed:', e.message);
+  } finally {
+    recording = null;
+  }
+};
@@ -0,0 +1,242 @@
+// =============================================================================
+// Speech playback
+// =============================================================================
+//
+// Plays what the TTS models synthesize and speaks through the system voice.
+// The play/speak helpers resolve once the audio has finished (or was stopped),
+// so callers such as the voice assistant can wait for the end of an answer.
+// expo-av and expo-speech need a development build and are loaded lazily.
+// =============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { readJSON, writeJSON } from '@/lib/json-storage';
+
+let Audio: any = null;
+let Speech: any = null;
+
+try {
+  Audio = require('expo-av').Audio;
+  Speech = require('expo-speech');
+} catch (e) {
+  console.log('[Playback] expo-av modules not available');
+}
+
+export const playbackAvailable = !!Audio;
+export const systemSpeechAvailable = !!Speech;
+
+/** Model id of the platform voice, which needs no model file */
+export const SYSTEM_TTS_ID = 'system-tts';
+
+// =============================================================================
+// Voice settings
+// =============================================================================
+
+export interface VoiceSettings {
+  /** 1 is the voice's normal speed */
+  rate: number;
+  pitch: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { rate: 1.0, pitch: 1.0 };
+
+/** Choices offered in the TTS tab */
+export const VOICE_RATES = [0.5, 0.75, 1.0, 1.25, 1.5];
+export const VOICE_PITCHES = [0.75, 1.0, 1.25];
+
+const VOICE_SETTINGS_PATH = 'voice-settings.json';
+
+let voiceSettings = DEFAULT_VOICE_SETTINGS;
+
+/** Rate and pitch used by every synthesize and speak call below */
+export const getVoiceSettings = (): VoiceSettings => voiceSettings;
+
+export const loadVoiceSettings = async (): Promise<VoiceSettings> => {
+  voiceSettings = { ...DEFAULT_VOICE_SETTINGS, ...(await readJSON<Partial<VoiceSettings>>(VOICE_SETTINGS_PATH, {})) };
+  return voiceSettings;
+};
+
+export const saveVoiceSettings = async (settings: VoiceSettings): Promise<void> => {
+  voiceSettings = settings;
+  await writeJSON(VOICE_SETTINGS_PATH, settings);
+};
+
+/** `RunAnywhere.synthesize` options for the saved voice settings */
+export const synthesisOptions = () => ({ rate: voiceSettings.rate, pitch: voiceSettings.pitch });
+
+// =============================================================================
+// Playback
+// =============================================================================
+
+// Keeps file names unique when two sentences are synthesized in the same millisecond
+let wavFileCount = 0;
+
+/**
+ * Convert base64 PCM float32 audio to WAV file
+ * The audio data from TTS is base64-encoded float32 PCM samples
+ * (Same approach as the sample React Native app)
+ */
+export const createWavFile = async (audioBase64: string, audioSampleRate: number): Promise<string | null> => {
+  try {
+    // Decode base64 to get raw bytes
+    const binaryString = atob(audioBase64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+
+    // Convert float32 samples to int16
+    const floatView = new Float32Array(bytes.buffer);
+    const numSamples = floatView.length;
+    const int16Samples = new Int16Array(numSamples);
+
+    for (let i = 0; i < numSamples; i++) {
+      // Clamp and convert to int16 range
+      const sample = Math.max(-1, Math.min(1, floatView[i]!));
+      int16Samples[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+
+    // Create WAV header
+    const wavDataSize = int16Samples.length * 2;
+    const wavBuffer = new ArrayBuffer(44 + wavDataSize);
+    const wavView = new DataView(wavBuffer);
+
+    // RIFF header
+    wavView.setUint8(0, 0x52); // R
+    wavView.setUint8(1, 0x49); // I
+    wavView.setUint8(2, 0x46); // F
+    wavView.setUint8(3, 0x46); // F
+    wavView.setUint32(4, 36 + wavDataSize, true); // File size - 8
+    wavView.setUint8(8, 0x57); // W
+    wavView.setUint8(9, 0x41); // A
+    wavView.setUint8(10, 0x56); // V
+    wavView.setUint8(11, 0x45); // E
+
+    // fmt chunk
+    wavView.setUint8(12, 0x66); // f
+    wavView.setUint8(13, 0x6d); // m
+    wavView.setUint8(14, 0x74); // t
+    wavView.setUint8(15, 0x20); // (space)
+    wavView.setUint32(16, 16, true); // fmt chunk size
+    wavView.setUint16(20, 1, true); // Audio format (PCM = 1)
+    wavView.setUint16(22, 1, true); // Number of channels (mono = 1)
+    wavView.setUint32(24, audioSampleRate, true); // Sample rate
+    wavView.setUint32(28, audioSampleRate * 2, true); // Byte rate
+    wavView.setUint16(32, 2, true); // Block align
+    wavView.setUint16(34, 16, true); // Bits per sample
+
+    // data chunk
+    wavView.setUint8(36, 0x64); // d
+    wavView.setUint8(37, 0x61); // a
+    wavView.setUint8(38, 0x74); // t
+    wavView.setUint8(39, 0x61); // a
+    wavView.setUint32(40, wavDataSize, true); // Data size
+
+    // Copy audio data
+    const wavBytes = new Uint8Array(wavBuffer);
+    const int16Bytes = new Uint8Array(int16Samples.buffer);
+    for (let i = 0; i < int16Bytes.length; i++) {
+      wavBytes[44 + i] = int16Bytes[i]!;
+    }
+
+    // Convert to base64 and write to file
+    let wavBase64 = '';
+    const chunkSize = 8192;
+    for (let i = 0; i < wavBytes.length; i += chunkSize) {
+      const chunk = wavBytes.subarray(i, Math.min(i + chunkSize, wavBytes.length));
+      for (let j = 0; j < chunk.length; j++) {
+        wavBase64 += String.fromCharCode(chunk[j]!);
+      }
+    }
+    wavBase64 = btoa(wavBase64);
+
+    const filePath = `${FileSystem.cacheDirectory}tts_${Date.now()}_${wavFileCount++}.wav`;
+    await FileSystem.writeAsStringAsync(filePath, wavBase64, {
+      encoding: 'base64',
+    });
+
+    console.log('[TTS] WAV file created:', filePath, 'samples:', numSamples);
+    return filePath;
+  } catch (e) {
+    console.log('[TTS] WAV creation error:', e);
+    return null;
+  }
+};
+
+let currentSound: any = null;
+let finishCurrent: (() => void) | null = null;
+
+/** Play an audio file; resolves when playback ends or `stopPlayback` is called */
+export const playAudioFile = async (uri: string): Promise<void> => {
+  if (!Audio) throw new Error('Audio playback requires expo-av');
+  await stopPlayback();
+
+  const { sound } = await Audio.Sound.createAsync({ uri });
+  currentSound = sound;
+  await new Promise<void>((resolve, reject) => {
+    finishCurrent = resolve;
+    sound.setOnPlaybackStatusUpdate((status: any) => {
+      if (status.didJustFinish) resolve();
+      else if (status.error) reject(new Error(status.error));
+    });
+    sound.playAsync().catch(reject);
+  }).finally(() => {
+    if (currentSound === sound) {
+      currentSound = null;
+      finishCurrent = null;
+    }
+    sound.unloadAsync().catch(() => {});
+  });
+};
+
+/** Remove a WAV file made by `createWavFile` once it is no longer needed */
+export const deleteWavFile = (path: string): Promise<void> =>
+  FileSystem.deleteAsync(path, { idempotent: true }).catch(e => console.log('[TTS] Could not delete', path, e));
+
+/** Synthesize result from `RunAnywhere.synthesize` (base64 float32 PCM) played to the end */
+export const playSynthesizedAudio = async (result: any): Promise<void> => {
+  if (!result?.audio) throw new Error('No audio data returned');
+  const wavPath = await createWavFile(result.audio, result.sampleRate || 22050);
+  if (!wavPath) throw new Error('Could not create audio file');
+  try {
+    await playAudioFile(wavPath);
+  } finally {
+    deleteWavFile(wavPath);
+  }
+};
+
+/** Speak with the platform voice; resolves when it is done or stopped, rejects if the voice fails */
+export const speakWithSystemVoice = (text: string, language?: string): Promise<void> => {
+  if (!Speech) return Promise.reject(new Error('System TTS requires expo-speech'));
+  return new Promise((resolve, reject) => {
+    Speech.speak(text, {
+      ...(language ? { language } : {}),
+      ...synthesisOptions(),
+      onDone: resolve,
+      onStopped: resolve,
+      onError: reject,
+    });
+  });
+};
+
+/**
+ * Speak with a TTS model: the system voice for `SYSTEM_TTS_ID` (in `language`
+ * if given), otherwise the model loaded in the SDK. Resolves when it is done.
+ */
+export const speakText = async (sdk: any, text: string, options: { modelId: string; language?: string }) => {
+  if (options.modelId === SYSTEM_TTS_ID) return speakWithSystemVoice(text, options.language);
+  await playSynthesizedAudio(await sdk.synthesize(text, synthesisOptions()));
+};
+
+/** Stop whatever is playing or being spoken */
+export const stopPlayback = async (): Promise<void> => {
+  Speech?.stop();
+  const sound = currentSound;
+  const finish = finishCurrent;
+  currentSound = null;
+  finishCurrent = null;
+  if (sound) {
+    await sound.stopAsync().catch(() => {});
+    finish?.();
+  }
+};
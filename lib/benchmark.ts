@@ -0,0 +1,299 @@
+// =============================================================================
+// Model benchmark
+// =============================================================================
+//
+// Runs every downloaded model of one category through the same fixed inputs:
+// load → run each prompt / clip / sentence → unload, and reduces the timings
+// to one comparison row per model. Speech-recognition clips are recordings the
+// user saved from the STT tab, kept in `benchmark-audio/`.
+// =============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { ChatTemplates, createMessage, detectChatTemplate, formatChatPrompt } from '@/lib/chat-templates';
+import { deleteFile, ensureDirectory, readJSON, storageUri, updateJSON } from '@/lib/json-storage';
+import { createSDKStreamer } from '@/lib/llm-stream';
+import { createGenerationTimer, startTimer } from '@/lib/metrics';
+import type { ModelStore } from '@/lib/model-store';
+
+export type BenchmarkCategory = 'language' | 'speech-recognition' | 'speech-synthesis';
+
+export const BenchmarkCategories: Record<BenchmarkCategory, string> = {
+  language: '💬 LLM',
+  'speech-recognition': '🎤 STT',
+  'speech-synthesis': '🔊 TTS',
+};
+
+/** Fixed LLM prompts: short answer, longer explanation, structured output */
+export const BENCHMARK_PROMPTS = [
+  'What is the capital of France? Answer in one word.',
+  'Explain in three sentences why the sky is blue.',
+  'Write a Python function that returns the n-th Fibonacci number.',
+  'List five fruits as a JSON array of strings.',
+];
+
+export const BENCHMARK_SENTENCES = [
+  'Hello! This is a short test sentence.',
+  'The quick brown fox jumps over the lazy dog while the sun sets behind the hills.',
+  'On-device speech synthesis keeps your data private and works without a network connection, even on a plane.',
+];
+
+/** Keeps generation time comparable across models with different defaults */
+const BENCHMARK_MAX_TOKENS = 128;
+
+export interface BenchmarkModel {
+  id: string;
+  name: string;
+  category: string;
+  isDownloaded?: boolean;
+  localPath?: string;
+}
+
+export interface BenchmarkRow {
+  modelId: string;
+  modelName: string;
+  category: BenchmarkCategory;
+  loadMs: number | null;
+  /** Inputs that completed */
+  runs: number;
+  failures: number;
+  avgLatencyMs: number | null;
+  /** LLM only */
+  avgTimeToFirstTokenMs?: number | null;
+  tokensPerSecond?: number | null;
+  /** STT/TTS only: processing time / audio duration */
+  realTimeFactor?: number | null;
+  /** Set when the model could not be loaded */
+  error?: string;
+}
+
+export interface BenchmarkReport {
+  category: BenchmarkCategory;
+  startedAt: number;
+  finishedAt: number;
+  rows: BenchmarkRow[];
+}
+
+export type BenchmarkProgress = {
+  modelIndex: number;
+  modelCount: number;
+  modelName: string;
+  step: string;
+};
+
+// =============================================================================
+// Audio clips for STT
+// =============================================================================
+
+const CLIP_DIRECTORY = 'benchmark-audio/';
+const CLIP_INDEX = `${CLIP_DIRECTORY}clips.json`;
+
+export interface BenchmarkClip {
+  id: string;
+  /** File name inside the clip directory */
+  file: string;
+  audioSeconds: number;
+  /** What the recording says, for reference */
+  transcript: string;
+  createdAt: number;
+}
+
+export const listBenchmarkClips = (): Promise<BenchmarkClip[]> => readJSON<BenchmarkClip[]>(CLIP_INDEX, []);
+
+/** Copy a WAV recording into the benchmark clip set */
+export const saveBenchmarkClip = async (
+  sourceUri: string,
+  audioSeconds: number,
+  transcript: string
+): Promise<BenchmarkClip> => {
+  await ensureDirectory(CLIP_DIRECTORY);
+  const id = `clip-${Date.now().toString(36)}`;
+  const file = `${id}.wav`;
+  const from = sourceUri.includes('://') ? sourceUri : `file://${sourceUri}`;
+  await FileSystem.copyAsync({ from, to: storageUri(`${CLIP_DIRECTORY}${file}`) });
+  const clip: BenchmarkClip = { id, file, audioSeconds, transcript, createdAt: Date.now() };
+  await updateJSON<BenchmarkClip[]>(CLIP_INDEX, [], clips => [...clips, clip]);
+  return clip;
+};
+
+export const deleteBenchmarkClip = async (clip: BenchmarkClip): Promise<void> => {
+  await deleteFile(`${CLIP_DIRECTORY}${clip.file}`);
+  await updateJSON<BenchmarkClip[]>(CLIP_INDEX, [], clips => clips.filter(c => c.id !== clip.id));
+};
+
+/** SDK paths are plain file paths without the file:// scheme */
+const clipPath = (clip: BenchmarkClip) => storageUri(`${CLIP_DIRECTORY}${clip.file}`).replace(/^file:\/\//, '');
+
+// =============================================================================
+// Running
+// =============================================================================
+
+const average = (values: number[]): number | null =>
+  values.length ? Math.round((values.reduce((sum, n) => sum + n, 0) / values.length) * 100) / 100 : null;
+
+/** Downloaded models of a category that can be benchmarked (system TTS has nothing to load) */
+export const benchmarkableModels = (models: BenchmarkModel[], category: BenchmarkCategory): BenchmarkModel[] =>
+  models.filter(m => m.category === category && m.isDownloaded && m.id !== 'system-tts');
+
+/**
+ * Benchmark `models` one at a time. Loads and unloads go through `store`, so
+ * the rest of the app sees which model is loaded. `shouldStop` is checked
+ * between inputs; rows finished so far are returned when it becomes true.
+ */
+export const runBenchmark = async (options: {
+  sdk: any;
+  store: Pick<ModelStore, 'load' | 'unload'>;
+  category: BenchmarkCategory;
+  models: BenchmarkModel[];
+  clips?: BenchmarkClip[];
+  onProgress?: (progress: BenchmarkProgress) => void;
+  onRow?: (row: BenchmarkRow) => void;
+  shouldStop?: () => boolean;
+}): Promise<BenchmarkReport> => {
+  const { sdk, store, category, models, clips = [], onProgress, onRow, shouldStop = () => false } = options;
+  const startedAt = Date.now();
+  const rows: BenchmarkRow[] = [];
+  const streamer = createSDKStreamer(sdk);
+
+  for (const [modelIndex, model] of models.entries()) {
+    if (shouldStop()) break;
+    const report = (step: string) =>
+      onProgress?.({ modelIndex, modelCount: models.length, modelName: model.name, step });
+
+    const row: BenchmarkRow = {
+      modelId: model.id,
+      modelName: model.name,
+      category,
+      loadMs: null,
+      runs: 0,
+      failures: 0,
+      avgLatencyMs: null,
+    };
+
+    try {
+      report('Loading');
+      // A model that is already loaded is loaded again, so its load time is measured too
+      await store.unload(model);
+      const loadTime = startTimer();
+      if (!(await store.load(model))) throw new Error('The model is busy');
+      row.loadMs = Math.round(loadTime());
+    } catch (e: any) {
+      row.error = `Load failed: ${e.message}`;
+      rows.push(row);
+      onRow?.(row);
+      continue;
+    }
+
+    const latencies: number[] = [];
+    const ttfts: number[] = [];
+    const speeds: number[] = [];
+    const rtfs: number[] = [];
+
+    const inputs: (string | BenchmarkClip)[] =
+      category === 'language' ? BENCHMARK_PROMPTS : category === 'speech-synthesis' ? BENCHMARK_SENTENCES : clips;
+
+    for (const [i, input] of inputs.entries()) {
+      if (shouldStop()) break;
+      report(`Input ${i + 1}/${inputs.length}`);
+      try {
+        if (category === 'language') {
+          const templateId = detectChatTemplate(model);
+          const chatPrompt = formatChatPrompt([createMessage('user', input as string)], templateId);
+          const timer = createGenerationTimer(model);
+          const handle = streamer.stream(
+            chatPrompt,
+            { maxTokens: BENCHMARK_MAX_TOKENS, temperature: 0, stopSequences: ChatTemplates[templateId].stopSequences },
+            () => timer.token()
+          );
+          const result = await handle.result;
+          const metric = timer.finish(result.tokenCount, result);
+          latencies.push(metric.durationMs);
+          if (metric.timeToFirstTokenMs !== null) ttfts.push(metric.timeToFirstTokenMs);
+          speeds.push(metric.tokensPerSecond);
+        } else if (category === 'speech-synthesis') {
+          const elapsed = startTimer();
+          const result = await sdk.synthesize(input as string, { rate: 1.0, pitch: 1.0 });
+          const ms = elapsed();
+          const sampleRate = result?.sampleRate || 22050;
+          const audioSeconds = result?.duration || (result?.numSamples ?? 0) / sampleRate;
+          latencies.push(ms);
+          if (audioSeconds > 0) rtfs.push(ms / 1000 / audioSeconds);
+        } else {
+          const clip = input as BenchmarkClip;
+          const elapsed = startTimer();
+          await sdk.transcribeFile(clipPath(clip));
+          const ms = elapsed();
+          latencies.push(ms);
+          if (clip.audioSeconds > 0) rtfs.push(ms / 1000 / clip.audioSeconds);
+        }
+        row.runs++;
+      } catch (e: any) {
+        console.log(`[Benchmark] ${model.name} input ${i + 1} failed:`, e.message);
+        row.failures++;
+      }
+    }
+
+    row.avgLatencyMs = average(latencies);
+    if (category === 'language') {
+      row.avgTimeToFirstTokenMs = average(ttfts);
+      row.tokensPerSecond = average(speeds);
+    } else {
+      row.realTimeFactor = average(rtfs);
+    }
+
+    try {
+      report('Unloading');
+      await store.unload(model);
+    } catch (e: any) {
+      console.log(`[Benchmark] Unload of ${model.name} failed:`, e.message);
+    }
+
+    rows.push(row);
+    onRow?.(row);
+  }
+
+  return { category, startedAt, finishedAt: Date.now(), rows };
+};
+
+// =============================================================================
+// Export
+// =============================================================================
+
+const CSV_COLUMNS: { header: string; value: (row: BenchmarkRow) => unknown }[] = [
+  { header: 'model_id', value: r => r.modelId },
+  { header: 'model_name', value: r => r.modelName },
+  { header: 'category', value: r => r.category },
+  { header: 'load_ms', value: r => r.loadMs },
+  { header: 'runs', value: r => r.runs },
+  { header: 'failures', value: r => r.failures },
+  { header: 'avg_latency_ms', value: r => r.avgLatencyMs },
+  { header: 'avg_ttft_ms', value: r => r.avgTimeToFirstTokenMs },
+  { header: 'tokens_per_second', value: r => r.tokensPerSecond },
+  { header: 'real_time_factor', value: r => r.realTimeFactor },
+  { header: 'error', value: r => r.error },
+];
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const reportToCSV = (report: BenchmarkReport): string =>
+  [
+    CSV_COLUMNS.map(c => c.header).join(','),
+    ...report.rows.map(row => CSV_COLUMNS.map(c => csvCell(c.value(row))).join(',')),
+  ].join('\n');
+
+export const reportToJSON = (report: BenchmarkReport): string =>
+  JSON.stringify(
+    {
+      format: 'runanywhere-benchmark',
+      version: 1,
+      ...report,
+      startedAt: new Date(report.startedAt).toISOString(),
+      finishedAt: new Date(report.finishedAt).toISOString(),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,261 @@
+// =============================================================================
+// Built-in LLM tools
+// =============================================================================
+//
+// Calculator, date/time, unit conversion and transcript search. All of them
+// run locally; none needs network access.
+// =============================================================================
+
+import type { ToolDefinition } from '@/lib/tools';
+import { listTranscripts, searchTranscripts } from '@/lib/transcript-store';
+
+// =============================================================================
+// Calculator
+// =============================================================================
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/** Table lookup that ignores inherited keys such as `constructor` or `toString` */
+const lookup = <T>(table: Record<string, T>, key: string): T | undefined =>
+  Object.hasOwn(table, key) ? table[key] : undefined;
+
+/**
+ * Evaluate an arithmetic expression without `eval`. Supports + - * / % ^,
+ * parentheses, unary minus, the functions above and the constants pi and e.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const normalized = expression.toLowerCase().replace(/\s+/g, '').replace(/×/g, '*').replace(/÷/g, '/');
+  const tokens = normalized.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z]+|[-+*/%^()]/g) ?? [];
+  if (tokens.join('') !== normalized) {
+    throw new Error('Expression contains unsupported characters');
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseSum();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return value;
+    }
+    if (token === '-') return -parsePower();
+    if (token === '+') return parsePower();
+    if (/^[\d.]/.test(token)) return Number(token);
+    const constant = lookup(CONSTANTS, token);
+    if (constant !== undefined) return constant;
+    const fn = lookup(FUNCTIONS, token);
+    if (fn) {
+      if (next() !== '(') throw new Error(`Expected ( after ${token}`);
+      const value = parseSum();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return fn(value);
+    }
+    throw new Error(`Unknown name "${token}"`);
+  };
+
+  // ^ is right-associative and binds tighter than unary minus on its left
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const right = parsePower();
+      if (op === '*') value *= right;
+      else if (op === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const right = parseProduct();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+  return result;
+};
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(12)));
+
+export const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  description: 'Evaluate an arithmetic expression exactly. Use it for any math.',
+  parameters: {
+    expression: { type: 'string', description: 'e.g. "(12.5 * 4) / 3" or "sqrt(2) ^ 2"', required: true },
+  },
+  execute: args => formatNumber(evaluateExpression(String(args.expression))),
+};
+
+// =============================================================================
+// Date and time
+// =============================================================================
+
+export const dateTimeTool: ToolDefinition = {
+  name: 'current_datetime',
+  description: 'Get the current date, time, weekday and time zone.',
+  parameters: {
+    timezone: { type: 'string', description: 'IANA time zone such as "Europe/Paris"; defaults to the device zone' },
+  },
+  execute: args => {
+    const now = new Date();
+    const timeZone = args.timezone ? String(args.timezone) : undefined;
+    const local = now.toLocaleString('en-US', {
+      timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
+    return `${local} (ISO ${now.toISOString()})`;
+  },
+};
+
+// =============================================================================
+// Unit conversion
+// =============================================================================
+
+/** Factor to the base unit of each dimension (meter, kilogram, liter, second, m/s) */
+const UNITS: Record<string, { dimension: string; factor: number }> = {
+  mm: { dimension: 'length', factor: 0.001 },
+  cm: { dimension: 'length', factor: 0.01 },
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1000 },
+  in: { dimension: 'length', factor: 0.0254 },
+  ft: { dimension: 'length', factor: 0.3048 },
+  yd: { dimension: 'length', factor: 0.9144 },
+  mi: { dimension: 'length', factor: 1609.344 },
+  mg: { dimension: 'mass', factor: 0.000001 },
+  g: { dimension: 'mass', factor: 0.001 },
+  kg: { dimension: 'mass', factor: 1 },
+  t: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 0.028349523125 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  ml: { dimension: 'volume', factor: 0.001 },
+  l: { dimension: 'volume', factor: 1 },
+  cup: { dimension: 'volume', factor: 0.2365882365 },
+  floz: { dimension: 'volume', factor: 0.0295735295625 },
+  gal: { dimension: 'volume', factor: 3.785411784 },
+  s: { dimension: 'time', factor: 1 },
+  min: { dimension: 'time', factor: 60 },
+  h: { dimension: 'time', factor: 3600 },
+  day: { dimension: 'time', factor: 86400 },
+  'm/s': { dimension: 'speed', factor: 1 },
+  'km/h': { dimension: 'speed', factor: 1000 / 3600 },
+  mph: { dimension: 'speed', factor: 1609.344 / 3600 },
+  kn: { dimension: 'speed', factor: 1852 / 3600 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', kilometer: 'km', kilometers: 'km', centimeter: 'cm', millimeter: 'mm',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg', kgs: 'kg', pound: 'lb', pounds: 'lb', lbs: 'lb',
+  ounce: 'oz', ounces: 'oz', ton: 't', tonne: 't', liter: 'l', liters: 'l', litre: 'l', milliliter: 'ml',
+  gallon: 'gal', gallons: 'gal', cups: 'cup', second: 's', seconds: 's', minute: 'min', minutes: 'min',
+  hour: 'h', hours: 'h', days: 'day', kph: 'km/h', knots: 'kn',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+};
+
+const TEMPERATURES = ['c', 'f', 'k'];
+
+const normalizeUnit = (unit: string) => {
+  const key = unit.trim().toLowerCase();
+  return lookup(UNIT_ALIASES, key) ?? key;
+};
+
+const toKelvin = (value: number, unit: string) =>
+  unit === 'c' ? value + 273.15 : unit === 'f' ? (value - 32) * (5 / 9) + 273.15 : value;
+
+const fromKelvin = (value: number, unit: string) =>
+  unit === 'c' ? value - 273.15 : unit === 'f' ? (value - 273.15) * (9 / 5) + 32 : value;
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+
+  if (TEMPERATURES.includes(source) || TEMPERATURES.includes(target)) {
+    if (!TEMPERATURES.includes(source) || !TEMPERATURES.includes(target)) {
+      throw new Error(`Cannot convert ${from} to ${to}`);
+    }
+    return fromKelvin(toKelvin(value, source), target);
+  }
+
+  const a = lookup(UNITS, source);
+  const b = lookup(UNITS, target);
+  if (!a) throw new Error(`Unknown unit "${from}"`);
+  if (!b) throw new Error(`Unknown unit "${to}"`);
+  if (a.dimension !== b.dimension) throw new Error(`Cannot convert ${a.dimension} to ${b.dimension}`);
+  return (value * a.factor) / b.factor;
+};
+
+export const unitConversionTool: ToolDefinition = {
+  name: 'convert_units',
+  description: 'Convert a value between units of length, mass, volume, time, speed or temperature.',
+  parameters: {
+    value: { type: 'number', description: 'Amount to convert', required: true },
+    from: { type: 'string', description: 'Source unit, e.g. "km", "lb", "°F"', required: true },
+    to: { type: 'string', description: 'Target unit, e.g. "mi", "kg", "°C"', required: true },
+  },
+  execute: args => {
+    const result = convertUnits(Number(args.value), String(args.from), String(args.to));
+    return `${args.value} ${args.from} = ${formatNumber(result)} ${args.to}`;
+  },
+};
+
+// =============================================================================
+// Transcript search
+// =============================================================================
+
+export const transcriptSearchTool: ToolDefinition = {
+  name: 'search_transcripts',
+  description: "Search the user's saved speech-to-text transcripts.",
+  parameters: {
+    query: { type: 'string', description: 'Words to look for', required: true },
+    limit: { type: 'number', description: 'Maximum results (default 3)' },
+  },
+  execute: async args => {
+    const limit = Math.max(1, Math.min(10, Number(args.limit ?? 3)));
+    const matches = searchTranscripts(await listTranscripts(), String(args.query), limit);
+    if (matches.length === 0) return 'No matching transcripts.';
+    return matches
+      .map(({ transcript }) => `[${new Date(transcript.createdAt).toLocaleString()}] ${transcript.text}`)
+      .join('\n');
+  },
+};
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [calculatorTool, dateTimeTool, unitConversionTool, transcriptSearchTool];
@@ -0,0 +1,139 @@
+// =============================================================================
+// Chat messages and chat-template formatting
+// =============================================================================
+//
+// GGUF models are trained on a specific turn format. The SDK's `generate`
+// takes a raw prompt, so the chat history is rendered here with the template
+// that matches the loaded model family before it is sent.
+//
+// BOS tokens (`<|begin_of_text|>`, `<bos>`, `<|startoftext|>`) are left out on
+// purpose: llama.cpp adds the model's BOS token while tokenizing.
+// =============================================================================
+
+import type { GenerationParams } from '@/lib/generation-params';
+import type { GenerationMetric } from '@/lib/metrics';
+import type { ToolStep } from '@/lib/tools';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  createdAt: number;
+  /** Model that produced an assistant reply */
+  modelId?: string;
+  /** Tool calls made while producing an assistant reply */
+  toolSteps?: ToolStep[];
+  /** Timing of the generation that produced an assistant reply */
+  metrics?: GenerationMetric;
+  /** Sampling settings used for an assistant reply */
+  params?: GenerationParams;
+}
+
+export type ChatTemplateId = 'chatml' | 'llama3' | 'gemma' | 'lfm';
+
+interface ChatTemplate {
+  label: string;
+  /** Renders one finished turn */
+  turn: (role: ChatRole, content: string) => string;
+  /** Opens the assistant turn the model should complete */
+  assistantPrefix: string;
+  /** Markers that end an assistant turn; the reply is cut at the first one */
+  stopSequences: string[];
+  /** Gemma has no system role, so the system prompt is folded into the first user turn */
+  supportsSystemRole: boolean;
+}
+
+const chatmlTurn = (role: ChatRole, content: string) =>
+  `<|im_start|>${role}\n${content}<|im_end|>\n`;
+
+export const ChatTemplates: Record<ChatTemplateId, ChatTemplate> = {
+  chatml: {
+    label: 'ChatML',
+    turn: chatmlTurn,
+    assistantPrefix: '<|im_start|>assistant\n',
+    stopSequences: ['<|im_end|>', '<|im_start|>'],
+    supportsSystemRole: true,
+  },
+  llama3: {
+    label: 'Llama 3',
+    turn: (role, content) => `<|start_header_id|>${role}<|end_header_id|>\n\n${content}<|eot_id|>`,
+    assistantPrefix: '<|start_header_id|>assistant<|end_header_id|>\n\n',
+    stopSequences: ['<|eot_id|>', '<|start_header_id|>', '<|end_of_text|>'],
+    supportsSystemRole: true,
+  },
+  gemma: {
+    label: 'Gemma',
+    turn: (role, content) => `<start_of_turn>${role === 'assistant' ? 'model' : role}\n${content}<end_of_turn>\n`,
+    assistantPrefix: '<start_of_turn>model\n',
+    stopSequences: ['<end_of_turn>', '<start_of_turn>'],
+    supportsSystemRole: false,
+  },
+  // LFM2 uses ChatML markers with its own BOS token
+  lfm: {
+    label: 'LFM',
+    turn: chatmlTurn,
+    assistantPrefix: '<|im_start|>assistant\n',
+    stopSequences: ['<|im_end|>', '<|im_start|>', '<|endoftext|>'],
+    supportsSystemRole: true,
+  },
+};
+
+/**
+ * Pick the template for a model from its id/name.
+ * Qwen, SmolLM, Phi and unknown families default to ChatML.
+ */
+export const detectChatTemplate = (model: { id: string; name?: string }): ChatTemplateId => {
+  const key = `${model.id} ${model.name ?? ''}`.toLowerCase();
+  if (/llama[-_ ]?3/.test(key)) return 'llama3';
+  if (key.includes('gemma')) return 'gemma';
+  if (key.includes('lfm')) return 'lfm';
+  return 'chatml';
+};
+
+/**
+ * Render the history as a single prompt ending with an open assistant turn.
+ */
+export const formatChatPrompt = (messages: ChatMessage[], templateId: ChatTemplateId): string => {
+  const template = ChatTemplates[templateId];
+  let pendingSystem = '';
+  let prompt = '';
+
+  for (const message of messages) {
+    if (message.role === 'system' && !template.supportsSystemRole) {
+      pendingSystem += `${message.content}\n\n`;
+      continue;
+    }
+    if (message.role === 'user' && pendingSystem) {
+      prompt += template.turn('user', pendingSystem + message.content);
+      pendingSystem = '';
+      continue;
+    }
+    prompt += template.turn(message.role, message.content);
+  }
+
+  return prompt + template.assistantPrefix;
+};
+
+/**
+ * Cut a raw completion at the first end-of-turn marker and trim whitespace.
+ */
+export const cleanAssistantReply = (text: string, templateId: ChatTemplateId): string => {
+  let end = text.length;
+  for (const stop of ChatTemplates[templateId].stopSequences) {
+    const index = text.indexOf(stop);
+    if (index !== -1 && index < end) end = index;
+  }
+  return text.slice(0, end).trim();
+};
+
+let messageCounter = 0;
+
+export const createMessage = (role: ChatRole, content: string, modelId?: string): ChatMessage => ({
+  id: `${Date.now().toString(36)}-${(messageCounter++).toString(36)}`,
+  role,
+  content,
+  createdAt: Date.now(),
+  ...(modelId ? { modelId } : {}),
+});
@@ -0,0 +1,208 @@
+// =============================================================================
+// Context-window budgeting
+// =============================================================================
+//
+// Small on-device models have short context windows (often 2-4k tokens). The
+// chat history is measured with a token estimate and trimmed with the chosen
+// strategy before every request, leaving room for the reply.
+// =============================================================================
+
+import { createMessage, type ChatMessage } from '@/lib/chat-templates';
+
+/** Used when the SDK does not report a model's context length */
+export const DEFAULT_CONTEXT_LENGTH = 2048;
+
+/** Approximate per-turn cost of chat-template markers (role headers, end tokens) */
+const TURN_OVERHEAD_TOKENS = 5;
+
+export type ContextStrategy = 'drop-oldest' | 'pin-system' | 'summarize';
+
+export const ContextStrategies: Record<ContextStrategy, { label: string; description: string }> = {
+  'drop-oldest': { label: 'Drop oldest', description: 'Remove the oldest messages, including the system prompt' },
+  'pin-system': { label: 'Pin system', description: 'Keep the system prompt, remove the oldest turns' },
+  summarize: { label: 'Summarize', description: 'Replace older turns with a model-written summary' },
+};
+
+/**
+ * Rough token count without a tokenizer. BPE vocabularies average about four
+ * characters per token for English; short words and punctuation cost more, so
+ * the larger of the character and word estimates is used.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.ceil(Math.max(text.length / 4, words * 1.3));
+};
+
+export const estimateMessagesTokens = (messages: Pick<ChatMessage, 'content'>[]): number =>
+  messages.reduce((sum, m) => sum + estimateTokens(m.content) + TURN_OVERHEAD_TOKENS, 0);
+
+export interface ContextBudget {
+  contextLength: number;
+  /** Tokens kept free for the model's reply (usually `maxTokens`) */
+  reserveTokens: number;
+}
+
+export interface BudgetUsage {
+  used: number;
+  /** Tokens available for the prompt (context length minus the reply reserve) */
+  available: number;
+  /** used / available; above 1 means the history will be trimmed */
+  ratio: number;
+}
+
+export const measureUsage = (messages: Pick<ChatMessage, 'content'>[], budget: ContextBudget): BudgetUsage => {
+  const used = estimateMessagesTokens(messages);
+  const available = Math.max(1, budget.contextLength - budget.reserveTokens);
+  return { used, available, ratio: used / available };
+};
+
+// =============================================================================
+// Fitting the history
+// =============================================================================
+
+/** Summary of turns that no longer fit, carried from one request to the next */
+export interface RollingSummary {
+  text: string;
+  /** Ids of the messages already folded into `text` */
+  coveredIds: string[];
+}
+
+/** Writes a summary of `turns`, extending `previous` when there is one */
+export type Summarizer = (turns: ChatMessage[], previous: string | null) => Promise<string>;
+
+export interface FitOptions extends ContextBudget {
+  strategy: ContextStrategy;
+  summarize?: Summarizer;
+  summary?: RollingSummary | null;
+}
+
+export interface FitResult {
+  messages: ChatMessage[];
+  usage: BudgetUsage;
+  droppedCount: number;
+  summary: RollingSummary | null;
+}
+
+/**
+ * Drop the oldest droppable messages until the rest fits. The newest message
+ * (the user's current turn) is always kept.
+ */
+const dropUntilFits = (
+  messages: ChatMessage[],
+  budget: ContextBudget,
+  isPinned: (m: ChatMessage) => boolean
+): { kept: ChatMessage[]; dropped: ChatMessage[] } => {
+  const kept = [...messages];
+  const dropped: ChatMessage[] = [];
+  while (measureUsage(kept, budget).ratio > 1) {
+    const index = kept.findIndex((m, i) => i < kept.length - 1 && !isPinned(m));
+    if (index === -1) break;
+    dropped.push(...kept.splice(index, 1));
+  }
+  return { kept, dropped };
+};
+
+const isSystem = (m: ChatMessage) => m.role === 'system';
+
+/**
+ * Trim `messages` (system prompt first, current user turn last) to the budget.
+ */
+export const fitToContext = async (messages: ChatMessage[], options: FitOptions): Promise<FitResult> => {
+  const budget = { contextLength: options.contextLength, reserveTokens: options.reserveTokens };
+
+  if (options.strategy === 'summarize' && options.summarize) {
+    return summarizeToFit(messages, options, budget);
+  }
+
+  const { kept, dropped } = dropUntilFits(
+    messages,
+    budget,
+    options.strategy === 'pin-system' ? isSystem : () => false
+  );
+  return { messages: kept, usage: measureUsage(kept, budget), droppedCount: dropped.length, summary: null };
+};
+
+const summarizeToFit = async (
+  messages: ChatMessage[],
+  options: FitOptions,
+  budget: ContextBudget
+): Promise<FitResult> => {
+  const system = messages.filter(isSystem);
+  let summary = options.summary ?? null;
+
+  // Turns already folded into the summary stay out of the prompt
+  const covered = new Set(summary?.coveredIds ?? []);
+  let turns = messages.filter(m => !isSystem(m) && !covered.has(m.id));
+
+  const withSummary = (rest: ChatMessage[]) =>
+    summary
+      ? [...system, createMessage('system', `Summary of the earlier conversation: ${summary.text}`), ...rest]
+      : [...system, ...rest];
+
+  // Fold the oldest half of the remaining turns into the summary until it fits
+  while (measureUsage(withSummary(turns), budget).ratio > 1 && turns.length > 2) {
+    const foldCount = Math.max(2, Math.floor((turns.length - 1) / 2));
+    const folded = turns.slice(0, foldCount);
+    const text = await options.summarize!(folded, summary?.text ?? null);
+    summary = { text: text.trim(), coveredIds: [...(summary?.coveredIds ?? []), ...folded.map(m => m.id)] };
+    turns = turns.slice(foldCount);
+  }
+
+  // A long summary or a very long last turn can still overflow
+  const { kept, dropped } = dropUntilFits(withSummary(turns), budget, isSystem);
+  return {
+    messages: kept,
+    usage: measureUsage(kept, budget),
+    droppedCount: (summary?.coveredIds.length ?? 0) + dropped.length,
+    summary,
+  };
+};
+
+/** Reply budget for a summary; about 80 words */
+export const SUMMARY_MAX_TOKENS = 160;
+
+/** Turns are not shortened below this many characters */
+const MIN_SUMMARY_TURN_CHARS = 80;
+
+/**
+ * Chat turns asking the model for a summary, for use inside a `Summarizer`.
+ * With a budget, the longest turns are shortened (then the oldest dropped)
+ * until the request fits the context window.
+ */
+export const buildSummaryRequest = (
+  turns: ChatMessage[],
+  previous: string | null,
+  budget?: ContextBudget
+): ChatMessage[] => {
+  const build = (items: ChatMessage[]) => {
+    const transcript = items.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n');
+    const instructions = previous
+      ? `Here is a summary of a conversation so far:\n${previous}\n\nUpdate it with these later messages:\n${transcript}`
+      : `Summarize this conversation:\n${transcript}`;
+    return [
+      createMessage(
+        'system',
+        'You write short, factual summaries of conversations. Keep names, numbers and decisions. Use at most 80 words.'
+      ),
+      createMessage('user', instructions),
+    ];
+  };
+
+  let items = turns;
+  let request = build(items);
+  while (budget && measureUsage(request, budget).ratio > 1) {
+    const longest = items.reduce((best, m, i) => (m.content.length > items[best]!.content.length ? i : best), 0);
+    const content = items[longest]?.content ?? '';
+    if (content.length > MIN_SUMMARY_TURN_CHARS) {
+      const cut = `${content.slice(0, Math.floor(content.length * 0.75)).trimEnd()}…`;
+      items = items.map((m, i) => (i === longest ? { ...m, content: cut } : m));
+    } else if (items.length > 1) {
+      items = items.slice(1);
+    } else {
+      break;
+    }
+    request = build(items);
+  }
+  return request;
+};
@@ -0,0 +1,240 @@
+// =============================================================================
+// Conversation export and import
+// =============================================================================
+//
+// Turns a saved conversation into Markdown or plain text for pasting into bug
+// reports and docs, or into a versioned JSON document that can be imported
+// again. Markdown and text show the active branch with model ids, generation
+// params and timestamps; the JSON keeps the whole conversation, including
+// every branch, so an import restores it exactly.
+// =============================================================================
+
+import type { ChatMessage } from '@/lib/chat-templates';
+import { isConversationId, restoreConversation, type Conversation } from '@/lib/conversation-store';
+import { activePath, ROOT, type ConversationTree, type TreeNode } from '@/lib/conversation-tree';
+import type { GenerationParams } from '@/lib/generation-params';
+import { formatMetric } from '@/lib/metrics';
+
+export type ExportFormat = 'markdown' | 'json' | 'text';
+
+export const ExportFormats: Record<ExportFormat, { label: string; extension: string }> = {
+  markdown: { label: 'Markdown', extension: 'md' },
+  json: { label: 'JSON', extension: 'json' },
+  text: { label: 'Plain text', extension: 'txt' },
+};
+
+/** Identifies the JSON export; bump the version when `conversation` changes shape */
+export const EXPORT_KIND = 'runanywhere-conversation';
+export const EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+  kind: typeof EXPORT_KIND;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+const timestamp = (ms: number) => new Date(ms).toISOString();
+
+export const formatParams = (params: GenerationParams): string =>
+  [
+    `temperature ${params.temperature}`,
+    `top-p ${params.topP}`,
+    params.topK > 0 ? `top-k ${params.topK}` : null,
+    `repetition penalty ${params.repetitionPenalty}`,
+    `max tokens ${params.maxTokens}`,
+    params.seed !== null ? `seed ${params.seed}` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+/** Model, params and timing of a message, one item per line */
+const messageDetails = (message: ChatMessage): string[] =>
+  [
+    message.modelId ? `Model: ${message.modelId}` : null,
+    message.params ? `Params: ${formatParams(message.params)}` : null,
+    message.metrics ? `Metrics: ${formatMetric(message.metrics)}` : null,
+    message.toolSteps?.length ? `Tools: ${message.toolSteps.map(step => step.name).join(', ')}` : null,
+  ].filter((line): line is string => line !== null);
+
+const hiddenVersions = (conversation: Conversation) =>
+  Object.keys(conversation.tree.nodes).length - conversation.messages.length;
+
+export const toMarkdown = (conversation: Conversation): string => {
+  const hidden = hiddenVersions(conversation);
+  const lines = [
+    `# ${conversation.title || 'Conversation'}`,
+    '',
+    `- Created: ${timestamp(conversation.createdAt)}`,
+    `- Updated: ${timestamp(conversation.updatedAt)}`,
+    `- Messages: ${conversation.messages.length}`,
+    ...(hidden > 0 ? [`- Other versions: ${hidden} (kept in the JSON export)`] : []),
+  ];
+  for (const message of conversation.messages) {
+    lines.push('', '---', '', `### ${ROLE_LABELS[message.role]} · ${timestamp(message.createdAt)}`, '');
+    const details = messageDetails(message);
+    if (details.length > 0) lines.push(...details.map(line => `> ${line}  `), '');
+    lines.push(message.content);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const toPlainText = (conversation: Conversation): string => {
+  const lines = [
+    conversation.title || 'Conversation',
+    `Created ${timestamp(conversation.createdAt)} · updated ${timestamp(conversation.updatedAt)}`,
+  ];
+  for (const message of conversation.messages) {
+    lines.push('', `[${timestamp(message.createdAt)}] ${ROLE_LABELS[message.role]}:`);
+    lines.push(...messageDetails(message).map(line => `  (${line})`));
+    lines.push(message.content);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const toExportJSON = (conversation: Conversation): string => {
+  const document: ConversationExport = {
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    exportedAt: timestamp(Date.now()),
+    conversation,
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+export const exportConversation = (conversation: Conversation, format: ExportFormat): string => {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(conversation);
+    case 'json':
+      return toExportJSON(conversation);
+    case 'text':
+      return toPlainText(conversation);
+  }
+};
+
+/** File name to offer in the share sheet */
+export const exportFileName = (conversation: Conversation, format: ExportFormat): string => {
+  const slug = (conversation.title || 'conversation')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 40);
+  return `${slug || 'conversation'}.${ExportFormats[format].extension}`;
+};
+
+// =============================================================================
+// Import
+// =============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.role === 'string' &&
+  Object.hasOwn(ROLE_LABELS, value.role) &&
+  typeof value.content === 'string' &&
+  typeof value.createdAt === 'number';
+
+const isNode = (value: unknown): value is TreeNode =>
+  isRecord(value) && (value.parentId === null || typeof value.parentId === 'string') && isMessage(value);
+
+const isTree = (value: unknown): value is ConversationTree =>
+  isRecord(value) &&
+  isRecord(value.nodes) &&
+  isRecord(value.selected) &&
+  Object.entries(value.nodes).every(([id, node]) => isNode(node) && node.id === id) &&
+  Object.values(value.selected).every(id => typeof id === 'string');
+
+const isConversation = (value: unknown): value is Conversation =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  typeof value.createdAt === 'number' &&
+  typeof value.updatedAt === 'number' &&
+  Array.isArray(value.messages) &&
+  value.messages.every(isMessage) &&
+  isTree(value.tree);
+
+/**
+ * Why the tree can't be shown as it is, or null when every message leads up
+ * to a first turn and every selection picks a child of its parent.
+ */
+const treeProblem = (tree: ConversationTree): string | null => {
+  const nodeOf = (id: string): TreeNode | undefined => (Object.hasOwn(tree.nodes, id) ? tree.nodes[id] : undefined);
+  const rooted = new Set<string>();
+  for (const start of Object.values(tree.nodes)) {
+    const chain = new Set<string>();
+    let node = start;
+    while (node.parentId !== null && !rooted.has(node.id)) {
+      if (chain.has(node.id)) return 'The conversation has messages that reply to themselves';
+      chain.add(node.id);
+      const parent = nodeOf(node.parentId);
+      if (!parent) return 'The conversation has replies to missing messages';
+      node = parent;
+    }
+    chain.forEach(id => rooted.add(id));
+  }
+  for (const [parentKey, childId] of Object.entries(tree.selected)) {
+    const child = nodeOf(childId);
+    if (!child || (child.parentId ?? ROOT) !== parentKey) {
+      return 'The conversation selects messages under the wrong parent';
+    }
+  }
+  return null;
+};
+
+/** Parse and check a JSON export; throws with a readable message if it can't be imported */
+export const parseConversationExport = (json: string): Conversation => {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (!isRecord(document) || document.kind !== EXPORT_KIND) {
+    throw new Error('Not a conversation export');
+  }
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version) || document.version < 1) {
+    throw new Error('The export has no valid version number');
+  }
+  if (document.version > EXPORT_VERSION) {
+    throw new Error(`Export version ${document.version} is newer than this app supports (${EXPORT_VERSION})`);
+  }
+
+  const conversation = document.conversation;
+  if (!isConversation(conversation)) {
+    throw new Error('The export is missing conversation data');
+  }
+  if (!isConversationId(conversation.id)) {
+    throw new Error('The export has an invalid conversation id');
+  }
+  const problem = treeProblem(conversation.tree);
+  if (problem) throw new Error(problem);
+  const branch = activePath(conversation.tree);
+  if (
+    branch.length !== conversation.messages.length ||
+    branch.some((node, i) => node.id !== conversation.messages[i]!.id || node.content !== conversation.messages[i]!.content)
+  ) {
+    throw new Error('The exported messages do not match the selected branch');
+  }
+  return conversation;
+};
+
+/**
+ * Save an exported conversation as it was, keeping its id and timestamps.
+ * Importing the same export twice overwrites the earlier copy.
+ */
+export const importConversation = async (json: string): Promise<Conversation> => {
+  const conversation = parseConversationExport(json);
+  await restoreConversation(conversation);
+  return conversation;
+};
@@ -0,0 +1,107 @@
+// =============================================================================
+// Conversation library
+// =============================================================================
+//
+// Each conversation is stored as its own JSON file in `conversations/`, so
+// saving one chat never rewrites the others. The full branching history lives
+// in `tree`; `messages` is a copy of the active branch for the library list.
+// =============================================================================
+
+import type { ChatMessage } from '@/lib/chat-templates';
+import { activePath, emptyTree, toMessages, treeFromMessages, type ConversationTree } from '@/lib/conversation-tree';
+import { deleteFile, listDirectory, readJSON, writeJSON } from '@/lib/json-storage';
+
+const DIRECTORY = 'conversations/';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  tree: ConversationTree;
+}
+
+/** Ids made by `createConversation`; they double as file names, so nothing else is accepted */
+const CONVERSATION_ID = /^conv-[a-z0-9]+-[a-z0-9]+$/;
+
+export const isConversationId = (id: string) => CONVERSATION_ID.test(id);
+
+const conversationPath = (id: string) => {
+  if (!isConversationId(id)) throw new Error(`Invalid conversation id "${id}"`);
+  return `${DIRECTORY}${id}.json`;
+};
+
+export const createConversation = (): Conversation => {
+  const now = Date.now();
+  return {
+    id: `conv-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title: '',
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    tree: emptyTree(),
+  };
+};
+
+/** Default title: the start of the first user message */
+export const titleFromMessages = (messages: ChatMessage[]): string => {
+  const first = messages.find(m => m.role === 'user')?.content.trim() ?? '';
+  if (!first) return 'New conversation';
+  return first.length > 40 ? `${first.slice(0, 40).trimEnd()}…` : first;
+};
+
+/** Ids of the models that produced the assistant replies, in order of first use */
+export const modelsUsed = (conversation: Conversation): string[] => [
+  ...new Set(conversation.messages.flatMap(m => (m.role === 'assistant' && m.modelId ? [m.modelId] : []))),
+];
+
+/** Conversations saved before branching have no tree; build a single-branch one */
+const withTree = (conversation: Conversation): Conversation =>
+  conversation.tree ? conversation : { ...conversation, tree: treeFromMessages(conversation.messages) };
+
+/** All saved conversations, most recently updated first */
+export const listConversations = async (): Promise<Conversation[]> => {
+  const files = await listDirectory(DIRECTORY);
+  const conversations = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJSON<Conversation | null>(`${DIRECTORY}${file}`, null))
+  );
+  return conversations
+    .filter((c): c is Conversation => c !== null)
+    .map(withTree)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadConversation = async (id: string): Promise<Conversation | null> => {
+  if (!isConversationId(id)) return null;
+  const conversation = await readJSON<Conversation | null>(conversationPath(id), null);
+  return conversation && withTree(conversation);
+};
+
+/** Persist a conversation, refreshing `messages` from the tree, filling in the title and bumping `updatedAt` */
+export const saveConversation = async (conversation: Conversation): Promise<Conversation> => {
+  const messages = toMessages(activePath(conversation.tree));
+  const saved: Conversation = {
+    ...conversation,
+    messages,
+    title: conversation.title || titleFromMessages(messages),
+    updatedAt: Date.now(),
+  };
+  await writeJSON(conversationPath(saved.id), saved);
+  return saved;
+};
+
+/** Write a conversation exactly as given, e.g. one restored from an export */
+export const restoreConversation = async (conversation: Conversation): Promise<void> => {
+  await writeJSON(conversationPath(conversation.id), conversation);
+};
+
+export const renameConversation = async (id: string, title: string): Promise<void> => {
+  const conversation = await loadConversation(id);
+  if (!conversation) throw new Error('Conversation not found');
+  await writeJSON(conversationPath(id), { ...conversation, title: title.trim() || conversation.title });
+};
+
+export const deleteConversation = (id: string): Promise<void> => deleteFile(conversationPath(id));
@@ -0,0 +1,113 @@
+// =============================================================================
+// Branching conversation tree
+// =============================================================================
+//
+// Every message has a parent (null for the first turn). Regenerating a reply
+// or editing a prompt adds a sibling instead of replacing the old message, so
+// nothing is lost. Each parent remembers which child is selected; following
+// those selections from the root gives the active branch shown in the chat.
+// =============================================================================
+
+import type { ChatMessage } from '@/lib/chat-templates';
+
+export type TreeNode = ChatMessage & { parentId: string | null };
+
+export interface ConversationTree {
+  nodes: Record<string, TreeNode>;
+  /** Selected child id per parent id; the first turn is keyed by `ROOT` */
+  selected: Record<string, string>;
+}
+
+export const ROOT = '__root__';
+
+const key = (parentId: string | null) => parentId ?? ROOT;
+
+export const emptyTree = (): ConversationTree => ({ nodes: {}, selected: {} });
+
+/** Children of a node (or the first turns for null), oldest first */
+export const childrenOf = (tree: ConversationTree, parentId: string | null): TreeNode[] =>
+  Object.values(tree.nodes)
+    .filter(node => node.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/** Messages on the active branch, from the first turn down */
+export const activePath = (tree: ConversationTree): TreeNode[] => {
+  const path: TreeNode[] = [];
+  let parentId: string | null = null;
+  for (;;) {
+    const siblings = childrenOf(tree, parentId);
+    if (siblings.length === 0) return path;
+    // A selection that isn't one of the siblings (stale or imported) falls back to the newest
+    const selected = tree.selected[key(parentId)];
+    const chosen: TreeNode = siblings.find(s => s.id === selected) ?? siblings[siblings.length - 1]!;
+    path.push(chosen);
+    parentId = chosen.id;
+  }
+};
+
+/** Active branch up to and including `id` */
+export const pathTo = (tree: ConversationTree, id: string): TreeNode[] => {
+  const path: TreeNode[] = [];
+  let node: TreeNode | undefined = tree.nodes[id];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+/** Add a message under `parentId` and make it the selected child */
+export const appendMessage = (tree: ConversationTree, parentId: string | null, message: ChatMessage): ConversationTree => ({
+  nodes: { ...tree.nodes, [message.id]: { ...message, parentId } },
+  selected: { ...tree.selected, [key(parentId)]: message.id },
+});
+
+export const updateNode = (tree: ConversationTree, id: string, patch: Partial<ChatMessage>): ConversationTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, ...patch } } };
+};
+
+/** Remove a leaf (e.g. an empty reply after a failed generation); its parent falls back to the newest child */
+export const removeLeaf = (tree: ConversationTree, id: string): ConversationTree => {
+  const node = tree.nodes[id];
+  if (!node || childrenOf(tree, id).length > 0) return tree;
+  const { [id]: _removed, ...nodes } = tree.nodes;
+  const selected = { ...tree.selected };
+  if (selected[key(node.parentId)] === id) delete selected[key(node.parentId)];
+  return { nodes, selected };
+};
+
+/** Position of a message among its versions (1-based) */
+export const siblingPosition = (tree: ConversationTree, id: string): { index: number; count: number } => {
+  const node = tree.nodes[id];
+  if (!node) return { index: 1, count: 1 };
+  const siblings = childrenOf(tree, node.parentId);
+  return { index: siblings.findIndex(s => s.id === id) + 1, count: siblings.length };
+};
+
+/** Switch to the previous (-1) or next (+1) version of a message */
+export const selectSibling = (tree: ConversationTree, id: string, offset: number): ConversationTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  const siblings = childrenOf(tree, node.parentId);
+  const target = siblings[siblings.findIndex(s => s.id === id) + offset];
+  if (!target) return tree;
+  return { ...tree, selected: { ...tree.selected, [key(node.parentId)]: target.id } };
+};
+
+/** Leaves of the tree in creation order; one per branch */
+export const branchLeaves = (tree: ConversationTree): TreeNode[] =>
+  Object.values(tree.nodes)
+    .filter(node => childrenOf(tree, node.id).length === 0)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/** Tree with a single branch, for conversations saved before branching existed */
+export const treeFromMessages = (messages: ChatMessage[]): ConversationTree =>
+  messages.reduce<{ tree: ConversationTree; parentId: string | null }>(
+    ({ tree, parentId }, message) => ({ tree: appendMessage(tree, parentId, message), parentId: message.id }),
+    { tree: emptyTree(), parentId: null }
+  ).tree;
+
+/** Strip the tree bookkeeping from path nodes */
+export const toMessages = (nodes: TreeNode[]): ChatMessage[] => nodes.map(({ parentId: _parentId, ...message }) => message);
@@ -0,0 +1,144 @@
+// =============================================================================
+// Custom models imported from Hugging Face
+// =============================================================================
+//
+// The SDK only knows its own catalog, so imported models are kept in
+// `custom-models.json` and downloaded by the app (see `customDownloadPlan` and
+// the download manager) into `<data root>/models/custom/`. `withCustomModels`
+// wraps the SDK so `getModelPath` also answers for these ids; everything else
+// (loading, generating) goes to the SDK unchanged.
+// =============================================================================
+
+import {
+  frameworkOf,
+  resolveURL,
+  type HuggingFaceRef,
+  type ModelVariant,
+} from '@/lib/huggingface';
+import type { DownloadPlan } from '@/lib/download-manager';
+import { deleteFile, readJSON, updateJSON } from '@/lib/json-storage';
+import type { ModelCategory } from '@/lib/model-store';
+
+const CUSTOM_MODELS_FILE = 'custom-models.json';
+const MODELS_DIRECTORY = 'models/custom/';
+
+/** Prefix that keeps imported ids apart from the SDK catalog */
+export const CUSTOM_MODEL_PREFIX = 'hf:';
+
+export interface CustomModelFile {
+  /** Path relative to the model's folder */
+  path: string;
+  url: string;
+  size: number;
+}
+
+export interface CustomModel {
+  id: string;
+  name: string;
+  category: ModelCategory;
+  framework: 'LlamaCpp' | 'ONNX';
+  /** `owner/name` on Hugging Face */
+  repo: string;
+  revision: string;
+  quantization: string | null;
+  files: CustomModelFile[];
+  downloadSize: number;
+  downloadURL: string;
+  isDownloaded: boolean;
+  /** The GGUF file, or the folder holding the ONNX files; a plain path as the SDK expects */
+  localPath?: string;
+  addedAt: number;
+}
+
+export const isCustomModelId = (id: string) => id.startsWith(CUSTOM_MODEL_PREFIX);
+
+const relativeTo = (directory: string, path: string) =>
+  directory && path.startsWith(`${directory}/`) ? path.slice(directory.length + 1) : path;
+
+/** Catalog entry for a picked variant; `name` defaults to the repo and quantization */
+export const customModelFromVariant = (
+  ref: HuggingFaceRef,
+  variant: ModelVariant,
+  category: ModelCategory,
+  name = ''
+): CustomModel => {
+  const weights = variant.files[0]!;
+  const files = variant.files.map(file => ({
+    path: relativeTo(variant.directory, file.path),
+    url: resolveURL(ref, file.path),
+    size: file.size,
+  }));
+  const fallbackName = `${ref.repo.split('/')[1]}${variant.quantization ? ` ${variant.quantization}` : ''}`;
+  return {
+    id: `${CUSTOM_MODEL_PREFIX}${ref.repo}/${variant.format === 'gguf' ? weights.path : variant.key}`,
+    name: name.trim() || fallbackName,
+    category,
+    framework: frameworkOf(variant.format),
+    repo: ref.repo,
+    revision: ref.revision,
+    quantization: variant.quantization,
+    files,
+    downloadSize: variant.size,
+    downloadURL: files[0]!.url,
+    isDownloaded: false,
+    addedAt: Date.now(),
+  };
+};
+
+export const listCustomModels = (): Promise<CustomModel[]> => readJSON<CustomModel[]>(CUSTOM_MODELS_FILE, []);
+
+/** Add or replace a model; returns the new list */
+export const saveCustomModel = (model: CustomModel): Promise<CustomModel[]> =>
+  updateJSON<CustomModel[]>(CUSTOM_MODELS_FILE, [], models => [...models.filter(m => m.id !== model.id), model]);
+
+/** Folder a model's files are downloaded to, relative to the data root */
+const modelDirectory = (id: string) =>
+  `${MODELS_DIRECTORY}${id.slice(CUSTOM_MODEL_PREFIX.length).replace(/[^A-Za-z0-9._-]+/g, '_')}/`;
+
+/** Forget a model and delete its files; returns the remaining list */
+export const deleteCustomModel = async (id: string): Promise<CustomModel[]> => {
+  const models = await updateJSON<CustomModel[]>(CUSTOM_MODELS_FILE, [], all => all.filter(m => m.id !== id));
+  await deleteFile(modelDirectory(id));
+  return models;
+};
+
+/** Files to fetch for an imported model; null for ids that aren't imports */
+export const customDownloadPlan = async (id: string): Promise<DownloadPlan | null> => {
+  if (!isCustomModelId(id)) return null;
+  const model = (await listCustomModels()).find(m => m.id === id);
+  if (!model) throw new Error('This custom model was removed');
+  const directory = modelDirectory(id);
+  return {
+    files: model.files.map(file => ({ url: file.url, path: `${directory}${file.path}`, size: file.size })),
+    // llama.cpp opens the GGUF file; ONNX runtimes get the folder
+    localPath: model.framework === 'LlamaCpp' ? `${directory}${model.files[0]!.path}` : directory,
+  };
+};
+
+/** Record a finished download so the model lists as downloaded after a restart */
+export const markCustomModelDownloaded = async (id: string, localPath: string): Promise<void> => {
+  if (!isCustomModelId(id)) return;
+  await updateJSON<CustomModel[]>(CUSTOM_MODELS_FILE, [], models =>
+    models.map(m => (m.id === id ? { ...m, isDownloaded: true, localPath } : m))
+  );
+};
+
+/** SDK whose `getModelPath` also covers imported models */
+export const withCustomModels = (sdk: any): any => {
+  const custom: Record<string, any> = {
+    async getModelPath(id: string, ...rest: any[]) {
+      if (!isCustomModelId(id)) return sdk.getModelPath(id, ...rest);
+      const model = (await listCustomModels()).find(m => m.id === id);
+      return model?.isDownloaded ? (model.localPath ?? null) : null;
+    },
+  };
+
+  // Imports are looked up without the SDK, so there is something to wrap even in Expo Go
+  return new Proxy(sdk ?? {}, {
+    get(target, property) {
+      if (typeof property === 'string' && property in custom) return custom[property];
+      const value = target[property];
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+};
@@ -0,0 +1,191 @@
+// =============================================================================
+// Document chunking and BM25 retrieval
+// =============================================================================
+//
+// Pure TypeScript (no React Native imports) so it runs and can be tested on
+// Node. Documents are split into overlapping word-window chunks that try to end
+// on paragraph or sentence boundaries; questions are matched against chunks
+// with Okapi BM25.
+// =============================================================================
+
+export interface DocumentChunk {
+  /** `<documentId>#<index>` */
+  id: string;
+  documentId: string;
+  documentName: string;
+  index: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  /** Target chunk length in words */
+  chunkSize: number;
+  /** Words repeated at the start of the next chunk */
+  overlap: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { chunkSize: 180, overlap: 30 };
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there',
+  'these', 'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you',
+]);
+
+/** Crude plural folding so "batteries" matches "battery" and "cables" matches "cable" */
+const singular = (term: string) => {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+};
+
+/** Lower-cased word terms without stop words, plurals folded */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(term => !STOP_WORDS.has(term)).map(singular);
+
+/** Strip markdown syntax that only adds noise to retrieval and prompts */
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/```[^\n]*\n/g, '')
+    .replace(/```/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`]{1,3}([^*_`\n]+)[*_`]{1,3}/g, '$1');
+
+/**
+ * Split a document into chunks of about `chunkSize` words. A chunk is closed at
+ * the last paragraph or sentence end in its second half when there is one, so
+ * chunks rarely stop mid-sentence.
+ */
+export const chunkDocument = (
+  document: { id: string; name: string; text: string },
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): DocumentChunk[] => {
+  const words = stripMarkdown(document.text).replace(/\r\n/g, '\n').split(/[ \t]+|(?<=\n)/).filter(w => w.trim());
+  const chunkSize = Math.max(1, options.chunkSize);
+  const overlap = Math.min(Math.max(0, options.overlap), chunkSize - 1);
+  const chunks: DocumentChunk[] = [];
+
+  let start = 0;
+  while (start < words.length) {
+    let end = Math.min(words.length, start + chunkSize);
+    if (end < words.length) {
+      for (let i = end - 1; i >= start + Math.floor(chunkSize / 2); i--) {
+        if (/[.!?:]["')\]]?\n?$|\n$/.test(words[i]!)) {
+          end = i + 1;
+          break;
+        }
+      }
+    }
+    const text = words.slice(start, end).map(w => w.trim()).join(' ');
+    chunks.push({
+      id: `${document.id}#${chunks.length}`,
+      documentId: document.id,
+      documentName: document.name,
+      index: chunks.length,
+      text,
+    });
+    if (end >= words.length) break;
+    start = Math.max(start + 1, end - overlap);
+  }
+  return chunks;
+};
+
+// =============================================================================
+// BM25
+// =============================================================================
+
+export interface SearchIndex {
+  chunks: DocumentChunk[];
+  /** Term frequencies per chunk */
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  /** Number of chunks containing each term */
+  documentFrequency: Map<string, number>;
+}
+
+export interface SearchHit {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+/** BM25 tuning: term-frequency saturation and length normalization */
+const K1 = 1.2;
+const B = 0.75;
+
+export const buildIndex = (chunks: DocumentChunk[]): SearchIndex => {
+  const termCounts = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(chunk.text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+    return counts;
+  });
+  const lengths = termCounts.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const averageLength = lengths.length ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0;
+  return { chunks, termCounts, lengths, averageLength, documentFrequency };
+};
+
+/** Top `k` chunks for a query, best first; chunks with no matching term are skipped */
+export const searchIndex = (index: SearchIndex, query: string, k = 4): SearchHit[] => {
+  const terms = [...new Set(tokenize(query))];
+  const total = index.chunks.length;
+  if (terms.length === 0 || total === 0) return [];
+
+  const hits: SearchHit[] = [];
+  index.termCounts.forEach((counts, i) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = counts.get(term);
+      if (!tf) continue;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const norm = 1 - B + (B * index.lengths[i]!) / (index.averageLength || 1);
+      score += idf * ((tf * (K1 + 1)) / (tf + K1 * norm));
+    }
+    if (score > 0) hits.push({ chunk: index.chunks[i]!, score });
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+// =============================================================================
+// Prompting
+// =============================================================================
+
+/**
+ * Question prompt with the retrieved chunks as numbered sources. The model is
+ * asked to cite them as [1], [2], ... so the answer can be linked back.
+ */
+export const buildRagPrompt = (question: string, hits: SearchHit[]): string => {
+  if (hits.length === 0) {
+    return `No passages in the user's documents matched this question. Say so briefly, then answer only if you are sure.\n\nQuestion: ${question}`;
+  }
+  const sources = hits
+    .map((hit, i) => `[${i + 1}] (${hit.chunk.documentName}, part ${hit.chunk.index + 1})\n${hit.chunk.text}`)
+    .join('\n\n');
+  return [
+    'Answer the question using only the sources below. Cite the sources you use as [1], [2], etc.',
+    'If the sources do not contain the answer, say that you could not find it in the documents.',
+    '',
+    'Sources:',
+    sources,
+    '',
+    `Question: ${question}`,
+  ].join('\n');
+};
+
+/** 1-based source numbers cited in an answer, in order of first use */
+export const citedSources = (answer: string, sourceCount: number): number[] => {
+  const cited: number[] = [];
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of match[1]!.split(',').map(s => Number(s.trim()))) {
+      if (n >= 1 && n <= sourceCount && !cited.includes(n)) cited.push(n);
+    }
+  }
+  return cited;
+};
@@ -0,0 +1,102 @@
+// =============================================================================
+// Document store for on-device Q&A
+// =============================================================================
+//
+// Imported text and markdown files are chunked once at import time and kept as
+// one JSON file per document in `documents/`. The BM25 index is rebuilt from
+// the stored chunks when the library is loaded (see lib/document-index.ts).
+// =============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { chunkDocument, type DocumentChunk } from '@/lib/document-index';
+import { deleteFile, listDirectory, readJSON, writeJSON } from '@/lib/json-storage';
+
+const DIRECTORY = 'documents/';
+
+/** Only plain-text formats are supported; anything else would index binary noise */
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.markdown'];
+
+export interface StoredDocument {
+  id: string;
+  name: string;
+  sourceUri: string;
+  importedAt: number;
+  characters: number;
+  chunks: DocumentChunk[];
+}
+
+const documentPath = (id: string) => `${DIRECTORY}${id}.json`;
+
+/** The last path segment, decoded; names with a stray `%` (`100%.txt`) are kept as they are */
+const fileName = (uri: string) => {
+  const name = uri.split(/[/\\]/).pop() || uri;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
+
+export const isSupportedFile = (name: string) =>
+  SUPPORTED_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+/** All imported documents, newest first */
+export const listDocuments = async (): Promise<StoredDocument[]> => {
+  const files = await listDirectory(DIRECTORY);
+  const documents = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJSON<StoredDocument | null>(`${DIRECTORY}${file}`, null))
+  );
+  return documents
+    .filter((d): d is StoredDocument => d !== null)
+    .sort((a, b) => b.importedAt - a.importedAt);
+};
+
+/** Store already-read text as a document */
+export const addDocument = async (name: string, text: string, sourceUri = ''): Promise<StoredDocument> => {
+  if (!text.trim()) throw new Error(`${name} is empty`);
+  const id = `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const document: StoredDocument = {
+    id,
+    name,
+    sourceUri,
+    importedAt: Date.now(),
+    characters: text.length,
+    chunks: chunkDocument({ id, name, text }),
+  };
+  await writeJSON(documentPath(id), document);
+  return document;
+};
+
+/** Read a .txt/.md file (file:// or Android content:// URI) and add it to the store */
+export const importDocument = async (uri: string): Promise<StoredDocument> => {
+  const trimmed = uri.trim();
+  const name = fileName(trimmed);
+  if (!isSupportedFile(name)) {
+    throw new Error(`Unsupported file type. Use ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+  const info = await FileSystem.getInfoAsync(trimmed);
+  if (!info.exists) throw new Error(`File not found: ${trimmed}`);
+  const text = await FileSystem.readAsStringAsync(trimmed);
+  return addDocument(name, text, trimmed);
+};
+
+/**
+ * Text files in the app's documents folder that have not been imported yet.
+ * On iOS this is the folder exposed in the Files app, so users can drop files
+ * there and pick them from the list.
+ */
+export const findImportableFiles = async (imported: StoredDocument[]): Promise<string[]> => {
+  const root = FileSystem.documentDirectory;
+  if (!root) return [];
+  const known = new Set(imported.map(d => d.sourceUri));
+  const files = await FileSystem.readDirectoryAsync(root);
+  return files
+    .filter(isSupportedFile)
+    .map(file => `${root}${file}`)
+    .filter(uri => !known.has(uri));
+};
+
+export const deleteDocument = (id: string): Promise<void> => deleteFile(documentPath(id));
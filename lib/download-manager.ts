@@ -0,0 +1,504 @@
+// =============================================================================
+// Download manager
+// =============================================================================
+//
+// Queues model downloads and runs a few at a time. Models with a download plan
+// (imported files with plain URLs) are fetched by the app: they can be paused
+// and resumed with HTTP range requests, and their resume data is saved so a
+// download carries on after the app restarts. Catalog models go through
+// `sdk.downloadModel`, which can be cancelled (if the SDK supports it) but
+// not paused. Failed transfers are retried with exponential backoff.
+//
+// The transfer, storage and clock are injected so the whole queue can be run
+// against a local HTTP server; the app's instance is in `app-downloads`.
+// =============================================================================
+
+/** Speed is averaged over this window */
+const RATE_WINDOW_MS = 5000;
+/** How often resume data of a running transfer is saved, for restarts mid-download */
+const SAVE_INTERVAL_MS = 5000;
+
+export interface DownloadFile {
+  url: string;
+  /** Destination relative to the app data root */
+  path: string;
+  /** Expected size in bytes, 0 if unknown */
+  size: number;
+}
+
+/** Files the app fetches itself; models without a plan are downloaded by the SDK */
+export interface DownloadPlan {
+  files: DownloadFile[];
+  /** What the SDK loads once every file is in, relative to the data root */
+  localPath: string;
+}
+
+/** What the manager needs to know about a model */
+export interface DownloadModel {
+  id: string;
+  name: string;
+  downloadSize?: number;
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'retrying' | 'failed';
+
+export const DownloadStatuses: Record<DownloadStatus, string> = {
+  queued: 'Queued',
+  downloading: 'Downloading',
+  paused: 'Paused',
+  retrying: 'Retrying',
+  failed: 'Failed',
+};
+
+export interface DownloadJob {
+  modelId: string;
+  name: string;
+  status: DownloadStatus;
+  bytesWritten: number;
+  /** 0 when neither the plan nor the catalog gave a size */
+  totalBytes: number;
+  /** Between 0 and 1 */
+  progress: number;
+  /** Bytes per second over the last few seconds, null until measurable */
+  speed: number | null;
+  /** Seconds left at the current speed */
+  eta: number | null;
+  /** Failed attempts so far */
+  attempts: number;
+  /** When the next attempt starts while retrying */
+  retryAt: number | null;
+  error: string | null;
+  /** SDK downloads can't be paused */
+  canPause: boolean;
+}
+
+// =============================================================================
+// Rates & retries
+// =============================================================================
+
+export interface RateSample {
+  at: number;
+  bytes: number;
+}
+
+/** Bytes per second across the samples, null with less than one second of data */
+export const transferRate = (samples: RateSample[]): number | null => {
+  if (samples.length < 2) return null;
+  const first = samples[0]!;
+  const last = samples[samples.length - 1]!;
+  const seconds = (last.at - first.at) / 1000;
+  if (seconds < 1) return null;
+  return Math.max(0, (last.bytes - first.bytes) / seconds);
+};
+
+/** Seconds until `remaining` bytes are in at `speed`, null when it can't be told */
+export const etaSeconds = (remaining: number, speed: number | null): number | null =>
+  speed && speed > 0 && remaining > 0 ? Math.ceil(remaining / speed) : null;
+
+/** Delay before retry number `attempt` (1-based): 2s, 4s, 8s, … capped at a minute */
+export const retryDelay = (attempt: number, baseMs = 2000, maxMs = 60_000): number =>
+  Math.min(baseMs * 2 ** (attempt - 1), maxMs);
+
+/** Network errors, timeouts, rate limits and server errors are worth another try; other HTTP errors aren't */
+export const isRetryable = (e: any): boolean => {
+  const status = e?.status;
+  if (typeof status !== 'number') return true;
+  return status === 408 || status === 429 || status >= 500;
+};
+
+/** Marks a rejection caused by `cancel`, so callers can tell it from a failure */
+export const isCancelled = (e: any): boolean => e?.cancelled === true;
+
+const cancelledError = () => Object.assign(new Error('Download cancelled'), { cancelled: true });
+
+/** "2.4 MB/s" */
+export const formatSpeed = (bytesPerSecond: number): string =>
+  bytesPerSecond >= 1_000_000
+    ? `${(bytesPerSecond / 1_000_000).toFixed(1)} MB/s`
+    : `${Math.round(bytesPerSecond / 1000)} KB/s`;
+
+/** "45s", "3m 20s", "1h 5m" */
+export const formatETA = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+// =============================================================================
+// Transfers
+// =============================================================================
+
+export interface TransferHandle {
+  /** Resolves 'complete' when the file is in, 'paused' after `pause`; rejects with `status` set on HTTP errors */
+  done: Promise<'complete' | 'paused'>;
+  /** Stop and return what `start` needs to continue with a range request */
+  pause: () => Promise<string | null>;
+  /** Resume data to save while the transfer runs */
+  snapshot: () => string | null;
+  cancel: () => Promise<void>;
+}
+
+export interface FileTransfer {
+  /** Fetch one file, continuing from `resumeData` when given; `onBytes` gets the bytes of this file written so far */
+  start: (file: DownloadFile, resumeData: string | null, onBytes: (written: number) => void) => TransferHandle;
+  /** Delete a partly downloaded file */
+  discard: (file: DownloadFile) => Promise<void>;
+  /** Plain path of a file or folder relative to the data root, as the SDK expects */
+  localPath: (path: string) => string;
+}
+
+/** What a transfer rejects with when the server answers with an error */
+export const httpError = (file: DownloadFile, status: number) =>
+  Object.assign(new Error(`Download of ${file.path.slice(file.path.lastIndexOf('/') + 1)} failed (HTTP ${status})`), {
+    status,
+  });
+
+// =============================================================================
+// Manager
+// =============================================================================
+
+/** What survives a restart: enough to rebuild the job and continue the current file */
+export interface SavedDownload {
+  modelId: string;
+  name: string;
+  totalBytes: number;
+  plan: DownloadPlan | null;
+  /** Files of the plan already complete */
+  fileIndex: number;
+  resumeData: string | null;
+  /** For showing progress before the transfer continues */
+  bytesWritten: number;
+  paused: boolean;
+  /** Gave up; kept so a retry continues, but not picked up on restart */
+  failed?: boolean;
+}
+
+/** Where the queue is kept between runs of the app */
+export interface DownloadStorage {
+  load: () => Promise<SavedDownload[]>;
+  save: (downloads: SavedDownload[]) => Promise<void>;
+}
+
+interface RunningDownload {
+  saved: SavedDownload;
+  job: DownloadJob;
+  samples: RateSample[];
+  handle: TransferHandle | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  /** Bumped on pause and cancel so a stale attempt's outcome is ignored */
+  run: number;
+  waiters: { resolve: (localPath: string | null) => void; reject: (e: any) => void }[];
+  progressListeners: Set<(progress: number) => void>;
+}
+
+type AttemptResult = { kind: 'complete'; localPath: string | null } | { kind: 'paused' } | { kind: 'stale' };
+
+type JobsListener = (jobs: DownloadJob[]) => void;
+
+export interface DownloadManagerDeps {
+  sdk: any;
+  /** Download plan for a model the app fetches itself, null for catalog models */
+  planFor: (modelId: string) => Promise<DownloadPlan | null>;
+  /** Called with the SDK path once a planned download is complete */
+  onFinished?: (modelId: string, localPath: string) => Promise<void>;
+  transfer: FileTransfer;
+  storage: DownloadStorage;
+  maxConcurrent?: number;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  now?: () => number;
+}
+
+export type DownloadManager = ReturnType<typeof createDownloadManager>;
+
+export const createDownloadManager = ({
+  sdk,
+  planFor,
+  onFinished,
+  transfer,
+  storage,
+  maxConcurrent = 1,
+  maxAttempts = 4,
+  retryBaseMs = 2000,
+  now = Date.now,
+}: DownloadManagerDeps) => {
+  const downloads = new Map<string, RunningDownload>();
+  const listeners = new Set<JobsListener>();
+  let savedOnDisk: Promise<SavedDownload[]> | null = null;
+  let lastSave = 0;
+
+  const getJobs = () => [...downloads.values()].map(d => d.job);
+
+  const notify = () => {
+    const jobs = getJobs();
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const readSaved = () => (savedOnDisk ??= storage.load());
+
+  const save = async () => {
+    lastSave = now();
+    const saved = [...downloads.values()].map(d => ({
+      ...d.saved,
+      resumeData: d.handle?.snapshot() ?? d.saved.resumeData,
+      bytesWritten: d.job.bytesWritten,
+    }));
+    savedOnDisk = Promise.resolve(saved);
+    await storage.save(saved).catch(e => console.log('[Downloads] Failed to save queue:', e.message));
+  };
+
+  const update = (download: RunningDownload, changes: Partial<DownloadJob>) => {
+    download.job = { ...download.job, ...changes };
+    notify();
+  };
+
+  const setBytes = (download: RunningDownload, bytesWritten: number) => {
+    const at = now();
+    download.samples = [...download.samples.filter(s => at - s.at <= RATE_WINDOW_MS), { at, bytes: bytesWritten }];
+    const { totalBytes } = download.job;
+    const speed = transferRate(download.samples);
+    const progress = totalBytes > 0 ? Math.min(bytesWritten / totalBytes, 1) : download.job.progress;
+    update(download, { bytesWritten, progress, speed, eta: etaSeconds(totalBytes - bytesWritten, speed) });
+    download.progressListeners.forEach(listener => listener(progress));
+    if (download.saved.plan && at - lastSave >= SAVE_INTERVAL_MS) save();
+  };
+
+  const settle = (download: RunningDownload, outcome: { localPath: string | null } | { error: any }) => {
+    const waiters = download.waiters;
+    download.waiters = [];
+    for (const waiter of waiters) {
+      if ('error' in outcome) waiter.reject(outcome.error);
+      else waiter.resolve(outcome.localPath);
+    }
+  };
+
+  const finish = (download: RunningDownload, outcome: { localPath: string | null } | { error: any }) => {
+    downloads.delete(download.job.modelId);
+    notify();
+    save();
+    settle(download, outcome);
+    schedule();
+  };
+
+  /** One attempt at the whole download: the remaining plan files, or the SDK call */
+  const attempt = async (download: RunningDownload): Promise<AttemptResult> => {
+    const run = download.run;
+    const { saved } = download;
+
+    if (!saved.plan) {
+      const localPath: string | null = await sdk.downloadModel(saved.modelId, (progress: number) => {
+        // The SDK reports NaN before the size is known
+        if (download.run !== run || typeof progress !== 'number' || isNaN(progress)) return;
+        if (download.job.totalBytes > 0) {
+          setBytes(download, progress * download.job.totalBytes);
+        } else {
+          update(download, { progress });
+          download.progressListeners.forEach(listener => listener(progress));
+        }
+      });
+      if (download.run !== run) return { kind: 'stale' };
+      return { kind: 'complete', localPath: localPath || null };
+    }
+
+    const { files } = saved.plan;
+    while (saved.fileIndex < files.length) {
+      const file = files[saved.fileIndex]!;
+      const before = files.slice(0, saved.fileIndex).reduce((sum, f) => sum + f.size, 0);
+      download.handle = transfer.start(file, saved.resumeData, written => {
+        if (download.run === run) setBytes(download, before + written);
+      });
+      const result = await download.handle.done;
+      if (download.run !== run) return { kind: 'stale' };
+      if (result === 'paused') return { kind: 'paused' };
+      download.handle = null;
+      saved.fileIndex += 1;
+      saved.resumeData = null;
+      save();
+    }
+    const localPath = transfer.localPath(saved.plan.localPath);
+    await onFinished?.(saved.modelId, localPath);
+    return { kind: 'complete', localPath };
+  };
+
+  const start = async (download: RunningDownload) => {
+    const run = download.run;
+    download.samples = [];
+    update(download, { status: 'downloading', error: null, retryAt: null, speed: null, eta: null });
+    try {
+      const result = await attempt(download);
+      if (result.kind !== 'complete' || download.run !== run) return;
+      download.progressListeners.forEach(listener => listener(1));
+      finish(download, { localPath: result.localPath });
+    } catch (e: any) {
+      if (download.run !== run) return;
+      // Keep what the failed transfer fetched, so the retry continues with a range request
+      download.saved.resumeData = download.handle?.snapshot() ?? download.saved.resumeData;
+      download.handle = null;
+      const attempts = download.job.attempts + 1;
+      if (attempts < maxAttempts && isRetryable(e)) {
+        const delay = retryDelay(attempts, retryBaseMs);
+        update(download, {
+          status: 'retrying',
+          attempts,
+          error: e?.message ?? String(e),
+          retryAt: now() + delay,
+          speed: null,
+          eta: null,
+        });
+        download.retryTimer = setTimeout(() => {
+          download.retryTimer = null;
+          if (download.run === run) start(download);
+        }, delay);
+        return;
+      }
+      const message = e?.message ?? String(e);
+      download.saved.failed = true;
+      update(download, { status: 'failed', attempts, error: message, speed: null, eta: null });
+      save();
+      settle(download, { error: new Error(attempts > 1 ? `${message} (after ${attempts} attempts)` : message) });
+      schedule();
+    }
+  };
+
+  /** Start queued downloads while there are free slots */
+  const schedule = () => {
+    const active = [...downloads.values()].filter(d => d.job.status === 'downloading' || d.job.status === 'retrying');
+    let free = maxConcurrent - active.length;
+    for (const download of downloads.values()) {
+      if (free <= 0) break;
+      if (download.job.status !== 'queued') continue;
+      free -= 1;
+      start(download);
+    }
+  };
+
+  const stopCurrent = async (download: RunningDownload) => {
+    download.run += 1;
+    if (download.retryTimer) clearTimeout(download.retryTimer);
+    download.retryTimer = null;
+    const handle = download.handle;
+    download.handle = null;
+    return handle;
+  };
+
+  const create = (saved: SavedDownload, model: DownloadModel): RunningDownload => {
+    const totalBytes = saved.totalBytes || model.downloadSize || 0;
+    // SDK downloads start over after a restart
+    const bytesWritten = saved.plan ? saved.bytesWritten : 0;
+    return {
+      // Queueing a download that failed before a restart is a retry
+      saved: { ...saved, totalBytes, failed: false },
+      job: {
+        modelId: saved.modelId,
+        name: saved.name,
+        status: saved.paused ? 'paused' : 'queued',
+        bytesWritten,
+        totalBytes,
+        progress: totalBytes > 0 ? bytesWritten / totalBytes : 0,
+        speed: null,
+        eta: null,
+        attempts: 0,
+        retryAt: null,
+        error: null,
+        canPause: !!saved.plan,
+      },
+      samples: [],
+      handle: null,
+      retryTimer: null,
+      run: 0,
+      waiters: [],
+      progressListeners: new Set(),
+    };
+  };
+
+  return {
+    getJobs,
+    /** Be told about every change to the queue; returns an unsubscribe function */
+    subscribe(listener: JobsListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /** Ids of downloads that were running or paused when an earlier run of the app ended */
+    async pendingIds(): Promise<string[]> {
+      return (await readSaved())
+        .filter(s => !s.failed && !downloads.has(s.modelId))
+        .map(s => s.modelId);
+    },
+
+    /**
+     * Queue a model, or attach to its download if it already has one; a saved
+     * download from an earlier run continues where it stopped. Resolves with
+     * the local path once complete, rejects when it fails for good or is cancelled.
+     */
+    async enqueue(model: DownloadModel, onProgress?: (progress: number) => void): Promise<string | null> {
+      let download = downloads.get(model.id);
+      if (!download) {
+        const saved: SavedDownload = (await readSaved()).find(s => s.modelId === model.id) ?? {
+          modelId: model.id,
+          name: model.name,
+          totalBytes: 0,
+          plan: await planFor(model.id),
+          fileIndex: 0,
+          resumeData: null,
+          bytesWritten: 0,
+          paused: false,
+        };
+        if (saved.plan) saved.totalBytes = saved.plan.files.reduce((sum, f) => sum + f.size, 0);
+        // Another call may have created it while the plan was read
+        download = downloads.get(model.id) ?? create(saved, model);
+        downloads.set(model.id, download);
+        save();
+      } else if (download.job.status === 'failed') {
+        download.saved.failed = false;
+        update(download, { status: 'queued', attempts: 0, error: null });
+      }
+
+      const current = download;
+      if (onProgress) current.progressListeners.add(onProgress);
+      const result = new Promise<string | null>((resolve, reject) => current.waiters.push({ resolve, reject }));
+      notify();
+      schedule();
+      return result;
+    },
+
+    /** Stop a planned download, keeping what was fetched */
+    async pause(modelId: string) {
+      const download = downloads.get(modelId);
+      if (!download || !download.job.canPause || download.job.status === 'paused' || download.job.status === 'failed') return;
+      const handle = await stopCurrent(download);
+      if (handle) download.saved.resumeData = await handle.pause().catch(() => download.saved.resumeData);
+      download.saved.paused = true;
+      update(download, { status: 'paused', speed: null, eta: null, retryAt: null });
+      await save();
+      schedule();
+    },
+
+    /** Continue a paused download when a slot is free */
+    resume(modelId: string) {
+      const download = downloads.get(modelId);
+      if (!download || download.job.status !== 'paused') return;
+      download.saved.paused = false;
+      update(download, { status: 'queued' });
+      save();
+      schedule();
+    },
+
+    /** Stop and forget a download, deleting partly fetched files */
+    async cancel(modelId: string) {
+      const download = downloads.get(modelId);
+      if (!download) return;
+      const handle = await stopCurrent(download);
+      await handle?.cancel().catch(() => {});
+      if (download.saved.plan) {
+        for (const file of download.saved.plan.files) await transfer.discard(file).catch(() => {});
+      } else {
+        // Without SDK support the transfer runs on, but its result is ignored
+        await Promise.resolve(sdk?.cancelDownload?.(modelId)).catch(() => {});
+      }
+      finish(download, { error: cancelledError() });
+    },
+  };
+};
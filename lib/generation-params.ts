@@ -0,0 +1,207 @@
+// =============================================================================
+// Generation parameters and presets
+// =============================================================================
+//
+// Sampling settings for `RunAnywhere.generate`, their validation, the
+// built-in presets, and per-model storage of saved presets and the last used
+// settings.
+// =============================================================================
+
+import { readJSON, updateJSON } from '@/lib/json-storage';
+
+export interface GenerationParams {
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  /** 0 disables top-k sampling */
+  topK: number;
+  repetitionPenalty: number;
+  /** null picks a random seed for every run */
+  seed: number | null;
+  stopSequences: string[];
+}
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  params: GenerationParams;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  maxTokens: 256,
+  temperature: 0.7,
+  topP: 0.95,
+  topK: 40,
+  repetitionPenalty: 1.1,
+  seed: null,
+  stopSequences: [],
+};
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  {
+    id: 'precise',
+    name: 'Precise',
+    builtIn: true,
+    params: { ...DEFAULT_GENERATION_PARAMS, temperature: 0.2, topP: 0.8, topK: 20, repetitionPenalty: 1.1 },
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    builtIn: true,
+    params: { ...DEFAULT_GENERATION_PARAMS, maxTokens: 512, temperature: 1.0, topP: 0.98, topK: 80, repetitionPenalty: 1.05 },
+  },
+  {
+    id: 'code',
+    name: 'Code',
+    builtIn: true,
+    params: { ...DEFAULT_GENERATION_PARAMS, maxTokens: 768, temperature: 0.1, topP: 0.9, topK: 40, repetitionPenalty: 1.0 },
+  },
+];
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/** Text form of the params, as typed into the settings panel */
+export type GenerationParamsDraft = Record<keyof GenerationParams, string>;
+
+export type GenerationParamsErrors = Partial<Record<keyof GenerationParams, string>>;
+
+export const MAX_STOP_SEQUENCES = 8;
+
+export const toDraft = (params: GenerationParams): GenerationParamsDraft => ({
+  maxTokens: String(params.maxTokens),
+  temperature: String(params.temperature),
+  topP: String(params.topP),
+  topK: String(params.topK),
+  repetitionPenalty: String(params.repetitionPenalty),
+  seed: params.seed === null ? '' : String(params.seed),
+  stopSequences: params.stopSequences.map(s => s.replace(/\n/g, '\\n')).join('\n'),
+});
+
+const parseNumber = (
+  text: string,
+  label: string,
+  min: number,
+  max: number,
+  integer: boolean
+): { value?: number; error?: string } => {
+  const value = Number(text.trim());
+  if (text.trim() === '' || Number.isNaN(value)) return { error: `${label} must be a number` };
+  if (integer && !Number.isInteger(value)) return { error: `${label} must be a whole number` };
+  if (value < min || value > max) return { error: `${label} must be between ${min} and ${max}` };
+  return { value };
+};
+
+/**
+ * Validate a draft. Returns the parsed params when every field is valid,
+ * otherwise one message per invalid field.
+ */
+export const parseDraft = (
+  draft: GenerationParamsDraft
+): { params: GenerationParams | null; errors: GenerationParamsErrors } => {
+  const errors: GenerationParamsErrors = {};
+  const numberField = (key: keyof GenerationParams, label: string, min: number, max: number, integer = false) => {
+    const { value, error } = parseNumber(draft[key], label, min, max, integer);
+    if (error) errors[key] = error;
+    return value ?? 0;
+  };
+
+  const maxTokens = numberField('maxTokens', 'Max tokens', 1, 4096, true);
+  const temperature = numberField('temperature', 'Temperature', 0, 2);
+  const topP = numberField('topP', 'Top-p', 0.01, 1);
+  const topK = numberField('topK', 'Top-k', 0, 200, true);
+  const repetitionPenalty = numberField('repetitionPenalty', 'Repetition penalty', 0.5, 2);
+
+  let seed: number | null = null;
+  if (draft.seed.trim() !== '') {
+    seed = numberField('seed', 'Seed', 0, 2 ** 31 - 1, true);
+  }
+
+  const stopSequences = draft.stopSequences
+    .split('\n')
+    .map(s => s.replace(/\\n/g, '\n'))
+    .filter(s => s.trim() !== '');
+  if (stopSequences.length > MAX_STOP_SEQUENCES) {
+    errors.stopSequences = `At most ${MAX_STOP_SEQUENCES} stop sequences`;
+  }
+
+  if (Object.keys(errors).length > 0) return { params: null, errors };
+  return { params: { maxTokens, temperature, topP, topK, repetitionPenalty, seed, stopSequences }, errors };
+};
+
+/**
+ * SDK options for a run. Template stop markers are merged with the user's
+ * stop sequences.
+ */
+export const toGenerateOptions = (params: GenerationParams, templateStops: string[] = []) => ({
+  maxTokens: params.maxTokens,
+  temperature: params.temperature,
+  topP: params.topP,
+  topK: params.topK,
+  repetitionPenalty: params.repetitionPenalty,
+  ...(params.seed !== null ? { seed: params.seed } : {}),
+  stopSequences: [...new Set([...templateStops, ...params.stopSequences])],
+});
+
+// =============================================================================
+// Per-model storage
+// =============================================================================
+
+const STORAGE_PATH = 'generation-settings.json';
+
+export interface ModelGenerationSettings {
+  /** Settings last used with the model */
+  params: GenerationParams;
+  /** Preset the settings came from, if unchanged since */
+  presetId: string | null;
+  /** User-saved presets for this model */
+  presets: GenerationPreset[];
+}
+
+type SettingsFile = Record<string, ModelGenerationSettings>;
+
+const emptySettings = (): ModelGenerationSettings => ({
+  params: DEFAULT_GENERATION_PARAMS,
+  presetId: null,
+  presets: [],
+});
+
+export const loadModelSettings = async (modelId: string): Promise<ModelGenerationSettings> => {
+  const file = await readJSON<SettingsFile>(STORAGE_PATH, {});
+  return { ...emptySettings(), ...file[modelId] };
+};
+
+const updateModelSettings = async (
+  modelId: string,
+  update: (settings: ModelGenerationSettings) => ModelGenerationSettings
+): Promise<ModelGenerationSettings> => {
+  const file = await updateJSON<SettingsFile>(STORAGE_PATH, {}, current => ({
+    ...current,
+    [modelId]: update({ ...emptySettings(), ...current[modelId] }),
+  }));
+  return file[modelId]!;
+};
+
+export const saveModelParams = (modelId: string, params: GenerationParams, presetId: string | null) =>
+  updateModelSettings(modelId, settings => ({ ...settings, params, presetId }));
+
+/** Save the params as a named preset for the model; a preset with the same name is replaced */
+export const saveModelPreset = (modelId: string, name: string, params: GenerationParams) =>
+  updateModelSettings(modelId, settings => {
+    const preset: GenerationPreset = { id: `custom-${Date.now().toString(36)}`, name: name.trim(), params };
+    return {
+      ...settings,
+      params,
+      presetId: preset.id,
+      presets: [...settings.presets.filter(p => p.name !== preset.name), preset],
+    };
+  });
+
+export const deleteModelPreset = (modelId: string, presetId: string) =>
+  updateModelSettings(modelId, settings => ({
+    ...settings,
+    presetId: settings.presetId === presetId ? null : settings.presetId,
+    presets: settings.presets.filter(p => p.id !== presetId),
+  }));
@@ -0,0 +1,347 @@
+// =============================================================================
+// GGUF header parser
+// =============================================================================
+//
+// Works out what a llama.cpp model says about itself from the bytes at the
+// start of its file: the GGUF header holds typed key/value metadata
+// (architecture, context length, chat template, tokenizer) followed by one
+// entry per tensor. The bytes may stop anywhere; `gguf` reads them from disk.
+// Token lists are counted but not decoded, which keeps a 150k-token
+// vocabulary cheap.
+//
+// Layout (little-endian, GGUF v2/v3):
+//   "GGUF" u32 version, u64 tensor count, u64 metadata count,
+//   metadata: string key, u32 type, value
+//   tensors:  string name, u32 dims, u64 × dims, u32 type, u64 offset
+// =============================================================================
+
+const MAGIC = 0x46554747; // "GGUF" read as a little-endian u32
+
+export const GGUFValueTypes = {
+  UINT8: 0,
+  INT8: 1,
+  UINT16: 2,
+  INT16: 3,
+  UINT32: 4,
+  INT32: 5,
+  FLOAT32: 6,
+  BOOL: 7,
+  STRING: 8,
+  ARRAY: 9,
+  UINT64: 10,
+  INT64: 11,
+  FLOAT64: 12,
+} as const;
+
+/** Arrays longer than this are kept as their length only */
+const MAX_KEPT_ARRAY = 64;
+
+/** Long arrays (token lists, merges, scores) are summarized rather than kept */
+export type GGUFArraySummary = { type: 'array'; itemType: number; length: number };
+
+export type GGUFValue = number | bigint | boolean | string | GGUFValue[] | GGUFArraySummary;
+
+export interface GGUFHeader {
+  version: number;
+  tensorCount: number;
+  metadata: Record<string, GGUFValue>;
+  /** False when the bytes ran out inside the metadata */
+  metadataComplete: boolean;
+  /** Elements across all tensors; null when the tensor entries weren't all read */
+  parameterCount: number | null;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/** UTF-8 to string; Hermes doesn't ship a TextDecoder */
+const decodeUTF8 = (bytes: Uint8Array): string => {
+  const codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i++]!;
+    const extra = byte >= 0xf0 ? 3 : byte >= 0xe0 ? 2 : byte >= 0xc0 ? 1 : 0;
+    let code = extra === 0 ? byte : byte & (0x3f >> extra);
+    for (let k = 0; k < extra && i < bytes.length; k++) code = (code << 6) | (bytes[i++]! & 0x3f);
+    codes.push(code > 0x10ffff ? 0xfffd : code);
+  }
+  let text = '';
+  // Chunked so long chat templates don't overflow the argument limit
+  for (let i = 0; i < codes.length; i += 4096) text += String.fromCodePoint(...codes.slice(i, i + 4096));
+  return text;
+};
+
+/** Thrown by the cursor when a read goes past the bytes available */
+const outOfData = () => new RangeError('GGUF header continues past the bytes read');
+
+const createCursor = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const take = (length: number) => {
+    if (offset + length > bytes.byteLength) throw outOfData();
+    const at = offset;
+    offset += length;
+    return at;
+  };
+
+  const u64 = () => {
+    const value = view.getBigUint64(take(8), true);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('GGUF length is out of range');
+    return Number(value);
+  };
+
+  const string = () => {
+    const length = u64();
+    const at = take(length);
+    return decodeUTF8(bytes.subarray(at, at + length));
+  };
+
+  const skipString = () => {
+    take(u64());
+  };
+
+  const FIXED_SIZES: Record<number, number> = {
+    [GGUFValueTypes.UINT8]: 1,
+    [GGUFValueTypes.INT8]: 1,
+    [GGUFValueTypes.BOOL]: 1,
+    [GGUFValueTypes.UINT16]: 2,
+    [GGUFValueTypes.INT16]: 2,
+    [GGUFValueTypes.UINT32]: 4,
+    [GGUFValueTypes.INT32]: 4,
+    [GGUFValueTypes.FLOAT32]: 4,
+    [GGUFValueTypes.UINT64]: 8,
+    [GGUFValueTypes.INT64]: 8,
+    [GGUFValueTypes.FLOAT64]: 8,
+  };
+
+  const value = (type: number): GGUFValue => {
+    switch (type) {
+      case GGUFValueTypes.UINT8:
+        return view.getUint8(take(1));
+      case GGUFValueTypes.INT8:
+        return view.getInt8(take(1));
+      case GGUFValueTypes.UINT16:
+        return view.getUint16(take(2), true);
+      case GGUFValueTypes.INT16:
+        return view.getInt16(take(2), true);
+      case GGUFValueTypes.UINT32:
+        return view.getUint32(take(4), true);
+      case GGUFValueTypes.INT32:
+        return view.getInt32(take(4), true);
+      case GGUFValueTypes.FLOAT32:
+        return view.getFloat32(take(4), true);
+      case GGUFValueTypes.BOOL:
+        return view.getUint8(take(1)) !== 0;
+      case GGUFValueTypes.STRING:
+        return string();
+      case GGUFValueTypes.UINT64: {
+        const n = view.getBigUint64(take(8), true);
+        return n <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(n) : n;
+      }
+      case GGUFValueTypes.INT64: {
+        const n = view.getBigInt64(take(8), true);
+        return n <= BigInt(Number.MAX_SAFE_INTEGER) && n >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(n) : n;
+      }
+      case GGUFValueTypes.FLOAT64:
+        return view.getFloat64(take(8), true);
+      case GGUFValueTypes.ARRAY: {
+        const itemType = view.getUint32(take(4), true);
+        const length = u64();
+        if (length <= MAX_KEPT_ARRAY) {
+          return Array.from({ length }, () => value(itemType));
+        }
+        // Skip without decoding: fixed-size items in one step, strings one by one
+        const size = FIXED_SIZES[itemType];
+        if (size !== undefined) {
+          take(size * length);
+        } else if (itemType === GGUFValueTypes.STRING) {
+          for (let i = 0; i < length; i++) skipString();
+        } else {
+          for (let i = 0; i < length; i++) value(itemType);
+        }
+        return { type: 'array', itemType, length };
+      }
+      default:
+        throw new Error(`Unknown GGUF value type ${type}`);
+    }
+  };
+
+  return {
+    u32: () => view.getUint32(take(4), true),
+    u64,
+    string,
+    skipString,
+    value,
+  };
+};
+
+/**
+ * Parse the header at the start of a GGUF file. `bytes` can stop anywhere:
+ * metadata read so far is returned with `metadataComplete: false`, and the
+ * parameter count is left out when the tensor entries are cut off.
+ */
+export const parseGGUF = (bytes: Uint8Array): GGUFHeader => {
+  const cursor = createCursor(bytes);
+  let version: number;
+  let tensorCount: number;
+  let metadataCount: number;
+  try {
+    if (cursor.u32() !== MAGIC) throw new Error('Not a GGUF file');
+    version = cursor.u32();
+    if (version < 2) throw new Error(`GGUF version ${version} is too old to read`);
+    if (version > 3) throw new Error(`GGUF version ${version} is newer than this app can read`);
+    tensorCount = cursor.u64();
+    metadataCount = cursor.u64();
+  } catch (e) {
+    if (e instanceof RangeError) throw new Error('File is too short to be a GGUF model');
+    throw e;
+  }
+
+  const metadata: Record<string, GGUFValue> = {};
+  try {
+    for (let i = 0; i < metadataCount; i++) {
+      const key = cursor.string();
+      metadata[key] = cursor.value(cursor.u32());
+    }
+  } catch (e) {
+    if (e instanceof RangeError) return { version, tensorCount, metadata, metadataComplete: false, parameterCount: null };
+    throw e;
+  }
+
+  let parameterCount: number | null = 0;
+  try {
+    for (let i = 0; i < tensorCount; i++) {
+      cursor.skipString();
+      const dims = cursor.u32();
+      let elements = 1;
+      for (let d = 0; d < dims; d++) elements *= cursor.u64();
+      cursor.u32(); // tensor type
+      cursor.u64(); // data offset
+      parameterCount += elements;
+    }
+  } catch (e) {
+    if (!(e instanceof RangeError)) throw e;
+    parameterCount = null;
+  }
+
+  return { version, tensorCount, metadata, metadataComplete: true, parameterCount };
+};
+
+// =============================================================================
+// Details
+// =============================================================================
+
+/** llama.cpp `general.file_type` values */
+const FILE_TYPES: Record<number, string> = {
+  0: 'F32',
+  1: 'F16',
+  2: 'Q4_0',
+  3: 'Q4_1',
+  7: 'Q8_0',
+  8: 'Q5_0',
+  9: 'Q5_1',
+  10: 'Q2_K',
+  11: 'Q3_K_S',
+  12: 'Q3_K_M',
+  13: 'Q3_K_L',
+  14: 'Q4_K_S',
+  15: 'Q4_K_M',
+  16: 'Q5_K_S',
+  17: 'Q5_K_M',
+  18: 'Q6_K',
+  19: 'IQ2_XXS',
+  20: 'IQ2_XS',
+  21: 'Q2_K_S',
+  22: 'IQ3_XS',
+  23: 'IQ3_XXS',
+  24: 'IQ1_S',
+  25: 'IQ4_NL',
+  26: 'IQ3_S',
+  27: 'IQ3_M',
+  28: 'IQ2_S',
+  29: 'IQ2_M',
+  30: 'IQ4_XS',
+  31: 'IQ1_M',
+  32: 'BF16',
+  36: 'TQ1_0',
+  37: 'TQ2_0',
+};
+
+export interface GGUFDetails {
+  name: string | null;
+  architecture: string | null;
+  /** Counted from the tensors, else taken from `general.size_label` */
+  parameters: string | null;
+  quantization: string | null;
+  contextLength: number | null;
+  embeddingLength: number | null;
+  layers: number | null;
+  attentionHeads: number | null;
+  chatTemplate: string | null;
+  tokenizer: {
+    model: string | null;
+    vocabularySize: number | null;
+    bosTokenId: number | null;
+    eosTokenId: number | null;
+  };
+  version: number;
+  tensorCount: number;
+  /** The header didn't fit in the bytes read, so some fields may be missing */
+  partial: boolean;
+}
+
+const asString = (value: GGUFValue | undefined) => (typeof value === 'string' ? value : null);
+const asNumber = (value: GGUFValue | undefined) => (typeof value === 'number' ? value : null);
+
+const arrayLength = (value: GGUFValue | undefined) =>
+  Array.isArray(value) ? value.length : typeof value === 'object' && 'length' in value ? value.length : null;
+
+/** 494_032_768 → "494M", 7_241_732_096 → "7.2B" */
+export const formatParameterCount = (count: number): string => {
+  const units: [number, string][] = [
+    [1e12, 'T'],
+    [1e9, 'B'],
+    [1e6, 'M'],
+    [1e3, 'K'],
+  ];
+  for (const [size, unit] of units) {
+    if (count >= size) {
+      const scaled = count / size;
+      return `${scaled >= 100 ? Math.round(scaled) : +scaled.toFixed(1)}${unit}`;
+    }
+  }
+  return String(count);
+};
+
+/** The fields the details sheet shows, pulled out of the raw header */
+export const ggufDetails = (header: GGUFHeader): GGUFDetails => {
+  const meta = header.metadata;
+  const architecture = asString(meta['general.architecture']);
+  const archNumber = (key: string) => (architecture ? asNumber(meta[`${architecture}.${key}`]) : null);
+  const fileType = asNumber(meta['general.file_type']);
+
+  return {
+    name: asString(meta['general.name']),
+    architecture,
+    parameters:
+      header.parameterCount !== null && header.tensorCount > 0
+        ? formatParameterCount(header.parameterCount)
+        : asString(meta['general.size_label']),
+    quantization: fileType !== null ? (FILE_TYPES[fileType] ?? `type ${fileType}`) : null,
+    contextLength: archNumber('context_length'),
+    embeddingLength: archNumber('embedding_length'),
+    layers: archNumber('block_count'),
+    attentionHeads: archNumber('attention.head_count'),
+    chatTemplate: asString(meta['tokenizer.chat_template']),
+    tokenizer: {
+      model: asString(meta['tokenizer.ggml.model']),
+      vocabularySize: arrayLength(meta['tokenizer.ggml.tokens']),
+      bosTokenId: asNumber(meta['tokenizer.ggml.bos_token_id']),
+      eosTokenId: asNumber(meta['tokenizer.ggml.eos_token_id']),
+    },
+    version: header.version,
+    tensorCount: header.tensorCount,
+    partial: !header.metadataComplete || header.parameterCount === null,
+  };
+};
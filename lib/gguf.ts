@@ -0,0 +1,44 @@
+// =============================================================================
+// GGUF header reader
+// =============================================================================
+//
+// Reads the header of a downloaded llama.cpp model. Only the start of the file
+// is read, growing the window until the header fits; `gguf-parser` does the
+// parsing.
+// =============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+import { ggufDetails, parseGGUF, type GGUFDetails } from '@/lib/gguf-parser';
+
+const INITIAL_READ_BYTES = 2 * 1024 * 1024;
+/** Headers with very large vocabularies can run to several MB; never read past this */
+const MAX_READ_BYTES = 32 * 1024 * 1024;
+
+const decodeBase64 = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+/** A model folder from the SDK holds the GGUF file; a plain path is used as is */
+const resolveGGUFUri = async (path: string): Promise<{ uri: string; size: number }> => {
+  const uri = path.includes('://') ? path : `file://${path}`;
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) throw new Error('Model file not found. Please re-download.');
+  if (!info.isDirectory) return { uri, size: info.size };
+
+  const names = await FileSystem.readDirectoryAsync(uri);
+  const gguf = names.filter(name => name.toLowerCase().endsWith('.gguf') && !/mmproj/i.test(name)).sort()[0];
+  if (!gguf) throw new Error('No GGUF file in the model folder');
+  return resolveGGUFUri(`${uri.replace(/\/$/, '')}/${gguf}`);
+};
+
+/** Read the header of the GGUF model at `path`, loading only as much of the file as it needs */
+export const readGGUFDetails = async (path: string): Promise<GGUFDetails> => {
+  const { uri, size } = await resolveGGUFUri(path);
+  let length = Math.min(INITIAL_READ_BYTES, size);
+  for (;;) {
+    const bytes = decodeBase64(await FileSystem.readAsStringAsync(uri, { encoding: 'base64', position: 0, length }));
+    const header = parseGGUF(bytes);
+    const complete = header.metadataComplete && header.parameterCount !== null;
+    if (complete || length >= size || length >= MAX_READ_BYTES) return ggufDetails(header);
+    length = Math.min(length * 2, size, MAX_READ_BYTES);
+  }
+};
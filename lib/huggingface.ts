@@ -0,0 +1,304 @@
+// =============================================================================
+// Hugging Face model repositories
+// =============================================================================
+//
+// Turns a pasted Hugging Face link into the model files the SDK can run: GGUF
+// weights for llama.cpp and ONNX exports for speech recognition and synthesis.
+// Repo, tree and resolve links all work. Links to other hosts are rejected
+// unless that host is passed as the endpoint: a Hugging Face compatible
+// server (same API paths) such as a mirror or a local HTTP stand-in, which
+// then also serves the listing and files for Hugging Face links.
+// =============================================================================
+
+import type { ModelCategory } from '@/lib/model-store';
+
+export const HUGGING_FACE_ENDPOINT = 'https://huggingface.co';
+
+const HUGGING_FACE_HOSTS = ['huggingface.co', 'www.huggingface.co', 'hf.co'];
+
+/** A repository, optionally narrowed to a folder or a single file */
+export interface HuggingFaceRef {
+  /** Server the API and downloads are requested from */
+  endpoint: string;
+  /** `owner/name` */
+  repo: string;
+  revision: string;
+  /** Folder inside the repo, '' for the root */
+  directory: string;
+  /** Set for resolve and blob links, which point at one file */
+  file: string | null;
+}
+
+// Built by hand: React Native's URL doesn't implement `pathname`
+const URL_PARTS = /^(?:(https?):\/\/)?([^/?#]+)([^?#]*)/i;
+
+/**
+ * Parse a repo, tree, blob or resolve link, or a bare `owner/name`. Links must
+ * be on Hugging Face or on the host of `endpoint`; the ref asks `endpoint`.
+ */
+export const parseHuggingFaceURL = (input: string, endpoint = HUGGING_FACE_ENDPOINT): HuggingFaceRef => {
+  const text = input.trim();
+  if (!text) throw new Error('Please enter a Hugging Face model URL');
+
+  const match = URL_PARTS.exec(text);
+  if (!match) throw new Error(`Not a Hugging Face URL: ${text}`);
+  const [, scheme, host, rest] = match;
+  endpoint = endpoint.replace(/\/+$/, '');
+
+  let path = rest ?? '';
+  if (!scheme && !/[.:]/.test(host!)) {
+    // `owner/name` without a host
+    path = `/${host}${path}`;
+  } else {
+    const endpointHost = URL_PARTS.exec(endpoint)?.[2]?.toLowerCase();
+    const known = HUGGING_FACE_HOSTS.includes(host!.toLowerCase()) || host!.toLowerCase() === endpointHost;
+    if (!known) throw new Error(`Not a Hugging Face URL: ${text}`);
+  }
+
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new Error(`The link has a malformed %-escape: ${text}`);
+  }
+  if (segments[0] === 'models') segments.shift();
+  if (segments[0] === 'datasets' || segments[0] === 'spaces') {
+    throw new Error('Only model repositories can be imported');
+  }
+  if (segments.length < 2) throw new Error('Expected a repository like owner/model-name');
+
+  const repo = `${segments[0]}/${segments[1]}`;
+  const [kind, revision, ...inner] = segments.slice(2);
+  if (!kind) return { endpoint, repo, revision: 'main', directory: '', file: null };
+  if (!revision) throw new Error(`Missing revision after /${kind}/`);
+
+  switch (kind) {
+    case 'tree':
+      return { endpoint, repo, revision, directory: inner.join('/'), file: null };
+    case 'resolve':
+    case 'blob': {
+      if (inner.length === 0) throw new Error('The link does not point at a file');
+      const file = inner.join('/');
+      return { endpoint, repo, revision, directory: directoryOf(file), file };
+    }
+    default:
+      throw new Error(`Unsupported Hugging Face link: /${kind}/`);
+  }
+};
+
+const directoryOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+/** Download link for a file in the repo */
+export const resolveURL = (ref: HuggingFaceRef, path: string): string =>
+  `${ref.endpoint}/${ref.repo}/resolve/${encodeURIComponent(ref.revision)}/${encodePath(path)}`;
+
+// =============================================================================
+// Listing
+// =============================================================================
+
+export interface RepoFile {
+  /** Path inside the repo */
+  path: string;
+  /** Size in bytes, 0 if the server didn't say */
+  size: number;
+}
+
+export interface RepoInfo {
+  /** Task the repo is tagged with, e.g. `automatic-speech-recognition` */
+  pipelineTag: string | null;
+  tags: string[];
+}
+
+const fetchJSON = async (url: string, repo: string, fetchImpl: typeof fetch): Promise<any> => {
+  const response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+  if (response.status === 404) throw new Error(`Repository not found: ${repo}`);
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`${repo} is private or gated. Accept its license on Hugging Face first.`);
+  }
+  if (!response.ok) throw new Error(`Hugging Face returned ${response.status} for ${repo}`);
+  return response.json();
+};
+
+/** Every file under the ref's folder, subfolders included */
+export const listRepoFiles = async (ref: HuggingFaceRef, fetchImpl: typeof fetch = fetch): Promise<RepoFile[]> => {
+  const folder = ref.directory ? `/${encodePath(ref.directory)}` : '';
+  const url = `${ref.endpoint}/api/models/${ref.repo}/tree/${encodeURIComponent(ref.revision)}${folder}?recursive=true`;
+  const entries = await fetchJSON(url, ref.repo, fetchImpl);
+  if (!Array.isArray(entries)) throw new Error('Unexpected file listing from Hugging Face');
+  return entries
+    .filter((entry: any) => entry?.type === 'file' && typeof entry.path === 'string')
+    .map((entry: any) => ({ path: entry.path, size: entry.lfs?.size ?? entry.size ?? 0 }));
+};
+
+/** Task tags of the repo; null when the server has no model card API */
+export const fetchRepoInfo = async (ref: HuggingFaceRef, fetchImpl: typeof fetch = fetch): Promise<RepoInfo | null> => {
+  try {
+    const info = await fetchJSON(`${ref.endpoint}/api/models/${ref.repo}`, ref.repo, fetchImpl);
+    return {
+      pipelineTag: typeof info?.pipeline_tag === 'string' ? info.pipeline_tag : null,
+      tags: Array.isArray(info?.tags) ? info.tags.filter((t: unknown) => typeof t === 'string') : [],
+    };
+  } catch {
+    return null;
+  }
+};
+
+// =============================================================================
+// Variants
+// =============================================================================
+
+export type ModelFormat = 'gguf' | 'onnx';
+
+/** One downloadable build of the model: a GGUF file, or a set of ONNX files sharing a quantization */
+export interface ModelVariant {
+  key: string;
+  format: ModelFormat;
+  /** e.g. Q4_K_M or INT8; null for full precision or when the name doesn't say */
+  quantization: string | null;
+  /** Folder the files live in, '' for the repo root */
+  directory: string;
+  /** Weights, then the tokens and config files that go with them */
+  files: RepoFile[];
+  size: number;
+}
+
+const GGUF_QUANTIZATION = /(?:^|[-_.])(I?Q\d+(?:_[0-9A-Z]+)*|BF16|F16|F32)(?=[-_.])/i;
+const ONNX_QUANTIZATION = /(?:^|[-_.])(int8|uint8|int4|q4f16|q4|fp16|bnb4|quantized)(?=[-_.])/i;
+
+/** Multimodal projectors ship next to GGUF weights but aren't models on their own */
+const PROJECTOR = /mmproj/i;
+/** Split GGUF weights: all parts download together and llama.cpp opens the first */
+const GGUF_PART = /-\d{5}-of-(\d{5})\.gguf$/i;
+
+const formatOf = (path: string): ModelFormat | null => {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.gguf')) return 'gguf';
+  if (lower.endsWith('.onnx')) return 'onnx';
+  return null;
+};
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/** Quantization named in a model file name, upper-cased */
+export const quantizationOf = (path: string): string | null => {
+  const name = baseName(path);
+  const match = (formatOf(name) === 'gguf' ? GGUF_QUANTIZATION : ONNX_QUANTIZATION).exec(name);
+  return match ? match[1]!.toUpperCase() : null;
+};
+
+/** Files an ONNX model in `directory` needs besides the weights (tokens, configs, espeak data for Piper voices) */
+const isCompanion = (path: string, directory: string) => {
+  const prefix = directory ? `${directory}/` : '';
+  if (!path.startsWith(prefix)) return false;
+  const relative = path.slice(prefix.length);
+  if (relative.startsWith('espeak-ng-data/')) return true;
+  return !relative.includes('/') && /\.(txt|json)$/i.test(relative);
+};
+
+/** Group the model files of a listing into the builds a user can pick from */
+export const modelVariants = (files: RepoFile[]): ModelVariant[] => {
+  const variants = new Map<string, ModelVariant>();
+
+  for (const file of files) {
+    const format = formatOf(file.path);
+    if (!format || PROJECTOR.test(baseName(file.path))) continue;
+    const quantization = quantizationOf(file.path);
+    const directory = directoryOf(file.path);
+    // A GGUF file (or its split parts) is a complete model; ONNX exports spread one model over several files
+    const key =
+      format === 'gguf'
+        ? file.path.replace(GGUF_PART, (_, count) => `-00001-of-${count}.gguf`)
+        : `${directory}/${quantization ?? 'FP32'}`;
+    const variant = variants.get(key) ?? { key, format, quantization, directory, files: [], size: 0 };
+    variant.files.push(file);
+    variant.size += file.size;
+    variants.set(key, variant);
+  }
+
+  for (const variant of variants.values()) {
+    if (variant.format === 'gguf') {
+      variant.files.sort((a, b) => a.path.localeCompare(b.path));
+    } else {
+      const companions = files.filter(f => isCompanion(f.path, variant.directory));
+      variant.files.push(...companions);
+      variant.size += companions.reduce((sum, f) => sum + f.size, 0);
+    }
+  }
+
+  return [...variants.values()].sort((a, b) => a.size - b.size);
+};
+
+/** Sensible default pick: a 4-bit or 8-bit build if there is one */
+const PREFERRED_QUANTIZATIONS = ['Q4_K_M', 'Q4_0', 'Q4_K_S', 'INT8', 'Q8_0'];
+
+export const preferredVariant = (variants: ModelVariant[], file: string | null = null): ModelVariant | null => {
+  if (file) {
+    const linked = variants.find(v => v.files.some(f => f.path === file));
+    if (linked) return linked;
+  }
+  for (const quantization of PREFERRED_QUANTIZATIONS) {
+    const match = variants.find(v => v.quantization === quantization);
+    if (match) return match;
+  }
+  return variants[0] ?? null;
+};
+
+// =============================================================================
+// Category & framework
+// =============================================================================
+
+const PIPELINE_CATEGORIES: Record<string, ModelCategory> = {
+  'text-generation': 'language',
+  'text2text-generation': 'language',
+  'automatic-speech-recognition': 'speech-recognition',
+  'text-to-speech': 'speech-synthesis',
+  'text-to-audio': 'speech-synthesis',
+};
+
+const RECOGNITION_NAMES = /whisper|moonshine|paraformer|zipformer|sense-?voice|transducer|\basr\b|\bstt\b/i;
+const SYNTHESIS_NAMES = /piper|vits|kokoro|matcha|melo|\btts\b/i;
+
+/**
+ * Category the SDK should load a variant as. GGUF is always a language model;
+ * ONNX is speech recognition or synthesis, going by the repo's task tag and
+ * then by well-known model names. Null when it can't tell.
+ */
+export const inferCategory = (ref: HuggingFaceRef, variant: ModelVariant, info: RepoInfo | null): ModelCategory | null => {
+  if (variant.format === 'gguf') return 'language';
+
+  const tagged = info?.pipelineTag ? PIPELINE_CATEGORIES[info.pipelineTag] : undefined;
+  if (tagged && tagged !== 'language') return tagged;
+
+  const names = [ref.repo, ...variant.files.map(f => f.path), ...(info?.tags ?? [])].join(' ');
+  if (RECOGNITION_NAMES.test(names)) return 'speech-recognition';
+  if (SYNTHESIS_NAMES.test(names)) return 'speech-synthesis';
+  return null;
+};
+
+/** Runtime the SDK uses for a format */
+export const frameworkOf = (format: ModelFormat): 'LlamaCpp' | 'ONNX' => (format === 'gguf' ? 'LlamaCpp' : 'ONNX');
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+export interface RepoModels {
+  ref: HuggingFaceRef;
+  info: RepoInfo | null;
+  variants: ModelVariant[];
+}
+
+/** Everything importable behind a link */
+export const findModels = async (
+  input: string,
+  fetchImpl: typeof fetch = fetch,
+  endpoint = HUGGING_FACE_ENDPOINT
+): Promise<RepoModels> => {
+  const ref = parseHuggingFaceURL(input, endpoint);
+  const [files, info] = await Promise.all([listRepoFiles(ref, fetchImpl), fetchRepoInfo(ref, fetchImpl)]);
+  const variants = modelVariants(files);
+  if (variants.length === 0) throw new Error(`No GGUF or ONNX files in ${ref.repo}${ref.directory ? `/${ref.directory}` : ''}`);
+  return { ref, info, variants };
+};
@@ -0,0 +1,79 @@
+// =============================================================================
+// On-device JSON storage
+// =============================================================================
+//
+// Small helpers over expo-file-system for the app's local data (conversations,
+// presets, ...). Everything lives under `<documentDirectory>/runanywhere/`.
+// =============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+const ROOT = `${FileSystem.documentDirectory ?? ''}runanywhere/`;
+
+/** Absolute URI for a path relative to the app data root */
+export const storageUri = (path: string): string => `${ROOT}${path}`;
+
+/** Create a directory (and its parents) under the data root if needed */
+export const ensureDirectory = async (path = ''): Promise<string> => {
+  const uri = storageUri(path);
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(uri, { intermediates: true });
+  }
+  return uri;
+};
+
+/** Read and parse a JSON file, returning `fallback` if it is missing or corrupt */
+export const readJSON = async <T>(path: string, fallback: T): Promise<T> => {
+  const uri = storageUri(path);
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return fallback;
+    return JSON.parse(await FileSystem.readAsStringAsync(uri)) as T;
+  } catch (e: any) {
+    console.log(`[Storage] Failed to read ${path}:`, e.message);
+    return fallback;
+  }
+};
+
+export const writeJSON = async (path: string, value: unknown): Promise<void> => {
+  const slash = path.lastIndexOf('/');
+  await ensureDirectory(slash === -1 ? '' : path.slice(0, slash + 1));
+  await FileSystem.writeAsStringAsync(storageUri(path), JSON.stringify(value));
+};
+
+// Updates are chained per file, so read-modify-writes started together (e.g.
+// two metrics recorded by the arena) can't overwrite each other
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Read a JSON file (or `fallback`), pass it through `update` and write the
+ * result back; resolves with what was written. Updates of the same file run
+ * one after another, and a failed update doesn't stop the ones queued after it.
+ */
+export const updateJSON = <T>(path: string, fallback: T, update: (value: T) => T | Promise<T>): Promise<T> => {
+  const run = async () => {
+    const next = await update(await readJSON(path, fallback));
+    await writeJSON(path, next);
+    return next;
+  };
+  const result = (pendingUpdates.get(path) ?? Promise.resolve()).then(run, run);
+  const settled = result.catch(() => {});
+  pendingUpdates.set(path, settled);
+  settled.then(() => {
+    if (pendingUpdates.get(path) === settled) pendingUpdates.delete(path);
+  });
+  return result;
+};
+
+export const deleteFile = async (path: string): Promise<void> => {
+  await FileSystem.deleteAsync(storageUri(path), { idempotent: true });
+};
+
+/** File names inside a directory under the data root (empty if it does not exist) */
+export const listDirectory = async (path: string): Promise<string[]> => {
+  const uri = storageUri(path);
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) return [];
+  return FileSystem.readDirectoryAsync(uri);
+};
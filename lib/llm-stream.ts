@@ -0,0 +1,119 @@
+// =============================================================================
+// Token streaming for text generation
+// =============================================================================
+//
+// `TokenStreamer` is the one interface the UI uses to stream tokens. The SDK
+// implementation lives below; tests can drive the UI with any object that
+// implements the same interface (e.g. one that emits a fixed token list).
+// =============================================================================
+
+import { estimateTokens } from '@/lib/context-budget';
+
+export interface GenerateOptions {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  repetitionPenalty?: number;
+  seed?: number;
+  stopSequences?: string[];
+}
+
+export interface StreamResult {
+  /** Full text received before the stream finished or was cancelled */
+  text: string;
+  /**
+   * Tokens generated. Counts `onToken` calls when streaming; otherwise the
+   * SDK's reported usage, or an estimate from the text
+   */
+  tokenCount: number;
+  /** False when the reply arrived in one piece from the `generate` fallback */
+  streamed: boolean;
+  /** True when `tokenCount` is an estimate rather than a real count */
+  estimated: boolean;
+  cancelled: boolean;
+}
+
+export interface StreamHandle {
+  /** Resolves when generation completes or right after `cancel()` */
+  result: Promise<StreamResult>;
+  /** Stop generating; the partial text is kept in `result` */
+  cancel: () => void;
+}
+
+export interface TokenStreamer {
+  stream(prompt: string, options: GenerateOptions, onToken: (token: string) => void): StreamHandle;
+}
+
+const isAsyncIterable = (value: any): value is AsyncIterable<any> =>
+  value != null && typeof value[Symbol.asyncIterator] === 'function';
+
+// SDK stream chunks are either plain strings or `{ token }` / `{ text }` objects
+const chunkText = (chunk: any): string => {
+  if (typeof chunk === 'string') return chunk;
+  return chunk?.token ?? chunk?.text ?? '';
+};
+
+/**
+ * Streamer backed by the RunAnywhere SDK.
+ * Uses `generateStream` when the SDK provides it (either as an async iterator
+ * or with a per-token callback) and falls back to a single `generate` call.
+ */
+export const createSDKStreamer = (sdk: any): TokenStreamer => ({
+  stream(prompt, options, onToken) {
+    let text = '';
+    let tokenCount = 0;
+    let streamed = true;
+    let estimated = false;
+    let cancelled = false;
+    let resolveCancel: (result: StreamResult) => void = () => {};
+
+    const emit = (chunk: any) => {
+      if (cancelled) return;
+      const token = chunkText(chunk);
+      if (!token) return;
+      text += token;
+      tokenCount++;
+      onToken(token);
+    };
+
+    const run = async (): Promise<StreamResult> => {
+      if (typeof sdk.generateStream === 'function') {
+        const stream = await sdk.generateStream(prompt, options, emit);
+        if (isAsyncIterable(stream)) {
+          for await (const chunk of stream) {
+            if (cancelled) break;
+            emit(chunk);
+          }
+        }
+      } else {
+        const result = await sdk.generate(prompt, options);
+        streamed = false;
+        emit(result?.text ?? '');
+        if (!cancelled) {
+          estimated = typeof result?.tokensUsed !== 'number';
+          tokenCount = estimated ? estimateTokens(text) : result.tokensUsed;
+        }
+      }
+      return { text, tokenCount, streamed, estimated, cancelled };
+    };
+
+    const cancelledResult = new Promise<StreamResult>(resolve => {
+      resolveCancel = resolve;
+    });
+
+    return {
+      result: Promise.race([run(), cancelledResult]),
+      cancel: () => {
+        if (cancelled) return;
+        cancelled = true;
+        try {
+          sdk.cancelGeneration?.();
+        } catch (e: any) {
+          console.log('[LLM] cancelGeneration failed:', e.message);
+        }
+        resolveCancel({ text, tokenCount, streamed, estimated, cancelled: true });
+      },
+    };
+  },
+});
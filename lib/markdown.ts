@@ -0,0 +1,365 @@
+// =============================================================================
+// Markdown parsing for model output
+// =============================================================================
+//
+// A small line-based parser for the markdown subset LLMs actually produce:
+// headings, lists, quotes, rules, pipe tables, fenced code and inline
+// emphasis/code/links. It is built to run on every streamed token, so any
+// prefix of a valid document must parse sensibly: an open code fence runs to
+// the end of the text, and unclosed inline markers are shown literally.
+// =============================================================================
+
+export type InlineSpan = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+};
+
+export type TableAlign = 'left' | 'center' | 'right';
+
+export type ListItem = {
+  text: string;
+  /** Nesting depth from the item's indentation */
+  depth: number;
+  /** Number shown for ordered items */
+  number?: number;
+  /** `- [ ]` / `- [x]` task items */
+  checked?: boolean;
+};
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'code'; language: string; code: string; closed: boolean }
+  | { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] };
+
+// =============================================================================
+// Blocks
+// =============================================================================
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** Cells of a pipe-table row; escaped pipes (`\|`) stay in the cell */
+export const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : 'left';
+};
+
+const isBlockStart = (line: string, next: string | undefined) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  RULE.test(line) ||
+  LIST_ITEM.test(line) ||
+  QUOTE.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next) && next.includes('-'));
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1]!;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i]!.trim().startsWith(marker)) body.push(lines[i++]!);
+      const closed = i < lines.length;
+      if (closed) i++;
+      blocks.push({ type: 'code', language: fence[2]!.toLowerCase(), code: body.join('\n'), closed });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1]!.length, text: heading[2]! });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (line.includes('|') && next !== undefined && next.includes('-') && TABLE_SEPARATOR.test(next)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(next).map(parseAlign);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i]!.includes('|') && lines[i]!.trim()) {
+        const cells = splitTableRow(lines[i++]!);
+        rows.push(header.map((_, c) => cells[c] ?? ''));
+      }
+      blocks.push({ type: 'table', header, align: header.map((_, c) => align[c] ?? 'left'), rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i]!)) body.push(lines[i++]!.match(QUOTE)![1]!);
+      blocks.push({ type: 'quote', text: body.join('\n') });
+      continue;
+    }
+
+    const first = line.match(LIST_ITEM);
+    if (first) {
+      const ordered = first[3] !== undefined;
+      const baseIndent = first[1]!.length;
+      const items: ListItem[] = [];
+      while (i < lines.length) {
+        const current = lines[i]!;
+        const item = current.match(LIST_ITEM);
+        if (item) {
+          if (item[1]!.length === baseIndent && (item[3] !== undefined) !== ordered) break;
+          const task = item[4]!.match(/^\[([ xX])\]\s+(.*)$/);
+          items.push({
+            text: task ? task[2]! : item[4]!,
+            depth: Math.max(0, Math.floor((item[1]!.length - baseIndent) / 2)),
+            ...(item[3] !== undefined ? { number: Number(item[3]) } : {}),
+            ...(task ? { checked: task[1] !== ' ' } : {}),
+          });
+          i++;
+        } else if (current.trim() && /^\s+/.test(current) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1]!.text += ` ${current.trim()}`;
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const body: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i]!.trim() && !isBlockStart(lines[i]!, lines[i + 1])) {
+      body.push(lines[i++]!.trim());
+    }
+    blocks.push({ type: 'paragraph', text: body.join('\n') });
+  }
+
+  return blocks;
+};
+
+// =============================================================================
+// Inline spans
+// =============================================================================
+
+type InlineStyle = Omit<InlineSpan, 'text'>;
+
+// Sticky patterns are matched in place with `matchAt`, so scanning a long
+// streamed reply doesn't copy the rest of the text at every character
+const BACKTICKS = /`+/y;
+const LINK = /\[([^\]]+)\]\(([^)\s]+)\)/y;
+
+/** Match a sticky regex starting exactly at `index` */
+const matchAt = (regex: RegExp, text: string, index: number): RegExpExecArray | null => {
+  regex.lastIndex = index;
+  return regex.exec(text);
+};
+
+const EMPHASIS: { marker: string; style: keyof InlineStyle }[] = [
+  { marker: '***', style: 'bold' },
+  { marker: '**', style: 'bold' },
+  { marker: '__', style: 'bold' },
+  { marker: '~~', style: 'strike' },
+  { marker: '*', style: 'italic' },
+  { marker: '_', style: 'italic' },
+];
+
+/**
+ * Split inline markdown into styled spans. A marker without its closing
+ * partner (common mid-stream) is kept as literal text.
+ */
+export const parseInline = (text: string, style: InlineStyle = {}): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) spans.push({ text: plain, ...style });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch === '\\' && i + 1 < text.length && /[\\`*_~[\]|#>-]/.test(text[i + 1]!)) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const ticks = matchAt(BACKTICKS, text, i)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        flush();
+        spans.push({ text: text.slice(i + ticks.length, end).trim() || ' ', ...style, code: true });
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = matchAt(LINK, text, i);
+      if (link) {
+        flush();
+        spans.push(...parseInline(link[1]!, { ...style, href: link[2]! }));
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(({ marker }) => text.startsWith(marker, i));
+    if (emphasis) {
+      const { marker, style: key } = emphasis;
+      const inner = i + marker.length;
+      let end = text.indexOf(marker, inner + 1);
+      while (end !== -1 && /\s/.test(text[end - 1]!)) end = text.indexOf(marker, end + 1);
+      // Intraword underscores (snake_case) and markers before a space are not emphasis
+      const literal =
+        end === -1 || !text[inner] || /\s/.test(text[inner]!) || (marker[0] === '_' && /\w/.test(text[i - 1] ?? ''));
+      if (literal) {
+        plain += marker;
+        i = inner;
+        continue;
+      }
+      flush();
+      const nested = marker === '***' ? { ...style, bold: true, italic: true } : { ...style, [key]: true };
+      spans.push(...parseInline(text.slice(inner, end), nested));
+      i = end + marker.length;
+      continue;
+    }
+
+    plain += ch;
+    i++;
+  }
+
+  flush();
+  return spans;
+};
+
+// =============================================================================
+// Code highlighting
+// =============================================================================
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'number' | 'comment';
+
+export type CodeToken = { text: string; kind: CodeTokenKind };
+
+const KEYWORDS = new Set(
+  (
+    'abstract and as async await break case catch class const continue def default del do elif else enum ' +
+    'export extends false final finally fn for from func function go if impl import in instanceof interface ' +
+    'is lambda let match mod module mut new nil none not null or package pass private protected pub public ' +
+    'raise return self static struct super switch this throw throws trait true try type typeof undefined ' +
+    'use var void where while with yield select insert update delete create table into values join on ' +
+    'group by order limit having int float double bool boolean char string long short unsigned echo fi then'
+  ).split(' ')
+);
+
+/** Languages that use `#` line comments */
+const HASH_COMMENT = new Set(['python', 'py', 'ruby', 'rb', 'sh', 'bash', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'r', 'perl']);
+
+/** Languages that use `--` line comments */
+const DASH_COMMENT = new Set(['sql', 'lua', 'haskell', 'hs']);
+
+const NUMBER = /(0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?)\b/iy;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+/**
+ * Tokenize code for simple highlighting. Language-agnostic apart from the
+ * comment syntax; unterminated strings and block comments run to the end so
+ * partially streamed code highlights correctly.
+ */
+export const highlightCode = (code: string, language = ''): CodeToken[] => {
+  const lang = language.toLowerCase();
+  const lineComment = HASH_COMMENT.has(lang) ? '#' : DASH_COMMENT.has(lang) ? '--' : '//';
+  const tokens: CodeToken[] = [];
+  const push = (text: string, kind: CodeTokenKind) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ text, kind });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    if (code.startsWith(lineComment, i)) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push(code.slice(i, stop), 'comment');
+      i = stop;
+      continue;
+    }
+
+    if (code.startsWith('/*', i) && lineComment === '//') {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      push(code.slice(i, stop), 'comment');
+      i = stop;
+      continue;
+    }
+
+    const ch = code[i]!;
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch && (ch === '`' || code[j] !== '\n')) {
+        j += code[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(code.length, j + 1);
+      push(code.slice(i, stop), 'string');
+      i = stop;
+      continue;
+    }
+
+    const number = matchAt(NUMBER, code, i);
+    if (number && !/\w/.test(code[i - 1] ?? '')) {
+      push(number[0], 'number');
+      i += number[0].length;
+      continue;
+    }
+
+    const word = matchAt(WORD, code, i);
+    if (word) {
+      push(word[0], KEYWORDS.has(word[0]) ? 'keyword' : 'plain');
+      i += word[0].length;
+      continue;
+    }
+
+    push(ch, 'plain');
+    i++;
+  }
+
+  return tokens;
+};
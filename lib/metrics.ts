@@ -0,0 +1,228 @@
+// =============================================================================
+// Inference performance metrics
+// =============================================================================
+//
+// Timings for model loads, text generation, transcription and synthesis. Each
+// run produces one `MetricRecord`, shown under its result and appended to a
+// capped history in `metrics.json` so runs can be compared over time.
+// =============================================================================
+
+import { readJSON, updateJSON } from '@/lib/json-storage';
+
+export type MetricKind = 'load' | 'generation' | 'stt' | 'tts';
+
+export const MetricKinds: Record<MetricKind, string> = {
+  load: '📦 Model load',
+  generation: '💬 Generation',
+  stt: '🎤 Transcription',
+  tts: '🔊 Synthesis',
+};
+
+interface MetricBase {
+  id: string;
+  modelId: string;
+  modelName: string;
+  timestamp: number;
+  /** Wall-clock duration of the whole operation */
+  durationMs: number;
+}
+
+export type LoadMetric = MetricBase & { kind: 'load' };
+
+export type GenerationMetric = MetricBase & {
+  kind: 'generation';
+  /** Null when the reply was not streamed */
+  timeToFirstTokenMs: number | null;
+  tokens: number;
+  tokensPerSecond: number;
+  /** Set when `tokens` (and so the speed) is estimated from the text */
+  estimated?: boolean;
+};
+
+/** Real-time factor = processing time / audio duration; below 1 is faster than real time */
+export type AudioMetric = MetricBase & {
+  kind: 'stt' | 'tts';
+  audioSeconds: number;
+  realTimeFactor: number;
+};
+
+export type MetricRecord = LoadMetric | GenerationMetric | AudioMetric;
+
+/** Model identity passed by callers; the rest of the record is computed here */
+export type MetricModel = { id: string; name: string };
+
+const STORAGE_PATH = 'metrics.json';
+
+/** Oldest records are dropped beyond this count */
+const MAX_RECORDS = 300;
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const base = (model: MetricModel, durationMs: number): MetricBase => ({
+  id: `metric-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  modelId: model.id,
+  modelName: model.name,
+  timestamp: Date.now(),
+  durationMs: Math.round(durationMs),
+});
+
+// =============================================================================
+// Measuring
+// =============================================================================
+
+/** Start a stopwatch; the returned function gives elapsed milliseconds */
+export const startTimer = (): (() => number) => {
+  const start = now();
+  return () => now() - start;
+};
+
+export const loadMetric = (model: MetricModel, durationMs: number): LoadMetric => ({
+  ...base(model, durationMs),
+  kind: 'load',
+});
+
+/** How a reply's tokens were counted; matches the fields of a `StreamResult` */
+export interface TokenCounting {
+  /** False when the reply arrived in one piece, so `token()` timings mean nothing */
+  streamed?: boolean;
+  estimated?: boolean;
+}
+
+/**
+ * Tracks one generation. Call `token()` for every streamed token, then
+ * `finish()`. Without streamed tokens, pass the count to `finish()`; the
+ * time to first token is then unknown.
+ */
+export const createGenerationTimer = (model: MetricModel) => {
+  const elapsed = startTimer();
+  let firstTokenMs: number | null = null;
+  let streamedTokens = 0;
+
+  return {
+    token: () => {
+      if (firstTokenMs === null) firstTokenMs = elapsed();
+      streamedTokens++;
+    },
+    finish: (tokenCount?: number, { streamed = true, estimated = false }: TokenCounting = {}): GenerationMetric => {
+      const durationMs = elapsed();
+      const tokens = tokenCount ?? streamedTokens;
+      if (!streamed) firstTokenMs = null;
+      // Decode speed excludes prompt processing when the first-token time is known
+      const decodeMs = firstTokenMs !== null && tokens > 1 ? durationMs - firstTokenMs : durationMs;
+      const decodeTokens = firstTokenMs !== null && tokens > 1 ? tokens - 1 : tokens;
+      return {
+        ...base(model, durationMs),
+        kind: 'generation',
+        timeToFirstTokenMs: firstTokenMs === null ? null : Math.round(firstTokenMs),
+        tokens,
+        tokensPerSecond: decodeMs > 0 ? round((decodeTokens * 1000) / decodeMs, 1) : 0,
+        ...(estimated && { estimated }),
+      };
+    },
+  };
+};
+
+export const audioMetric = (
+  kind: 'stt' | 'tts',
+  model: MetricModel,
+  durationMs: number,
+  audioSeconds: number
+): AudioMetric => ({
+  ...base(model, durationMs),
+  kind,
+  audioSeconds: round(audioSeconds, 2),
+  realTimeFactor: audioSeconds > 0 ? round(durationMs / 1000 / audioSeconds, 3) : 0,
+});
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// =============================================================================
+// Formatting and aggregation
+// =============================================================================
+
+export const formatDuration = (ms: number): string => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`);
+
+/** One-line summary shown under a result */
+export const formatMetric = (record: MetricRecord): string => {
+  switch (record.kind) {
+    case 'load':
+      return `Loaded in ${formatDuration(record.durationMs)}`;
+    case 'generation':
+      return [
+        `${record.estimated ? '~' : ''}${record.tokensPerSecond} tok/s`,
+        record.timeToFirstTokenMs !== null ? `TTFT ${formatDuration(record.timeToFirstTokenMs)}` : null,
+        `${record.estimated ? '~' : ''}${record.tokens} tokens`,
+        formatDuration(record.durationMs),
+      ]
+        .filter(Boolean)
+        .join(' · ');
+    case 'stt':
+    case 'tts':
+      return `RTF ${record.realTimeFactor}× · ${record.audioSeconds}s audio · ${formatDuration(record.durationMs)}`;
+  }
+};
+
+export interface MetricSummary {
+  modelId: string;
+  modelName: string;
+  kind: MetricKind;
+  runs: number;
+  /** Average of the kind's headline value: ms for loads, tok/s for generation, RTF for audio */
+  average: number;
+  best: number;
+  /** Average time to first token (generation only) */
+  averageTimeToFirstTokenMs?: number;
+}
+
+/** Headline value of a record and whether higher is better */
+export const headlineValue = (record: MetricRecord): { value: number; higherIsBetter: boolean } => {
+  switch (record.kind) {
+    case 'load':
+      return { value: record.durationMs, higherIsBetter: false };
+    case 'generation':
+      return { value: record.tokensPerSecond, higherIsBetter: true };
+    case 'stt':
+    case 'tts':
+      return { value: record.realTimeFactor, higherIsBetter: false };
+  }
+};
+
+/** Per-model, per-kind averages for comparing models */
+export const summarizeMetrics = (records: MetricRecord[]): MetricSummary[] => {
+  const groups = new Map<string, MetricRecord[]>();
+  for (const record of records) {
+    const key = `${record.kind}|${record.modelId}`;
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+
+  return [...groups.values()].map(group => {
+    const first = group[0]!;
+    const values = group.map(r => headlineValue(r));
+    const numbers = values.map(v => v.value);
+    const ttfts = group.flatMap(r => (r.kind === 'generation' && r.timeToFirstTokenMs !== null ? [r.timeToFirstTokenMs] : []));
+    return {
+      modelId: first.modelId,
+      modelName: first.modelName,
+      kind: first.kind,
+      runs: group.length,
+      average: round(numbers.reduce((sum, n) => sum + n, 0) / numbers.length, 2),
+      best: values[0]!.higherIsBetter ? Math.max(...numbers) : Math.min(...numbers),
+      ...(ttfts.length > 0 ? { averageTimeToFirstTokenMs: Math.round(ttfts.reduce((s, n) => s + n, 0) / ttfts.length) } : {}),
+    };
+  });
+};
+
+// =============================================================================
+// History
+// =============================================================================
+
+/** All recorded runs, newest first */
+export const listMetrics = (): Promise<MetricRecord[]> => readJSON<MetricRecord[]>(STORAGE_PATH, []);
+
+export const recordMetric = async (record: MetricRecord): Promise<void> => {
+  await updateJSON<MetricRecord[]>(STORAGE_PATH, [], records => [record, ...records].slice(0, MAX_RECORDS));
+};
+
+export const clearMetrics = async (): Promise<void> => {
+  await updateJSON<MetricRecord[]>(STORAGE_PATH, [], () => []);
+};
@@ -0,0 +1,258 @@
+// =============================================================================
+// Model lifecycle store
+// =============================================================================
+//
+// One state machine per model: remote → downloading → downloaded → loading →
+// loaded → unloading → downloaded, with failed reachable from every operation.
+// `modelTransition` is the pure transition function; `createModelStore` runs
+// downloads through an injected download queue and loads through an injected
+// SDK object, and notifies subscribers after every transition, so the UI reads
+// model state from one place and the whole lifecycle can be driven by fakes.
+// Queued, paused and retrying downloads all count as `downloading` here; the
+// download manager has the details. The app's instance is in `app-models`.
+// =============================================================================
+
+import { isCancelled, type DownloadManager } from '@/lib/download-manager';
+
+export type ModelStatus = 'remote' | 'downloading' | 'downloaded' | 'loading' | 'loaded' | 'failed' | 'unloading';
+
+export const ModelStatuses: Record<ModelStatus, string> = {
+  remote: 'Not downloaded',
+  downloading: 'Downloading',
+  downloaded: 'Downloaded',
+  loading: 'Loading',
+  loaded: 'Loaded',
+  failed: 'Failed',
+  unloading: 'Unloading',
+};
+
+export type ModelCategory = 'language' | 'speech-recognition' | 'speech-synthesis';
+
+/** What the store needs to know about a catalog entry */
+export interface StoreModel {
+  id: string;
+  name: string;
+  category: string;
+  downloadSize?: number;
+  isDownloaded?: boolean;
+  localPath?: string;
+}
+
+export interface ModelState {
+  status: ModelStatus;
+  /** Download progress between 0 and 1 */
+  progress: number;
+  /** Files are on the device; decides whether a failed model offers download or load */
+  isDownloaded: boolean;
+  localPath: string | null;
+  error: string | null;
+  /** When the model was last loaded */
+  loadedAt: number | null;
+}
+
+export type ModelEvent =
+  | { type: 'sync'; isDownloaded: boolean; localPath: string | null }
+  | { type: 'download' }
+  | { type: 'progress'; progress: number }
+  | { type: 'downloaded'; localPath: string | null }
+  | { type: 'cancelled' }
+  | { type: 'load' }
+  | { type: 'loaded'; at: number }
+  | { type: 'unload' }
+  /** Also sent when the SDK dropped the model because another of its category was loaded */
+  | { type: 'unloaded' }
+  | { type: 'failed'; error: string };
+
+export const INITIAL_MODEL_STATE: ModelState = {
+  status: 'remote',
+  progress: 0,
+  isDownloaded: false,
+  localPath: null,
+  error: null,
+  loadedAt: null,
+};
+
+/** Statuses in which an operation is running; catalog syncs don't interrupt them */
+const BUSY: ModelStatus[] = ['downloading', 'loading', 'unloading'];
+
+/** Next state for an event; events that don't apply to the current status are ignored */
+export const modelTransition = (state: ModelState, event: ModelEvent): ModelState => {
+  switch (event.type) {
+    case 'sync': {
+      const keepStatus = BUSY.includes(state.status) || state.status === 'loaded' || state.status === 'failed';
+      const status = keepStatus ? state.status : event.isDownloaded ? 'downloaded' : 'remote';
+      const localPath = event.localPath ?? state.localPath;
+      if (status === state.status && event.isDownloaded === state.isDownloaded && localPath === state.localPath) {
+        return state;
+      }
+      return { ...state, status, isDownloaded: event.isDownloaded, localPath };
+    }
+    case 'download':
+      return state.status === 'remote' || (state.status === 'failed' && !state.isDownloaded)
+        ? { ...state, status: 'downloading', progress: 0, error: null }
+        : state;
+    case 'progress':
+      return state.status === 'downloading' ? { ...state, progress: Math.min(Math.max(event.progress, 0), 1) } : state;
+    case 'cancelled':
+      return state.status === 'downloading' ? { ...state, status: 'remote', progress: 0 } : state;
+    case 'downloaded':
+      return state.status === 'downloading'
+        ? { ...state, status: 'downloaded', progress: 1, isDownloaded: true, localPath: event.localPath ?? state.localPath }
+        : state;
+    case 'load':
+      return state.status === 'downloaded' || (state.status === 'failed' && state.isDownloaded)
+        ? { ...state, status: 'loading', error: null }
+        : state;
+    case 'loaded':
+      return state.status === 'loading' ? { ...state, status: 'loaded', loadedAt: event.at } : state;
+    case 'unload':
+      return state.status === 'loaded' ? { ...state, status: 'unloading' } : state;
+    case 'unloaded':
+      return state.status === 'loaded' || state.status === 'unloading'
+        ? { ...state, status: 'downloaded', loadedAt: null }
+        : state;
+    case 'failed':
+      return BUSY.includes(state.status) ? { ...state, status: 'failed', error: event.error } : state;
+  }
+};
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const LOADERS: Record<ModelCategory, { load: string; unload: string }> = {
+  language: { load: 'loadTextModel', unload: 'unloadTextModel' },
+  'speech-recognition': { load: 'loadSTTModel', unload: 'unloadSTTModel' },
+  'speech-synthesis': { load: 'loadTTSModel', unload: 'unloadTTSModel' },
+};
+
+export type ModelStates = Record<string, ModelState>;
+
+type StatesListener = (states: ModelStates) => void;
+
+/** State of a model, `INITIAL_MODEL_STATE` for models the store hasn't seen */
+export const modelStateOf = (states: ModelStates, id: string): ModelState => states[id] ?? INITIAL_MODEL_STATE;
+
+export interface ModelStoreDeps {
+  sdk: any;
+  downloads: Pick<DownloadManager, 'enqueue'>;
+  /** Models that come with the app: nothing to download or load into the SDK */
+  isBuiltIn?: (model: StoreModel) => boolean;
+  now?: () => number;
+}
+
+export type ModelStore = ReturnType<typeof createModelStore>;
+
+export const createModelStore = ({ sdk, downloads, isBuiltIn = () => false, now = Date.now }: ModelStoreDeps) => {
+  let states: ModelStates = {};
+  const categories: Record<string, string> = {};
+  const listeners = new Set<StatesListener>();
+
+  const dispatch = (id: string, event: ModelEvent) => {
+    const previous = modelStateOf(states, id);
+    const next = modelTransition(previous, event);
+    if (next === previous) return;
+    states = { ...states, [id]: next };
+    listeners.forEach(listener => listener(states));
+  };
+
+  /** Record the failure, then rethrow so the caller can show it */
+  const fail = (id: string, e: any): never => {
+    dispatch(id, { type: 'failed', error: e?.message ?? String(e) });
+    throw e;
+  };
+
+  /** Where the model's files are; asks the SDK when no listing or download said */
+  const localPath = async (model: StoreModel): Promise<string | null> =>
+    modelStateOf(states, model.id).localPath || model.localPath || (await sdk.getModelPath(model.id)) || null;
+
+  /** Ids of loaded models in `category`, or in every category */
+  const loadedIds = (category?: string) =>
+    Object.keys(states).filter(
+      id => states[id]!.status === 'loaded' && (category === undefined || categories[id] === category)
+    );
+
+  return {
+    getStates: () => states,
+    /** Be told about every transition; returns an unsubscribe function */
+    subscribe(listener: StatesListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /** Model loaded in the SDK for `category`, if any */
+    loadedModelId: (category: string): string | null => loadedIds(category)[0] ?? null,
+    localPath,
+
+    /** Take download state from a fresh catalog listing */
+    sync(models: StoreModel[]) {
+      for (const model of models) {
+        categories[model.id] = model.category;
+        dispatch(model.id, {
+          type: 'sync',
+          isDownloaded: isBuiltIn(model) || !!model.isDownloaded,
+          localPath: model.localPath ?? null,
+        });
+      }
+    },
+
+    /**
+     * Queue a download. Resolves false if the model can't be downloaded from
+     * its current status or the download was cancelled; rejects on failure.
+     */
+    async download(model: StoreModel): Promise<boolean> {
+      categories[model.id] = model.category;
+      dispatch(model.id, { type: 'download' });
+      if (modelStateOf(states, model.id).status !== 'downloading') return false;
+      try {
+        const localPath = await downloads.enqueue(model, progress => dispatch(model.id, { type: 'progress', progress }));
+        dispatch(model.id, { type: 'downloaded', localPath });
+        return true;
+      } catch (e) {
+        if (!isCancelled(e)) return fail(model.id, e);
+        dispatch(model.id, { type: 'cancelled' });
+        return false;
+      }
+    },
+
+    /** Load into the SDK, which replaces whatever model of the category was loaded */
+    async load(model: StoreModel): Promise<boolean> {
+      categories[model.id] = model.category;
+      dispatch(model.id, { type: 'load' });
+      if (modelStateOf(states, model.id).status !== 'loading') return false;
+      try {
+        if (!isBuiltIn(model)) {
+          const loader = LOADERS[model.category as ModelCategory];
+          if (!loader) throw new Error(`Unknown model category: ${model.category}`);
+          const path = await localPath(model);
+          if (!path) throw new Error('Model path not found. Please re-download.');
+          await sdk[loader.load](path);
+          // Built-in models live outside the SDK, so only a real load replaces the loaded one
+          for (const id of loadedIds(model.category)) dispatch(id, { type: 'unloaded' });
+        }
+        dispatch(model.id, { type: 'loaded', at: now() });
+        return true;
+      } catch (e) {
+        return fail(model.id, e);
+      }
+    },
+
+    async unload(model: StoreModel): Promise<boolean> {
+      dispatch(model.id, { type: 'unload' });
+      if (modelStateOf(states, model.id).status !== 'unloading') return false;
+      try {
+        if (!isBuiltIn(model)) await sdk[LOADERS[model.category as ModelCategory].unload]?.();
+        dispatch(model.id, { type: 'unloaded' });
+        return true;
+      } catch (e) {
+        return fail(model.id, e);
+      }
+    },
+
+    /** Record that something else unloaded the models of `category` (or all of them) */
+    evict(category?: string) {
+      for (const id of loadedIds(category)) dispatch(id, { type: 'unloaded' });
+    },
+  };
+};
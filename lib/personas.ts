@@ -0,0 +1,115 @@
+// =============================================================================
+// Personas (system prompts)
+// =============================================================================
+//
+// A persona is a named system prompt that is sent as the system turn of every
+// LLM request. Built-in personas cannot be edited; user personas and the
+// active selection are stored on-device.
+// =============================================================================
+
+import { readJSON, updateJSON } from '@/lib/json-storage';
+
+export interface Persona {
+  id: string;
+  name: string;
+  icon: string;
+  systemPrompt: string;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'assistant',
+    name: 'Assistant',
+    icon: '🤖',
+    builtIn: true,
+    systemPrompt: 'You are a helpful, friendly assistant. Answer clearly and accurately. If you do not know something, say so.',
+  },
+  {
+    id: 'concise',
+    name: 'Concise',
+    icon: '✂️',
+    builtIn: true,
+    systemPrompt: 'You answer in as few words as possible. Use one or two short sentences. No introductions, no filler.',
+  },
+  {
+    id: 'tutor',
+    name: 'Tutor',
+    icon: '🧑‍🏫',
+    builtIn: true,
+    systemPrompt: 'You are a patient tutor. Explain ideas step by step with simple examples, and end with a short question that checks understanding.',
+  },
+  {
+    id: 'coder',
+    name: 'Coder',
+    icon: '👩‍💻',
+    builtIn: true,
+    systemPrompt: 'You are an expert programmer. Reply with correct, minimal code in fenced code blocks, followed by a brief explanation.',
+  },
+];
+
+export const DEFAULT_PERSONA_ID = 'assistant';
+
+const STORAGE_PATH = 'personas.json';
+
+interface PersonaFile {
+  custom: Persona[];
+  activeId: string;
+}
+
+export interface PersonaLibrary {
+  personas: Persona[];
+  activeId: string;
+}
+
+const toLibrary = (file: PersonaFile): PersonaLibrary => {
+  const personas = [...BUILT_IN_PERSONAS, ...file.custom];
+  const activeId = personas.some(p => p.id === file.activeId) ? file.activeId : DEFAULT_PERSONA_ID;
+  return { personas, activeId };
+};
+
+const EMPTY_FILE: PersonaFile = { custom: [], activeId: DEFAULT_PERSONA_ID };
+
+const readFile = () => readJSON<PersonaFile>(STORAGE_PATH, EMPTY_FILE);
+
+const updateFile = async (update: (file: PersonaFile) => PersonaFile): Promise<PersonaLibrary> =>
+  toLibrary(await updateJSON(STORAGE_PATH, EMPTY_FILE, update));
+
+export const loadPersonas = async (): Promise<PersonaLibrary> => toLibrary(await readFile());
+
+export const validatePersona = (persona: Pick<Persona, 'name' | 'systemPrompt'>): string | null => {
+  if (!persona.name.trim()) return 'Please enter a persona name';
+  if (!persona.systemPrompt.trim()) return 'Please enter a system prompt';
+  return null;
+};
+
+/** Create a persona (no id) or update an existing user persona */
+export const savePersona = (persona: Omit<Persona, 'id'> & { id?: string }): Promise<PersonaLibrary> => {
+  const error = validatePersona(persona);
+  if (error) return Promise.reject(new Error(error));
+  if (persona.id && BUILT_IN_PERSONAS.some(p => p.id === persona.id)) {
+    return Promise.reject(new Error('Built-in personas cannot be edited'));
+  }
+
+  const saved: Persona = {
+    id: persona.id ?? `persona-${Date.now().toString(36)}`,
+    name: persona.name.trim(),
+    icon: persona.icon.trim() || '💬',
+    systemPrompt: persona.systemPrompt.trim(),
+  };
+  return updateFile(file => ({
+    ...file,
+    custom: file.custom.some(p => p.id === saved.id)
+      ? file.custom.map(p => (p.id === saved.id ? saved : p))
+      : [...file.custom, saved],
+  }));
+};
+
+export const deletePersona = (id: string): Promise<PersonaLibrary> =>
+  updateFile(file => ({
+    custom: file.custom.filter(p => p.id !== id),
+    activeId: file.activeId === id ? DEFAULT_PERSONA_ID : file.activeId,
+  }));
+
+export const setActivePersona = (id: string): Promise<PersonaLibrary> =>
+  updateFile(file => ({ ...file, activeId: id }));
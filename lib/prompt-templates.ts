@@ -0,0 +1,175 @@
+// =============================================================================
+// Prompt templates
+// =============================================================================
+//
+// Templates are prompts with `{{variable}}` placeholders. The fill form is
+// generated from the placeholders found in the body, and template packs can
+// be shared as JSON.
+// =============================================================================
+
+import { readJSON, updateJSON } from '@/lib/json-storage';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  description?: string;
+  /** Pre-filled values for some variables */
+  defaults?: Record<string, string>;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'summarize',
+    name: 'Summarize',
+    description: 'Summarize a text in a fixed number of bullet points',
+    body: 'Summarize the following text in {{bullet_count}} bullet points:\n\n{{text}}',
+    defaults: { bullet_count: '3' },
+    builtIn: true,
+  },
+  {
+    id: 'explain-code',
+    name: 'Explain Code',
+    description: 'Explain what a code snippet does',
+    body: 'Explain what this {{language}} code does, step by step:\n\n```{{language}}\n{{code}}\n```',
+    builtIn: true,
+  },
+  {
+    id: 'email',
+    name: 'Write Email',
+    description: 'Draft a short email',
+    body: 'Write a {{tone}} email to {{recipient}} about {{topic}}. Keep it under 120 words.',
+    defaults: { tone: 'friendly' },
+    builtIn: true,
+  },
+  {
+    id: 'compare',
+    name: 'Compare',
+    description: 'Pros and cons of two options',
+    body: 'Compare {{option_a}} and {{option_b}} for {{use_case}}. List pros and cons of each, then recommend one.',
+    builtIn: true,
+  },
+];
+
+// =============================================================================
+// Variables
+// =============================================================================
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/** Variable names in order of first appearance */
+export const extractVariables = (body: string): string[] => [
+  ...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]!)),
+];
+
+/** `target_language` -> `Target language` */
+export const variableLabel = (name: string): string => {
+  const words = name.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** Variables the user should edit in a multi-line field */
+export const isLongVariable = (name: string): boolean => /text|code|content|body|notes|document/i.test(name);
+
+/** Initial form values: the template's defaults, empty for the rest */
+export const initialValues = (template: PromptTemplate): Record<string, string> =>
+  Object.fromEntries(extractVariables(template.body).map(name => [name, template.defaults?.[name] ?? '']));
+
+export interface FillResult {
+  prompt: string;
+  /** Variables left empty; the prompt should not be sent while this is non-empty */
+  missing: string[];
+}
+
+export const fillTemplate = (template: PromptTemplate, values: Record<string, string>): FillResult => {
+  const missing = extractVariables(template.body).filter(name => !(values[name] ?? '').trim());
+  const prompt = template.body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    (values[name] ?? '').trim() ? values[name]!.trim() : placeholder
+  );
+  return { prompt, missing };
+};
+
+// =============================================================================
+// Template packs (import/export)
+// =============================================================================
+
+export const PACK_FORMAT = 'runanywhere-prompt-templates';
+export const PACK_VERSION = 1;
+
+interface TemplatePack {
+  format: typeof PACK_FORMAT;
+  version: number;
+  templates: Omit<PromptTemplate, 'id' | 'builtIn'>[];
+}
+
+export const exportPack = (templates: PromptTemplate[]): string => {
+  const pack: TemplatePack = {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    templates: templates.map(({ name, body, description, defaults }) => ({ name, body, description, defaults })),
+  };
+  return JSON.stringify(pack, null, 2);
+};
+
+/**
+ * Parse a template pack. Throws with a message naming the first problem found.
+ * Imported templates get fresh ids.
+ */
+export const importPack = (json: string): PromptTemplate[] => {
+  let pack: any;
+  try {
+    pack = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (pack?.format !== PACK_FORMAT) throw new Error(`Expected format "${PACK_FORMAT}"`);
+  if (typeof pack.version !== 'number' || pack.version > PACK_VERSION) {
+    throw new Error(`Unsupported pack version: ${pack.version}`);
+  }
+  if (!Array.isArray(pack.templates)) throw new Error('"templates" must be an array');
+
+  const stamp = Date.now().toString(36);
+  return pack.templates.map((t: any, index: number): PromptTemplate => {
+    if (typeof t?.name !== 'string' || !t.name.trim()) throw new Error(`Template ${index + 1}: missing name`);
+    if (typeof t.body !== 'string' || !t.body.trim()) throw new Error(`Template "${t.name}": missing body`);
+    if (t.defaults !== undefined && (typeof t.defaults !== 'object' || Array.isArray(t.defaults))) {
+      throw new Error(`Template "${t.name}": "defaults" must be an object`);
+    }
+    return {
+      id: `tpl-${stamp}-${index}`,
+      name: t.name.trim(),
+      body: t.body,
+      ...(typeof t.description === 'string' ? { description: t.description } : {}),
+      ...(t.defaults ? { defaults: Object.fromEntries(Object.entries(t.defaults).map(([k, v]) => [k, String(v)])) } : {}),
+    };
+  });
+};
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+const STORAGE_PATH = 'prompt-templates.json';
+
+export const loadTemplates = async (): Promise<PromptTemplate[]> => [
+  ...BUILT_IN_TEMPLATES,
+  ...(await readJSON<PromptTemplate[]>(STORAGE_PATH, [])),
+];
+
+/** Change the saved user templates; resolves with the built-in and user templates */
+const updateCustomTemplates = async (
+  update: (custom: PromptTemplate[]) => PromptTemplate[]
+): Promise<PromptTemplate[]> => [
+  ...BUILT_IN_TEMPLATES,
+  ...(await updateJSON<PromptTemplate[]>(STORAGE_PATH, [], custom => update(custom).filter(t => !t.builtIn))),
+];
+
+/** Add templates; a user template with the same name is replaced */
+export const addTemplates = (templates: PromptTemplate[]): Promise<PromptTemplate[]> => {
+  const names = new Set(templates.map(t => t.name));
+  return updateCustomTemplates(custom => [...custom.filter(t => !names.has(t.name)), ...templates]);
+};
+
+export const deleteTemplate = (id: string): Promise<PromptTemplate[]> =>
+  updateCustomTemplates(custom => custom.filter(t => t.id !== id));
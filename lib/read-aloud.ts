@@ -0,0 +1,164 @@
+// =============================================================================
+// Read-aloud for chat replies
+// =============================================================================
+//
+// Turns a markdown reply into plain sentences and speaks them one at a time.
+// Sentence-sized chunks keep the wait before the first word short: with a
+// neural voice the next sentence is synthesized while the current one plays.
+// Engines are injected so the loop doesn't depend on the native audio modules.
+// =============================================================================
+
+import {
+  createWavFile,
+  deleteWavFile,
+  playAudioFile,
+  speakWithSystemVoice,
+  stopPlayback,
+  synthesisOptions,
+} from '@/lib/audio-playback';
+import { parseInline, parseMarkdown } from '@/lib/markdown';
+
+/** Longer sentences are split at commas and semicolons so synthesis stays quick */
+const MAX_SENTENCE_LENGTH = 220;
+
+// A period after these is not the end of a sentence
+const ABBREVIATION = /\b(?:mr|mrs|ms|dr|prof|sr|jr|st|vs|etc|approx|fig|no|e\.g|i\.e)\.$/i;
+const INITIAL = /\b[A-Z]\.$/;
+
+const inlineText = (text: string) =>
+  parseInline(text)
+    .map(span => span.text)
+    .join('');
+
+/** What a reply sounds like read out: no markup, code blocks or rules */
+export const speakableText = (markdown: string): string =>
+  parseMarkdown(markdown)
+    .flatMap(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+        case 'quote':
+          return [inlineText(block.text)];
+        case 'list':
+          return block.items.map(item => inlineText(item.text));
+        case 'table':
+          return [block.header, ...block.rows].map(row => row.map(inlineText).join(', '));
+        case 'code':
+        case 'rule':
+          return [];
+      }
+    })
+    .filter(line => line.trim())
+    .join('\n');
+
+const splitLong = (sentence: string): string[] => {
+  if (sentence.length <= MAX_SENTENCE_LENGTH) return [sentence];
+  const parts: string[] = [];
+  let current = '';
+  for (const clause of sentence.split(/(?<=[,;:])\s+/)) {
+    if (current && current.length + clause.length + 1 > MAX_SENTENCE_LENGTH) {
+      parts.push(current);
+      current = clause;
+    } else {
+      current = current ? `${current} ${clause}` : clause;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+/** Split plain text at sentence ends and line breaks */
+export const splitSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  for (const line of text.split(/\n+/)) {
+    let current = '';
+    for (const piece of line.trim().split(/(?<=[.!?…。！？])\s+/)) {
+      current = current ? `${current} ${piece}` : piece;
+      if (ABBREVIATION.test(current) || INITIAL.test(current)) continue;
+      sentences.push(current);
+      current = '';
+    }
+    if (current) sentences.push(current);
+  }
+  return sentences.filter(s => s.trim()).flatMap(splitLong);
+};
+
+// =============================================================================
+// Playback
+// =============================================================================
+
+export interface ReadAloudEngine<T = any> {
+  /** Get a sentence ready to play; called for the next sentence while the current one plays */
+  prepare: (sentence: string) => Promise<T>;
+  /** Resolves when the sentence has been spoken */
+  play: (prepared: T) => Promise<void>;
+  stop: () => Promise<void>;
+  /** Release a prepared sentence that won't be played because reading was cancelled */
+  discard?: (prepared: T) => void;
+}
+
+/** Neural TTS through the SDK, played from WAV files */
+export const neuralVoiceEngine = (sdk: any): ReadAloudEngine<string> => ({
+  prepare: async sentence => {
+    const result = await sdk.synthesize(sentence, synthesisOptions());
+    if (!result?.audio) throw new Error('No audio data returned');
+    const wavPath = await createWavFile(result.audio, result.sampleRate || 22050);
+    if (!wavPath) throw new Error('Could not create audio file');
+    return wavPath;
+  },
+  play: path => playAudioFile(path).finally(() => deleteWavFile(path)),
+  stop: stopPlayback,
+  discard: deleteWavFile,
+});
+
+/** Platform voice through expo-speech; nothing to prepare */
+export const systemVoiceEngine: ReadAloudEngine<string> = {
+  prepare: async sentence => sentence,
+  play: sentence => speakWithSystemVoice(sentence),
+  stop: stopPlayback,
+};
+
+export interface ReadAloudHandle {
+  /** Resolves when every sentence was spoken or reading was cancelled */
+  done: Promise<void>;
+  cancel: () => Promise<void>;
+}
+
+/** Speak `sentences` in order, reporting the index of the one being spoken */
+export const readAloud = <T>(
+  sentences: string[],
+  engine: ReadAloudEngine<T>,
+  onSentence: (index: number) => void
+): ReadAloudHandle => {
+  let cancelled = false;
+
+  const run = async () => {
+    if (sentences.length === 0) return;
+    let next: Promise<T> | null = engine.prepare(sentences[0]!);
+    for (let i = 0; i < sentences.length && !cancelled; i++) {
+      const prepared: T = await next!;
+      next = null;
+      if (cancelled) {
+        engine.discard?.(prepared);
+        return;
+      }
+      if (i + 1 < sentences.length) {
+        next = engine.prepare(sentences[i + 1]!);
+        // Failures surface when the sentence is awaited, or not at all after a cancel
+        next.catch(() => {});
+      }
+      onSentence(i);
+      await engine.play(prepared);
+    }
+    // Cancelled while a sentence played: the one prepared after it is never played
+    next?.then(prepared => engine.discard?.(prepared), () => {});
+  };
+
+  return {
+    done: run(),
+    cancel: async () => {
+      cancelled = true;
+      await engine.stop();
+    },
+  };
+};
@@ -0,0 +1,19 @@
+// =============================================================================
+// RunAnywhere SDK loader
+// =============================================================================
+//
+// The SDK ships native modules, so it is only present in a development build.
+// Everything that talks to the SDK imports it from here and checks
+// `sdkAvailable` first (it is always false in Expo Go).
+// =============================================================================
+
+export let RunAnywhere: any = null;
+export let sdkAvailable = false;
+
+try {
+  const sdk = require('runanywhere-react-native');
+  RunAnywhere = sdk.RunAnywhere;
+  sdkAvailable = true;
+} catch (e) {
+  console.log('[RunAnywhere Demo] SDK not available (expected in Expo Go)');
+}
@@ -0,0 +1,420 @@
+// =============================================================================
+// Local content-safety filters
+// =============================================================================
+//
+// Every prompt, model reply, transcript and text sent to speech synthesis can
+// be run through a list of rules before it leaves or enters the app. A rule
+// finds spans of text (blocklisted words, a custom regex, PII, prompt-injection
+// phrases) and says what to do with them: allow, warn, redact or block. Rules
+// and the on/off switch live in `safety-settings.json`; each decision is
+// appended to `safety-audit.json`. Nothing here needs the network.
+//
+// `guardSDK` wraps the RunAnywhere SDK so `generate`, `transcribeFile` and
+// `synthesize` go through the filters without changing their call sites;
+// `SafeRunAnywhere` is the wrapped SDK the app uses for those calls.
+// =============================================================================
+
+import { readJSON, updateJSON, writeJSON } from '@/lib/json-storage';
+import { RunAnywhere } from '@/lib/runanywhere';
+
+export type SafetyAction = 'allow' | 'warn' | 'redact' | 'block';
+
+export const SafetyActions: Record<SafetyAction, string> = {
+  allow: 'Allow',
+  warn: 'Warn',
+  redact: 'Redact',
+  block: 'Block',
+};
+
+/** Where the text came from */
+export type SafetyStage = 'prompt' | 'response' | 'transcript' | 'speech';
+
+export const SafetyStages: Record<SafetyStage, string> = {
+  prompt: 'Prompt',
+  response: 'Reply',
+  transcript: 'Transcript',
+  speech: 'Speech',
+};
+
+export type SafetyRuleKind = 'blocklist' | 'regex' | 'email' | 'phone' | 'card' | 'injection';
+
+export interface SafetyRule {
+  id: string;
+  label: string;
+  kind: SafetyRuleKind;
+  action: SafetyAction;
+  enabled: boolean;
+  stages: SafetyStage[];
+  /** Words or phrases for `blocklist` rules, matched case-insensitively as whole words */
+  terms?: string[];
+  /** Source of a `regex` rule, matched case-insensitively */
+  pattern?: string;
+  /** Built-in rules can be reconfigured but not deleted */
+  builtin?: boolean;
+}
+
+export interface SafetySettings {
+  enabled: boolean;
+  rules: SafetyRule[];
+}
+
+export interface SafetyMatch {
+  ruleId: string;
+  label: string;
+  action: SafetyAction;
+  start: number;
+  end: number;
+}
+
+export interface SafetyResult {
+  /** Input with redacted spans replaced */
+  text: string;
+  /** Strongest action among the matches; `allow` when nothing matched */
+  action: SafetyAction;
+  matches: SafetyMatch[];
+}
+
+export interface SafetyAuditEntry {
+  id: string;
+  timestamp: number;
+  stage: SafetyStage;
+  action: SafetyAction;
+  /** Match count per rule */
+  rules: { ruleId: string; label: string; action: SafetyAction; count: number }[];
+  /** Start of the text with every matched span masked, so the log never stores what was caught */
+  excerpt: string;
+}
+
+const SETTINGS_PATH = 'safety-settings.json';
+const AUDIT_PATH = 'safety-audit.json';
+const MAX_AUDIT_ENTRIES = 500;
+const EXCERPT_LENGTH = 120;
+
+const ALL_STAGES: SafetyStage[] = ['prompt', 'response', 'transcript', 'speech'];
+const INPUT_STAGES: SafetyStage[] = ['prompt', 'transcript', 'speech'];
+
+const INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions?|prompts?|rules?|messages?)/,
+  /\b(?:reveal|show|print|repeat|leak)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions?|initial\s+instructions?)/,
+  /\byou\s+are\s+now\s+(?:in\s+)?(?:dan|developer\s+mode|jailbroken|unrestricted|an?\s+unfiltered)/,
+  /\b(?:jailbreak|do\s+anything\s+now)\b/,
+  /\bpretend\s+(?:that\s+)?you\s+(?:have\s+no|are\s+not\s+bound\s+by|don't\s+have)\s+(?:rules|restrictions|guidelines|filters)/,
+  /<\|?(?:im_start|im_end|system|endoftext)\|?>|\[\/?INST\]/,
+];
+
+export const DEFAULT_SAFETY_RULES: SafetyRule[] = [
+  { id: 'card', label: 'Card numbers', kind: 'card', action: 'redact', enabled: true, stages: INPUT_STAGES, builtin: true },
+  { id: 'email', label: 'Email addresses', kind: 'email', action: 'redact', enabled: true, stages: INPUT_STAGES, builtin: true },
+  { id: 'phone', label: 'Phone numbers', kind: 'phone', action: 'redact', enabled: true, stages: INPUT_STAGES, builtin: true },
+  {
+    id: 'injection',
+    label: 'Prompt injection',
+    kind: 'injection',
+    action: 'warn',
+    enabled: true,
+    stages: ['prompt', 'transcript'],
+    builtin: true,
+  },
+  {
+    id: 'blocklist',
+    label: 'Blocklist',
+    kind: 'blocklist',
+    action: 'block',
+    enabled: true,
+    stages: ALL_STAGES,
+    terms: [],
+    builtin: true,
+  },
+];
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = { enabled: true, rules: DEFAULT_SAFETY_RULES };
+
+// =============================================================================
+// Detectors
+// =============================================================================
+
+type Span = { start: number; end: number };
+type Detector = (text: string) => Span[];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findAll = (text: string, regex: RegExp, accept: (match: string) => boolean = () => true): Span[] => {
+  const global = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+  const spans: Span[] = [];
+  for (const match of text.matchAll(global)) {
+    if (!match[0] || !accept(match[0])) continue;
+    spans.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return spans;
+};
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/** Compile a rule into a function that finds the spans it matches; add a case here for a new kind */
+const createDetector = (rule: SafetyRule): Detector => {
+  switch (rule.kind) {
+    case 'blocklist': {
+      const terms = (rule.terms ?? []).map(t => t.trim()).filter(Boolean);
+      if (terms.length === 0) return () => [];
+      const regex = new RegExp(`(?<![\\w])(?:${terms.map(escapeRegExp).join('|')})(?![\\w])`, 'gi');
+      return text => findAll(text, regex);
+    }
+    case 'regex': {
+      const regex = compilePattern(rule.pattern ?? '');
+      return regex ? text => findAll(text, regex) : () => [];
+    }
+    case 'email':
+      return text => findAll(text, /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi);
+    case 'phone':
+      // Only numbers written like phone numbers: a + prefix, an area code in
+      // parentheses, or digit groups split by separators. Bare digit runs such
+      // as order ids or timestamps are left alone.
+      return text =>
+        findAll(text, /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,3}/g, match => {
+          const count = digitsOf(match).length;
+          const formatted = /^\+|\(/.test(match) || (match.match(/\d[\s.-]\d/g)?.length ?? 0) >= 2;
+          return formatted && count >= 9 && count <= 15;
+        });
+    case 'card':
+      return text =>
+        findAll(text, /\b\d(?:[ -]?\d){12,18}\b/g, match => passesLuhn(digitsOf(match)));
+    case 'injection':
+      return text => INJECTION_PATTERNS.flatMap(pattern => findAll(text, new RegExp(pattern.source, 'gi')));
+  }
+};
+
+/** Case-insensitive regex for a custom rule, or null if the source does not compile */
+const compilePattern = (source: string): RegExp | null => {
+  if (!source.trim()) return null;
+  try {
+    return new RegExp(source, 'gi');
+  } catch {
+    return null;
+  }
+};
+
+/** Problem with a rule the user is editing, or null if it can be saved */
+export const validateRule = (rule: SafetyRule): string | null => {
+  if (!rule.label.trim()) return 'Give the rule a name';
+  if (rule.stages.length === 0) return 'Pick at least one stage';
+  if (rule.kind === 'regex') {
+    if (!rule.pattern?.trim()) return 'Enter a pattern';
+    if (!compilePattern(rule.pattern)) return 'The pattern is not a valid regular expression';
+    if (new RegExp(rule.pattern, 'i').test('')) return 'The pattern matches empty text';
+  }
+  return null;
+};
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+const ACTION_RANK: Record<SafetyAction, number> = { allow: 0, warn: 1, redact: 2, block: 3 };
+
+const placeholderFor = (rule: SafetyRule) =>
+  rule.kind === 'email' || rule.kind === 'phone' || rule.kind === 'card' ? `[${rule.kind}]` : '[redacted]';
+
+const replaceSpans = (text: string, spans: { start: number; end: number; replacement: string }[]) => {
+  let output = '';
+  let cursor = 0;
+  for (const span of spans) {
+    output += text.slice(cursor, span.start) + span.replacement;
+    cursor = span.end;
+  }
+  return output + text.slice(cursor);
+};
+
+/**
+ * Run the enabled rules for `stage` over `text`. Rules are applied in list
+ * order; a span already claimed by an earlier rule is not matched again.
+ */
+export const filterText = (text: string, stage: SafetyStage, settings: SafetySettings): SafetyResult => {
+  if (!settings.enabled || !text) return { text, action: 'allow', matches: [] };
+
+  const matches: SafetyMatch[] = [];
+  const overlaps = (span: Span) => matches.some(m => span.start < m.end && m.start < span.end);
+
+  for (const rule of settings.rules) {
+    if (!rule.enabled || !rule.stages.includes(stage)) continue;
+    for (const span of createDetector(rule)(text)) {
+      if (overlaps(span)) continue;
+      matches.push({ ruleId: rule.id, label: rule.label, action: rule.action, ...span });
+    }
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const action = matches.reduce<SafetyAction>(
+    (strongest, m) => (ACTION_RANK[m.action] > ACTION_RANK[strongest] ? m.action : strongest),
+    'allow'
+  );
+  const rulesById = new Map(settings.rules.map(r => [r.id, r]));
+  const redacted = replaceSpans(
+    text,
+    matches
+      .filter(m => m.action === 'redact')
+      .map(m => ({ ...m, replacement: placeholderFor(rulesById.get(m.ruleId)!) }))
+  );
+  return { text: redacted, action, matches };
+};
+
+/** Audit entry for a decision; every matched span is masked whatever its action */
+export const auditEntry = (source: string, stage: SafetyStage, result: SafetyResult): SafetyAuditEntry => {
+  const counts = new Map<string, SafetyAuditEntry['rules'][number]>();
+  for (const m of result.matches) {
+    const existing = counts.get(m.ruleId);
+    if (existing) existing.count++;
+    else counts.set(m.ruleId, { ruleId: m.ruleId, label: m.label, action: m.action, count: 1 });
+  }
+  const masked = replaceSpans(source, result.matches.map(m => ({ ...m, replacement: '▇▇▇' })));
+  return {
+    id: `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    timestamp: Date.now(),
+    stage,
+    action: result.action,
+    rules: [...counts.values()],
+    excerpt: masked.length > EXCERPT_LENGTH ? `${masked.slice(0, EXCERPT_LENGTH)}…` : masked,
+  };
+};
+
+// =============================================================================
+// Settings and audit log
+// =============================================================================
+
+let cachedSettings: SafetySettings | null = null;
+
+export const loadSafetySettings = async (): Promise<SafetySettings> => {
+  if (!cachedSettings) cachedSettings = await readJSON<SafetySettings>(SETTINGS_PATH, DEFAULT_SAFETY_SETTINGS);
+  return cachedSettings;
+};
+
+export const saveSafetySettings = async (settings: SafetySettings): Promise<SafetySettings> => {
+  cachedSettings = settings;
+  await writeJSON(SETTINGS_PATH, settings);
+  return settings;
+};
+
+export const listAuditLog = (): Promise<SafetyAuditEntry[]> => readJSON<SafetyAuditEntry[]>(AUDIT_PATH, []);
+
+export const clearAuditLog = async (): Promise<void> => {
+  await updateJSON<SafetyAuditEntry[]>(AUDIT_PATH, [], () => []);
+};
+
+const appendAudit = (entry: SafetyAuditEntry) =>
+  updateJSON<SafetyAuditEntry[]>(AUDIT_PATH, [], log => [entry, ...log].slice(0, MAX_AUDIT_ENTRIES)).catch(e =>
+    console.log('[Safety] Failed to write audit log:', e.message)
+  );
+
+type DecisionListener = (entry: SafetyAuditEntry) => void;
+const listeners = new Set<DecisionListener>();
+
+/** Be told about every decision (e.g. to show a warning); returns an unsubscribe function */
+export const onSafetyDecision = (listener: DecisionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Filter `text` with the saved settings, log the decision and return the text
+ * to use. Throws when a blocking rule matched.
+ */
+export const checkText = async (text: string, stage: SafetyStage): Promise<string> => {
+  const settings = await loadSafetySettings();
+  if (!settings.enabled) return text;
+
+  const result = filterText(text, stage, settings);
+  const entry = auditEntry(text, stage, result);
+  appendAudit(entry);
+  listeners.forEach(listener => listener(entry));
+
+  if (result.action === 'block') {
+    const labels = entry.rules.filter(r => r.action === 'block').map(r => r.label);
+    throw new Error(`${SafetyStages[stage]} blocked by safety filter (${labels.join(', ')})`);
+  }
+  return result.text;
+};
+
+// =============================================================================
+// SDK wrapper
+// =============================================================================
+
+/**
+ * True when a reply has to be complete before it can be checked; a blocklist
+ * without terms checks nothing. Settings that aren't read yet count as
+ * checking, so nothing streams past a rule before it is known.
+ */
+const filtersResponses = (settings: SafetySettings | null) =>
+  settings === null ||
+  (settings.enabled &&
+    settings.rules.some(
+      r =>
+        r.enabled &&
+        r.action !== 'allow' &&
+        r.stages.includes('response') &&
+        (r.kind !== 'blocklist' || (r.terms ?? []).some(t => t.trim())) &&
+        (r.kind !== 'regex' || !!r.pattern?.trim())
+    ));
+
+/**
+ * SDK whose `generate`, `generateStream`, `transcribeFile` and `synthesize`
+ * check their input and output; everything else is passed through.
+ *
+ * Streamed tokens can't be taken back once shown, so while any rule checks
+ * replies, or the rules are still being read, `generateStream` is hidden and
+ * callers fall back to `generate`
+ * (see `createSDKStreamer`).
+ */
+export const guardSDK = (sdk: any): any => {
+  if (!sdk) return sdk;
+
+  const guarded: Record<string, any> = {
+    async generate(prompt: string, options?: any) {
+      const result = await sdk.generate(await checkText(prompt, 'prompt'), options);
+      if (typeof result?.text !== 'string') return result;
+      return { ...result, text: await checkText(result.text, 'response') };
+    },
+    async generateStream(prompt: string, ...rest: any[]) {
+      return sdk.generateStream(await checkText(prompt, 'prompt'), ...rest);
+    },
+    async transcribeFile(path: string, ...rest: any[]) {
+      const result = await sdk.transcribeFile(path, ...rest);
+      if (typeof result === 'string') return checkText(result, 'transcript');
+      if (typeof result?.text !== 'string') return result;
+      return { ...result, text: await checkText(result.text, 'transcript') };
+    },
+    async synthesize(text: string, ...rest: any[]) {
+      return sdk.synthesize(await checkText(text, 'speech'), ...rest);
+    },
+  };
+
+  // Read the settings early so the first streamed reply already knows whether to stream
+  loadSafetySettings().catch(() => {});
+
+  return new Proxy(sdk, {
+    get(target, property) {
+      if (property === 'generateStream' && (typeof target.generateStream !== 'function' || filtersResponses(cachedSettings))) {
+        return undefined;
+      }
+      if (typeof property === 'string' && property in guarded) return guarded[property];
+      const value = target[property];
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+};
+
+/** The SDK with prompts, replies, transcripts and speech going through the filters */
+export const SafeRunAnywhere = guardSDK(RunAnywhere);
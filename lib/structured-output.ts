@@ -0,0 +1,318 @@
+// =============================================================================
+// Structured (JSON) output
+// =============================================================================
+//
+// Small models rarely emit clean JSON: they wrap it in code fences, add prose
+// around it, or leave trailing commas. The output is extracted and repaired
+// tolerantly, validated against a JSON Schema subset, and the model is
+// re-prompted with the validation errors until it passes or runs out of tries.
+// =============================================================================
+
+import { createMessage, type ChatMessage } from '@/lib/chat-templates';
+
+// =============================================================================
+// Extraction and tolerant parsing
+// =============================================================================
+
+/**
+ * Pull the JSON value out of a model reply: prefers a fenced block, otherwise
+ * the first balanced `{...}` or `[...]`. An unbalanced value (cut off by the
+ * token limit) is returned up to the end of the text.
+ */
+export const extractJsonText = (text: string): string | null => {
+  const fenced = text.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)(?:```|$)/);
+  const source = fenced && /[[{]/.test(fenced[1]!) ? fenced[1]! : text;
+
+  const start = source.search(/[[{]/);
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return source.slice(start, i + 1);
+    }
+  }
+  return source.slice(start).trim();
+};
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+/**
+ * Fix the common mistakes outside of strings: comments, trailing commas,
+ * Python literals, and smart quotes used as delimiters.
+ */
+export const repairJson = (text: string): string => {
+  let out = '';
+  // Quote that opened the current string; smart-quoted strings end at either smart quote
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quote) {
+      if (char === '\\') {
+        out += char + (text[++i] ?? '');
+      } else if (char === '"' || (quote !== '"' && (char === '“' || char === '”'))) {
+        quote = null;
+        out += '"';
+      } else {
+        out += char;
+      }
+      continue;
+    }
+    if (char === '"' || char === '“' || char === '”') {
+      quote = char;
+      out += '"';
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      // Trailing comma: drop it
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = text.slice(i).match(/^\w+/)![0];
+      out += Object.hasOwn(PYTHON_LITERALS, word) ? PYTHON_LITERALS[word] : word;
+      i += word.length - 1;
+    } else {
+      out += char;
+    }
+  }
+  return out;
+};
+
+/** Extract, repair and parse the JSON value in a model reply */
+export const parseModelJson = (text: string): unknown => {
+  const extracted = extractJsonText(text);
+  if (extracted === null) throw new Error('No JSON object or array found in the reply');
+  try {
+    return JSON.parse(extracted);
+  } catch {
+    try {
+      return JSON.parse(repairJson(extracted));
+    } catch (e: any) {
+      throw new Error(`Invalid JSON: ${e.message}`);
+    }
+  }
+};
+
+// =============================================================================
+// Schema validation (JSON Schema subset)
+// =============================================================================
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+export interface SchemaError {
+  /** JSON-pointer-like path, `$` for the root */
+  path: string;
+  message: string;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  if (type === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  return typeOf(value) === type;
+};
+
+const compiledPatterns = new WeakMap<JsonSchema, RegExp>();
+
+/**
+ * Compile every `pattern` in a schema up front, so a bad pattern is reported
+ * as a schema error instead of failing each model reply.
+ */
+export const compileSchemaPatterns = (schema: JsonSchema, path = '$'): void => {
+  if (schema.pattern !== undefined && !compiledPatterns.has(schema)) {
+    try {
+      compiledPatterns.set(schema, new RegExp(schema.pattern));
+    } catch (e: any) {
+      throw new Error(`Schema pattern at ${path} is not a valid regular expression: ${e.message}`);
+    }
+  }
+  for (const [key, child] of Object.entries(schema.properties ?? {})) compileSchemaPatterns(child, `${path}.${key}`);
+  if (schema.items) compileSchemaPatterns(schema.items, `${path}[]`);
+};
+
+/**
+ * Validate `value` against a schema. Supports type, properties, required,
+ * additionalProperties, items, enum, const and the basic range/length/pattern
+ * keywords.
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    fail(`must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must have at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined) {
+      if (!compiledPatterns.has(schema)) compileSchemaPatterns(schema, path);
+      if (!compiledPatterns.get(schema)!.test(value)) fail(`must match /${schema.pattern}/`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(record, key)) errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, child] of Object.entries(record)) {
+      if (Object.hasOwn(properties, key)) errors.push(...validateSchema(child, properties[key]!, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push({ path: `${path}.${key}`, message: 'is not allowed' });
+    }
+  }
+
+  return errors;
+};
+
+/** Parse the user's schema text; throws with a readable message */
+export const parseSchema = (text: string): JsonSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Schema is not valid JSON: ${e.message}`);
+  }
+  if (typeOf(schema) !== 'object') throw new Error('Schema must be a JSON object');
+  compileSchemaPatterns(schema as JsonSchema);
+  return schema as JsonSchema;
+};
+
+// =============================================================================
+// Generate with retries
+// =============================================================================
+
+export const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "title": { "type": "string" },
+    "tags": { "type": "array", "items": { "type": "string" }, "maxItems": 5 },
+    "rating": { "type": "integer", "minimum": 1, "maximum": 5 }
+  },
+  "required": ["title", "tags", "rating"],
+  "additionalProperties": false
+}`;
+
+export interface StructuredAttempt {
+  output: string;
+  /** Why the attempt was rejected; empty when it passed */
+  errors: string[];
+}
+
+export interface StructuredResult {
+  ok: boolean;
+  value?: unknown;
+  attempts: StructuredAttempt[];
+}
+
+/** Runs one chat request and returns the raw reply text */
+export type ChatGenerator = (messages: ChatMessage[]) => Promise<string>;
+
+const formatErrors = (errors: SchemaError[]) => errors.map(e => `${e.path} ${e.message}`);
+
+/**
+ * Ask for JSON matching `schema`, retrying up to `maxRetries` times with the
+ * previous reply and its errors added to the conversation.
+ */
+export const generateStructured = async (options: {
+  prompt: string;
+  schema: JsonSchema;
+  generate: ChatGenerator;
+  maxRetries: number;
+  onAttempt?: (attempt: StructuredAttempt) => void;
+}): Promise<StructuredResult> => {
+  const { prompt, schema, generate, maxRetries, onAttempt } = options;
+  compileSchemaPatterns(schema);
+  const messages: ChatMessage[] = [
+    createMessage(
+      'system',
+      'You reply with a single JSON value and nothing else. No explanations, no markdown. ' +
+        `The JSON must match this JSON Schema:\n${JSON.stringify(schema)}`
+    ),
+    createMessage('user', prompt),
+  ];
+  const attempts: StructuredAttempt[] = [];
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const output = await generate(messages);
+    let errors: string[];
+    let value: unknown;
+    try {
+      value = parseModelJson(output);
+      errors = formatErrors(validateSchema(value, schema));
+    } catch (e: any) {
+      errors = [e.message];
+    }
+
+    const record = { output, errors };
+    attempts.push(record);
+    onAttempt?.(record);
+    if (errors.length === 0) return { ok: true, value, attempts };
+
+    messages.push(
+      createMessage('assistant', output),
+      createMessage(
+        'user',
+        `That reply is not valid:\n${errors.map(e => `- ${e}`).join('\n')}\nReply again with only the corrected JSON.`
+      )
+    );
+  }
+
+  return { ok: false, attempts };
+};
@@ -0,0 +1,224 @@
+// =============================================================================
+// Local tool calling
+// =============================================================================
+//
+// Lets the on-device LLM call local functions. The model is told which tools
+// exist through the system prompt and asked to answer with
+// `<tool_call>{"name": ..., "arguments": {...}}</tool_call>`. Each call is
+// validated against the tool's parameter schema, executed, and the result is
+// fed back until the model answers in plain text or the step limit is hit.
+// =============================================================================
+
+import { createMessage, type ChatMessage } from '@/lib/chat-templates';
+import { parseModelJson, type ChatGenerator } from '@/lib/structured-output';
+
+export type ToolParameterType = 'string' | 'number' | 'boolean';
+
+export interface ToolParameter {
+  type: ToolParameterType;
+  description: string;
+  required?: boolean;
+  enum?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, ToolParameter>;
+  execute: (args: Record<string, unknown>) => Promise<string> | string;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/** One executed call, as shown in the chat */
+export interface ToolStep {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError?: boolean;
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export interface ToolRegistry {
+  list: () => ToolDefinition[];
+  get: (name: string) => ToolDefinition | undefined;
+  /** Validate and run a call; failures come back as an error step instead of throwing */
+  execute: (call: ToolCall) => Promise<ToolStep>;
+}
+
+/** Check call arguments against the tool's parameters; returns one message per problem */
+export const validateToolArguments = (tool: ToolDefinition, args: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  for (const [name, param] of Object.entries(tool.parameters)) {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') {
+      if (param.required) errors.push(`missing required argument "${name}"`);
+      continue;
+    }
+    if (typeof value !== param.type) {
+      errors.push(`"${name}" must be a ${param.type}`);
+    } else if (param.enum && !param.enum.includes(String(value))) {
+      errors.push(`"${name}" must be one of ${param.enum.join(', ')}`);
+    }
+  }
+  for (const name of Object.keys(args)) {
+    if (!Object.hasOwn(tool.parameters, name)) errors.push(`unknown argument "${name}"`);
+  }
+  return errors;
+};
+
+/** Small models often quote numbers and booleans; coerce them to the declared type */
+const coerceArguments = (tool: ToolDefinition, args: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(args).map(([name, value]) => {
+      const type = Object.hasOwn(tool.parameters, name) ? tool.parameters[name]!.type : undefined;
+      if (typeof value === 'string' && type === 'number' && value.trim() !== '' && !isNaN(Number(value))) {
+        return [name, Number(value)];
+      }
+      if (typeof value === 'string' && type === 'boolean' && /^(true|false)$/i.test(value)) {
+        return [name, value.toLowerCase() === 'true'];
+      }
+      return [name, value];
+    })
+  );
+
+export const createToolRegistry = (tools: ToolDefinition[]): ToolRegistry => {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+
+  return {
+    list: () => [...byName.values()],
+    get: name => byName.get(name),
+    execute: async call => {
+      const tool = byName.get(call.name);
+      if (!tool) {
+        return { ...call, result: `Unknown tool "${call.name}". Available: ${[...byName.keys()].join(', ')}`, isError: true };
+      }
+      const args = coerceArguments(tool, call.arguments);
+      const errors = validateToolArguments(tool, args);
+      if (errors.length > 0) {
+        return { name: call.name, arguments: args, result: `Invalid arguments: ${errors.join('; ')}`, isError: true };
+      }
+      try {
+        return { name: call.name, arguments: args, result: await tool.execute(args) };
+      } catch (e: any) {
+        return { name: call.name, arguments: args, result: `Error: ${e.message}`, isError: true };
+      }
+    },
+  };
+};
+
+// =============================================================================
+// Prompt format and parsing
+// =============================================================================
+
+const describeTool = (tool: ToolDefinition) => {
+  const params = Object.entries(tool.parameters)
+    .map(([name, p]) => {
+      const options = p.enum ? ` (one of: ${p.enum.join(', ')})` : '';
+      return `    - ${name}: ${p.type}${p.required ? ', required' : ''} — ${p.description}${options}`;
+    })
+    .join('\n');
+  return `- ${tool.name}: ${tool.description}\n${params}`;
+};
+
+/** System prompt that tells the model which tools exist and how to call them */
+export const buildToolSystemPrompt = (registry: ToolRegistry): string =>
+  [
+    'You can use tools to answer. To call a tool, reply with exactly one line and nothing else:',
+    '<tool_call>{"name": "tool_name", "arguments": {"arg": "value"}}</tool_call>',
+    'You will get the result in a <tool_result> message. Then either call another tool or answer the user in plain text.',
+    'Only call a tool when it helps. Never invent tool results.',
+    '',
+    'Available tools:',
+    ...registry.list().map(describeTool),
+  ].join('\n');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Find a tool call in a model reply. Accepts the `<tool_call>` tags (closed or
+ * not) and, as a fallback, a reply that is nothing but a JSON object with
+ * `name` and `arguments`, so answers that merely contain JSON stay answers.
+ */
+export const parseToolCall = (text: string): ToolCall | null => {
+  const tagged = text.match(/<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/);
+  const bare = text.trim().replace(/^```(?:json|JSON)?\s*([\s\S]*?)\s*```$/, '$1');
+  const candidate = tagged ? tagged[1]! : bare.startsWith('{') && bare.endsWith('}') ? bare : null;
+  if (candidate === null) return null;
+
+  let value: unknown;
+  try {
+    value = parseModelJson(candidate);
+  } catch {
+    return null;
+  }
+  if (!isObject(value) || typeof value.name !== 'string' || !value.name.trim()) return null;
+
+  const args = value.arguments ?? value.parameters;
+  if (!tagged) {
+    const extraKeys = Object.keys(value).some(key => !['name', 'arguments', 'parameters'].includes(key));
+    if (!isObject(args) || extraKeys) return null;
+  }
+  return { name: value.name, arguments: isObject(args) ? args : {} };
+};
+
+export const formatToolResult = (step: ToolStep): string =>
+  `<tool_result name="${step.name}">\n${step.result}\n</tool_result>`;
+
+// =============================================================================
+// Execution loop
+// =============================================================================
+
+export interface ToolLoopResult {
+  text: string;
+  steps: ToolStep[];
+  /** True when the loop stopped at `maxSteps` without a final answer */
+  hitStepLimit: boolean;
+}
+
+/**
+ * Run the model with tools. `messages` is the conversation to answer (system
+ * turns first); the tool instructions are added after the existing system turns.
+ */
+export const runToolLoop = async (options: {
+  messages: ChatMessage[];
+  registry: ToolRegistry;
+  generate: ChatGenerator;
+  maxSteps: number;
+  onStep?: (step: ToolStep) => void;
+}): Promise<ToolLoopResult> => {
+  const { registry, generate, maxSteps, onStep } = options;
+  const firstTurn = options.messages.findIndex(m => m.role !== 'system');
+  const split = firstTurn === -1 ? options.messages.length : firstTurn;
+  const messages = [
+    ...options.messages.slice(0, split),
+    createMessage('system', buildToolSystemPrompt(registry)),
+    ...options.messages.slice(split),
+  ];
+  const steps: ToolStep[] = [];
+
+  for (let step = 0; step <= maxSteps; step++) {
+    const reply = await generate(messages);
+    const call = parseToolCall(reply);
+    if (!call) return { text: reply, steps, hitStepLimit: false };
+    if (step === maxSteps) break;
+
+    const executed = await registry.execute(call);
+    steps.push(executed);
+    onStep?.(executed);
+    messages.push(createMessage('assistant', reply), createMessage('user', formatToolResult(executed)));
+  }
+
+  return {
+    text: 'I could not finish within the tool step limit. Here is what the tools returned so far.',
+    steps,
+    hitStepLimit: true,
+  };
+};
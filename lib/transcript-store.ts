@@ -0,0 +1,66 @@
+// =============================================================================
+// Saved transcripts
+// =============================================================================
+//
+// Every successful STT transcription is kept on-device so it can be searched
+// later (e.g. by the LLM's transcript search tool).
+// =============================================================================
+
+import { readJSON, updateJSON } from '@/lib/json-storage';
+
+export interface Transcript {
+  id: string;
+  text: string;
+  modelId?: string;
+  createdAt: number;
+}
+
+export interface TranscriptMatch {
+  transcript: Transcript;
+  score: number;
+}
+
+const STORAGE_PATH = 'transcripts.json';
+
+/** Oldest transcripts are dropped beyond this count */
+const MAX_TRANSCRIPTS = 500;
+
+export const listTranscripts = (): Promise<Transcript[]> => readJSON<Transcript[]>(STORAGE_PATH, []);
+
+export const saveTranscript = async (text: string, modelId?: string): Promise<Transcript> => {
+  const transcript: Transcript = {
+    id: `tr-${Date.now().toString(36)}`,
+    text: text.trim(),
+    createdAt: Date.now(),
+    ...(modelId ? { modelId } : {}),
+  };
+  await updateJSON<Transcript[]>(STORAGE_PATH, [], transcripts => [transcript, ...transcripts].slice(0, MAX_TRANSCRIPTS));
+  return transcript;
+};
+
+export const deleteTranscript = async (id: string): Promise<void> => {
+  await updateJSON<Transcript[]>(STORAGE_PATH, [], transcripts => transcripts.filter(t => t.id !== id));
+};
+
+const terms = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Transcripts ranked by how many query terms they contain; an exact phrase
+ * match ranks highest.
+ */
+export const searchTranscripts = (transcripts: Transcript[], query: string, limit = 5): TranscriptMatch[] => {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0) return [];
+  const phrase = query.trim().toLowerCase();
+
+  return transcripts
+    .map(transcript => {
+      const words = new Set(terms(transcript.text));
+      const hits = queryTerms.filter(term => words.has(term)).length;
+      const phraseBonus = transcript.text.toLowerCase().includes(phrase) ? 1 : 0;
+      return { transcript, score: hits / queryTerms.length + phraseBonus };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.transcript.createdAt - a.transcript.createdAt)
+    .slice(0, limit);
+};
@@ -0,0 +1,261 @@
+// =============================================================================
+// Voice assistant loop (STT → LLM → TTS)
+// =============================================================================
+//
+// A small state machine: idle → listening → transcribing → thinking →
+// speaking, then back to listening in hands-free mode or to idle otherwise.
+// `voiceTransition` is the pure transition function; `createVoiceAssistant`
+// runs the side effect that belongs to each phase through injected
+// dependencies, so the whole loop can be driven by fakes in tests.
+// =============================================================================
+
+import { createMessage, type ChatMessage } from '@/lib/chat-templates';
+
+export type VoicePhase = 'idle' | 'listening' | 'transcribing' | 'thinking' | 'speaking';
+
+export const VoicePhases: Record<VoicePhase, string> = {
+  idle: 'Tap to talk',
+  listening: 'Listening…',
+  transcribing: 'Transcribing…',
+  thinking: 'Thinking…',
+  speaking: 'Speaking…',
+};
+
+export interface VoiceTurn {
+  id: string;
+  userText: string;
+  replyText: string;
+  createdAt: number;
+}
+
+export interface VoiceState {
+  phase: VoicePhase;
+  /** Start listening again after each answer */
+  handsFree: boolean;
+  turns: VoiceTurn[];
+  /** Recorded audio waiting to be transcribed */
+  audioPath: string | null;
+  /** What the user said in the turn being answered */
+  heard: string | null;
+  /** Answer being spoken */
+  reply: string | null;
+  error: string | null;
+}
+
+export type VoiceEvent =
+  | { type: 'start' }
+  | { type: 'captured'; audioPath: string }
+  | { type: 'transcribed'; text: string }
+  | { type: 'answered'; text: string }
+  | { type: 'spoken' }
+  | { type: 'failed'; error: string }
+  | { type: 'stop' };
+
+export const initialVoiceState = (handsFree = true): VoiceState => ({
+  phase: 'idle',
+  handsFree,
+  turns: [],
+  audioPath: null,
+  heard: null,
+  reply: null,
+  error: null,
+});
+
+const afterTurn = (state: VoiceState): VoicePhase => (state.handsFree ? 'listening' : 'idle');
+
+/** Next state for an event; events that don't apply to the current phase are ignored */
+export const voiceTransition = (state: VoiceState, event: VoiceEvent): VoiceState => {
+  switch (event.type) {
+    case 'start':
+      return state.phase === 'idle' ? { ...state, phase: 'listening', error: null } : state;
+    case 'captured':
+      return state.phase === 'listening' ? { ...state, phase: 'transcribing', audioPath: event.audioPath } : state;
+    case 'transcribed': {
+      if (state.phase !== 'transcribing') return state;
+      const text = event.text.trim();
+      // Nothing intelligible: keep listening rather than ask the model about silence
+      if (!text) return { ...state, phase: afterTurn(state), audioPath: null };
+      return { ...state, phase: 'thinking', audioPath: null, heard: text };
+    }
+    case 'answered': {
+      if (state.phase !== 'thinking' || state.heard === null) return state;
+      const turn: VoiceTurn = {
+        id: `turn-${Date.now().toString(36)}-${state.turns.length}`,
+        userText: state.heard,
+        replyText: event.text,
+        createdAt: Date.now(),
+      };
+      return { ...state, phase: 'speaking', turns: [...state.turns, turn], heard: null, reply: event.text };
+    }
+    case 'spoken':
+      return state.phase === 'speaking' ? { ...state, phase: afterTurn(state), reply: null } : state;
+    case 'failed':
+      if (state.phase === 'idle') return state;
+      return { ...state, phase: 'idle', audioPath: null, heard: null, reply: null, error: event.error };
+    case 'stop':
+      return { ...state, phase: 'idle', audioPath: null, heard: null, reply: null };
+  }
+};
+
+// =============================================================================
+// End-of-speech detection
+// =============================================================================
+
+export interface SilenceOptions {
+  /** Input level (0–1) above which the user counts as speaking */
+  threshold: number;
+  /** Quiet time after speech that ends the utterance */
+  silenceMs: number;
+  /** Longest utterance before listening stops anyway */
+  maxMs: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = { threshold: 0.04, silenceMs: 1200, maxMs: 15000 };
+
+/** Feed input levels with their time; `push` returns true once the utterance is over */
+export const createSilenceDetector = (options: SilenceOptions = DEFAULT_SILENCE_OPTIONS) => {
+  let startedAt: number | null = null;
+  let lastSpeechAt: number | null = null;
+  return {
+    push(level: number, now: number): boolean {
+      startedAt ??= now;
+      if (level >= options.threshold) lastSpeechAt = now;
+      if (now - startedAt >= options.maxMs) return true;
+      return lastSpeechAt !== null && now - lastSpeechAt >= options.silenceMs;
+    },
+  };
+};
+
+// =============================================================================
+// Controller
+// =============================================================================
+
+export interface VoiceAssistantDeps {
+  /** Start recording; `onLevel` reports the input level for end-of-speech detection */
+  startListening: (onLevel: (level: number) => void) => Promise<void>;
+  /** Stop recording and return the audio file to transcribe */
+  stopListening: () => Promise<string>;
+  cancelListening: () => Promise<void>;
+  transcribe: (audioPath: string) => Promise<string>;
+  /** Answer the last user message; earlier turns are included for context */
+  generate: (history: ChatMessage[]) => Promise<string>;
+  /** Resolves when the answer has been spoken */
+  speak: (text: string) => Promise<void>;
+  stopSpeaking: () => Promise<void>;
+  /** Defaults to Date.now; tests pass a fake clock */
+  now?: () => number;
+}
+
+export interface VoiceAssistantOptions {
+  handsFree?: boolean;
+  /** Past turns sent to the model with each question */
+  historyTurns?: number;
+  silence?: SilenceOptions;
+  onChange?: (state: VoiceState) => void;
+}
+
+export type VoiceAssistant = ReturnType<typeof createVoiceAssistant>;
+
+export const createVoiceAssistant = (deps: VoiceAssistantDeps, options: VoiceAssistantOptions = {}) => {
+  const now = deps.now ?? Date.now;
+  const historyTurns = options.historyTurns ?? 4;
+  let state = initialVoiceState(options.handsFree ?? true);
+  // Bumped on stop so results of work started before it are dropped
+  let run = 0;
+  // Set while the utterance is being stopped, so a tap and the silence detector can't both stop it
+  let finishing = false;
+
+  const fail = (e: any) => dispatch({ type: 'failed', error: e?.message ?? String(e) });
+
+  const dispatch = (event: VoiceEvent) => {
+    const previous = state;
+    state = voiceTransition(state, event);
+    if (state === previous) return;
+    options.onChange?.(state);
+    if (state.phase !== previous.phase) enter(state);
+  };
+
+  /** Run `task` and dispatch its result unless the assistant was stopped meanwhile */
+  const perform = <T>(task: () => Promise<T>, toEvent: (result: T) => VoiceEvent) => {
+    const token = run;
+    task()
+      .then(result => token === run && dispatch(toEvent(result)))
+      .catch(e => token === run && fail(e));
+  };
+
+  const enter = (current: VoiceState) => {
+    switch (current.phase) {
+      case 'listening': {
+        finishing = false;
+        const detector = createSilenceDetector(options.silence);
+        const token = run;
+        let ended = false;
+        deps
+          .startListening(level => {
+            if (ended || token !== run || state.phase !== 'listening') return;
+            if (state.handsFree && detector.push(level, now())) {
+              ended = true;
+              finishListening();
+            }
+          })
+          .catch(e => token === run && fail(e));
+        return;
+      }
+      case 'transcribing':
+        perform(() => deps.transcribe(current.audioPath!), text => ({ type: 'transcribed', text }));
+        return;
+      case 'thinking': {
+        const history = current.turns
+          .slice(-historyTurns)
+          .flatMap(turn => [createMessage('user', turn.userText), createMessage('assistant', turn.replyText)]);
+        perform(
+          () => deps.generate([...history, createMessage('user', current.heard!)]),
+          text => ({ type: 'answered', text: text.trim() })
+        );
+        return;
+      }
+      case 'speaking':
+        perform(
+          () => (current.reply ? deps.speak(current.reply) : Promise.resolve()),
+          () => ({ type: 'spoken' })
+        );
+        return;
+      case 'idle':
+        return;
+    }
+  };
+
+  /** End the current utterance and move on to transcription */
+  const finishListening = () => {
+    if (state.phase !== 'listening' || finishing) return;
+    finishing = true;
+    perform(deps.stopListening, audioPath => ({ type: 'captured', audioPath }));
+  };
+
+  const stop = async () => {
+    const phase = state.phase;
+    run++;
+    dispatch({ type: 'stop' });
+    try {
+      if (phase === 'listening') await deps.cancelListening();
+      if (phase === 'speaking') await deps.stopSpeaking();
+    } catch (e: any) {
+      console.log('[Voice] Stop failed:', e.message);
+    }
+  };
+
+  return {
+    getState: () => state,
+    start: () => dispatch({ type: 'start' }),
+    finishListening,
+    stop,
+    setHandsFree: (handsFree: boolean) => {
+      state = { ...state, handsFree };
+      options.onChange?.(state);
+    },
+    clearTurns: () => {
+      state = { ...state, turns: [] };
+      options.onChange?.(state);
+    },
+  };
+};